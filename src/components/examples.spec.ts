@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { getComponentExample, getComponentSnippetText } from './examples'
+import type { MDCComponentData } from './metadata'
+
+const CARD: MDCComponentData = {
+  mdc_name: 'card',
+  component_meta: {
+    meta: {
+      props: [
+        { name: 'title', type: 'string', required: true },
+        { name: 'variant', type: '"outline" | "filled"', required: true, default: '"filled"' },
+        { name: 'maxItems', type: 'number', required: true },
+        { name: 'icon', type: 'string | undefined', required: false },
+      ],
+      slots: [{ name: 'default' }, { name: 'footer' }],
+    },
+  },
+}
+
+describe('components/examples', () => {
+  it('should build an example with the required props and named slots', () => {
+    expect(getComponentExample(CARD)).toBe([
+      '::card{title="Title" variant="filled" :max-items="0"}',
+      '#footer',
+      'Footer content',
+      '#default',
+      'card content',
+      '::',
+    ].join('\n'))
+  })
+
+  it('should build a snippet with tab stops and choices', () => {
+    expect(getComponentSnippetText(CARD)).toBe([
+      '::card{title="${1:Title}" variant="${2|outline,filled|}" :max-items="${3:0}"}',
+      '#footer',
+      '${4:Footer content}',
+      '#default',
+      '$0',
+      '::',
+    ].join('\n'))
+  })
+
+  it('should build a plain block for components without props and slots', () => {
+    expect(getComponentExample({ mdc_name: 'divider' })).toBe('::divider\ndivider content\n::')
+  })
+})
@@ -0,0 +1,121 @@
+import type { MDCComponentData, MDCComponentProp } from './metadata'
+
+/** A prop value of a generated component block */
+interface ExampleProp {
+  name: string
+  /** Value of the prop, a JSON expression for bound props */
+  value: string
+  /** Literal values offered as a choice when inserting the component */
+  choices: string[]
+  bound: boolean
+}
+
+/**
+ * Converts a camelCase prop name to the kebab-case name used in MDC
+ * @param name The prop name
+ * @returns The kebab-case name
+ */
+function toKebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)
+}
+
+/**
+ * Removes the quotes around a default value or literal type
+ * @param value The value
+ * @returns The unquoted value
+ */
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2')
+}
+
+/**
+ * Picks an example value for a prop from its default value and type
+ * @param prop The prop metadata
+ * @returns The example value
+ */
+function getExampleProp(prop: MDCComponentProp): ExampleProp {
+  const types = prop.type.split('|').map(type => type.trim()).filter(type => type && type !== 'undefined' && type !== 'null')
+  const choices = types.filter(type => /^(["']).*\1$/.test(type)).map(unquote)
+  const name = toKebabCase(prop.name)
+  const defaultValue = prop.default !== undefined ? unquote(prop.default) : undefined
+
+  if (choices.length > 0) {
+    return { name, value: defaultValue && choices.includes(defaultValue) ? defaultValue : choices[0], choices, bound: false }
+  }
+  if (types.includes('boolean')) {
+    return { name, value: 'true', choices: [], bound: true }
+  }
+  if (types.includes('number')) {
+    return { name, value: defaultValue && !Number.isNaN(Number(defaultValue)) ? defaultValue : '0', choices: [], bound: true }
+  }
+  return { name, value: defaultValue || prop.name.replace(/^./, letter => letter.toUpperCase()), choices: [], bound: false }
+}
+
+/**
+ * Escapes text for use in a VS Code snippet
+ * @param text The literal text
+ * @returns The escaped text
+ */
+function escapeSnippetText(text: string): string {
+  return text.replace(/[\\$}]/g, '\\$&')
+}
+
+/**
+ * Builds an MDC block for a component with its required props and named slots
+ * @param component The component metadata
+ * @param asSnippet Whether to add tab stops for the props and content
+ * @returns The component block
+ */
+function buildComponentBlock(component: MDCComponentData, asSnippet: boolean): string {
+  const meta = component.component_meta?.meta
+  const props = (meta?.props ?? []).filter(prop => prop.required && !prop.global).map(getExampleProp)
+  const slots = (meta?.slots ?? []).map(slot => slot.name).filter(name => name !== 'default')
+  let tabStop = 0
+
+  const propText = props.map((prop) => {
+    let value = asSnippet ? escapeSnippetText(prop.value) : prop.value
+    if (asSnippet) {
+      tabStop++
+      value = prop.choices.length > 1
+        ? `\${${tabStop}|${prop.choices.map(choice => choice.replace(/[\\$}|,]/g, '\\$&')).join(',')}|}`
+        : `\${${tabStop}:${value}}`
+    }
+    return `${prop.bound ? ':' : ''}${prop.name}="${value}"`
+  }).join(' ')
+
+  const slotText = slots.map((slot) => {
+    const content = `${slot.replace(/^./, letter => letter.toUpperCase())} content`
+    if (!asSnippet) {
+      return `#${slot}\n${content}`
+    }
+    tabStop++
+    return `#${slot}\n\${${tabStop}:${escapeSnippetText(content)}}`
+  })
+
+  const defaultContent = asSnippet ? '$0' : `${component.mdc_name} content`
+  return [
+    `::${component.mdc_name}${propText ? `{${propText}}` : ''}`,
+    ...slotText,
+    ...slots.length > 0 ? ['#default'] : [],
+    defaultContent,
+    '::',
+  ].join('\n')
+}
+
+/**
+ * Builds an example block of a component, used to render it in the portal
+ * @param component The component metadata
+ * @returns MDC content using the component with its required props and named slots
+ */
+export function getComponentExample(component: MDCComponentData): string {
+  return buildComponentBlock(component, false)
+}
+
+/**
+ * Builds the snippet inserted into the editor for a component
+ * @param component The component metadata
+ * @returns VS Code snippet text with tab stops for the required props and slot contents
+ */
+export function getComponentSnippetText(component: MDCComponentData): string {
+  return buildComponentBlock(component, true)
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest'
+import { renderComponentGallery } from './gallery'
+
+vi.mock('vscode', () => ({
+  window: {},
+  workspace: {
+    getConfiguration: vi.fn(() => ({ get: vi.fn((_key: string, defaultValue: unknown) => defaultValue) })),
+  },
+}))
+
+vi.mock('../utils/webview', () => ({
+  generateWebviewHTML: vi.fn(),
+  loadWebviewCSS: vi.fn(),
+  loadWebviewJS: vi.fn(),
+}))
+
+describe('renderComponentGallery', () => {
+  it('should list the components sorted by name with their props and slots', () => {
+    const html = renderComponentGallery([
+      { mdc_name: 'page-hero' },
+      {
+        mdc_name: 'alert',
+        description: 'Shows <important> information',
+        component_meta: {
+          meta: {
+            props: [
+              { name: 'type', type: '"info" | "warning"', required: true, default: '"info"' },
+              { name: 'class', type: 'string', required: false, global: true },
+            ],
+            slots: [{ name: 'title' }],
+          },
+        },
+      },
+    ], 'Developer Portal')
+
+    expect(html.indexOf('data-component="alert"')).toBeLessThan(html.indexOf('data-component="page-hero"'))
+    expect(html).toContain('Developer Portal components')
+    expect(html).toContain('Shows &lt;important&gt; information')
+    expect(html).toContain('<code>type</code> *')
+    expect(html).toContain('<code>&quot;info&quot; | &quot;warning&quot;</code>')
+    expect(html).not.toContain('<code>class</code>')
+    expect(html).toContain('<code>#title</code>')
+  })
+})
@@ -0,0 +1,278 @@
+import { window, ProgressLocation, SnippetString, ViewColumn } from 'vscode'
+import type { Disposable, ExtensionContext, TextEditor, WebviewPanel } from 'vscode'
+import { randomUUID } from 'uncrypto'
+import { getConfiguration } from '../extension'
+import type { ComponentGalleryMessage, WebviewLoadingMessage, WebviewUpdateContentMessage } from '../types'
+import { getPreviewOrigin } from '../storage'
+import type { StoredPortalConfig } from '../types/konnect'
+import { debug } from '../utils/debug'
+import { generateWebviewHTML, loadWebviewCSS, loadWebviewJS } from '../utils/webview'
+import { getComponentExample, getComponentSnippetText } from './examples'
+import type { ComponentMetadataService, MDCComponentData } from './metadata'
+
+/** Snippet name the component examples are rendered as, so the portal shows them without page chrome */
+const GALLERY_SNIPPET_NAME = 'konnect-component-gallery'
+
+/**
+ * Escapes text for use in HTML
+ * @param text The text to escape
+ * @returns The escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Renders the details of a component: description, props and slots
+ * @param component The component metadata
+ * @returns HTML for the component entry
+ */
+function renderComponent(component: MDCComponentData): string {
+  const meta = component.component_meta?.meta
+  const props = (meta?.props ?? []).filter(prop => !prop.global)
+  const slots = meta?.slots ?? []
+  const name = escapeHtml(component.mdc_name)
+
+  const propRows = props.map(prop => `
+        <tr>
+          <td><code>${escapeHtml(prop.name)}</code>${prop.required ? ' *' : ''}</td>
+          <td><code>${escapeHtml(prop.type)}</code></td>
+          <td>${prop.default !== undefined ? `<code>${escapeHtml(prop.default)}</code>` : ''}</td>
+        </tr>`).join('')
+  const slotItems = slots.map(slot => `<code>#${escapeHtml(slot.name)}</code>${slot.description ? ` ${escapeHtml(slot.description)}` : ''}`)
+
+  return `
+    <details class="gallery-item" data-component="${name}">
+      <summary data-action="select">${name}</summary>
+      ${component.description ? `<p class="gallery-description">${escapeHtml(component.description)}</p>` : ''}
+      ${props.length > 0
+        ? `<table class="gallery-table"><thead><tr><th>Prop</th><th>Type</th><th>Default</th></tr></thead><tbody>${propRows}</tbody></table>`
+        : '<p class="gallery-description">No props</p>'}
+      ${slotItems.length > 0 ? `<p class="gallery-description">Slots: ${slotItems.join(', ')}</p>` : ''}
+      <div class="gallery-actions">
+        <button type="button" class="toolbar-button" data-action="select">Preview</button>
+        <button type="button" class="toolbar-button" data-action="insert">Insert</button>
+      </div>
+    </details>`
+}
+
+/**
+ * Renders the component list shown next to the portal preview of the gallery
+ * @param components The components of the portal
+ * @param portalName Display name of the portal
+ * @returns HTML for the gallery sidebar, including the script posting selections to the extension
+ */
+export function renderComponentGallery(components: MDCComponentData[], portalName: string): string {
+  const sorted = [...components].sort((a, b) => a.mdc_name.localeCompare(b.mdc_name))
+  return `
+  <aside class="gallery-sidebar">
+    <h2 class="gallery-title">${escapeHtml(portalName)} components</h2>
+    <input type="search" class="toolbar-input gallery-search" id="gallery-search" placeholder="Filter components" aria-label="Filter components">
+    ${sorted.map(renderComponent).join('')}
+  </aside>
+  <script>
+    document.querySelector('.gallery-sidebar').addEventListener('click', function(event) {
+      const target = event.target.closest('[data-action]')
+      const item = target && target.closest('[data-component]')
+      if (!item) {
+        return
+      }
+      document.querySelectorAll('.gallery-item.selected').forEach(function(selected) {
+        selected.classList.remove('selected')
+      })
+      item.classList.add('selected')
+      // The VS Code API is acquired by the preview script loaded after the sidebar
+      vscode.postMessage({ type: 'webview:gallery:' + target.getAttribute('data-action'), component: item.getAttribute('data-component') })
+    })
+    document.getElementById('gallery-search').addEventListener('input', function(event) {
+      const filter = event.target.value.trim().toLowerCase()
+      document.querySelectorAll('.gallery-item').forEach(function(item) {
+        item.hidden = !item.getAttribute('data-component').includes(filter)
+      })
+    })
+  </script>`
+}
+
+/**
+ * Webview panel listing the MDC components of the selected portal. Examples are rendered by the portal
+ * through the same iframe protocol as the preview, and components can be inserted at the cursor.
+ */
+export class ComponentGalleryProvider implements Disposable {
+  public static readonly viewType = 'portalComponentGallery'
+
+  private panel: WebviewPanel | undefined
+  private portal: StoredPortalConfig | undefined
+  private components: MDCComponentData[] = []
+  private selected: string | undefined
+  private readonly previewId = randomUUID()
+
+  /** Editor the components are inserted into, the gallery itself takes focus when clicked */
+  private lastEditor: TextEditor | undefined = window.activeTextEditor
+
+  private disposables: Disposable[] = []
+
+  constructor(
+    private readonly context: ExtensionContext,
+    private readonly metadataService: ComponentMetadataService,
+  ) {
+    this.disposables.push(window.onDidChangeActiveTextEditor((editor) => {
+      if (editor) {
+        this.lastEditor = editor
+      }
+    }))
+  }
+
+  /**
+   * Opens the gallery for a portal, or shows the components of another portal in the open gallery
+   * @param portal The portal whose components are listed
+   */
+  public async open(portal: StoredPortalConfig): Promise<void> {
+    const components = await window.withProgress(
+      { location: ProgressLocation.Notification, title: `Loading components of ${portal.displayName}...` },
+      () => this.metadataService.getComponents(getPreviewOrigin(portal)),
+    )
+    if (components.length === 0) {
+      window.showInformationMessage(`Portal ${portal.displayName} does not provide any MDC components.`)
+      return
+    }
+
+    this.portal = portal
+    this.components = components
+    if (!components.some(component => component.mdc_name === this.selected)) {
+      this.selected = components[0].mdc_name
+    }
+
+    if (!this.panel) {
+      this.panel = this.createPanel()
+    }
+    this.panel.title = `Components: ${portal.displayName}`
+    this.panel.webview.html = this.getWebviewContent(portal, components)
+    this.panel.reveal()
+  }
+
+  /** Creates the gallery panel and listens to its messages */
+  private createPanel(): WebviewPanel {
+    const panel = window.createWebviewPanel(
+      ComponentGalleryProvider.viewType,
+      'Components',
+      { viewColumn: ViewColumn.Beside, preserveFocus: true },
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        enableForms: true,
+        localResourceRoots: [],
+      },
+    )
+
+    panel.onDidDispose(() => {
+      this.panel = undefined
+    }, null, this.disposables)
+
+    panel.webview.onDidReceiveMessage((message: ComponentGalleryMessage) => {
+      this.handleWebviewMessage(message).catch((error) => {
+        debug.error('Failed to handle component gallery message:', error)
+      })
+    }, undefined, this.disposables)
+
+    return panel
+  }
+
+  /**
+   * Handles messages from the preview script and the component list
+   * @param message The webview message
+   */
+  private async handleWebviewMessage(message: ComponentGalleryMessage): Promise<void> {
+    switch (message.type) {
+      case 'webview:request:content':
+        // Portal is ready, render the selected component
+        this.postExample()
+        break
+      case 'webview:gallery:select':
+        this.selected = message.component
+        this.postExample()
+        break
+      case 'webview:gallery:insert':
+        await this.insertComponent(message.component)
+        break
+      case 'webview:warning':
+        debug.warn('Component gallery warning:', message.warning)
+        break
+      default:
+        debug.log('Received unhandled message from component gallery:', message.type)
+        break
+    }
+  }
+
+  /** Sends the example of the selected component to the portal iframe */
+  private postExample(): void {
+    const component = this.components.find(item => item.mdc_name === this.selected)
+    if (!this.panel || !this.portal || !component) {
+      return
+    }
+
+    const updateMessage: WebviewUpdateContentMessage = {
+      type: 'webview:update:content',
+      content: getComponentExample(component),
+      config: getConfiguration(),
+      portalConfig: { origin: getPreviewOrigin(this.portal) },
+      previewId: this.previewId,
+      snippetName: GALLERY_SNIPPET_NAME,
+    }
+    const loadingMessage: WebviewLoadingMessage = {
+      type: 'webview:loading',
+      loading: false,
+    }
+    this.panel.webview.postMessage(updateMessage)
+    this.panel.webview.postMessage(loadingMessage)
+  }
+
+  /**
+   * Inserts a component block at the cursor of the last active editor
+   * @param name Name of the component
+   */
+  private async insertComponent(name: string): Promise<void> {
+    const component = this.components.find(item => item.mdc_name === name)
+    const editor = window.visibleTextEditors.find(visibleEditor => visibleEditor === this.lastEditor)
+    if (!component) {
+      return
+    }
+    if (!editor) {
+      window.showWarningMessage('Open a page or snippet to insert the component into.')
+      return
+    }
+
+    const target = await window.showTextDocument(editor.document, editor.viewColumn)
+    await target.insertSnippet(new SnippetString(getComponentSnippetText(component)))
+  }
+
+  /**
+   * Generates the HTML of the gallery: the component list next to the portal preview
+   * @param portal The portal rendering the examples
+   * @param components The components of the portal
+   * @returns Complete HTML content for the webview
+   */
+  private getWebviewContent(portal: StoredPortalConfig, components: MDCComponentData[]): string {
+    const cssContent = loadWebviewCSS(this.context.extensionPath)
+    const jsContent = loadWebviewJS(this.context.extensionPath, getConfiguration(), this.previewId)
+    return generateWebviewHTML(
+      this.context.extensionPath,
+      portal,
+      this.previewId,
+      cssContent,
+      jsContent,
+      `/_preview-mode/snippets/${GALLERY_SNIPPET_NAME}`,
+      renderComponentGallery(components, portal.displayName),
+    )
+  }
+
+  public dispose(): void {
+    this.panel?.dispose()
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
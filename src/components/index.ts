@@ -0,0 +1,104 @@
+import { languages, workspace, Diagnostic, DiagnosticSeverity, Range } from 'vscode'
+import type { DiagnosticCollection, Disposable, TextDocument } from 'vscode'
+import { getConfiguration } from '../extension'
+import { CONFIG_SECTION } from '../constants/config'
+import { getPreviewOrigin } from '../storage'
+import type { PortalStorageService } from '../storage'
+import { debug } from '../utils/debug'
+import { getDocumentPathInfo } from '../utils/page-path'
+import type { ComponentMetadataService } from './metadata'
+import { validateComponents } from './validate'
+
+/** Source shown next to component diagnostics */
+const DIAGNOSTIC_SOURCE = 'Konnect Portal'
+
+/**
+ * Checks whether a document is a page or snippet whose components should be validated
+ * @param document The document to check
+ * @returns true for Markdown/MDC documents in the pages or snippets directory
+ */
+function isComponentDocument(document: TextDocument): boolean {
+  const fileName = document.fileName.toLowerCase()
+  const isMarkdownOrMDC = ['markdown', 'md', 'mdc'].includes(document.languageId) || fileName.endsWith('.md') || fileName.endsWith('.mdc')
+  if (!isMarkdownOrMDC) {
+    return false
+  }
+  const config = getConfiguration(document.uri)
+  return getDocumentPathInfo(document, config.pagesDirectory, config.snippetsDirectory, config.snippetNaming).type !== 'default'
+}
+
+/**
+ * Validates the components of a document against the metadata of the selected portal
+ * @param document The document to validate
+ * @param collection The diagnostic collection to update
+ * @param metadataService Source of the portal component metadata
+ * @param storageService Storage of the selected portal
+ */
+export async function updateComponentDiagnostics(
+  document: TextDocument,
+  collection: DiagnosticCollection,
+  metadataService: ComponentMetadataService,
+  storageService: PortalStorageService,
+): Promise<void> {
+  const portal = getConfiguration().validateComponents && isComponentDocument(document)
+    ? await storageService.getSelectedPortal(document.uri)
+    : undefined
+  if (!portal) {
+    collection.delete(document.uri)
+    return
+  }
+
+  const version = document.version
+  const components = await metadataService.getComponents(getPreviewOrigin(portal))
+  // A newer edit schedules its own validation
+  if (document.version !== version || document.isClosed) {
+    return
+  }
+  // Without metadata every component would be reported as unknown
+  if (components.length === 0) {
+    collection.delete(document.uri)
+    return
+  }
+
+  collection.set(document.uri, validateComponents(document.getText(), components).map((problem) => {
+    const diagnostic = new Diagnostic(
+      new Range(problem.line, problem.start, problem.line, Math.max(problem.end, problem.start + 1)),
+      problem.message,
+      problem.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+    )
+    diagnostic.source = DIAGNOSTIC_SOURCE
+    return diagnostic
+  }))
+}
+
+/**
+ * Registers validation of MDC components against the component metadata of the selected portal
+ * @param metadataService Source of the portal component metadata
+ * @param storageService Storage of the selected portal
+ * @returns Disposables for the diagnostic collection and listeners
+ */
+export function registerComponentSupport(metadataService: ComponentMetadataService, storageService: PortalStorageService): Disposable[] {
+  const collection = languages.createDiagnosticCollection('konnect-components')
+  const validate = (document: TextDocument) => {
+    updateComponentDiagnostics(document, collection, metadataService, storageService).catch((error) => {
+      debug.error('Failed to validate components:', error)
+    })
+  }
+  const validateAll = () => workspace.textDocuments.forEach(validate)
+
+  validateAll()
+  debug.log('Component support registered')
+
+  return [
+    collection,
+    workspace.onDidOpenTextDocument(validate),
+    workspace.onDidChangeTextDocument(event => validate(event.document)),
+    workspace.onDidCloseTextDocument(document => collection.delete(document.uri)),
+    workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration(CONFIG_SECTION)) {
+        validateAll()
+      }
+    }),
+    metadataService.onDidChange(validateAll),
+  ]
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ComponentMetadataService } from './metadata'
+
+vi.mock('vscode', () => ({
+  EventEmitter: class {
+    event = vi.fn()
+    fire = vi.fn()
+    dispose = vi.fn()
+  },
+  workspace: {
+    getConfiguration: vi.fn(() => ({ get: vi.fn((_key: string, defaultValue: unknown) => defaultValue) })),
+  },
+}))
+
+const ORIGIN = 'https://example.konghq.com'
+const COMPONENTS = [{ mdc_name: 'alert' }, { mdc_name: 'badge' }]
+
+describe('ComponentMetadataService', () => {
+  let state: Map<string, unknown>
+  let service: ComponentMetadataService
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    state = new Map()
+    const context = {
+      globalState: {
+        get: vi.fn((key: string, defaultValue: unknown) => state.get(key) ?? defaultValue),
+        update: vi.fn(async (key: string, value: unknown) => {
+          state.set(key, value)
+        }),
+      },
+    }
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+    service = new ComponentMetadataService(context as any)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should fetch the components of a portal once', async () => {
+    fetchMock.mockResolvedValue({ ok: true, json: async () => [...COMPONENTS, { name: 'invalid' }] })
+
+    expect(await service.getComponents(ORIGIN)).toEqual(COMPONENTS)
+    expect(await service.getComponents(ORIGIN)).toEqual(COMPONENTS)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock).toHaveBeenCalledWith(`${ORIGIN}/api/components/mdc`, expect.anything())
+  })
+
+  it('should fall back to the persisted components when the portal is unreachable', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: true, json: async () => COMPONENTS })
+    await service.getComponents(ORIGIN)
+
+    fetchMock.mockRejectedValueOnce(new Error('Network error'))
+    service.refresh(ORIGIN)
+
+    expect(await service.getComponents(ORIGIN)).toEqual(COMPONENTS)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('should return no components when nothing was persisted', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' })
+
+    expect(await service.getComponents(ORIGIN)).toEqual([])
+  })
+})
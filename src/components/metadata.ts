@@ -0,0 +1,127 @@
+import { EventEmitter } from 'vscode'
+import type { Disposable, Event, ExtensionContext } from 'vscode'
+import { debug } from '../utils/debug'
+
+/** globalState key prefix of the last component metadata fetched from each portal origin */
+const METADATA_STATE_KEY = 'kong.konnect.devPortal.componentMetadata'
+
+/** A prop of a portal component, as described by vue-component-meta */
+export interface MDCComponentProp {
+  name: string
+  /** TypeScript type of the prop, e.g. `string | undefined` or `"info" | "warning"` */
+  type: string
+  required: boolean
+  description?: string
+  default?: string
+  /** Set for props every component accepts, e.g. `class` */
+  global?: boolean
+}
+
+/** A slot of a portal component */
+export interface MDCComponentSlot {
+  name: string
+  description?: string
+}
+
+/** A portal component, in the format served by `${origin}/api/components/mdc` */
+export interface MDCComponentData {
+  /** Kebab-case name used in MDC, e.g. `page-hero` */
+  mdc_name: string
+  description?: string
+  documentation_url?: string
+  component_meta?: {
+    meta?: {
+      props?: MDCComponentProp[]
+      slots?: MDCComponentSlot[]
+    }
+  }
+}
+
+/**
+ * Builds the URL of the component metadata of a portal
+ * @param origin The portal origin, e.g. `https://example.com`
+ * @returns The metadata URL
+ */
+export function getComponentMetadataUrl(origin: string): string {
+  return `${origin}/api/components/mdc`
+}
+
+/**
+ * Fetches the MDC component metadata of a portal
+ * @param origin The portal origin
+ * @returns The components of the portal
+ */
+export async function fetchComponentMetadata(origin: string): Promise<MDCComponentData[]> {
+  const response = await fetch(getComponentMetadataUrl(origin), { headers: { 'Accept': 'application/json' } })
+  if (!response.ok) {
+    throw new Error(`Failed to fetch component metadata: ${response.status} ${response.statusText}`)
+  }
+  const data = await response.json()
+  return Array.isArray(data) ? data.filter(component => typeof component?.mdc_name === 'string') : []
+}
+
+/**
+ * Loads and caches the component metadata of portals. The last successful response of each origin is
+ * persisted so components can still be validated while the portal is unreachable.
+ */
+export class ComponentMetadataService implements Disposable {
+  private readonly changeEmitter = new EventEmitter<void>()
+
+  /** Fires when cached metadata is discarded */
+  public readonly onDidChange: Event<void> = this.changeEmitter.event
+
+  /** Component metadata per portal origin */
+  private readonly cache = new Map<string, Promise<MDCComponentData[]>>()
+
+  constructor(private readonly context: ExtensionContext) {}
+
+  /**
+   * Returns the components of a portal, fetching them on first use
+   * @param origin The portal origin
+   * @returns The components, empty if they were never loaded successfully
+   */
+  public getComponents(origin: string): Promise<MDCComponentData[]> {
+    let components = this.cache.get(origin)
+    if (!components) {
+      components = this.load(origin)
+      this.cache.set(origin, components)
+    }
+    return components
+  }
+
+  /**
+   * Discards cached metadata so it is fetched again on next access
+   * @param origin The portal origin to refresh, or undefined to refresh all portals
+   */
+  public refresh(origin?: string): void {
+    if (origin) {
+      this.cache.delete(origin)
+    } else {
+      this.cache.clear()
+    }
+    this.changeEmitter.fire()
+  }
+
+  /**
+   * Fetches the components of a portal, falling back to the persisted metadata
+   * @param origin The portal origin
+   * @returns The components
+   */
+  private async load(origin: string): Promise<MDCComponentData[]> {
+    const key = `${METADATA_STATE_KEY}:${origin}`
+    try {
+      const components = await fetchComponentMetadata(origin)
+      debug.log('Loaded portal component metadata:', { origin, count: components.length })
+      await this.context.globalState.update(key, components)
+      return components
+    } catch (error) {
+      // The persisted copy is used until the next refresh retries the request
+      debug.warn('Failed to load portal component metadata, using the persisted copy:', error)
+      return this.context.globalState.get<MDCComponentData[]>(key, [])
+    }
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose()
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { validateComponents } from './validate'
+import type { MDCComponentData } from './metadata'
+
+const COMPONENTS: MDCComponentData[] = [
+  {
+    mdc_name: 'alert',
+    component_meta: {
+      meta: {
+        props: [
+          { name: 'type', type: '"info" | "warning" | undefined', required: false },
+          { name: 'showIcon', type: 'boolean | undefined', required: false },
+        ],
+        slots: [{ name: 'default' }, { name: 'title' }],
+      },
+    },
+  },
+  {
+    mdc_name: 'badge',
+    component_meta: {
+      meta: {
+        props: [
+          { name: 'label', type: 'string', required: true },
+          { name: 'count', type: 'number | undefined', required: false },
+        ],
+      },
+    },
+  },
+]
+
+/** Validates lines of MDC and returns the messages with their positions */
+const validate = (...lines: string[]) => validateComponents(lines.join('\n'), COMPONENTS)
+  .map(problem => [problem.line, problem.start, problem.end, problem.message])
+
+describe('components/validate', () => {
+  it('should accept known components, props and slots', () => {
+    expect(validate(
+      '::alert{type="info" show-icon #intro .wide}',
+      '#title',
+      'Heads up',
+      '::',
+      'Count :badge{label="New" :count="3"}',
+    )).toEqual([])
+  })
+
+  it('should report unknown components and props', () => {
+    expect(validate(
+      '::callout',
+      '::',
+      ':badge[New]{label="New" colour="green"}',
+    )).toEqual([
+      [0, 2, 9, 'Component "callout" is not provided by the selected portal.'],
+      [2, 24, 30, 'Component "badge" has no prop "colour".'],
+    ])
+  })
+
+  it('should report mistyped props and missing required props', () => {
+    expect(validate(
+      '::alert{type="danger"}',
+      '::',
+      ':badge{:count="many"}',
+    )).toEqual([
+      [0, 8, 12, 'Prop "type" of component "alert" expects "info" | "warning", not "danger".'],
+      [2, 1, 6, 'Component "badge" is missing the required prop "label".'],
+    ])
+  })
+
+  it('should validate YAML props and named slots of block components', () => {
+    expect(validate(
+      '::alert',
+      '---',
+      'type: warning',
+      'show-icon: maybe',
+      '---',
+      '#footer',
+      '::',
+    )).toEqual([
+      [3, 0, 9, 'Prop "show-icon" of component "alert" expects boolean, not "maybe".'],
+      [5, 1, 7, 'Component "alert" has no slot "footer".'],
+    ])
+  })
+
+  it('should ignore front matter, code and bare inline names', () => {
+    expect(validate(
+      '---',
+      'title: Home',
+      '---',
+      '```md',
+      '::callout',
+      '```',
+      'Use `:unknown{}` or :smile: in text',
+    )).toEqual([])
+  })
+})
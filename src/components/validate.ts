@@ -0,0 +1,298 @@
+import { getFrontMatterEndLine } from '../front-matter/parse'
+import type { MDCComponentData, MDCComponentProp } from './metadata'
+
+/** Matches the opening line of a block component, e.g. `::alert{type="info"}` */
+const BLOCK_OPEN_PATTERN = /^(\s*)(:{2,})([a-zA-Z][\w-]*)\s*(?:\[[^\]]*\])?\s*(\{.*\})?\s*$/
+
+/** Matches the closing line of a block component */
+const BLOCK_CLOSE_PATTERN = /^\s*(:{2,})\s*$/
+
+/** Matches a named slot inside a block component, e.g. `#title` */
+const SLOT_PATTERN = /^(\s*)#([a-zA-Z][\w-]*)\s*$/
+
+/** Matches an inline component with content or props, e.g. `:badge[New]{color="green"}` */
+const INLINE_PATTERN = /(^|[^\w:]):([a-zA-Z][\w-]*)(\[[^\]]*\])?(\{[^}]*\})?/g
+
+/** Matches a single prop inside `{...}`, capturing the prefix, name and quoted or unquoted value */
+const PROP_PATTERN = /([:#.]?)([a-zA-Z_][\w-]*)(?:=(?:"([^"]*)"|'([^']*)'|([^\s}]+)))?/g
+
+/** Matches a top-level key of a YAML props block */
+const YAML_KEY_PATTERN = /^([a-zA-Z_][\w-]*)\s*:\s*(.*)$/
+
+/** Matches inline code spans, which are not parsed as components */
+const INLINE_CODE_PATTERN = /`[^`]*`/g
+
+/** Matches the opening or closing line of a fenced code block */
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/
+
+/** Attributes every component accepts */
+const GLOBAL_ATTRIBUTES = new Set(['id', 'class', 'style', 'key', 'ref'])
+
+/** A problem found in the components of a document */
+export interface ComponentProblem {
+  severity: 'error' | 'warning'
+  message: string
+  /** Zero-based line of the problem */
+  line: number
+  /** Column range of the problem within the line */
+  start: number
+  end: number
+}
+
+/** A prop passed to a component */
+interface ComponentPropUsage {
+  name: string
+  /** The value, undefined for boolean shorthand props such as `{open}` */
+  value?: string
+  /** Whether the value is a JSON expression, e.g. `:count="3"` */
+  bound: boolean
+  line: number
+  start: number
+  end: number
+}
+
+/** A block component that has not been closed yet */
+interface OpenBlock {
+  colons: number
+  /** The component, undefined if the portal does not provide it */
+  component?: MDCComponentData
+}
+
+/**
+ * Converts a kebab-case prop name to the camelCase name used by component metadata
+ * @param name The prop name
+ * @returns The camelCase name
+ */
+function toCamelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase())
+}
+
+/**
+ * Parses the props of a component
+ * @param props The props including braces, e.g. `{type="info" :count="3"}`
+ * @param line Zero-based line of the props
+ * @param offset Column of the opening brace
+ * @returns The props, without `#id` and `.class` shorthands
+ */
+function parseProps(props: string, line: number, offset: number): ComponentPropUsage[] {
+  const usages: ComponentPropUsage[] = []
+  for (const match of props.slice(1, -1).matchAll(PROP_PATTERN)) {
+    if (match[1] === '#' || match[1] === '.') {
+      continue
+    }
+    const start = offset + 1 + match.index + match[1].length
+    usages.push({
+      name: match[2],
+      value: match[3] ?? match[4] ?? match[5],
+      bound: match[1] === ':',
+      line,
+      start,
+      end: start + match[2].length,
+    })
+  }
+  return usages
+}
+
+/**
+ * Parses the YAML props block that may follow the opening line of a block component
+ * @param lines All lines of the document
+ * @param openLine Zero-based line of the component opening line
+ * @returns The props and the line after the block, unchanged if there is no props block
+ */
+function parseYamlProps(lines: string[], openLine: number): { props: ComponentPropUsage[], next: number } {
+  if (lines[openLine + 1]?.trim() !== '---') {
+    return { props: [], next: openLine + 1 }
+  }
+
+  const props: ComponentPropUsage[] = []
+  for (let index = openLine + 2; index < lines.length; index++) {
+    if (lines[index].trim() === '---') {
+      return { props, next: index + 1 }
+    }
+    const match = lines[index].match(YAML_KEY_PATTERN)
+    if (match) {
+      // Nested mappings and lists have no value on the key line
+      const value = match[2].trim().replace(/^(["'])(.*)\1$/, '$2')
+      props.push({ name: match[1], value: value || undefined, bound: false, line: index, start: 0, end: match[1].length })
+    }
+  }
+  return { props, next: openLine + 1 }
+}
+
+/**
+ * Checks a prop value against the TypeScript type of the prop
+ * @param prop The prop metadata
+ * @param usage The prop passed to the component
+ * @returns A description of the expected value, or undefined if the value is valid or cannot be checked
+ */
+function getExpectedValue(prop: MDCComponentProp, usage: ComponentPropUsage): string | undefined {
+  const types = prop.type.split('|').map(type => type.trim()).filter(type => type && type !== 'undefined' && type !== 'null')
+  const literals = types.filter(type => /^(["']).*\1$/.test(type)).map(type => type.slice(1, -1))
+  const primitives = types.filter(type => !/^(["']).*\1$/.test(type))
+
+  // Strings, unions with complex types and unknown types accept any value we can detect
+  if (types.length === 0 || primitives.some(type => !['boolean', 'number', 'true', 'false'].includes(type))) {
+    return undefined
+  }
+
+  const value = usage.value
+  const isBoolean = value === undefined || value === 'true' || value === 'false'
+  const isNumber = value !== undefined && value.trim() !== '' && !Number.isNaN(Number(value))
+
+  if (usage.bound && value !== undefined && !isBoolean && !isNumber && !/^(["']).*\1$/.test(value)) {
+    // Objects, arrays and other expressions
+    return undefined
+  }
+
+  const text = usage.bound && value ? value.replace(/^(["'])(.*)\1$/, '$2') : value
+  if (text !== undefined && literals.includes(text)) {
+    return undefined
+  }
+  if (isBoolean && primitives.some(type => ['boolean', 'true', 'false'].includes(type))) {
+    return undefined
+  }
+  if (isNumber && primitives.includes('number')) {
+    return undefined
+  }
+
+  return [...literals.map(literal => `"${literal}"`), ...primitives].join(' | ')
+}
+
+/**
+ * Validates the props passed to a component
+ * @param component The component metadata
+ * @param props The props passed to the component
+ * @param line Zero-based line of the component name
+ * @param start Column of the component name
+ * @returns The problems of the props
+ */
+function validateProps(component: MDCComponentData, props: ComponentPropUsage[], line: number, start: number): ComponentProblem[] {
+  const problems: ComponentProblem[] = []
+  const metaProps = component.component_meta?.meta?.props ?? []
+  const name = component.mdc_name
+
+  for (const usage of props) {
+    if (GLOBAL_ATTRIBUTES.has(usage.name)) {
+      continue
+    }
+
+    const prop = metaProps.find(metaProp => metaProp.name === toCamelCase(usage.name))
+    if (!prop) {
+      problems.push({ severity: 'warning', message: `Component "${name}" has no prop "${usage.name}".`, line: usage.line, start: usage.start, end: usage.end })
+      continue
+    }
+
+    const expected = getExpectedValue(prop, usage)
+    if (expected) {
+      problems.push({
+        severity: 'error',
+        message: `Prop "${usage.name}" of component "${name}" expects ${expected}${usage.value === undefined ? '' : `, not "${usage.value}"`}.`,
+        line: usage.line,
+        start: usage.start,
+        end: usage.end,
+      })
+    }
+  }
+
+  const passed = new Set(props.map(usage => toCamelCase(usage.name)))
+  for (const prop of metaProps) {
+    if (prop.required && !prop.global && !passed.has(prop.name)) {
+      problems.push({ severity: 'error', message: `Component "${name}" is missing the required prop "${prop.name}".`, line, start, end: start + name.length })
+    }
+  }
+
+  return problems
+}
+
+/**
+ * Finds unknown components, unknown or invalid props, missing required props and invalid slots in an MDC document
+ * @param text The document text
+ * @param components The components of the portal
+ * @returns The problems in document order
+ */
+export function validateComponents(text: string, components: MDCComponentData[]): ComponentProblem[] {
+  const problems: ComponentProblem[] = []
+  const byName = new Map(components.map(component => [component.mdc_name, component]))
+  const lines = text.split(/\r?\n/)
+  const stack: OpenBlock[] = []
+  let fence: string | undefined
+
+  /** Looks up a component and validates its props, returning undefined for unknown components */
+  const checkComponent = (name: string, props: ComponentPropUsage[], line: number, start: number): MDCComponentData | undefined => {
+    const component = byName.get(name)
+    if (!component) {
+      problems.push({ severity: 'warning', message: `Component "${name}" is not provided by the selected portal.`, line, start, end: start + name.length })
+      return undefined
+    }
+    problems.push(...validateProps(component, props, line, start))
+    return component
+  }
+
+  let index = getFrontMatterEndLine(lines) + 1
+  while (index < lines.length) {
+    const line = lines[index]
+
+    const fenceMatch = line.match(FENCE_PATTERN)
+    if (fenceMatch || fence) {
+      if (fenceMatch && !fence) {
+        fence = fenceMatch[1]
+      } else if (fenceMatch && fenceMatch[1].startsWith(fence!)) {
+        fence = undefined
+      }
+      index++
+      continue
+    }
+
+    const openMatch = line.match(BLOCK_OPEN_PATTERN)
+    if (openMatch) {
+      const [, indent, colons, name, inlineProps] = openMatch
+      const start = indent.length + colons.length
+      const yaml = parseYamlProps(lines, index)
+      const props = [
+        ...inlineProps ? parseProps(inlineProps, index, line.lastIndexOf(inlineProps)) : [],
+        ...yaml.props,
+      ]
+      stack.push({ colons: colons.length, component: checkComponent(name, props, index, start) })
+      index = yaml.next
+      continue
+    }
+
+    const closeMatch = line.match(BLOCK_CLOSE_PATTERN)
+    if (closeMatch) {
+      const openIndex = stack.map(block => block.colons).lastIndexOf(closeMatch[1].length)
+      if (openIndex !== -1) {
+        stack.length = openIndex
+      }
+      index++
+      continue
+    }
+
+    const slotMatch = line.match(SLOT_PATTERN)
+    const parent = stack[stack.length - 1]?.component
+    if (slotMatch) {
+      const slots = parent?.component_meta?.meta?.slots ?? []
+      const slot = slotMatch[2]
+      if (parent && slots.length > 0 && slot !== 'default' && !slots.some(metaSlot => metaSlot.name === slot)) {
+        const start = slotMatch[1].length + 1
+        problems.push({ severity: 'warning', message: `Component "${parent.mdc_name}" has no slot "${slot}".`, line: index, start, end: start + slot.length })
+      }
+      index++
+      continue
+    }
+
+    // Bare `:name` is ambiguous with emoji shortcodes, so only components with content or props are checked
+    const withoutCode = line.replace(INLINE_CODE_PATTERN, code => ' '.repeat(code.length))
+    for (const match of withoutCode.matchAll(INLINE_PATTERN)) {
+      const [, before, name, , inlineProps] = match
+      if (!match[3] && !inlineProps) {
+        continue
+      }
+      const start = match.index + before.length + 1
+      const propsStart = start + name.length + (match[3]?.length ?? 0)
+      checkComponent(name, inlineProps ? parseProps(inlineProps, index, propsStart) : [], index, start)
+    }
+    index++
+  }
+
+  return problems
+}
@@ -2,3 +2,8 @@
  * The configuration section name for workspace.getConfiguration()
  */
 export const CONFIG_SECTION = 'kong.konnect.devPortal'
+
+/**
+ * Path of the file binding a workspace folder to a portal, relative to the workspace folder
+ */
+export const WORKSPACE_CONFIG_FILE = '.konnect/portal.json'
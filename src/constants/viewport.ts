@@ -0,0 +1,16 @@
+import type { PreviewViewportState } from '../types'
+
+/**
+ * The workspaceState key used to persist the preview viewport selection
+ */
+export const VIEWPORT_STATE_KEY = 'kong.konnect.devPortal.previewViewport'
+
+/**
+ * Viewport used when nothing has been persisted for the workspace
+ */
+export const DEFAULT_VIEWPORT_STATE: PreviewViewportState = {
+  device: 'desktop',
+  customWidth: 1024,
+  zoomToFit: true,
+  colorScheme: 'auto',
+}
@@ -4,15 +4,24 @@ import {
   workspace,
   env,
   Uri,
+  TextEditorSelectionChangeKind,
+  ProgressLocation,
+  ViewColumn,
+  RelativePattern,
+  CancellationError,
 } from 'vscode'
-import type { ExtensionContext, TextDocument, FileSystemWatcher } from 'vscode'
+import type { ConfigurationScope, ExtensionContext, TextDocument, FileSystemWatcher, QuickPickItem, WorkspaceFolder } from 'vscode'
 import { PreviewProvider } from './preview-provider'
 import type { PortalPreviewConfig } from './types'
+import type { SnippetNamingStrategy } from './snippets/naming'
+import type { KonnectIdentity, StoredPortalConfig } from './types/konnect'
 import { debug } from './utils/debug'
 import { updatePreviewContext } from './utils/vscode-context'
-import { PortalStorageService } from './storage'
+import { PortalStorageService, getPreviewOrigin } from './storage'
 import { PortalSelectionService } from './portal-selection'
-import { KonnectApiService } from './konnect/api'
+import { PreviewOriginService } from './preview-origin'
+import { ApiError, KonnectApiService } from './konnect/api'
+import { KonnectIdentityService, getUserDisplayName } from './konnect/identity'
 import { showApiError } from './utils/error-handling'
 import { getOrCreateKongctlTerminal, disposeKongctlTerminal } from './terminal'
 import {
@@ -20,11 +29,34 @@ import {
   TokenConfigurationActions,
   CredentialActions,
 } from './types/ui-actions'
-import { CONFIG_SECTION } from './constants/config'
+import { CONFIG_SECTION, WORKSPACE_CONFIG_FILE } from './constants/config'
 import { installKongctlWithFeedback } from './kongctl/install'
+import { validateRegion } from './konnect/endpoints'
 import { fetchAvailableRegions } from './konnect/regions'
 import { checkKongctlAvailable, checkAndNotifyKongctlAvailability, showKongctlAvailableMessage, showKongctlDiagnostics } from './kongctl/status'
 import { checkAndShowMDCRecommendation } from './utils/mdc-extension'
+import { registerFrontMatterSupport } from './front-matter'
+import { registerComponentSupport } from './components'
+import { ComponentMetadataService } from './components/metadata'
+import { ComponentGalleryProvider } from './components/gallery'
+import { registerSnippetSupport } from './snippets'
+import { RemoteSnippetSource } from './snippets/remote-snippets'
+import { SnippetIndex } from './snippets/snippet-index'
+import { PagesTreeProvider } from './views/pages-tree'
+import type { PageTreeNode } from './views/pages-tree'
+import { DriftTreeProvider } from './views/drift-tree'
+import { KonnectRequestService } from './konnect/request-service'
+import { PortalFileSystemProvider, PORTAL_FILE_SYSTEM_SCHEME, getRemotePageUri } from './konnect/portal-file-system'
+import type { RemotePageEntry } from './konnect/pages'
+import { getDocumentPathInfo } from './utils/page-path'
+import { findLocalContentFiles, getLocalContentFile } from './utils/local-content'
+import type { LocalContentFile } from './utils/local-content'
+import { publishFiles } from './publish'
+import { importPortalContent } from './import'
+import { createDriftReport } from './publish/drift'
+import { WorkspaceConfigService } from './workspace-config'
+import { pickProfile } from './profiles'
+import { ProfileStatusBarItem } from './profiles/status-bar'
 
 /** Global instance of the preview provider for managing webview panels */
 let previewProvider: PreviewProvider | undefined
@@ -41,6 +73,15 @@ let portalSelectionService: PortalSelectionService | undefined
 /** Global reference to the extension context for accessing extension resources */
 let extensionContext: ExtensionContext | undefined
 
+/** Global instance of the pages tree provider for the Konnect Portal activity bar view */
+let pagesTreeProvider: PagesTreeProvider | undefined
+
+/** Global instance of the read-only file system exposing published portal pages */
+let portalFileSystem: PortalFileSystemProvider | undefined
+
+/** Global instance of the service reading the portal bindings of the workspace folders */
+let workspaceConfig: WorkspaceConfigService | undefined
+
 /** Updates the VS Code context to reflect preview state */
 function updatePreviewContextFromProvider(): void {
   const hasActivePreview = previewProvider?.hasActivePreview() ?? false
@@ -62,6 +103,47 @@ function hasActivePreviewableDocument(): boolean {
   ) || false
 }
 
+/**
+ * Returns the URL of a page in the selected portal, prompting to select a portal if none is selected
+ * @param node The page node from the pages tree
+ * @returns The page URL, or undefined if no portal is selected
+ */
+async function getPageUrlOrPrompt(node: PageTreeNode): Promise<string | undefined> {
+  const url = await pagesTreeProvider?.getPageUrl(node)
+  if (!url) {
+    await promptPortalSelection('Select a portal to get the URL of this page.')
+  }
+  return url
+}
+
+/**
+ * Returns the selected portal, prompting to select a portal if none is selected
+ * @param reason Explains why a portal is needed
+ * @param scope Resource or workspace folder whose bound portal takes precedence, defaults to the active editor
+ * @returns The selected portal, or undefined if no portal is selected
+ */
+async function getSelectedPortalOrPrompt(reason: string, scope?: Uri): Promise<StoredPortalConfig | undefined> {
+  const portalConfig = await storageService?.getSelectedPortal(scope)
+  if (!portalConfig) {
+    await promptPortalSelection(reason)
+  }
+  return portalConfig
+}
+
+/**
+ * Tells the user that no portal is selected and offers to select one
+ * @param reason Explains why a portal is needed
+ */
+async function promptPortalSelection(reason: string): Promise<void> {
+  const action = await window.showWarningMessage(
+    `No portal selected. ${reason}`,
+    PortalSelectionActions.SELECT_PORTAL,
+  )
+  if (action === PortalSelectionActions.SELECT_PORTAL) {
+    await commands.executeCommand('kong.konnect.devPortal.selectPortal')
+  }
+}
+
 /** Initialize kongctl context with proper error handling */
 function initializeKongctlContext(): void {
   updateKongctlContext().catch((error) => {
@@ -82,7 +164,9 @@ export function activate(context: ExtensionContext) {
 
   // Initialize services
   storageService = new PortalStorageService(context)
-  portalSelectionService = new PortalSelectionService(storageService, context)
+  // A single request service, so the kongctl availability check and the caches are shared
+  const requestService = new KonnectRequestService(storageService, context)
+  portalSelectionService = new PortalSelectionService(storageService, context, requestService)
 
   // Validate stored portal on session start
   portalSelectionService?.validateStoredPortal()
@@ -90,6 +174,48 @@ export function activate(context: ExtensionContext) {
   // Register the preview provider
   previewProvider = new PreviewProvider(context, storageService)
 
+  // Workspaces may preview portals on their default domain, a staging domain or a local dev server
+  const previewOrigins = new PreviewOriginService(context)
+  storageService.setPreviewOrigins(previewOrigins)
+
+  // Register the pages tree view
+  pagesTreeProvider = new PagesTreeProvider(storageService)
+  const pagesTreeView = window.registerTreeDataProvider('konnectPortalPages', pagesTreeProvider)
+
+  // Register the read-only file system for published portal pages
+  portalFileSystem = new PortalFileSystemProvider(requestService)
+
+  // Bind workspace folders to the portals declared in their config files
+  workspaceConfig = new WorkspaceConfigService(context, requestService)
+  storageService.setPortalBindings(workspaceConfig)
+  const workspaceConfigLoaded = workspaceConfig.load().catch((error) => {
+    debug.error('Failed to load workspace config files:', error)
+  })
+  const portalFileSystemRegistration = workspace.registerFileSystemProvider(
+    PORTAL_FILE_SYSTEM_SCHEME,
+    portalFileSystem,
+    { isCaseSensitive: true, isReadonly: true },
+  )
+
+  // Index snippet definitions and references of the workspace
+  const snippetIndex = new SnippetIndex()
+  const remoteSnippets = new RemoteSnippetSource(storageService, portalFileSystem)
+
+  // Load the MDC component metadata of the selected portal for validation
+  const componentMetadata = new ComponentMetadataService(context)
+  const componentGallery = new ComponentGalleryProvider(context, componentMetadata)
+
+  // Verify the token of the active profile and show who it is signed in as
+  const identityService = new KonnectIdentityService(requestService, storageService)
+  identityService.refresh().catch((error) => {
+    debug.error('Failed to verify the Konnect token:', error)
+  })
+  const profileStatusBar = new ProfileStatusBarItem(storageService, identityService, requestService)
+
+  // Register the portal changes view
+  const driftTreeProvider = new DriftTreeProvider()
+  const driftTreeView = window.registerTreeDataProvider('konnectPortalDrift', driftTreeProvider)
+
   // Register preview commands
   const openPreviewCommand = commands.registerCommand(
     'kong.konnect.devPortal.openPreview',
@@ -121,6 +247,311 @@ export function activate(context: ExtensionContext) {
     },
   )
 
+  // Register pin preview command
+  const pinPreviewCommand = commands.registerCommand(
+    'kong.konnect.devPortal.pinPreview',
+    () => {
+      previewProvider?.pinPreview()
+      updatePreviewContextFromProvider()
+    },
+  )
+
+  // Register pages tree view commands
+  const refreshPagesViewCommand = commands.registerCommand(
+    'kong.konnect.devPortal.refreshPagesView',
+    () => {
+      pagesTreeProvider?.refresh()
+    },
+  )
+
+  const previewPageCommand = commands.registerCommand(
+    'kong.konnect.devPortal.previewPage',
+    async (node: PageTreeNode) => {
+      try {
+        const document = await workspace.openTextDocument(node.uri)
+        await window.showTextDocument(document)
+        await previewProvider?.openPreview(document)
+        updatePreviewContextFromProvider()
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred'
+        window.showErrorMessage(`Failed to preview page: ${errorMessage}`)
+      }
+    },
+  )
+
+  const copyPageUrlCommand = commands.registerCommand(
+    'kong.konnect.devPortal.copyPageUrl',
+    async (node: PageTreeNode) => {
+      const url = await getPageUrlOrPrompt(node)
+      if (url) {
+        await env.clipboard.writeText(url)
+        window.showInformationMessage(`Copied ${url} to the clipboard.`)
+      }
+    },
+  )
+
+  const openPageInBrowserCommand = commands.registerCommand(
+    'kong.konnect.devPortal.openPageInBrowser',
+    async (node: PageTreeNode) => {
+      const url = await getPageUrlOrPrompt(node)
+      if (url) {
+        await env.openExternal(Uri.parse(url))
+      }
+    },
+  )
+
+  // Register the component gallery command
+  const browseComponentsCommand = commands.registerCommand(
+    'kong.konnect.devPortal.browseComponents',
+    async () => {
+      const portalConfig = await getSelectedPortalOrPrompt('Select a portal to browse its components.')
+      if (!portalConfig) {
+        return
+      }
+
+      try {
+        await componentGallery.open(portalConfig)
+      } catch (error) {
+        await showApiError('Failed to open portal components', error, extensionContext)
+      }
+    },
+  )
+
+  // Register the preview domain command
+  const switchPreviewDomainCommand = commands.registerCommand(
+    'kong.konnect.devPortal.switchPreviewDomain',
+    async () => {
+      const portalConfig = await getSelectedPortalOrPrompt('Select a portal to switch its preview domain.')
+      if (!portalConfig) {
+        return
+      }
+
+      const domain = await previewOrigins.pickPreviewDomain(portalConfig)
+      if (domain) {
+        const previewedPortal = await storageService?.getSelectedPortal()
+        window.showInformationMessage(`Previewing ${portalConfig.displayName} on ${getPreviewOrigin(previewedPortal ?? portalConfig)}.`)
+      }
+    },
+  )
+
+  // Previews, component metadata and the status bar use the origin the portal is previewed on
+  const previewOriginListener = previewOrigins.onDidChange(async () => {
+    try {
+      componentMetadata.refresh()
+      profileStatusBar.update()
+      await previewProvider?.reloadPortalOrigins()
+    } catch (error) {
+      debug.error('Failed to reload previews with the new portal origin:', error)
+    }
+  })
+
+  // Register published pages commands
+  const openRemotePageCommand = commands.registerCommand(
+    'kong.konnect.devPortal.openRemotePage',
+    async () => {
+      const portalConfig = await getSelectedPortalOrPrompt('Select a portal to open its published pages.')
+      if (!portalConfig || !portalFileSystem) {
+        return
+      }
+
+      try {
+        // Always list the current state of the portal
+        portalFileSystem.refresh(portalConfig.id)
+        const fileSystem = portalFileSystem
+        const pages = await window.withProgress(
+          { location: ProgressLocation.Notification, title: `Loading pages of ${portalConfig.displayName}...` },
+          () => fileSystem.getPages(portalConfig.id),
+        )
+
+        if (pages.size === 0) {
+          window.showInformationMessage(`Portal ${portalConfig.displayName} has no pages.`)
+          return
+        }
+
+        // Offer the page matching the active editor first
+        const activeDocument = window.activeTextEditor?.document
+        const { pagesDirectory, snippetsDirectory, snippetNaming } = getConfiguration(activeDocument?.uri)
+        const activePathInfo = activeDocument && activeDocument.uri.scheme !== PORTAL_FILE_SYSTEM_SCHEME
+          ? getDocumentPathInfo(activeDocument, pagesDirectory, snippetsDirectory, snippetNaming)
+          : undefined
+        const activePagePath = activePathInfo?.type === 'page' ? activePathInfo.path : undefined
+
+        const items: Array<QuickPickItem & { entry: RemotePageEntry }> = [...pages.values()]
+          .map(entry => ({
+            label: entry.page.title || entry.filePath,
+            description: entry.pagePath,
+            detail: entry.pagePath === activePagePath
+              ? `${entry.page.visibility}, ${entry.page.status} - matches the active editor`
+              : `${entry.page.visibility}, ${entry.page.status}`,
+            entry,
+          }))
+          .sort((a, b) => Number(b.entry.pagePath === activePagePath) - Number(a.entry.pagePath === activePagePath))
+
+        const selected = await window.showQuickPick(items, {
+          title: `Published Pages: ${portalConfig.displayName}`,
+          placeHolder: 'Select a page to open',
+          matchOnDescription: true,
+        })
+        if (!selected) {
+          return
+        }
+
+        const document = await workspace.openTextDocument(getRemotePageUri(portalConfig.id, selected.entry.filePath))
+        await window.showTextDocument(document, { viewColumn: ViewColumn.Beside, preview: true })
+      } catch (error) {
+        await showApiError('Failed to open published page', error, extensionContext)
+      }
+    },
+  )
+
+  // Register publish and import commands
+  const contentOutput = window.createOutputChannel('Konnect Portal Content')
+
+  /**
+   * Publishes local files to the selected portal and refreshes the published pages afterwards
+   * @param files The files to publish
+   * @param scope Resource or workspace folder whose bound portal takes precedence
+   */
+  const publishToSelectedPortal = async (files: LocalContentFile[], scope: Uri): Promise<void> => {
+    const portalConfig = await getSelectedPortalOrPrompt('Select the portal to publish to.', scope)
+    if (!portalConfig) {
+      return
+    }
+
+    try {
+      const results = await publishFiles(requestService, portalConfig, files, contentOutput)
+      if (results.length > 0) {
+        portalFileSystem?.refresh(portalConfig.id)
+      }
+    } catch (error) {
+      await showApiError('Failed to publish to portal', error, extensionContext)
+    }
+  }
+
+  /**
+   * Returns the page or snippet of the given URI, or of the active editor if no URI is given
+   * @param kind The kind of file expected
+   * @param uri URI passed by a menu, if any
+   * @returns The local file, or undefined after telling the user why it cannot be published
+   */
+  const getFileToPublish = async (kind: LocalContentFile['kind'], uri?: Uri): Promise<LocalContentFile | undefined> => {
+    const document = uri ? await workspace.openTextDocument(uri) : window.activeTextEditor?.document
+    const file = document ? getLocalContentFile(document) : undefined
+    if (file?.kind !== kind) {
+      const { pagesDirectory, snippetsDirectory } = getConfiguration(document?.uri)
+      window.showWarningMessage(kind === 'page'
+        ? `Only files in the pages directory (${pagesDirectory || 'not configured'}) can be published as pages.`
+        : `Only files in the snippets directory (${snippetsDirectory || 'not configured'}) can be published as snippets.`)
+      return undefined
+    }
+    return file
+  }
+
+  const publishPageCommand = commands.registerCommand(
+    'kong.konnect.devPortal.publishPage',
+    async (target?: PageTreeNode | Uri) => {
+      const file = await getFileToPublish('page', target instanceof Uri ? target : target?.uri)
+      if (file) {
+        await publishToSelectedPortal([file], file.uri)
+      }
+    },
+  )
+
+  const publishSnippetCommand = commands.registerCommand(
+    'kong.konnect.devPortal.publishSnippet',
+    async (uri?: Uri) => {
+      const file = await getFileToPublish('snippet', uri)
+      if (file) {
+        await publishToSelectedPortal([file], file.uri)
+      }
+    },
+  )
+
+  const publishAllChangedCommand = commands.registerCommand(
+    'kong.konnect.devPortal.publishAllChanged',
+    async () => {
+      const workspaceFolder = await pickWorkspaceFolder('Select the workspace folder to publish.')
+      if (!workspaceFolder) {
+        return
+      }
+      const files = await findLocalContentFiles(workspaceFolder)
+      if (files.length === 0) {
+        window.showWarningMessage('No pages or snippets found. Check the pages and snippets directory settings.')
+        return
+      }
+      await publishToSelectedPortal(files, workspaceFolder.uri)
+    },
+  )
+
+  const compareWithPortalCommand = commands.registerCommand(
+    'kong.konnect.devPortal.compareWithPortal',
+    async () => {
+      const workspaceFolder = await pickWorkspaceFolder('Select the workspace folder to compare.')
+      if (!workspaceFolder) {
+        return
+      }
+      const files = await findLocalContentFiles(workspaceFolder)
+      const portalConfig = await getSelectedPortalOrPrompt('Select the portal to compare with.', workspaceFolder.uri)
+      if (!portalConfig) {
+        return
+      }
+
+      try {
+        // Diff editors read the current state of the portal
+        portalFileSystem?.refresh(portalConfig.id)
+        const report = await window.withProgress(
+          { location: ProgressLocation.Notification, title: `Comparing workspace with ${portalConfig.displayName}...` },
+          () => createDriftReport(requestService, portalConfig, files),
+        )
+        driftTreeProvider.setReport(report)
+
+        if (report.items.length === 0) {
+          window.showInformationMessage(`Workspace matches ${portalConfig.displayName}, ${report.unchanged} file(s) compared.`)
+          return
+        }
+        await commands.executeCommand('konnectPortalDrift.focus')
+      } catch (error) {
+        await showApiError('Failed to compare with portal', error, extensionContext)
+      }
+    },
+  )
+
+  const importPortalContentCommand = commands.registerCommand(
+    'kong.konnect.devPortal.importPortalContent',
+    async () => {
+      const workspaceFolder = await pickWorkspaceFolder('Select the workspace folder to import portal content into.')
+      if (!workspaceFolder) {
+        return
+      }
+
+      const { pagesDirectory, snippetsDirectory, snippetNaming } = getConfiguration(workspaceFolder.uri)
+      if (!pagesDirectory?.trim() && !snippetsDirectory?.trim()) {
+        window.showWarningMessage('Configure the pages or snippets directory to import portal content into.')
+        return
+      }
+
+      const portalConfig = await getSelectedPortalOrPrompt('Select the portal to import content from.', workspaceFolder.uri)
+      if (!portalConfig) {
+        return
+      }
+
+      try {
+        const written = await importPortalContent(
+          requestService,
+          portalConfig,
+          workspaceFolder,
+          { pagesDirectory, snippetsDirectory, snippetNaming },
+          contentOutput,
+        )
+        if (written > 0) {
+          pagesTreeProvider?.refresh()
+        }
+      } catch (error) {
+        await showApiError('Failed to import portal content', error, extensionContext)
+      }
+    },
+  )
+
   // Register Konnect token commands
   const configureTokenCommand = commands.registerCommand(
     'kong.konnect.devPortal.configureToken',
@@ -145,8 +576,31 @@ export function activate(context: ExtensionContext) {
           return
         }
 
+        // Verify the token before storing it
+        let identity: KonnectIdentity | undefined
+        try {
+          identity = await window.withProgress(
+            { location: ProgressLocation.Notification, title: 'Verifying Konnect token...', cancellable: true },
+            (_progress, cancellationToken) => requestService.fetchIdentity(token.trim(), cancellationToken),
+          )
+        } catch (error) {
+          if (error instanceof CancellationError) {
+            return
+          }
+          if (error instanceof ApiError && error.statusCode === 401) {
+            await showApiError('Konnect rejected the token', error, extensionContext)
+            return
+          }
+          // Konnect may be unreachable, the token is checked again by the next request
+          debug.warn('Failed to verify the Konnect token:', error)
+          window.showWarningMessage('The token could not be verified with Konnect and was stored without verification.')
+        }
+
         await storageService?.storeToken(token)
-        window.showInformationMessage('Konnect token configured successfully!')
+        identityService.setIdentity(identity)
+        window.showInformationMessage(identity
+          ? `Konnect token configured for ${getUserDisplayName(identity.user)} (${identity.organization.name}).`
+          : 'Konnect token configured successfully!')
 
         // Check if there's an active document that can be previewed
         if (hasActivePreviewableDocument()) {
@@ -174,25 +628,50 @@ export function activate(context: ExtensionContext) {
     },
   )
 
-  // Register Select Konnect Region command
+  // Register Select Konnect Region command, the region may be passed to skip the selection
   const selectRegionCommand = commands.registerCommand(
     'kong.konnect.selectRegion',
-    async () => {
+    async (region?: string) => {
       try {
-        const config = workspace.getConfiguration()
-        const regions = await fetchAvailableRegions(storageService)
-        if (!regions.length) {
-          window.showErrorMessage('No regions available to select.')
-          return
+        let selected = region
+        if (selected) {
+          // Regions passed by workspace config files must be offered by Konnect
+          let regions: string[] = []
+          try {
+            regions = await fetchAvailableRegions(storageService)
+          } catch (error) {
+            debug.warn('Failed to fetch Konnect regions, only checking the region format:', error)
+          }
+          const problem = validateRegion(selected, regions)
+          if (problem) {
+            window.showErrorMessage(`Failed to select region: ${problem}.`)
+            return
+          }
+        } else {
+          const regions = await fetchAvailableRegions(storageService)
+          if (!regions.length) {
+            window.showErrorMessage('No regions available to select.')
+            return
+          }
+          selected = await window.showQuickPick(regions, {
+            placeHolder: 'Select a Konnect region',
+            canPickMany: false,
+            ignoreFocusOut: true,
+          })
         }
-        const selected = await window.showQuickPick(regions, {
-          placeHolder: 'Select a Konnect region',
-          canPickMany: false,
-          ignoreFocusOut: true,
-        })
-        if (!selected) return
-        await config.update('kong.konnect.region', selected, true)
-        window.showInformationMessage(`Konnect region set to '${selected}'.`)
+        if (!selected || !storageService) return
+
+        // Profiles with their own region keep it, the default profile uses the setting
+        const profile = storageService.getActiveProfile()
+        if (profile.region) {
+          await storageService.saveProfile({ ...profile, region: selected })
+          window.showInformationMessage(`Konnect region of profile '${profile.name}' set to '${selected}'.`)
+        } else {
+          await workspace.getConfiguration().update('kong.konnect.region', selected, true)
+          window.showInformationMessage(`Konnect region set to '${selected}'.`)
+        }
+        requestService.resetCaches()
+        profileStatusBar.update()
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error'
         window.showErrorMessage(`Failed to select region: ${errorMessage}`)
@@ -219,6 +698,14 @@ export function activate(context: ExtensionContext) {
           return
         }
 
+        // The bound portal keeps being used for the folder of the active editor
+        const boundPortal = await workspaceConfig?.getBoundPortal()
+        if (boundPortal) {
+          window.showInformationMessage(
+            `This workspace folder is bound to ${boundPortal.displayName} by ${WORKSPACE_CONFIG_FILE}. The selected portal is used for folders without a binding.`,
+          )
+        }
+
         // Get the currently selected portal before selection
         const previousPortal = await storageService?.getSelectedPortal()
 
@@ -231,6 +718,13 @@ export function activate(context: ExtensionContext) {
             previousPortal.id !== selectedPortal.id ||
             previousPortal.origin !== selectedPortal.origin
 
+          if (isDifferentPortal) {
+            // Reload published content, e.g. the snippets offered in completions, and the portal components
+            portalFileSystem?.refresh(selectedPortal.id)
+            componentMetadata.refresh(previewOrigins.getPreviewOrigin(selectedPortal) ?? selectedPortal.origin)
+            profileStatusBar.update()
+          }
+
           if (previewProvider?.hasActivePreview()) {
             // If there's already an active preview, update it with the new portal
             if (isDifferentPortal) {
@@ -257,6 +751,60 @@ export function activate(context: ExtensionContext) {
     },
   )
 
+  /** Reloads everything that depends on the token, region or portal selection of the active profile */
+  const reloadActiveProfile = async (): Promise<void> => {
+    debug.log('Active Konnect profile changed:', storageService?.getActiveProfile())
+    requestService.resetCaches()
+    // Updates the status bar once the token of the profile is verified
+    identityService.refresh().catch((error) => {
+      debug.error('Failed to verify the Konnect token:', error)
+    })
+    // The kongctl terminal keeps the token of the previous profile in its environment
+    disposeKongctlTerminal()
+    portalFileSystem?.refresh()
+    componentMetadata.refresh()
+
+    // Bound portals are resolved again with the new token, which closes open previews
+    const hadActivePreview = previewProvider?.hasActivePreview() ?? false
+    await workspaceConfig?.load()
+    await previewProvider?.updateConfiguration()
+    if (hadActivePreview && hasActivePreviewableDocument()) {
+      await commands.executeCommand('kong.konnect.devPortal.openPreview')
+    }
+  }
+
+  // Register the Switch Profile command
+  const switchProfileCommand = commands.registerCommand(
+    'kong.konnect.devPortal.switchProfile',
+    async () => {
+      if (!storageService || !portalSelectionService) {
+        return
+      }
+
+      try {
+        const previousProfile = storageService.getActiveProfile()
+        const profile = await pickProfile(storageService, portalSelectionService)
+        if (!profile) {
+          return
+        }
+
+        await storageService.setActiveProfile(profile.name)
+        if (profile.name !== previousProfile.name) {
+          await reloadActiveProfile()
+          window.showInformationMessage(`Switched to Konnect profile '${profile.name}'.`)
+        }
+
+        // New profiles start without a token
+        if (!await storageService.hasValidToken()) {
+          await commands.executeCommand('kong.konnect.devPortal.configureToken')
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred'
+        window.showErrorMessage(`Failed to switch profile: ${errorMessage}`)
+      }
+    },
+  )
+
   // Register Delete Konnect Token command
   const deleteTokenCommand = commands.registerCommand(
     'kong.konnect.devPortal.deleteToken',
@@ -269,7 +817,10 @@ export function activate(context: ExtensionContext) {
         )
 
         if (confirm === CredentialActions.DELETE_TOKEN) {
+          // The cached portal list is keyed by the token, so clear it first
+          await portalSelectionService?.clearPortalCache()
           await storageService?.clearAll()
+          identityService.setIdentity(undefined)
           /** Dispose active kongctl terminal to purge token from environment */
           disposeKongctlTerminal()
           window.showInformationMessage('All credentials cleared successfully.')
@@ -363,6 +914,36 @@ export function activate(context: ExtensionContext) {
     },
   )
 
+  // Each workspace folder has its own pages and snippets directories
+  const workspaceFoldersListener = workspace.onDidChangeWorkspaceFolders(() => {
+    debug.log('Workspace folders changed, recreating file watchers')
+    disposeFileWatchers()
+    setupFileWatchers()
+    pagesTreeProvider?.refresh()
+  })
+
+  // Config files set the pages and snippets directories and the portal of their workspace folder
+  let workspaceConfigInitialized = false
+  const workspaceConfigListener = workspaceConfig.onDidChange(async () => {
+    try {
+      debug.log('Workspace config files changed, recreating file watchers')
+      disposeFileWatchers()
+      setupFileWatchers()
+      pagesTreeProvider?.refresh()
+      snippetIndex.scheduleRescan()
+      componentMetadata.refresh()
+      profileStatusBar.update()
+
+      // Previews opened after the initial load already use the bound portals
+      if (workspaceConfigInitialized) {
+        await previewProvider?.updateConfiguration()
+      }
+      workspaceConfigInitialized = true
+    } catch (error) {
+      debug.error('Failed to handle workspace config change:', error)
+    }
+  })
+
   // Listen for configuration changes
   const configChangeListener = workspace.onDidChangeConfiguration(
     async (event) => {
@@ -378,9 +959,20 @@ export function activate(context: ExtensionContext) {
             debug.log('Pages or snippets directory changed, recreating file watchers')
             disposeFileWatchers()
             setupFileWatchers()
+            pagesTreeProvider?.refresh()
           }
         }
 
+        // Requests of profiles without their own region go to the region of the setting,
+        // the base URL override replaces the host of all requests
+        if (event.affectsConfiguration('kong.konnect.region') || event.affectsConfiguration('kong.konnect.apiBaseUrl')) {
+          requestService.resetCaches()
+          profileStatusBar.update()
+        }
+        if (event.affectsConfiguration('kong.konnect.apiBaseUrl')) {
+          await identityService.refresh()
+        }
+
         // Update kongctl context if kongctl configuration changed
         if (event.affectsConfiguration('kong.konnect.kongctl')) {
           await updateKongctlContext()
@@ -438,22 +1030,75 @@ export function activate(context: ExtensionContext) {
     },
   )
 
+  // Sync the preview scroll position with the top of the visible editor range
+  const visibleRangesListener = window.onDidChangeTextEditorVisibleRanges((event) => {
+    const firstVisibleRange = event.visibleRanges[0]
+    if (firstVisibleRange) {
+      previewProvider?.scrollPreview(event.textEditor.document, firstVisibleRange.start.line)
+    }
+  })
+
+  // Sync the preview scroll position with the cursor when it moves via keyboard or mouse
+  const selectionListener = window.onDidChangeTextEditorSelection((event) => {
+    if (event.kind === undefined || event.kind === TextEditorSelectionChangeKind.Command) {
+      return
+    }
+    previewProvider?.scrollPreview(event.textEditor.document, event.selections[0].active.line)
+  })
+
   // Register all disposables with the extension context
   context.subscriptions.push(
     openPreviewCommand,
     refreshPreviewCommand,
+    pinPreviewCommand,
+    pagesTreeProvider,
+    pagesTreeView,
+    refreshPagesViewCommand,
+    previewPageCommand,
+    copyPageUrlCommand,
+    openPageInBrowserCommand,
+    portalFileSystem,
+    portalFileSystemRegistration,
+    openRemotePageCommand,
+    browseComponentsCommand,
+    previewOrigins,
+    switchPreviewDomainCommand,
+    previewOriginListener,
+    contentOutput,
+    publishPageCommand,
+    publishSnippetCommand,
+    publishAllChangedCommand,
+    driftTreeProvider,
+    driftTreeView,
+    compareWithPortalCommand,
+    importPortalContentCommand,
     configureTokenCommand,
     selectPortalCommand,
     selectRegionCommand,
+    switchProfileCommand,
+    identityService,
+    profileStatusBar,
     deleteTokenCommand,
     checkKongctlStatusCommand,
     showKongctlDiagnosticsCommand,
     installKongctlCommand,
     runKongctlCommand,
     configChangeListener,
+    workspaceFoldersListener,
+    workspaceConfig,
+    workspaceConfigListener,
     documentChangeListener,
     documentSaveListener,
     editorChangeListener,
+    visibleRangesListener,
+    selectionListener,
+    ...registerFrontMatterSupport(),
+    componentMetadata,
+    componentGallery,
+    ...registerComponentSupport(componentMetadata, storageService),
+    snippetIndex,
+    remoteSnippets,
+    ...registerSnippetSupport(snippetIndex, remoteSnippets),
   )
 
   // Set up file system watchers for new file detection
@@ -467,8 +1112,9 @@ export function activate(context: ExtensionContext) {
   if (activeEditor && isMarkdownOrMDC(activeEditor.document)) {
     const config = getConfiguration()
     if (config.autoOpenPreview) {
-      // Fire-and-forget auto-open with proper error handling
-      previewProvider.openPreview(activeEditor.document).catch((error) => {
+      // Fire-and-forget auto-open with proper error handling, once the bound portals are known
+      const provider = previewProvider
+      workspaceConfigLoaded.then(() => provider.openPreview(activeEditor.document)).catch((error) => {
         console.error('Failed to auto-open preview:', error)
       })
     }
@@ -497,11 +1143,10 @@ function disposeFileWatchers(): void {
 }
 
 /**
- * Sets up file system watchers for pages and snippets directories
+ * Sets up file system watchers for the pages and snippets directories of every workspace folder
  * Watches for file creation, deletion, and changes to update preview
  */
 function setupFileWatchers(): void {
-  const config = getConfiguration()
   const workspaceFolders = workspace.workspaceFolders
 
   if (!workspaceFolders || workspaceFolders.length === 0) {
@@ -509,15 +1154,33 @@ function setupFileWatchers(): void {
     return
   }
 
+  workspaceFolders.forEach(setupFolderFileWatchers)
+
+  debug.log(`File watchers setup complete. Watching ${fileWatchers.length} pattern(s)`)
+}
+
+/**
+ * Sets up file system watchers for the pages and snippets directories configured for a workspace folder
+ * @param workspaceFolder The workspace folder to watch
+ */
+function setupFolderFileWatchers(workspaceFolder: WorkspaceFolder): void {
+  const config = getConfiguration(workspaceFolder.uri)
+
   // Watch pages directory if configured
   if (config.pagesDirectory && config.pagesDirectory.trim() !== '') {
     const pagesPattern = `${config.pagesDirectory.trim()}/**/*.{md,mdc}`
-    debug.log('Setting up file watcher for pages:', pagesPattern)
+    debug.log('Setting up file watcher for pages:', { folder: workspaceFolder.name, pattern: pagesPattern })
+
+    const pagesWatcher = workspace.createFileSystemWatcher(new RelativePattern(workspaceFolder, pagesPattern))
 
-    const pagesWatcher = workspace.createFileSystemWatcher(pagesPattern)
+    // Keep the pages tree in sync with the files on disk
+    pagesWatcher.onDidCreate(() => pagesTreeProvider?.refresh())
+    pagesWatcher.onDidDelete(() => pagesTreeProvider?.refresh())
 
     pagesWatcher.onDidChange(async (uri) => {
       debug.log('Page file changed externally:', uri.fsPath)
+      // The front matter slug may have changed
+      pagesTreeProvider?.refresh()
       // Only update if this is the currently active document
       const activeEditor = window.activeTextEditor
       if (activeEditor && activeEditor.document.uri.toString() === uri.toString()) {
@@ -535,37 +1198,40 @@ function setupFileWatchers(): void {
   // Watch snippets directory if configured
   if (config.snippetsDirectory && config.snippetsDirectory.trim() !== '') {
     const snippetsPattern = `${config.snippetsDirectory.trim()}/**/*.{md,mdc}`
-    debug.log('Setting up file watcher for snippets:', snippetsPattern)
+    debug.log('Setting up file watcher for snippets:', { folder: workspaceFolder.name, pattern: snippetsPattern })
 
-    const snippetsWatcher = workspace.createFileSystemWatcher(snippetsPattern)
+    const snippetsWatcher = workspace.createFileSystemWatcher(new RelativePattern(workspaceFolder, snippetsPattern))
 
-    // When snippets are created/deleted/changed, refresh the entire preview if one is active
-    // This will trigger re-injection of all snippets with the updated set
-    snippetsWatcher.onDidCreate((uri) => {
+    // Send only the created, changed or deleted snippet to open previews instead of reloading them
+    snippetsWatcher.onDidCreate(async (uri) => {
       debug.log('Snippet file created:', uri.fsPath)
-      if (previewProvider?.hasActivePreview()) {
-        previewProvider.refreshPreview()
+      try {
+        await previewProvider?.updateSnippetFile(uri)
+      } catch (error) {
+        debug.log('Error handling created snippet file:', error)
       }
     })
 
-    snippetsWatcher.onDidDelete((uri) => {
+    snippetsWatcher.onDidDelete(async (uri) => {
       debug.log('Snippet file deleted:', uri.fsPath)
-      if (previewProvider?.hasActivePreview()) {
-        previewProvider.refreshPreview()
+      try {
+        await previewProvider?.removeSnippetFile(uri)
+      } catch (error) {
+        debug.log('Error handling deleted snippet file:', error)
       }
     })
 
-    snippetsWatcher.onDidChange((uri) => {
+    snippetsWatcher.onDidChange(async (uri) => {
       debug.log('Snippet file changed externally:', uri.fsPath)
-      if (previewProvider?.hasActivePreview()) {
-        previewProvider.refreshPreview()
+      try {
+        await previewProvider?.updateSnippetFile(uri)
+      } catch (error) {
+        debug.log('Error handling changed snippet file:', error)
       }
     })
 
     fileWatchers.push(snippetsWatcher)
   }
-
-  debug.log(`File watchers setup complete. Watching ${fileWatchers.length} pattern(s)`)
 }
 
 /**
@@ -584,6 +1250,7 @@ export function deactivate() {
   previewProvider = undefined
   storageService = undefined
   portalSelectionService = undefined
+  workspaceConfig = undefined
   extensionContext = undefined
 
   debug.log('Portal Preview extension is now deactivated.')
@@ -617,12 +1284,35 @@ function isMarkdownOrMDC(document: TextDocument): boolean {
   return false
 }
 
+/**
+ * Picks the workspace folder a workspace-wide command works on
+ * @param placeHolder Prompt shown when the user has to choose between several folders
+ * @returns The only folder, the folder of the active editor, or the folder picked by the user
+ */
+async function pickWorkspaceFolder(placeHolder: string): Promise<WorkspaceFolder | undefined> {
+  const workspaceFolders = workspace.workspaceFolders ?? []
+  if (workspaceFolders.length === 0) {
+    window.showWarningMessage('Open a workspace folder containing your pages and snippets.')
+    return undefined
+  }
+  if (workspaceFolders.length === 1) {
+    return workspaceFolders[0]
+  }
+
+  const activeDocument = window.activeTextEditor?.document
+  const activeFolder = activeDocument ? workspace.getWorkspaceFolder(activeDocument.uri) : undefined
+  return activeFolder ?? window.showWorkspaceFolderPick({ placeHolder })
+}
+
 /**
  * Gets the current extension configuration
+ * @param scope Resource or workspace folder whose folder-level settings apply, e.g. the pages and snippets directories
  * @returns The current portal preview configuration
  */
-export function getConfiguration(): PortalPreviewConfig {
-  const config = workspace.getConfiguration(CONFIG_SECTION)
+export function getConfiguration(scope?: ConfigurationScope): PortalPreviewConfig {
+  const config = workspace.getConfiguration(CONFIG_SECTION, scope)
+  // The config file of the workspace folder takes precedence over the settings
+  const folderConfig = workspaceConfig?.getFolderConfig(scope)
 
   return {
     autoOpenPreview: config.get<boolean>('autoOpenPreview', false),
@@ -630,8 +1320,15 @@ export function getConfiguration(): PortalPreviewConfig {
     readyTimeout: config.get<number>('readyTimeout', 5000),
     debug: config.get<boolean>('debug', false),
     showMDCRecommendation: config.get<boolean>('showMDCRecommendation', true),
-    pagesDirectory: config.get<string>('pagesDirectory', 'pages'),
-    snippetsDirectory: config.get<string>('snippetsDirectory', 'snippets'),
+    pagesDirectory: folderConfig?.pagesDirectory ?? config.get<string>('pagesDirectory', 'pages'),
+    snippetsDirectory: folderConfig?.snippetsDirectory ?? config.get<string>('snippetsDirectory', 'snippets'),
+    snippetNaming: config.get<SnippetNamingStrategy>('snippetNaming', 'fileName'),
     injectSnippets: config.get<boolean>('injectSnippets', true),
+    suggestPortalSnippets: config.get<boolean>('suggestPortalSnippets', true),
+    previewPerDocument: config.get<boolean>('previewPerDocument', false),
+    scrollSync: config.get<boolean>('scrollSync', true),
+    offlineFallback: config.get<boolean>('offlineFallback', true),
+    validateFrontMatter: config.get<boolean>('validateFrontMatter', true),
+    validateComponents: config.get<boolean>('validateComponents', true),
   }
 }
@@ -0,0 +1,190 @@
+import {
+  languages,
+  workspace,
+  Diagnostic,
+  DiagnosticSeverity,
+  Range,
+  CompletionItem,
+  CompletionItemKind,
+  MarkdownString,
+} from 'vscode'
+import type { DiagnosticCollection, Disposable, DocumentSelector, Position, TextDocument } from 'vscode'
+import { getConfiguration } from '../extension'
+import { CONFIG_SECTION } from '../constants/config'
+import { debug } from '../utils/debug'
+import { isPageDocument } from '../utils/page-path'
+import { getFrontMatterEndLine, parseFrontMatter } from './parse'
+import { FRONT_MATTER_SCHEMA, validateFrontMatter } from './schema'
+import type { FrontMatterField, FrontMatterProblem } from './schema'
+
+/** Source shown next to front matter diagnostics */
+const DIAGNOSTIC_SOURCE = 'Konnect Portal'
+
+/** Documents that can contain portal page front matter */
+const FRONT_MATTER_SELECTOR: DocumentSelector = [
+  { language: 'markdown' },
+  { language: 'mdc' },
+  { pattern: '**/*.mdc' },
+]
+
+/**
+ * Maps a front matter problem severity to the VS Code diagnostic severity
+ * @param severity The problem severity
+ * @returns The diagnostic severity
+ */
+function toDiagnosticSeverity(severity: FrontMatterProblem['severity']): DiagnosticSeverity {
+  switch (severity) {
+    case 'error':
+      return DiagnosticSeverity.Error
+    case 'warning':
+      return DiagnosticSeverity.Warning
+    default:
+      return DiagnosticSeverity.Information
+  }
+}
+
+/**
+ * Checks whether a document is a portal page whose front matter should be validated
+ * @param document The document to check
+ * @returns true for Markdown/MDC documents in the pages directory
+ */
+function isFrontMatterDocument(document: TextDocument): boolean {
+  const fileName = document.fileName.toLowerCase()
+  const isMarkdownOrMDC = ['markdown', 'md', 'mdc'].includes(document.languageId) || fileName.endsWith('.md') || fileName.endsWith('.mdc')
+  return isMarkdownOrMDC && isPageDocument(document, getConfiguration(document.uri).pagesDirectory)
+}
+
+/**
+ * Validates the front matter of a document and publishes the problems as diagnostics
+ * @param document The document to validate
+ * @param collection The diagnostic collection to update
+ */
+export function updateFrontMatterDiagnostics(document: TextDocument, collection: DiagnosticCollection): void {
+  if (!getConfiguration().validateFrontMatter || !isFrontMatterDocument(document)) {
+    collection.delete(document.uri)
+    return
+  }
+
+  const frontMatter = parseFrontMatter(document.getText())
+  const problems = frontMatter ? validateFrontMatter(frontMatter) : []
+
+  collection.set(document.uri, problems.map((problem) => {
+    const diagnostic = new Diagnostic(
+      new Range(problem.line, problem.start, problem.line, Math.max(problem.end, problem.start + 1)),
+      problem.message,
+      toDiagnosticSeverity(problem.severity),
+    )
+    diagnostic.source = DIAGNOSTIC_SOURCE
+    return diagnostic
+  }))
+}
+
+/**
+ * Finds the schema fields available at an indentation level by walking up to the parent key
+ * @param lines All lines of the document
+ * @param line Zero-based line being edited
+ * @param indent Indentation of the line being edited
+ * @returns The fields that may appear at this position
+ */
+function getFieldsAtPosition(lines: string[], line: number, indent: number): Record<string, FrontMatterField> {
+  if (indent === 0) {
+    return FRONT_MATTER_SCHEMA
+  }
+
+  for (let index = line - 1; index > 0; index--) {
+    const parent = lines[index].match(/^(\s*)([\w-]+)\s*:\s*$/)
+    if (parent && parent[1].length < indent) {
+      return FRONT_MATTER_SCHEMA[parent[2]]?.fields ?? {}
+    }
+  }
+
+  return {}
+}
+
+/**
+ * Creates completion items for front matter keys and values at a position
+ * @param document The document being edited
+ * @param position The cursor position
+ * @returns Completion items, empty when the cursor is outside the front matter
+ */
+export function getFrontMatterCompletions(document: TextDocument, position: Position): CompletionItem[] {
+  const lines = document.getText().split(/\r?\n/)
+  const endLine = getFrontMatterEndLine(lines)
+  if (endLine === -1 || position.line === 0 || position.line >= endLine) {
+    return []
+  }
+
+  const prefix = lines[position.line].substring(0, position.character)
+
+  // Completing a key at the start of a line
+  const keyMatch = prefix.match(/^(\s*)[\w-]*$/)
+  if (keyMatch) {
+    const indent = keyMatch[1].length
+    const fields = getFieldsAtPosition(lines, position.line, indent)
+    const usedKeys = new Set(
+      lines.slice(1, endLine)
+        .map(lineText => lineText.match(/^(\s*)([\w-]+)\s*:/))
+        .filter(match => match && match[1].length === 0)
+        .map(match => match![2]),
+    )
+
+    return Object.entries(fields)
+      .filter(([key]) => indent > 0 || !usedKeys.has(key))
+      .map(([key, field]) => {
+        const item = new CompletionItem(key, CompletionItemKind.Property)
+        item.insertText = field.type === 'object' ? `${key}:\n${' '.repeat(indent + 2)}` : `${key}: `
+        item.detail = field.type === 'enum' ? field.values?.join(' | ') : field.type
+        item.documentation = new MarkdownString(field.description)
+        return item
+      })
+  }
+
+  // Completing the value of a key
+  const valueMatch = prefix.match(/^(\s*)([\w-]+)\s*:\s*[\w-]*$/)
+  if (valueMatch) {
+    const field = getFieldsAtPosition(lines, position.line, valueMatch[1].length)[valueMatch[2]]
+    const values = field?.type === 'enum'
+      ? field.values ?? []
+      : field?.type === 'boolean' || field?.allowBoolean ? ['true', 'false'] : []
+
+    return values.map((value) => {
+      const item = new CompletionItem(value, CompletionItemKind.EnumMember)
+      item.documentation = new MarkdownString(field.description)
+      return item
+    })
+  }
+
+  return []
+}
+
+/**
+ * Registers front matter validation and completions for portal pages
+ * @returns Disposables for the diagnostic collection, listeners and completion provider
+ */
+export function registerFrontMatterSupport(): Disposable[] {
+  const collection = languages.createDiagnosticCollection('konnect-front-matter')
+  const validateAll = () => workspace.textDocuments.forEach(document => updateFrontMatterDiagnostics(document, collection))
+
+  validateAll()
+  debug.log('Front matter support registered')
+
+  return [
+    collection,
+    workspace.onDidOpenTextDocument(document => updateFrontMatterDiagnostics(document, collection)),
+    workspace.onDidChangeTextDocument(event => updateFrontMatterDiagnostics(event.document, collection)),
+    workspace.onDidCloseTextDocument(document => collection.delete(document.uri)),
+    workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration(CONFIG_SECTION)) {
+        validateAll()
+      }
+    }),
+    languages.registerCompletionItemProvider(
+      FRONT_MATTER_SELECTOR,
+      {
+        provideCompletionItems: (document, position) => isFrontMatterDocument(document) ? getFrontMatterCompletions(document, position) : [],
+      },
+      ':',
+      ' ',
+    ),
+  ]
+}
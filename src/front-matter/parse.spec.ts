@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { parseFrontMatter, getFrontMatterEndLine } from './parse'
+
+describe('front-matter parse', () => {
+  describe('getFrontMatterEndLine', () => {
+    it('should return the line of the closing delimiter', () => {
+      expect(getFrontMatterEndLine(['---', 'title: Home', '---', '# Home'])).toBe(2)
+    })
+
+    it('should return -1 when the document has no front matter', () => {
+      expect(getFrontMatterEndLine(['# Home', '---'])).toBe(-1)
+      expect(getFrontMatterEndLine(['---', 'title: Home'])).toBe(-1)
+    })
+  })
+
+  describe('parseFrontMatter', () => {
+    it('should return undefined for documents without front matter', () => {
+      expect(parseFrontMatter('# Home')).toBeUndefined()
+    })
+
+    it('should parse scalar values and remove quotes and comments', () => {
+      const frontMatter = parseFrontMatter('---\ntitle: "Getting Started"\nstatus: published # draft first\n---\n')
+
+      expect(frontMatter?.endLine).toBe(3)
+      expect(frontMatter?.entries).toEqual([
+        expect.objectContaining({ key: 'title', value: 'Getting Started', line: 1, valueStart: 7, valueEnd: 24 }),
+        expect.objectContaining({ key: 'status', value: 'published', line: 2 }),
+      ])
+    })
+
+    it('should parse nested mappings and lists', () => {
+      const frontMatter = parseFrontMatter('---\nnavigation:\n  title: Start\n  order: 2\ntags:\n- one\n- two\n---')
+
+      const [navigation, tags] = frontMatter!.entries
+      expect(navigation.value).toBeUndefined()
+      expect(navigation.children.map(child => [child.key, child.value])).toEqual([['title', 'Start'], ['order', '2']])
+      expect(tags.items).toEqual(['one', 'two'])
+    })
+  })
+})
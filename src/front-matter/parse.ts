@@ -0,0 +1,122 @@
+/** A `key: value` entry in the front matter block */
+export interface FrontMatterEntry {
+  key: string
+  /** Scalar value with surrounding quotes removed, undefined when the value is a nested mapping or list */
+  value?: string
+  /** Zero-based line of the entry in the document */
+  line: number
+  /** Indentation of the entry */
+  indent: number
+  /** Column range of the value in the line, used for diagnostics */
+  valueStart: number
+  valueEnd: number
+  /** Nested mapping entries */
+  children: FrontMatterEntry[]
+  /** Items of a nested list */
+  items: string[]
+}
+
+/** Parsed front matter block at the start of a document */
+export interface FrontMatter {
+  entries: FrontMatterEntry[]
+  /** Zero-based line of the closing `---` delimiter */
+  endLine: number
+}
+
+/** Matches a `key: value` line, capturing indentation, key and value */
+const ENTRY_PATTERN = /^(\s*)([\w-]+)\s*:(?:\s+(.*?))?\s*$/
+
+/** Matches a list item line, capturing indentation and item */
+const LIST_ITEM_PATTERN = /^(\s*)-\s+(.*?)\s*$/
+
+/**
+ * Removes a trailing comment and surrounding quotes from a scalar value
+ * @param value The raw value
+ * @returns The unquoted value
+ */
+function unquote(value: string): string {
+  const quoted = value.match(/^(["'])(.*)\1$/)
+  if (quoted) {
+    return quoted[2]
+  }
+  return value.replace(/\s+#.*$/, '')
+}
+
+/**
+ * Finds the zero-based line of the closing front matter delimiter
+ * @param lines All lines of the document
+ * @returns The closing line, or -1 if the document has no front matter
+ */
+export function getFrontMatterEndLine(lines: string[]): number {
+  if (lines[0]?.trim() !== '---') {
+    return -1
+  }
+  return lines.findIndex((line, index) => index > 0 && line.trim() === '---')
+}
+
+/**
+ * Parses the YAML front matter block at the start of a Markdown/MDC document.
+ * Supports the subset used by portal pages: scalars, nested mappings and lists.
+ * @param text Full document text
+ * @returns The parsed front matter, or undefined if the document has none
+ */
+export function parseFrontMatter(text: string): FrontMatter | undefined {
+  const lines = text.split(/\r?\n/)
+  const endLine = getFrontMatterEndLine(lines)
+  if (endLine === -1) {
+    return undefined
+  }
+
+  const entries: FrontMatterEntry[] = []
+  // Open entries that can receive nested children, innermost last
+  const parents: FrontMatterEntry[] = []
+
+  for (let line = 1; line < endLine; line++) {
+    const lineText = lines[line]
+    if (!lineText.trim() || lineText.trim().startsWith('#')) {
+      continue
+    }
+
+    const indent = lineText.match(/^\s*/)![0].length
+    const item = lineText.match(LIST_ITEM_PATTERN)
+    // List items may be indented at the same level as their key
+    while (parents.length > 0 && (item ? parents[parents.length - 1].indent > indent : parents[parents.length - 1].indent >= indent)) {
+      parents.pop()
+    }
+    const parent = parents[parents.length - 1]
+
+    if (item) {
+      parent?.items.push(unquote(item[2]))
+      continue
+    }
+
+    const entry = lineText.match(ENTRY_PATTERN)
+    if (!entry) {
+      continue
+    }
+
+    const rawValue = entry[3]
+    const valueStart = rawValue ? lineText.indexOf(rawValue, indent + entry[2].length) : lineText.length
+    const frontMatterEntry: FrontMatterEntry = {
+      key: entry[2],
+      value: rawValue ? unquote(rawValue) : undefined,
+      line,
+      indent,
+      valueStart,
+      valueEnd: rawValue ? valueStart + rawValue.length : lineText.length,
+      children: [],
+      items: [],
+    }
+
+    if (parent) {
+      parent.children.push(frontMatterEntry)
+    } else {
+      entries.push(frontMatterEntry)
+    }
+    if (!rawValue) {
+      parents.push(frontMatterEntry)
+    }
+  }
+
+  return { entries, endLine }
+}
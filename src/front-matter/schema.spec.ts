@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { parseFrontMatter } from './parse'
+import { validateFrontMatter, getFrontMatterSlug, getFrontMatterAttributes } from './schema'
+
+/** Parses and validates the front matter lines */
+function validate(...lines: string[]) {
+  return validateFrontMatter(parseFrontMatter(['---', ...lines, '---'].join('\n'))!)
+}
+
+describe('front-matter schema', () => {
+  describe('validateFrontMatter', () => {
+    it('should accept valid page front matter', () => {
+      expect(validate(
+        'title: Getting Started',
+        'description: Learn the basics',
+        'visibility: public',
+        'status: published',
+        'slug: start',
+        'navigation:',
+        '  title: Start',
+        '  order: 1',
+      )).toEqual([])
+    })
+
+    it('should report invalid enum values on the value range', () => {
+      expect(validate('visibility: hidden')).toEqual([{
+        message: 'Invalid visibility "hidden". Expected one of: public, private.',
+        severity: 'error',
+        line: 1,
+        start: 12,
+        end: 18,
+      }])
+    })
+
+    it('should report invalid slugs', () => {
+      const [problem] = validate('slug: getting started')
+
+      expect(problem.severity).toBe('error')
+      expect(problem.message).toContain('Invalid slug "getting started"')
+    })
+
+    it('should allow navigation to be a boolean but validate nested fields', () => {
+      expect(validate('navigation: false')).toEqual([])
+      expect(validate('navigation: hidden')[0].message).toBe('"navigation" must be `true`, `false` or a mapping of settings.')
+      expect(validate('navigation:', '  order: first')[0].message).toBe('"order" must be a number.')
+    })
+
+    it('should report duplicate keys, empty values and unknown keys', () => {
+      const problems = validate('title:', 'title: Home', 'layout: wide')
+
+      expect(problems.map(problem => [problem.severity, problem.message])).toEqual([
+        ['warning', '"title" should not be empty.'],
+        ['error', 'Duplicate front matter key "title".'],
+        ['information', 'Unknown front matter key "layout", it is not used by Konnect portal pages.'],
+      ])
+    })
+  })
+
+  describe('getFrontMatterSlug', () => {
+    it('should return valid slugs only', () => {
+      expect(getFrontMatterSlug(parseFrontMatter('---\nslug: install\n---'))).toBe('install')
+      expect(getFrontMatterSlug(parseFrontMatter('---\nslug: "/guides/install"\n---'))).toBe('/guides/install')
+      expect(getFrontMatterSlug(parseFrontMatter('---\nslug: not valid\n---'))).toBeUndefined()
+      expect(getFrontMatterSlug(undefined)).toBeUndefined()
+    })
+  })
+
+  describe('getFrontMatterAttributes', () => {
+    it('should return valid page attributes only', () => {
+      const frontMatter = parseFrontMatter('---\ntitle: "Intro: start"\nvisibility: secret\nstatus: published\nslug: intro\n---')
+
+      expect(getFrontMatterAttributes(frontMatter)).toEqual({ title: 'Intro: start', status: 'published' })
+      expect(getFrontMatterAttributes(undefined)).toEqual({})
+    })
+  })
+})
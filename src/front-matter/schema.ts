@@ -0,0 +1,219 @@
+import type { FrontMatter, FrontMatterEntry } from './parse'
+
+/** Schema of a front matter field */
+export interface FrontMatterField {
+  type: 'string' | 'number' | 'boolean' | 'enum' | 'object'
+  description: string
+  /** Allowed values of enum fields */
+  values?: string[]
+  /** Nested fields of object fields */
+  fields?: Record<string, FrontMatterField>
+  /** Whether an object field may also be set to `true` or `false` */
+  allowBoolean?: boolean
+  /** Pattern that string values must match */
+  pattern?: RegExp
+  /** Explains the expected format when the pattern does not match */
+  patternMessage?: string
+}
+
+/** Problem found while validating front matter */
+export interface FrontMatterProblem {
+  message: string
+  severity: 'error' | 'warning' | 'information'
+  /** Zero-based line of the problem */
+  line: number
+  /** Column range of the problem */
+  start: number
+  end: number
+}
+
+/** Matches a page slug: path segments of word characters and hyphens, optionally starting with `/` */
+export const SLUG_PATTERN = /^\/?[\w-]+(\/[\w-]+)*$/
+
+/** Known fields of Konnect portal page front matter */
+export const FRONT_MATTER_SCHEMA: Record<string, FrontMatterField> = {
+  title: {
+    type: 'string',
+    description: 'Title of the page, shown in the browser tab and in the portal navigation.',
+  },
+  description: {
+    type: 'string',
+    description: 'Short description of the page, used for search engine and social metadata.',
+  },
+  visibility: {
+    type: 'enum',
+    values: ['public', 'private'],
+    description: 'Whether the page is visible to everyone (`public`) or only to signed-in developers (`private`).',
+  },
+  status: {
+    type: 'enum',
+    values: ['published', 'unpublished'],
+    description: 'Whether the page is `published` in the portal or kept as an `unpublished` draft.',
+  },
+  slug: {
+    type: 'string',
+    pattern: SLUG_PATTERN,
+    patternMessage: 'Slugs may only contain letters, numbers, underscores, hyphens and `/` separators.',
+    description: 'URL segment of the page, replacing the one derived from the file name. Start with `/` to set the full page path.',
+  },
+  navigation: {
+    type: 'object',
+    allowBoolean: true,
+    description: 'Navigation settings of the page. Set to `false` to hide the page from the portal navigation.',
+    fields: {
+      title: {
+        type: 'string',
+        description: 'Label of the page in the portal navigation, defaults to the page title.',
+      },
+      icon: {
+        type: 'string',
+        description: 'Icon shown next to the page in the portal navigation.',
+      },
+      order: {
+        type: 'number',
+        description: 'Position of the page among its siblings in the portal navigation.',
+      },
+    },
+  },
+}
+
+/**
+ * Validates a front matter entry against its field schema
+ * @param entry The entry to validate
+ * @param field The schema of the entry
+ * @returns Problems found in the entry and its children
+ */
+function validateEntry(entry: FrontMatterEntry, field: FrontMatterField): FrontMatterProblem[] {
+  const valueProblem = (message: string, severity: FrontMatterProblem['severity'] = 'error'): FrontMatterProblem => ({
+    message,
+    severity,
+    line: entry.line,
+    start: entry.valueStart,
+    end: entry.valueEnd,
+  })
+
+  if (field.type === 'object') {
+    if (entry.value !== undefined) {
+      if (field.allowBoolean && (entry.value === 'true' || entry.value === 'false')) {
+        return []
+      }
+      return [valueProblem(`"${entry.key}" must be ${field.allowBoolean ? '`true`, `false` or ' : ''}a mapping of settings.`)]
+    }
+    return validateEntries(entry.children, field.fields ?? {}, `${entry.key}.`)
+  }
+
+  if (entry.value === undefined) {
+    if (entry.children.length === 0 && entry.items.length === 0) {
+      return [valueProblem(`"${entry.key}" should not be empty.`, 'warning')]
+    }
+    return [valueProblem(`"${entry.key}" must be a single ${field.type === 'enum' ? 'value' : field.type}.`)]
+  }
+
+  switch (field.type) {
+    case 'string':
+      if (!entry.value.trim()) {
+        return [valueProblem(`"${entry.key}" should not be empty.`, 'warning')]
+      }
+      if (field.pattern && !field.pattern.test(entry.value)) {
+        return [valueProblem(`Invalid ${entry.key} "${entry.value}". ${field.patternMessage ?? ''}`.trim())]
+      }
+      return []
+    case 'number':
+      return isNaN(Number(entry.value)) || !entry.value.trim() ? [valueProblem(`"${entry.key}" must be a number.`)] : []
+    case 'boolean':
+      return entry.value === 'true' || entry.value === 'false' ? [] : [valueProblem(`"${entry.key}" must be \`true\` or \`false\`.`)]
+    case 'enum':
+      return field.values?.includes(entry.value)
+        ? []
+        : [valueProblem(`Invalid ${entry.key} "${entry.value}". Expected one of: ${field.values?.join(', ')}.`)]
+    default:
+      return []
+  }
+}
+
+/**
+ * Validates entries against a set of field schemas
+ * @param entries The entries to validate
+ * @param fields The schemas of the known fields
+ * @param prefix Key prefix of nested entries used in messages
+ * @returns Problems found in the entries
+ */
+function validateEntries(entries: FrontMatterEntry[], fields: Record<string, FrontMatterField>, prefix = ''): FrontMatterProblem[] {
+  const problems: FrontMatterProblem[] = []
+  const seen = new Set<string>()
+
+  for (const entry of entries) {
+    const keyProblem = (message: string, severity: FrontMatterProblem['severity']): FrontMatterProblem => ({
+      message,
+      severity,
+      line: entry.line,
+      start: entry.indent,
+      end: entry.indent + entry.key.length,
+    })
+
+    if (seen.has(entry.key)) {
+      problems.push(keyProblem(`Duplicate front matter key "${prefix}${entry.key}".`, 'error'))
+      continue
+    }
+    seen.add(entry.key)
+
+    const field = fields[entry.key]
+    if (!field) {
+      // Portals may use custom keys, so unknown keys are only informational
+      problems.push(keyProblem(`Unknown front matter key "${prefix}${entry.key}", it is not used by Konnect portal pages.`, 'information'))
+      continue
+    }
+
+    problems.push(...validateEntry(entry, field))
+  }
+
+  return problems
+}
+
+/**
+ * Validates parsed front matter against the Konnect portal page schema
+ * @param frontMatter The parsed front matter
+ * @returns Problems found in the front matter
+ */
+export function validateFrontMatter(frontMatter: FrontMatter): FrontMatterProblem[] {
+  return validateEntries(frontMatter.entries, FRONT_MATTER_SCHEMA)
+}
+
+/**
+ * Returns the slug of the page if the front matter sets a valid one
+ * @param frontMatter The parsed front matter of the document
+ * @returns The slug, or undefined if not set or invalid
+ */
+export function getFrontMatterSlug(frontMatter: FrontMatter | undefined): string | undefined {
+  const slug = frontMatter?.entries.find(entry => entry.key === 'slug')?.value?.trim()
+  return slug && SLUG_PATTERN.test(slug) ? slug : undefined
+}
+
+/** Front matter keys that map to page and snippet attributes in Konnect */
+export const FRONT_MATTER_ATTRIBUTE_KEYS = ['title', 'description', 'visibility', 'status'] as const
+
+/** Page attributes that can be set in front matter */
+export interface FrontMatterAttributes {
+  title?: string
+  description?: string
+  visibility?: 'public' | 'private'
+  status?: 'published' | 'unpublished'
+}
+
+/**
+ * Returns the page attributes the front matter sets to valid values
+ * @param frontMatter The parsed front matter of the document
+ * @returns The attributes, omitting those that are not set or invalid
+ */
+export function getFrontMatterAttributes(frontMatter: FrontMatter | undefined): FrontMatterAttributes {
+  const attributes: FrontMatterAttributes = {}
+  for (const key of FRONT_MATTER_ATTRIBUTE_KEYS) {
+    const entry = frontMatter?.entries.find(candidate => candidate.key === key)
+    const field = FRONT_MATTER_SCHEMA[key]
+    const value = entry?.value?.trim()
+    if (value && (field.type !== 'enum' || field.values?.includes(value))) {
+      Object.assign(attributes, { [key]: value })
+    }
+  }
+  return attributes
+}
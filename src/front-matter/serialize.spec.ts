@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { mergeFrontMatterFields, removeFrontMatterFields, serializeFrontMatter } from './serialize'
+
+describe('front-matter serialize', () => {
+  describe('serializeFrontMatter', () => {
+    it('should quote values only when needed and skip empty values', () => {
+      expect(serializeFrontMatter({ title: 'Getting started', description: 'Step 1: install', status: undefined, slug: '' }))
+        .toBe('---\ntitle: Getting started\ndescription: "Step 1: install"\n---\n')
+    })
+
+    it('should return an empty string without values', () => {
+      expect(serializeFrontMatter({ title: undefined })).toBe('')
+    })
+  })
+
+  describe('mergeFrontMatterFields', () => {
+    it('should create a front matter block', () => {
+      expect(mergeFrontMatterFields('# Intro', { title: 'Intro' })).toBe('---\ntitle: Intro\n---\n# Intro')
+    })
+
+    it('should keep keys the front matter already sets', () => {
+      expect(mergeFrontMatterFields('---\r\ntitle: Custom\r\n---\r\n# Intro', { title: 'Intro', status: 'published' }))
+        .toBe('---\r\nstatus: published\r\ntitle: Custom\r\n---\r\n# Intro')
+    })
+  })
+
+  describe('removeFrontMatterFields', () => {
+    it('should remove the keys and keep other front matter', () => {
+      expect(removeFrontMatterFields('---\ntitle: Intro\nslug: intro\n---\n# Intro', ['title'])).toBe('---\nslug: intro\n---\n# Intro')
+    })
+
+    it('should remove the block when it ends up empty', () => {
+      expect(removeFrontMatterFields('---\ntitle: Intro\n---\n# Intro', ['title'])).toBe('# Intro')
+    })
+
+    it('should round-trip with mergeFrontMatterFields', () => {
+      for (const content of ['# Intro\n', '---\nslug: intro\n---\n\n# Intro', '']) {
+        const merged = mergeFrontMatterFields(content, { title: 'Intro', visibility: 'public' })
+        expect(removeFrontMatterFields(merged, ['title', 'visibility'])).toBe(content)
+      }
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { parseFrontMatter } from './parse'
+
+/** Matches scalar values that can be written without quotes */
+const PLAIN_VALUE_PATTERN = /^[\w][\w .,/()-]*$/
+
+/**
+ * Formats a scalar value for a front matter line, quoting it when needed
+ * @param value The value to format
+ * @returns The YAML scalar
+ */
+function formatValue(value: string): string {
+  return PLAIN_VALUE_PATTERN.test(value) && !/\s$/.test(value) ? value : JSON.stringify(value)
+}
+
+/**
+ * Serializes scalar fields into `key: value` lines
+ * @param fields The fields to write, empty and undefined values are skipped
+ * @returns The front matter lines
+ */
+function serializeFields(fields: Record<string, string | undefined>): string[] {
+  return Object.entries(fields)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '')
+    .map(([key, value]) => `${key}: ${formatValue(value)}`)
+}
+
+/**
+ * Serializes scalar fields into a front matter block
+ * @param fields The fields to write, empty and undefined values are skipped
+ * @returns The front matter block including delimiters, or an empty string if no field has a value
+ */
+export function serializeFrontMatter(fields: Record<string, string | undefined>): string {
+  const lines = serializeFields(fields)
+  return lines.length > 0 ? ['---', ...lines, '---', ''].join('\n') : ''
+}
+
+/**
+ * Adds fields to the front matter of a document, creating the block if needed.
+ * Keys the front matter already sets are left untouched.
+ * @param text The document text
+ * @param fields The fields to add, empty and undefined values are skipped
+ * @returns The document text with the fields
+ */
+export function mergeFrontMatterFields(text: string, fields: Record<string, string | undefined>): string {
+  const frontMatter = parseFrontMatter(text)
+  if (!frontMatter) {
+    return serializeFrontMatter(fields) + text
+  }
+
+  const existingKeys = new Set(frontMatter.entries.map(entry => entry.key))
+  const missing = Object.fromEntries(Object.entries(fields).filter(([key]) => !existingKeys.has(key)))
+  const eol = text.includes('\r\n') ? '\r\n' : '\n'
+  const lines = text.split(eol)
+  lines.splice(1, 0, ...serializeFields(missing))
+  return lines.join(eol)
+}
+
+/**
+ * Removes top-level fields from the front matter of a document, removing the block if it ends up empty
+ * @param text The document text
+ * @param keys The keys to remove
+ * @returns The document text without the fields
+ */
+export function removeFrontMatterFields(text: string, keys: readonly string[]): string {
+  const frontMatter = parseFrontMatter(text)
+  if (!frontMatter) {
+    return text
+  }
+
+  const removedLines = new Set(frontMatter.entries.filter(entry => keys.includes(entry.key)).map(entry => entry.line))
+  if (removedLines.size === 0) {
+    return text
+  }
+
+  const eol = text.includes('\r\n') ? '\r\n' : '\n'
+  const lines = text.split(eol)
+  const remaining = lines.slice(1, frontMatter.endLine).filter((_, index) => !removedLines.has(index + 1))
+  const body = lines.slice(frontMatter.endLine + 1)
+
+  return remaining.some(line => line.trim())
+    ? [lines[0], ...remaining, lines[frontMatter.endLine], ...body].join(eol)
+    : body.join(eol)
+}
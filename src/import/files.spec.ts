@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createImportFiles } from './files'
+import type { KonnectRequestService } from '../konnect/request-service'
+import { calculatePagePath } from '../utils/page-path'
+import { mockHomePage, mockIntroPageWithContent, mockPortalPagesResponse } from '../test/fixtures/konnect-api'
+
+vi.mock('vscode', () => ({
+  window: { showWarningMessage: vi.fn() },
+  workspace: {
+    getConfiguration: vi.fn(() => ({ get: vi.fn(() => false) })),
+  },
+}))
+
+describe('import/files', () => {
+  let requestService: KonnectRequestService
+
+  beforeEach(() => {
+    requestService = {
+      fetchPortalPages: vi.fn().mockResolvedValue(mockPortalPagesResponse.data),
+      fetchPortalPage: vi.fn().mockImplementation((_portalId, pageId) => Promise.resolve(
+        pageId === 'page-intro' ? mockIntroPageWithContent : { ...mockHomePage, id: pageId, content: '# Page' },
+      )),
+      fetchPortalSnippets: vi.fn().mockResolvedValue([{ id: 'snippet-1', name: 'banner' }, { id: 'snippet-2', name: 'new.banner' }]),
+      fetchPortalSnippet: vi.fn().mockImplementation((_portalId, snippetId) => Promise.resolve({
+        id: snippetId,
+        name: snippetId === 'snippet-1' ? 'banner' : 'new.banner',
+        title: 'Banner',
+        visibility: 'public',
+        status: 'published',
+        content: 'Hello',
+      })),
+    } as unknown as KonnectRequestService
+  })
+
+  it('should write pages to paths that preview at the same portal path', async () => {
+    const { files } = await createImportFiles(requestService, 'portal-1', { pagesDirectory: 'pages/', snippetsDirectory: '' })
+
+    expect(files.map(file => [file.target, file.relativePath])).toEqual([
+      ['/', 'pages/home.md'],
+      ['/guides', 'pages/guides.md'],
+      ['/guides/intro', 'pages/guides/intro.md'],
+    ])
+    for (const file of files) {
+      expect(calculatePagePath(file.relativePath.replace('pages/', '')).path).toBe(file.target)
+    }
+    expect(requestService.fetchPortalSnippets).not.toHaveBeenCalled()
+  })
+
+  it('should add page attributes to the front matter', async () => {
+    const { files } = await createImportFiles(requestService, 'portal-1', { pagesDirectory: 'pages', snippetsDirectory: '' })
+
+    expect(files[2].text).toContain('title: "Getting started: intro"\ndescription: First steps\nvisibility: private\nstatus: unpublished\n---\n# Intro')
+  })
+
+  it('should write snippets by name and warn about names that cannot round-trip', async () => {
+    const onProgress = vi.fn()
+    const { files } = await createImportFiles(requestService, 'portal-1', { pagesDirectory: '', snippetsDirectory: 'snippets' }, onProgress)
+
+    expect(files.map(file => [file.relativePath, file.warning !== undefined])).toEqual([
+      ['snippets/banner.md', false],
+      ['snippets/newbanner.md', true],
+    ])
+    expect(files[0].text).toBe('---\ntitle: Banner\nvisibility: public\nstatus: published\n---\nHello')
+    expect(onProgress).toHaveBeenCalledWith('new.banner')
+  })
+
+  it('should write namespaced snippet names into subfolders', async () => {
+    vi.mocked(requestService.fetchPortalSnippets).mockResolvedValue([{ id: 'snippet-3', name: 'alerts--warning' }] as any)
+    vi.mocked(requestService.fetchPortalSnippet).mockResolvedValue({ id: 'snippet-3', name: 'alerts--warning', content: 'Careful' } as any)
+    const { files } = await createImportFiles(requestService, 'portal-1', { pagesDirectory: '', snippetsDirectory: 'snippets', snippetNaming: 'folderPath' })
+
+    expect(files.map(file => [file.relativePath, file.warning])).toEqual([['snippets/alerts/warning.md', undefined]])
+  })
+
+  it('should skip pages whose slugs leave the pages directory', async () => {
+    vi.mocked(requestService.fetchPortalPages).mockResolvedValue([
+      { ...mockHomePage, id: 'page-escape', slug: 'guides/../../../outside', parent_page_id: null, children: [] },
+      { ...mockHomePage, id: 'page-backslash', slug: '..\\outside', parent_page_id: null, children: [] },
+    ] as any)
+
+    const { files, skipped } = await createImportFiles(requestService, 'portal-1', { pagesDirectory: 'pages', snippetsDirectory: '' })
+
+    expect(files).toEqual([])
+    expect(skipped.map(item => item.target)).toEqual(['/..\\outside', '/guides/../../../outside'])
+    expect(requestService.fetchPortalPage).not.toHaveBeenCalled()
+  })
+
+  it('should report snippets whose names map to the same file instead of overwriting it', async () => {
+    vi.mocked(requestService.fetchPortalSnippets).mockResolvedValue([
+      { id: 'snippet-1', name: 'banner' },
+      { id: 'snippet-2', name: 'Banner!' },
+    ] as any)
+
+    const { files, skipped } = await createImportFiles(requestService, 'portal-1', { pagesDirectory: '', snippetsDirectory: 'snippets' })
+
+    expect(files.map(file => file.relativePath)).toEqual(['snippets/banner.md'])
+    expect(skipped).toEqual([{ kind: 'snippet', target: 'Banner!', reason: 'snippets/Banner.md is already used by snippet banner' }])
+    expect(requestService.fetchPortalSnippet).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,153 @@
+import type { KonnectRequestService } from '../konnect/request-service'
+import { getRemotePageEntries, toLocalDocument } from '../konnect/pages'
+import { calculatePagePath } from '../utils/page-path'
+import { getSnippetFileName, getSnippetFilePath } from '../snippets/naming'
+import type { SnippetNamingStrategy } from '../snippets/naming'
+
+/** A file to write into the workspace for a page or snippet of the portal */
+export interface ImportFile {
+  kind: 'page' | 'snippet'
+  /** Portal path of pages, or name of snippets */
+  target: string
+  /** File path relative to the workspace folder, using forward slashes */
+  relativePath: string
+  /** Document text including front matter */
+  text: string
+  /** Why the file does not map back to the same portal location */
+  warning?: string
+}
+
+/** A page or snippet of the portal that is not imported */
+export interface SkippedImport {
+  kind: 'page' | 'snippet'
+  /** Portal path of pages, or name of snippets */
+  target: string
+  /** Why the page or snippet is not imported */
+  reason: string
+}
+
+/** Files to write into the workspace, and the pages and snippets that cannot be written */
+export interface ImportPlan {
+  files: ImportFile[]
+  skipped: SkippedImport[]
+}
+
+/** Workspace directories the portal content is written to */
+export interface ImportDirectories {
+  pagesDirectory: string
+  snippetsDirectory: string
+  /** How snippet names map to files, `fileName` if not set */
+  snippetNaming?: SnippetNamingStrategy
+}
+
+/**
+ * Joins a configured directory and a file path using forward slashes
+ * @param directory The directory relative to the workspace folder
+ * @param filePath The file path relative to the directory
+ * @returns The file path relative to the workspace folder
+ */
+function joinRelativePath(directory: string, filePath: string): string {
+  return `${directory.trim().replace(/[\\/]+$/, '')}/${filePath}`
+}
+
+/**
+ * Checks that a file path derived from a page slug or snippet name stays inside its directory
+ * @param filePath The file path relative to the pages or snippets directory
+ * @returns Whether the path is relative and has no `.` or `..` segments and no backslashes
+ */
+function isContainedPath(filePath: string): boolean {
+  return !filePath.includes('\\') &&
+    !/^[a-zA-Z]:/.test(filePath) &&
+    filePath.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..')
+}
+
+/**
+ * Downloads the pages and snippets of a portal and maps them to workspace files whose paths
+ * resolve to the same page paths and snippet names when previewed or published
+ * @param requestService Service for Konnect requests
+ * @param portalId ID of the portal to import
+ * @param directories Directories to write pages and snippets to, empty directories are not imported
+ * @param onProgress Called with the page path or snippet name before its content is downloaded
+ * @returns The files to write, and the pages and snippets whose paths leave their directory or are
+ * already used by another page or snippet
+ */
+export async function createImportFiles(
+  requestService: KonnectRequestService,
+  portalId: string,
+  directories: ImportDirectories,
+  onProgress?: (target: string) => void,
+): Promise<ImportPlan> {
+  const files: ImportFile[] = []
+  const skipped: SkippedImport[] = []
+  // File systems may ignore case, so paths that only differ in case collide
+  const importedPaths = new Map<string, string>()
+  const claimPath = (relativePath: string, owner: string): string | undefined => {
+    const key = relativePath.toLowerCase()
+    const existing = importedPaths.get(key)
+    if (existing === undefined) {
+      importedPaths.set(key, owner)
+    }
+    return existing
+  }
+
+  if (directories.pagesDirectory?.trim()) {
+    for (const entry of getRemotePageEntries(await requestService.fetchPortalPages(portalId))) {
+      if (!isContainedPath(entry.filePath)) {
+        skipped.push({ kind: 'page', target: entry.pagePath, reason: `${entry.filePath} is outside the pages directory` })
+        continue
+      }
+      const relativePath = joinRelativePath(directories.pagesDirectory, entry.filePath)
+      const owner = claimPath(relativePath, `page ${entry.pagePath}`)
+      if (owner !== undefined) {
+        skipped.push({ kind: 'page', target: entry.pagePath, reason: `${relativePath} is already used by ${owner}` })
+        continue
+      }
+
+      onProgress?.(entry.pagePath)
+      const page = await requestService.fetchPortalPage(portalId, entry.page.id)
+      const { path } = calculatePagePath(entry.filePath)
+      files.push({
+        kind: 'page',
+        target: entry.pagePath,
+        relativePath,
+        text: toLocalDocument(page),
+        warning: path !== entry.pagePath
+          ? `Slug contains characters that are not allowed in file paths, the file is previewed at ${path}`
+          : undefined,
+      })
+    }
+  }
+
+  if (directories.snippetsDirectory?.trim()) {
+    // Snippet names are derived from file paths, which may only contain word characters and hyphens
+    const snippetNaming = directories.snippetNaming ?? 'fileName'
+    for (const snippetInfo of await requestService.fetchPortalSnippets(portalId)) {
+      const filePath = getSnippetFilePath(snippetInfo.name, snippetNaming)
+      if (!isContainedPath(filePath)) {
+        skipped.push({ kind: 'snippet', target: snippetInfo.name, reason: `${filePath} is outside the snippets directory` })
+        continue
+      }
+      const relativePath = joinRelativePath(directories.snippetsDirectory, filePath)
+      const owner = claimPath(relativePath, `snippet ${snippetInfo.name}`)
+      if (owner !== undefined) {
+        skipped.push({ kind: 'snippet', target: snippetInfo.name, reason: `${relativePath} is already used by ${owner}` })
+        continue
+      }
+
+      onProgress?.(snippetInfo.name)
+      const snippet = await requestService.fetchPortalSnippet(portalId, snippetInfo.id)
+      const localName = getSnippetFileName(filePath, snippetNaming)?.name
+      files.push({
+        kind: 'snippet',
+        target: snippet.name,
+        relativePath,
+        text: toLocalDocument(snippet),
+        warning: localName !== snippet.name
+          ? `Name contains characters that are not allowed in snippet names, the file is previewed as ${localName}`
+          : undefined,
+      })
+    }
+  }
+
+  return { files, skipped }
+}
@@ -0,0 +1,113 @@
+import { ProgressLocation, Uri, window, workspace } from 'vscode'
+import type { OutputChannel, WorkspaceFolder } from 'vscode'
+import type { KonnectRequestService } from '../konnect/request-service'
+import type { StoredPortalConfig } from '../types/konnect'
+import { ImportActions, ContentResultActions } from '../types/ui-actions'
+import { createImportFiles } from './files'
+import type { ImportDirectories, ImportFile } from './files'
+
+/**
+ * Checks whether a file exists
+ * @param uri The file URI
+ * @returns true if the file exists
+ */
+async function fileExists(uri: Uri): Promise<boolean> {
+  try {
+    await workspace.fs.stat(uri)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Downloads all pages and snippets of a portal into the pages and snippets directories of a workspace folder
+ * @param requestService Service for Konnect requests
+ * @param portalConfig The portal to import
+ * @param workspaceFolder The workspace folder to write to
+ * @param directories The configured pages and snippets directories
+ * @param output Output channel receiving per-file results
+ * @returns The number of files written
+ */
+export async function importPortalContent(
+  requestService: KonnectRequestService,
+  portalConfig: StoredPortalConfig,
+  workspaceFolder: WorkspaceFolder,
+  directories: ImportDirectories,
+  output: OutputChannel,
+): Promise<number> {
+  const { files, skipped } = await window.withProgress(
+    { location: ProgressLocation.Notification, title: `Downloading content of ${portalConfig.displayName}` },
+    (progress) => createImportFiles(requestService, portalConfig.id, directories, (target) => {
+      progress.report({ message: target })
+    }),
+  )
+
+  if (files.length === 0 && skipped.length === 0) {
+    window.showInformationMessage(`Portal ${portalConfig.displayName} has no pages or snippets to import.`)
+    return 0
+  }
+
+  const uriOf = (file: ImportFile) => Uri.joinPath(workspaceFolder.uri, file.relativePath)
+  const existing = new Set<ImportFile>()
+  for (const file of files) {
+    if (await fileExists(uriOf(file))) {
+      existing.add(file)
+    }
+  }
+
+  let overwrite = false
+  if (existing.size > 0) {
+    const action = await window.showWarningMessage(
+      `${existing.size} of ${files.length} files of ${portalConfig.displayName} already exist in the workspace.`,
+      { modal: true, detail: [...existing].map(file => file.relativePath).slice(0, 10).join('\n') },
+      ImportActions.OVERWRITE,
+      ImportActions.SKIP_EXISTING,
+    )
+    if (!action) {
+      return 0
+    }
+    overwrite = action === ImportActions.OVERWRITE
+  }
+
+  output.appendLine(`Import from ${portalConfig.displayName} (${new Date().toLocaleString()})`)
+  let written = 0
+  let failed = 0
+
+  for (const { kind, target, reason } of skipped) {
+    output.appendLine(`  ✗ Skipped ${kind} ${target}: ${reason}`)
+  }
+
+  for (const file of files) {
+    if (existing.has(file) && !overwrite) {
+      output.appendLine(`  - Kept existing ${file.relativePath}`)
+      continue
+    }
+
+    const uri = uriOf(file)
+    try {
+      await workspace.fs.createDirectory(Uri.joinPath(uri, '..'))
+      await workspace.fs.writeFile(uri, new TextEncoder().encode(file.text))
+      written++
+      output.appendLine(`  ✓ ${file.kind} ${file.target} → ${file.relativePath}${file.warning ? ` (${file.warning})` : ''}`)
+    } catch (error) {
+      failed++
+      output.appendLine(`  ✗ ${file.kind} ${file.target} → ${file.relativePath}: ${error instanceof Error ? error.message : 'Unknown error occurred'}`)
+    }
+  }
+  output.appendLine('')
+
+  const warnings = files.filter(file => file.warning).length
+  const message = `Imported ${written} of ${files.length + skipped.length} files from ${portalConfig.displayName}.`
+    + (failed > 0 ? ` ${failed} failed.` : '')
+    + (skipped.length > 0 ? ` ${skipped.length} skipped, their paths are outside the content directories or already used.` : '')
+    + (warnings > 0 ? ` ${warnings} do not map back to the same portal location.` : '')
+  const action = failed > 0 || warnings > 0 || skipped.length > 0
+    ? await window.showWarningMessage(message, ContentResultActions.SHOW_RESULTS)
+    : await window.showInformationMessage(message, ContentResultActions.SHOW_RESULTS)
+  if (action === ContentResultActions.SHOW_RESULTS) {
+    output.show(true)
+  }
+
+  return written
+}
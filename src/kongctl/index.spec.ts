@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import * as vscode from 'vscode'
 import { getKongctlConfig } from './status'
+import { toKongctlUrlArgument } from './index'
 
 // Mock VS Code module
 vi.mock('vscode', () => ({
@@ -50,4 +51,18 @@ describe('kongctl', () => {
       })
     })
   })
+
+  describe('toKongctlUrlArgument', () => {
+    it('should quote URLs with encoded path segments', () => {
+      expect(toKongctlUrlArgument('https://us.api.konghq.com/v3/portals?page%5Bsize%5D=100&page%5Bnumber%5D=1'))
+        .toBe('"https://us.api.konghq.com/v3/portals?page%5Bsize%5D=100&page%5Bnumber%5D=1"')
+      expect(toKongctlUrlArgument(`http://localhost:8080/v3/portals/${encodeURIComponent('a b')}`)).toBe('"http://localhost:8080/v3/portals/a%20b"')
+    })
+
+    it('should refuse URLs with characters a shell interprets', () => {
+      for (const path of ['$(touch pwned)', '`touch pwned`', '"', '!!', '\\', 'a b']) {
+        expect(() => toKongctlUrlArgument(`https://us.api.konghq.com/v3/portals/${path}`)).toThrow('cannot be passed to kongctl')
+      }
+    })
+  })
 })
@@ -8,6 +8,23 @@ import type { PortalStorageService } from '../storage'
 
 const exists = promisify(fs.exists)
 
+/** Matches URLs that contain no character a shell interprets inside double quotes */
+const SHELL_SAFE_URL_PATTERN = /^https?:\/\/[\w.~%/:?=&-]+$/
+
+/**
+ * Returns a URL as a kongctl argument. Commands are run by a shell, so instead of escaping them,
+ * URLs with characters a shell may interpret, such as `$`, backticks, quotes or `!`, are refused.
+ * @param url The URL, with its path segments encoded
+ * @returns The URL in double quotes, which keep the shell from splitting it at `&` or expanding `?`
+ * @throws Error if the URL contains other characters
+ */
+export function toKongctlUrlArgument(url: string): string {
+  if (!SHELL_SAFE_URL_PATTERN.test(url)) {
+    throw new Error(`The URL ${url} contains characters that cannot be passed to kongctl`)
+  }
+  return `"${url}"`
+}
+
 /**
  * Search for an executable in the PATH
  * @param executable - Name of the executable to find
@@ -2,6 +2,12 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { ApiError, KonnectApiService } from './api'
 // Mock VS Code workspace.getConfiguration for region
 vi.mock('vscode', () => ({
+  CancellationError: class extends Error {
+    constructor() {
+      super('Canceled')
+      this.name = 'Canceled'
+    }
+  },
   workspace: {
     getConfiguration: vi.fn(() => ({
       get: vi.fn((key, def) => {
@@ -18,6 +24,8 @@ import {
   mockPaginatedPage1Response,
   mockPaginatedPage2Response,
   mockEmptyResponse,
+  mockPortalPagesResponse,
+  mockIntroPageWithContent,
   testTokens,
   mockErrorHeaders,
   mockErrorResponses,
@@ -109,7 +117,8 @@ describe('konnect/api', () => {
     let apiService: KonnectApiService
 
     beforeEach(() => {
-      apiService = new KonnectApiService()
+      // Retries are covered by their own tests
+      apiService = new KonnectApiService(10000, { maxRetries: 0 })
     })
 
     describe('constructor', () => {
@@ -417,5 +426,287 @@ describe('konnect/api', () => {
       })
     })
 
+    describe('fetchPortalList', () => {
+      it('should return the entity tag of a single page list', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: { get: vi.fn(name => name === 'etag' ? 'W/"1"' : null) },
+          json: vi.fn().mockResolvedValueOnce(mockSinglePageResponse),
+        })
+
+        expect(await apiService.fetchPortalList(testTokens.valid)).toEqual({ portals: mockPortals, etag: 'W/"1"' })
+        expect(mockFetch.mock.calls[0][1].headers).not.toHaveProperty('If-None-Match')
+      })
+
+      it('should return the cached list when it was not modified', async () => {
+        const cached = { portals: mockPortals, etag: 'W/"1"' }
+        mockFetch.mockResolvedValueOnce({ ok: false, status: 304, headers: { get: vi.fn() } })
+
+        expect(await apiService.fetchPortalList(testTokens.valid, cached)).toBe(cached)
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://us.api.konghq.com/v3/portals?page%5Bsize%5D=100&page%5Bnumber%5D=1',
+          expect.objectContaining({ headers: expect.objectContaining({ 'If-None-Match': 'W/"1"' }) }),
+        )
+      })
+
+      it('should fetch every page without entity tag when the list has several pages', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            status: 200,
+            headers: { get: vi.fn(() => 'W/"1"') },
+            json: vi.fn().mockResolvedValueOnce(mockPaginatedPage1Response),
+          })
+          .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValueOnce(mockPaginatedPage1Response) })
+          .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValueOnce(mockPaginatedPage2Response) })
+
+        expect(await apiService.fetchPortalList(testTokens.valid)).toEqual({ portals: mockPortals })
+        expect(mockFetch).toHaveBeenCalledTimes(3)
+      })
+    })
+
+    describe('retries', () => {
+      /** Creates a failed response with the given headers */
+      const failedResponse = (status: number, headers: Record<string, string> = {}) => ({
+        ok: false,
+        status,
+        statusText: 'Error',
+        headers: { get: vi.fn((key: string) => headers[key] ?? null) },
+        json: vi.fn().mockResolvedValue(mockErrorResponses.empty),
+      })
+
+      beforeEach(() => {
+        apiService = new KonnectApiService()
+        // Run the delays between attempts immediately
+        vi.mocked(setTimeout).mockImplementation(((callback: () => void) => {
+          callback()
+          return 123
+        }) as any)
+      })
+
+      afterEach(() => {
+        vi.mocked(setTimeout).mockImplementation((() => 123) as any)
+      })
+
+      it('should retry server errors of idempotent requests', async () => {
+        mockFetch
+          .mockResolvedValueOnce(failedResponse(503))
+          .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValueOnce(mockEmptyResponse) })
+
+        await expect(apiService.fetchAllPortals(testTokens.valid)).resolves.toEqual([])
+        expect(mockFetch).toHaveBeenCalledTimes(2)
+      })
+
+      it('should retry network errors of idempotent requests', async () => {
+        mockFetch
+          .mockRejectedValueOnce(new Error('Network error'))
+          .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValueOnce(mockEmptyResponse) })
+
+        await expect(apiService.fetchAllPortals(testTokens.valid)).resolves.toEqual([])
+        expect(mockFetch).toHaveBeenCalledTimes(2)
+      })
+
+      it('should wait as long as the Retry-After header asks', async () => {
+        mockFetch
+          .mockResolvedValueOnce(failedResponse(429, { 'retry-after': '2' }))
+          .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValueOnce(mockEmptyResponse) })
+
+        await apiService.fetchAllPortals(testTokens.valid)
+
+        expect(vi.mocked(setTimeout)).toHaveBeenCalledWith(expect.any(Function), 2000)
+      })
+
+      it('should not wait longer than the retry policy allows', async () => {
+        mockFetch.mockResolvedValueOnce(failedResponse(429, { 'retry-after': '3600' }))
+
+        await expect(apiService.fetchAllPortals(testTokens.valid)).rejects.toThrow(API_ERROR_MESSAGES.RATE_LIMIT_EXCEEDED)
+        expect(mockFetch).toHaveBeenCalledTimes(1)
+      })
+
+      it('should give up after the last retry', async () => {
+        const response = failedResponse(429)
+        mockFetch.mockResolvedValueOnce(response).mockResolvedValueOnce(response).mockResolvedValueOnce(response).mockResolvedValueOnce(response)
+
+        await expect(apiService.fetchAllPortals(testTokens.valid)).rejects.toThrow(API_ERROR_MESSAGES.RATE_LIMIT_EXCEEDED)
+        expect(mockFetch).toHaveBeenCalledTimes(4)
+      })
+
+      it('should not retry server errors of writes', async () => {
+        mockFetch.mockResolvedValueOnce(failedResponse(500))
+
+        await expect(apiService.createPortalPage(testTokens.valid, 'portal-1', { slug: 'intro', content: '' } as any)).rejects.toThrow(API_ERROR_MESSAGES.SERVER_ERROR)
+        expect(mockFetch).toHaveBeenCalledTimes(1)
+      })
+
+      it('should not send cancelled requests', async () => {
+        const cancellationToken = { isCancellationRequested: true, onCancellationRequested: vi.fn() }
+
+        await expect(apiService.fetchAllPortals(testTokens.valid, cancellationToken)).rejects.toThrow('Canceled')
+        expect(mockFetch).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('fetchPortalPages', () => {
+      it('should fetch the pages of a portal', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: vi.fn().mockResolvedValueOnce(mockPortalPagesResponse),
+        })
+
+        const result = await apiService.fetchPortalPages(testTokens.valid, 'portal-1')
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://us.api.konghq.com/v3/portals/portal-1/pages?page%5Bsize%5D=100&page%5Bnumber%5D=1',
+          expect.objectContaining({
+            method: 'GET',
+            headers: expect.objectContaining({ Authorization: `Bearer ${testTokens.valid}` }),
+          }),
+        )
+        expect(result).toEqual(mockPortalPagesResponse.data)
+      })
+
+      it('should throw ApiError when the portal does not exist', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          status: 404,
+          headers: { get: vi.fn() },
+          json: vi.fn().mockResolvedValueOnce(mockErrorResponses.empty),
+        })
+
+        await expect(apiService.fetchPortalPages(testTokens.valid, 'missing')).rejects.toThrow(ApiError)
+      })
+    })
+
+    describe('fetchIdentity', () => {
+      it('should fetch the user and organization of the token from the global API', async () => {
+        const user = { id: 'user-1', email: 'jane@example.com', full_name: 'Jane Doe' }
+        const organization = { id: 'org-1', name: 'Acme' }
+        const respond = async (url: string) => ({
+          ok: true,
+          json: vi.fn().mockResolvedValueOnce(url.endsWith('/users/me') ? user : organization),
+        })
+        mockFetch.mockImplementationOnce(respond).mockImplementationOnce(respond)
+
+        const result = await apiService.fetchIdentity(testTokens.valid)
+
+        expect(mockFetch).toHaveBeenCalledWith('https://global.api.konghq.com/v3/users/me', expect.anything())
+        expect(mockFetch).toHaveBeenCalledWith('https://global.api.konghq.com/v3/organizations/me', expect.anything())
+        expect(result).toEqual({ user, organization })
+      })
+
+      it('should throw ApiError when the token is rejected', async () => {
+        const response = {
+          ok: false,
+          status: 401,
+          headers: { get: vi.fn() },
+          json: vi.fn().mockResolvedValue(mockErrorResponses.empty),
+        }
+        mockFetch.mockResolvedValueOnce(response).mockResolvedValueOnce(response)
+
+        await expect(apiService.fetchIdentity(testTokens.valid)).rejects.toMatchObject({ statusCode: 401 })
+      })
+    })
+
+    describe('createPortalPage', () => {
+      it('should post the page attributes as JSON', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: vi.fn().mockResolvedValueOnce(mockIntroPageWithContent),
+        })
+        const payload = { slug: 'intro', title: 'Intro', content: '# Intro', parent_page_id: 'page-guides' }
+
+        await apiService.createPortalPage(testTokens.valid, 'portal-1', payload)
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://us.api.konghq.com/v3/portals/portal-1/pages',
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify(payload),
+            headers: expect.objectContaining({ 'Content-Type': 'application/json' }),
+          }),
+        )
+      })
+
+      it('should use the problem detail of failed requests', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          status: 409,
+          statusText: 'Conflict',
+          headers: { get: vi.fn() },
+          json: vi.fn().mockResolvedValueOnce({ title: 'Conflict', detail: 'slug must be unique' }),
+        })
+
+        await expect(apiService.createPortalPage(testTokens.valid, 'portal-1', { slug: 'intro', title: 'Intro', content: '' }))
+          .rejects.toThrow('slug must be unique')
+      })
+    })
+
+    describe('updatePortalSnippet', () => {
+      it('should patch the snippet attributes', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: vi.fn().mockResolvedValueOnce({ id: 'snippet-1' }),
+        })
+
+        await apiService.updatePortalSnippet(testTokens.valid, 'portal-1', 'snippet-1', { content: 'Banner' })
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://us.api.konghq.com/v3/portals/portal-1/snippets/snippet-1',
+          expect.objectContaining({ method: 'PATCH', body: '{"content":"Banner"}' }),
+        )
+      })
+    })
+
+    describe('fetchPortalPage', () => {
+      it('should fetch a single page with its content', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: vi.fn().mockResolvedValueOnce(mockIntroPageWithContent),
+        })
+
+        const result = await apiService.fetchPortalPage(testTokens.valid, 'portal-1', 'page-intro')
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://us.api.konghq.com/v3/portals/portal-1/pages/page-intro',
+          expect.objectContaining({ method: 'GET' }),
+        )
+        expect(result.content).toBe(mockIntroPageWithContent.content)
+      })
+
+      it('should encode the page ID', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValueOnce(mockIntroPageWithContent) })
+
+        await apiService.fetchPortalPage(testTokens.valid, 'portal-1', '../../users/me')
+
+        expect(mockFetch.mock.calls[0][0]).toBe('https://us.api.konghq.com/v3/portals/portal-1/pages/..%2F..%2Fusers%2Fme')
+      })
+    })
+
+    describe('fetchPortal', () => {
+      it('should fetch a single portal', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: vi.fn().mockResolvedValueOnce(mockPortals[0]),
+        })
+
+        const result = await apiService.fetchPortal(testTokens.valid, mockPortals[0].id)
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          `https://us.api.konghq.com/v3/portals/${mockPortals[0].id}`,
+          expect.objectContaining({ method: 'GET' }),
+        )
+        expect(result).toEqual(mockPortals[0])
+      })
+
+      it('should encode the portal ID', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValueOnce(mockPortals[0]) })
+
+        await apiService.fetchPortal(testTokens.valid, '../users/me')
+
+        expect(mockFetch.mock.calls[0][0]).toBe('https://us.api.konghq.com/v3/portals/..%2Fusers%2Fme')
+      })
+    })
+
   })
 })
@@ -1,7 +1,28 @@
-import type { KonnectPortal, KonnectPortalsResponse } from '../types/konnect'
+import { CancellationError } from 'vscode'
+import type { CancellationToken } from 'vscode'
+import type {
+  KonnectIdentity,
+  KonnectOrganization,
+  KonnectPaginatedResponse,
+  KonnectPortal,
+  KonnectPortalList,
+  KonnectPortalPage,
+  KonnectPortalPageInfo,
+  KonnectPortalPagePayload,
+  KonnectPortalSnippet,
+  KonnectPortalSnippetInfo,
+  KonnectPortalSnippetPayload,
+  KonnectUser,
+} from '../types/konnect'
 import type { ApiErrorInfo } from '../types'
 import { API_ERROR_MESSAGES } from '../constants/messages'
-import { workspace } from 'vscode'
+import { getGlobalApiUrl, getKonnectApiUrl, getRegionSetting } from './endpoints'
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryable, waitForRetry } from './retry'
+import type { RetryPolicy } from './retry'
+import { debug } from '../utils/debug'
+
+/** Number of items fetched per page of a paginated collection */
+const PAGE_SIZE = 100
 
 /**
  * Custom error class for API errors with trace ID support
@@ -40,19 +61,6 @@ export class ApiError extends Error {
 }
 
 
-/**
- * Returns the Konnect API base URL for the selected region
- * @returns Base URL string (e.g., 'https://us.api.konghq.com')
- */
-function getKonnectBaseUrl(): string {
-  // Read region from global/user settings, fallback to 'us'
-  const config = workspace.getConfiguration()
-  const region = config.get<string>('kong.konnect.region', 'us')
-  return `https://${region}.api.konghq.com`
-}
-
-const API_VERSION = 'v3'
-
 /**
  * Service for interacting with the Konnect API
  */
@@ -63,49 +71,237 @@ export class KonnectApiService {
   /** Request timeout in milliseconds */
   private readonly timeout: number
 
+  /** When and how often failed requests are retried */
+  private readonly retryPolicy: RetryPolicy
+
   /**
    * Creates a new KonnectApiService instance
    * @param timeout Request timeout in milliseconds (default: 10000)
+   * @param retryPolicy Settings overriding the default retry policy
    */
-  constructor(timeout = 10000) {
-    this.baseUrl = `${getKonnectBaseUrl()}/${API_VERSION}`
+  constructor(timeout = 10000, retryPolicy: Partial<RetryPolicy> = {}) {
+    this.baseUrl = getKonnectApiUrl(getRegionSetting())
     this.timeout = timeout
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy }
   }
 
   /**
    * Updates the base URL (call if region changes at runtime)
+   * @param region Region overriding the `kong.konnect.region` setting
    */
-  updateBaseUrl(): void {
-    this.baseUrl = `${getKonnectBaseUrl()}/${API_VERSION}`
+  updateBaseUrl(region?: string): void {
+    this.baseUrl = getKonnectApiUrl(region ?? getRegionSetting())
   }
 
   /**
-   * Fetches all portals from Konnect API with pagination support
-   * @param token Personal Access Token
+   * Fetches all portals for the authenticated user, handling pagination automatically
+   * @param token Konnect PAT token
+   * @param cancellationToken Token cancelling the requests, e.g. of a progress notification
    * @returns Promise resolving to array of all portals
+   * @throws ApiError on API errors, CancellationError if cancelled
+   */
+  async fetchAllPortals(token: string, cancellationToken?: CancellationToken): Promise<KonnectPortal[]> {
+    return this.fetchAllPages<KonnectPortal>('portals', token, cancellationToken)
+  }
+
+  /**
+   * Fetches all portals unless they are unchanged since a cached list. The entity tag of the cached
+   * list is sent in `If-None-Match`, the API then answers 304 without sending the portals again.
+   * @param token Konnect PAT token
+   * @param cached The cached list
+   * @param cancellationToken Token cancelling the requests
+   * @returns Promise resolving to the fetched list, or the cached list if it was not modified
+   * @throws ApiError on API errors, CancellationError if cancelled
+   */
+  async fetchPortalList(token: string, cached?: KonnectPortalList, cancellationToken?: CancellationToken): Promise<KonnectPortalList> {
+    const response = await this.fetchResponse(this.getPageUrl('portals', 1), token, {
+      method: 'GET',
+      headers: cached?.etag ? { 'If-None-Match': cached.etag } : {},
+    }, cancellationToken)
+    if (cached && response.status === 304) {
+      return cached
+    }
+
+    const firstPage = await response.json() as KonnectPaginatedResponse<KonnectPortal>
+    const page = firstPage.meta?.page
+    // The entity tag of the first page only covers lists that fit on it
+    if (page && page.size > 0 && page.total > page.size) {
+      return { portals: await this.fetchAllPages<KonnectPortal>('portals', token, cancellationToken) }
+    }
+    return {
+      portals: Array.isArray(firstPage.data) ? firstPage.data : [],
+      etag: response.headers.get('etag') || undefined,
+    }
+  }
+
+  /**
+   * Fetches a single portal
+   * @param token Konnect PAT token
+   * @param portalId ID of the portal
+   * @returns Promise resolving to the portal
+   * @throws ApiError on API errors, e.g. with status 404 if the portal does not exist
+   */
+  async fetchPortal(token: string, portalId: string): Promise<KonnectPortal> {
+    return this.fetchRequest<KonnectPortal>(`${this.baseUrl}/portals/${encodeURIComponent(portalId)}`, token, {
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Fetches the user and organization a token authenticates as
+   * @param token Konnect PAT token
+   * @param cancellationToken Token cancelling the requests
+   * @returns Promise resolving to the identity of the token
+   * @throws ApiError on API errors, e.g. with status 401 for rejected tokens, CancellationError if cancelled
+   */
+  async fetchIdentity(token: string, cancellationToken?: CancellationToken): Promise<KonnectIdentity> {
+    const [user, organization] = await Promise.all([
+      this.fetchRequest<KonnectUser>(getGlobalApiUrl('users/me'), token, {}, cancellationToken),
+      this.fetchRequest<KonnectOrganization>(getGlobalApiUrl('organizations/me'), token, {}, cancellationToken),
+    ])
+    return { user, organization }
+  }
+
+  /**
+   * Fetches the pages of a portal, handling pagination automatically
+   * @param token Konnect PAT token
+   * @param portalId ID of the portal
+   * @returns Promise resolving to the pages of the portal, without content
    * @throws ApiError on API errors
    */
+  async fetchPortalPages(token: string, portalId: string): Promise<KonnectPortalPageInfo[]> {
+    return this.fetchAllPages<KonnectPortalPageInfo>(`portals/${encodeURIComponent(portalId)}/pages`, token)
+  }
+
   /**
-   * Fetches all portals for the authenticated user, handling pagination automatically
+   * Fetches a single portal page including its content
    * @param token Konnect PAT token
-   * @returns Promise resolving to array of all portals
+   * @param portalId ID of the portal
+   * @param pageId ID of the page
+   * @returns Promise resolving to the page
+   * @throws ApiError on API errors
+   */
+  async fetchPortalPage(token: string, portalId: string, pageId: string): Promise<KonnectPortalPage> {
+    return this.fetchRequest<KonnectPortalPage>(`${this.baseUrl}/portals/${encodeURIComponent(portalId)}/pages/${encodeURIComponent(pageId)}`, token, {
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Creates a page in a portal
+   * @param token Konnect PAT token
+   * @param portalId ID of the portal
+   * @param payload Attributes of the page
+   * @returns Promise resolving to the created page
+   * @throws ApiError on API errors
    */
-  async fetchAllPortals(token: string): Promise<KonnectPortal[]> {
-    const allPortals: KonnectPortal[] = []
+  async createPortalPage(token: string, portalId: string, payload: KonnectPortalPagePayload): Promise<KonnectPortalPage> {
+    return this.sendJson<KonnectPortalPage>('POST', `portals/${encodeURIComponent(portalId)}/pages`, token, payload)
+  }
+
+  /**
+   * Updates a page in a portal
+   * @param token Konnect PAT token
+   * @param portalId ID of the portal
+   * @param pageId ID of the page
+   * @param payload Attributes to update
+   * @returns Promise resolving to the updated page
+   * @throws ApiError on API errors
+   */
+  async updatePortalPage(token: string, portalId: string, pageId: string, payload: Partial<KonnectPortalPagePayload>): Promise<KonnectPortalPage> {
+    return this.sendJson<KonnectPortalPage>('PATCH', `portals/${encodeURIComponent(portalId)}/pages/${encodeURIComponent(pageId)}`, token, payload)
+  }
+
+  /**
+   * Fetches the snippets of a portal, handling pagination automatically
+   * @param token Konnect PAT token
+   * @param portalId ID of the portal
+   * @returns Promise resolving to the snippets of the portal, without content
+   * @throws ApiError on API errors
+   */
+  async fetchPortalSnippets(token: string, portalId: string): Promise<KonnectPortalSnippetInfo[]> {
+    return this.fetchAllPages<KonnectPortalSnippetInfo>(`portals/${encodeURIComponent(portalId)}/snippets`, token)
+  }
+
+  /**
+   * Fetches a single portal snippet including its content
+   * @param token Konnect PAT token
+   * @param portalId ID of the portal
+   * @param snippetId ID of the snippet
+   * @returns Promise resolving to the snippet
+   * @throws ApiError on API errors
+   */
+  async fetchPortalSnippet(token: string, portalId: string, snippetId: string): Promise<KonnectPortalSnippet> {
+    return this.fetchRequest<KonnectPortalSnippet>(`${this.baseUrl}/portals/${encodeURIComponent(portalId)}/snippets/${encodeURIComponent(snippetId)}`, token, {
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Creates a snippet in a portal
+   * @param token Konnect PAT token
+   * @param portalId ID of the portal
+   * @param payload Attributes of the snippet
+   * @returns Promise resolving to the created snippet
+   * @throws ApiError on API errors
+   */
+  async createPortalSnippet(token: string, portalId: string, payload: KonnectPortalSnippetPayload): Promise<KonnectPortalSnippet> {
+    return this.sendJson<KonnectPortalSnippet>('POST', `portals/${encodeURIComponent(portalId)}/snippets`, token, payload)
+  }
+
+  /**
+   * Updates a snippet in a portal
+   * @param token Konnect PAT token
+   * @param portalId ID of the portal
+   * @param snippetId ID of the snippet
+   * @param payload Attributes to update
+   * @returns Promise resolving to the updated snippet
+   * @throws ApiError on API errors
+   */
+  async updatePortalSnippet(token: string, portalId: string, snippetId: string, payload: Partial<KonnectPortalSnippetPayload>): Promise<KonnectPortalSnippet> {
+    return this.sendJson<KonnectPortalSnippet>('PATCH', `portals/${encodeURIComponent(portalId)}/snippets/${encodeURIComponent(snippetId)}`, token, payload)
+  }
+
+  /**
+   * Sends a JSON body to the API
+   * @param method HTTP method
+   * @param path Request path relative to the API base URL
+   * @param token Konnect PAT token
+   * @param body Request body
+   * @returns Promise resolving to the parsed response
+   * @throws ApiError on API errors
+   */
+  private async sendJson<T>(method: 'POST' | 'PATCH', path: string, token: string, body: object): Promise<T> {
+    return this.fetchRequest<T>(`${this.baseUrl}/${path}`, token, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  }
+
+  /**
+   * Fetches every item of a paginated collection
+   * @param path Collection path relative to the API base URL
+   * @param token Konnect PAT token
+   * @param cancellationToken Token cancelling the requests
+   * @returns Promise resolving to the items of all pages
+   * @throws ApiError on API errors
+   */
+  private async fetchAllPages<T>(path: string, token: string, cancellationToken?: CancellationToken): Promise<T[]> {
+    const allItems: T[] = []
     let currentPage = 1
-    const pageSize = 100
 
-    // Continue fetching pages until we have all portals
+    // Continue fetching pages until we have all items
     while (true) {
-      const url = `${this.baseUrl}/portals?page%5Bsize%5D=${pageSize}&page%5Bnumber%5D=${currentPage}`
+      const url = this.getPageUrl(path, currentPage)
 
-      const response = await this.fetchRequest<KonnectPortalsResponse>(url, token, {
+      const response = await this.fetchRequest<KonnectPaginatedResponse<T>>(url, token, {
         method: 'GET',
-      })
+      }, cancellationToken)
 
-      // Add portals from this page to the collection (handle empty or missing data)
+      // Add items from this page to the collection (handle empty or missing data)
       if (response.data && Array.isArray(response.data)) {
-        allPortals.push(...response.data)
+        allItems.push(...response.data)
       }
 
       // Check if there are more pages to fetch
@@ -133,25 +329,54 @@ export class KonnectApiService {
       currentPage = number + 1
     }
 
-    return allPortals
+    return allItems
+  }
+
+  /**
+   * Returns the URL of a page of a paginated collection
+   * @param path Collection path relative to the API base URL
+   * @param pageNumber Page number, starting at 1
+   * @returns The URL
+   */
+  private getPageUrl(path: string, pageNumber: number): string {
+    return `${this.baseUrl}/${path}?page%5Bsize%5D=${PAGE_SIZE}&page%5Bnumber%5D=${pageNumber}`
   }
 
   /**
-   * Makes an authenticated request to the Konnect API with flexible options
+   * Makes an authenticated request to the Konnect API with flexible options, retrying failures
+   * that may go away, such as rate limits, server errors and timeouts
    * @param url Full URL to request
    * @param token Personal Access Token
    * @param options Additional fetch options (method, headers, body, etc.)
+   * @param cancellationToken Token cancelling the request and its retries
    * @returns Promise resolving to parsed response
-   * @throws ApiError on API errors
+   * @throws ApiError on API errors, CancellationError if cancelled
    */
   private async fetchRequest<T>(
     url: string,
     token: string,
     options: Omit<RequestInit, 'signal'> = {},
+    cancellationToken?: CancellationToken,
   ): Promise<T> {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout)
+    const response = await this.fetchResponse(url, token, options, cancellationToken)
+    return await response.json() as T
+  }
 
+  /**
+   * Makes an authenticated request to the Konnect API like {@link fetchRequest}, without parsing the response
+   * @param url Full URL to request
+   * @param token Personal Access Token
+   * @param options Additional fetch options (method, headers, body, etc.)
+   * @param cancellationToken Token cancelling the request and its retries
+   * @returns Promise resolving to the successful response, or the 304 response of a conditional request
+   * @throws ApiError on API errors, CancellationError if cancelled
+   */
+  private async fetchResponse(
+    url: string,
+    token: string,
+    options: Omit<RequestInit, 'signal'> = {},
+    cancellationToken?: CancellationToken,
+  ): Promise<Response> {
     // Merge default headers with provided headers
     const defaultHeaders = {
       'Authorization': `Bearer ${token}`,
@@ -164,28 +389,70 @@ export class KonnectApiService {
     }
 
     // Merge default options with provided options
-    const fetchOptions: RequestInit = {
+    const fetchOptions: Omit<RequestInit, 'signal'> = {
       method: 'GET',
       ...options,
       headers: mergedHeaders,
-      signal: controller.signal,
     }
+    const method = fetchOptions.method!
+    const { maxRetries } = this.retryPolicy
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response
+      try {
+        response = await this.sendRequest(url, fetchOptions, cancellationToken)
+      } catch (error) {
+        // Network errors and timeouts
+        const delay = attempt <= maxRetries && !cancellationToken?.isCancellationRequested && isRetryable(method)
+          ? getRetryDelay(attempt, undefined, this.retryPolicy)
+          : undefined
+        if (delay === undefined) {
+          throw error
+        }
+        debug.warn(`Konnect request ${method} ${url} failed, retry ${attempt} of ${maxRetries} in ${delay} ms:`, error instanceof Error ? error.message : error)
+        await waitForRetry(delay, cancellationToken)
+        continue
+      }
 
-    try {
-      const response = await fetch(url, fetchOptions)
-
-      clearTimeout(timeoutId)
+      if (response.ok || response.status === 304) {
+        return response
+      }
 
-      if (!response.ok) {
+      const delay = attempt <= maxRetries && isRetryable(method, response.status)
+        ? getRetryDelay(attempt, response.headers, this.retryPolicy)
+        : undefined
+      if (delay === undefined) {
         await this.handleApiError(response)
       }
+      debug.warn(`Konnect request ${method} ${url} failed with status ${response.status}, retry ${attempt} of ${maxRetries} in ${delay} ms`, {
+        traceId: response.headers.get('x-datadog-trace-id') || undefined,
+      })
+      await waitForRetry(delay!, cancellationToken)
+    }
+  }
 
-      return await response.json() as T
-    } catch (error) {
-      clearTimeout(timeoutId)
+  /**
+   * Sends a single request, aborting it after the request timeout or when cancelled
+   * @param url Full URL to request
+   * @param options Fetch options
+   * @param cancellationToken Token cancelling the request
+   * @returns Promise resolving to the response, whatever its status
+   * @throws Error on network errors and timeouts, CancellationError if cancelled
+   */
+  private async sendRequest(url: string, options: Omit<RequestInit, 'signal'>, cancellationToken?: CancellationToken): Promise<Response> {
+    if (cancellationToken?.isCancellationRequested) {
+      throw new CancellationError()
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout)
+    const cancellation = cancellationToken?.onCancellationRequested(() => controller.abort())
 
+    try {
+      return await fetch(url, { ...options, signal: controller.signal })
+    } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(API_ERROR_MESSAGES.REQUEST_TIMEOUT)
+        throw cancellationToken?.isCancellationRequested ? new CancellationError() : new Error(API_ERROR_MESSAGES.REQUEST_TIMEOUT)
       }
 
       if (error instanceof Error) {
@@ -193,6 +460,9 @@ export class KonnectApiService {
       }
 
       throw new Error(API_ERROR_MESSAGES.UNKNOWN_ERROR)
+    } finally {
+      clearTimeout(timeoutId)
+      cancellation?.dispose()
     }
   }
 
@@ -233,7 +503,7 @@ export class KonnectApiService {
       case 504:
         throw new ApiError(API_ERROR_MESSAGES.SERVER_ERROR + '. Please try again later.', traceId, response.status)
       default:
-        throw new ApiError(errorBody.message || response.statusText, traceId, response.status)
+        throw new ApiError(errorBody.message || errorBody.detail || response.statusText, traceId, response.status)
     }
   }
 
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { workspace } from 'vscode'
+import {
+  getBaseUrlOverride,
+  getGlobalApiUrl,
+  getKonnectApiUrl,
+  getRegionSetting,
+  isRegionCode,
+  validateRegion,
+} from './endpoints'
+
+vi.mock('vscode', () => ({
+  workspace: {
+    getConfiguration: vi.fn(),
+  },
+}))
+
+/** Mocks the settings read by the endpoint resolver */
+function mockSettings(settings: Record<string, unknown>): void {
+  vi.mocked(workspace.getConfiguration).mockReturnValue({
+    get: vi.fn((key: string, defaultValue?: unknown) => settings[key] ?? defaultValue),
+  } as any)
+}
+
+describe('konnect/endpoints', () => {
+  beforeEach(() => {
+    mockSettings({})
+  })
+
+  describe('getKonnectApiUrl', () => {
+    it('should resolve the Konnect API of a region', () => {
+      expect(getKonnectApiUrl('eu')).toBe('https://eu.api.konghq.com/v3')
+      expect(getKonnectApiUrl('eu', '/portals?page%5Bsize%5D=1')).toBe('https://eu.api.konghq.com/v3/portals?page%5Bsize%5D=1')
+      expect(getGlobalApiUrl('users/me')).toBe('https://global.api.konghq.com/v3/users/me')
+    })
+
+    it('should replace the region placeholder of a base URL override', () => {
+      mockSettings({ 'kong.konnect.apiBaseUrl': 'https://{region}.api.konghq.tech/' })
+
+      expect(getKonnectApiUrl('eu', 'portals')).toBe('https://eu.api.konghq.tech/v3/portals')
+      expect(getGlobalApiUrl('available-regions')).toBe('https://global.api.konghq.tech/v3/available-regions')
+    })
+
+    it('should send all requests to a base URL override without region', () => {
+      mockSettings({ 'kong.konnect.apiBaseUrl': ' http://localhost:8080 ' })
+
+      expect(getKonnectApiUrl('eu', 'portals')).toBe('http://localhost:8080/v3/portals')
+      expect(getGlobalApiUrl('users/me')).toBe('http://localhost:8080/v3/users/me')
+    })
+  })
+
+  describe('getBaseUrlOverride', () => {
+    it('should ignore invalid base URLs', () => {
+      mockSettings({ 'kong.konnect.apiBaseUrl': 'not a url' })
+      expect(getBaseUrlOverride()).toBeUndefined()
+
+      mockSettings({ 'kong.konnect.apiBaseUrl': 'file:///tmp/konnect' })
+      expect(getBaseUrlOverride()).toBeUndefined()
+    })
+
+    it('should only accept plain http for localhost', () => {
+      mockSettings({ 'kong.konnect.apiBaseUrl': 'http://konnect.example.com' })
+      expect(getBaseUrlOverride()).toBeUndefined()
+
+      mockSettings({ 'kong.konnect.apiBaseUrl': 'http://{region}.api.example.com' })
+      expect(getBaseUrlOverride()).toBeUndefined()
+
+      mockSettings({ 'kong.konnect.apiBaseUrl': 'http://localhost.example.com:8080' })
+      expect(getBaseUrlOverride()).toBeUndefined()
+
+      mockSettings({ 'kong.konnect.apiBaseUrl': 'http://127.0.0.1:8080/' })
+      expect(getBaseUrlOverride()).toBe('http://127.0.0.1:8080')
+    })
+  })
+
+  describe('getRegionSetting', () => {
+    it('should normalize the region setting', () => {
+      mockSettings({ 'kong.konnect.region': ' EU ' })
+      expect(getRegionSetting()).toBe('eu')
+    })
+
+    it('should fall back to the default region when the setting is not a region code', () => {
+      mockSettings({ 'kong.konnect.region': 'evil.example.com/' })
+      expect(getRegionSetting()).toBe('us')
+    })
+  })
+
+  describe('validateRegion', () => {
+    it('should check the region against the available regions', () => {
+      expect(validateRegion('eu', ['us', 'eu'])).toBeUndefined()
+      expect(validateRegion('xx', ['us', 'eu'])).toBe('Konnect has no region "xx", available regions: us, eu')
+    })
+
+    it('should only check the format when the available regions are unknown', () => {
+      expect(validateRegion('xx', [])).toBeUndefined()
+      expect(isRegionCode('e.u')).toBe(false)
+      expect(validateRegion('e.u', [])).toBe('"e.u" is not a region code such as "us" or "eu"')
+    })
+  })
+})
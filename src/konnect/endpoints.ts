@@ -0,0 +1,123 @@
+import { workspace } from 'vscode'
+import { debug } from '../utils/debug'
+
+/** Version of the Konnect API the extension uses */
+export const KONNECT_API_VERSION = 'v3'
+
+/** Region used when the `kong.konnect.region` setting is empty or invalid */
+export const DEFAULT_KONNECT_REGION = 'us'
+
+/** Pseudo-region of the APIs that are not regional, e.g. the identity and region APIs */
+export const GLOBAL_KONNECT_REGION = 'global'
+
+/** Placeholder of the region in the `kong.konnect.apiBaseUrl` setting */
+const REGION_PLACEHOLDER = '{region}'
+
+/** Hosts the `kong.konnect.apiBaseUrl` setting may use plain http for, e.g. a local mock server */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1']
+
+/** Matches a Konnect region code */
+const REGION_PATTERN = /^[a-z]{2,}$/
+
+/**
+ * Checks the format of a Konnect region code, the code becomes part of the API host name
+ * @param region The region code
+ * @returns Whether the region is a code such as `us` or `eu`
+ */
+export function isRegionCode(region: string): boolean {
+  return REGION_PATTERN.test(region)
+}
+
+/**
+ * Checks a region code against the regions Konnect offers
+ * @param region The region code
+ * @param availableRegions The regions fetched from Konnect
+ * @returns An error message, or undefined if the region is available
+ */
+export function validateRegion(region: string, availableRegions: string[]): string | undefined {
+  if (!isRegionCode(region)) {
+    return `"${region}" is not a region code such as "us" or "eu"`
+  }
+  if (availableRegions.length > 0 && !availableRegions.includes(region)) {
+    return `Konnect has no region "${region}", available regions: ${availableRegions.join(', ')}`
+  }
+  return undefined
+}
+
+/**
+ * Returns the region of the `kong.konnect.region` setting
+ * @returns The region, the default region if the setting is not a region code
+ */
+export function getRegionSetting(): string {
+  const region = workspace.getConfiguration().get<string>('kong.konnect.region', DEFAULT_KONNECT_REGION).trim().toLowerCase()
+  if (!isRegionCode(region)) {
+    debug.warn(`Ignoring the invalid Konnect region "${region}", using "${DEFAULT_KONNECT_REGION}"`)
+    return DEFAULT_KONNECT_REGION
+  }
+  return region
+}
+
+/**
+ * Returns the `kong.konnect.apiBaseUrl` setting, which replaces the Konnect API host, e.g. for
+ * staging, private deployments or a local mock server. The setting is application scoped, so a
+ * workspace cannot send the access token to another host.
+ * @returns The base URL without trailing slash, undefined if not set, not an https URL, or an http
+ * URL of a host other than localhost
+ */
+export function getBaseUrlOverride(): string | undefined {
+  const baseUrl = workspace.getConfiguration().get<string>('kong.konnect.apiBaseUrl', '').trim()
+  if (!baseUrl) {
+    return undefined
+  }
+
+  let url: URL
+  try {
+    url = new URL(baseUrl.replace(REGION_PLACEHOLDER, GLOBAL_KONNECT_REGION))
+  } catch {
+    debug.warn(`Ignoring the invalid Konnect API base URL "${baseUrl}"`)
+    return undefined
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    debug.warn(`Ignoring the Konnect API base URL "${baseUrl}", only http and https are supported`)
+    return undefined
+  }
+  // Requests carry the access token, which must not be sent unencrypted over the network
+  if (url.protocol === 'http:' && !LOOPBACK_HOSTS.includes(url.hostname)) {
+    debug.warn(`Ignoring the Konnect API base URL "${baseUrl}", http is only supported for localhost`)
+    return undefined
+  }
+  return baseUrl.replace(/\/+$/, '')
+}
+
+/**
+ * Returns the base URL of the Konnect API of a region, without the API version
+ * @param region The region code, or the global pseudo-region
+ * @returns The base URL, e.g. `https://us.api.konghq.com`
+ */
+export function getKonnectBaseUrl(region: string): string {
+  const override = getBaseUrlOverride()
+  if (override) {
+    return override.replace(REGION_PLACEHOLDER, region)
+  }
+  return `https://${region}.api.konghq.com`
+}
+
+/**
+ * Returns the URL of a Konnect API path in a region
+ * @param region The region code, or the global pseudo-region
+ * @param path Path relative to the API version, including any query string
+ * @returns The URL, e.g. `https://us.api.konghq.com/v3/portals`
+ */
+export function getKonnectApiUrl(region: string, path = ''): string {
+  const apiUrl = `${getKonnectBaseUrl(region)}/${KONNECT_API_VERSION}`
+  return path ? `${apiUrl}/${path.replace(/^\/+/, '')}` : apiUrl
+}
+
+/**
+ * Returns the URL of a path of the Konnect APIs that are not regional
+ * @param path Path relative to the API version
+ * @returns The URL, e.g. `https://global.api.konghq.com/v3/users/me`
+ */
+export function getGlobalApiUrl(path: string): string {
+  return getKonnectApiUrl(GLOBAL_KONNECT_REGION, path)
+}
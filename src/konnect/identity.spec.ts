@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { KonnectIdentityService, getUserDisplayName } from './identity'
+import type { KonnectRequestService } from './request-service'
+import type { PortalStorageService } from '../storage'
+import type { KonnectIdentity } from '../types/konnect'
+
+vi.mock('vscode', () => ({
+  EventEmitter: class {
+    private listeners: Array<() => void> = []
+    event = (listener: () => void) => {
+      this.listeners.push(listener)
+      return { dispose: vi.fn() }
+    }
+
+    fire = () => this.listeners.forEach(listener => listener())
+    dispose = vi.fn()
+  },
+  workspace: {
+    getConfiguration: vi.fn(() => ({ get: vi.fn((_key: string, defaultValue: unknown) => defaultValue) })),
+  },
+}))
+
+const identity: KonnectIdentity = {
+  user: { id: 'user-1', email: 'jane@example.com', full_name: 'Jane Doe' },
+  organization: { id: 'org-1', name: 'Acme' },
+}
+
+describe('getUserDisplayName', () => {
+  it('should prefer the preferred name, then the full name, then the email', () => {
+    expect(getUserDisplayName({ ...identity.user, preferred_name: 'JD' })).toBe('JD')
+    expect(getUserDisplayName(identity.user)).toBe('Jane Doe')
+    expect(getUserDisplayName({ id: 'user-1', email: 'jane@example.com' })).toBe('jane@example.com')
+  })
+})
+
+describe('KonnectIdentityService', () => {
+  let requestService: { fetchIdentity: ReturnType<typeof vi.fn> }
+  let storageService: { hasValidToken: ReturnType<typeof vi.fn> }
+  let service: KonnectIdentityService
+
+  beforeEach(() => {
+    requestService = { fetchIdentity: vi.fn().mockResolvedValue(identity) }
+    storageService = { hasValidToken: vi.fn().mockResolvedValue(true) }
+    service = new KonnectIdentityService(
+      requestService as unknown as KonnectRequestService,
+      storageService as unknown as PortalStorageService,
+    )
+  })
+
+  it('should verify the token of the active profile', async () => {
+    const listener = vi.fn()
+    service.onDidChange(listener)
+
+    await service.refresh()
+
+    expect(service.getIdentity()).toEqual(identity)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not verify when there is no token', async () => {
+    storageService.hasValidToken.mockResolvedValue(false)
+
+    await service.refresh()
+
+    expect(requestService.fetchIdentity).not.toHaveBeenCalled()
+    expect(service.getIdentity()).toBeUndefined()
+  })
+
+  it('should clear the identity when the token cannot be verified', async () => {
+    service.setIdentity(identity)
+    requestService.fetchIdentity.mockRejectedValue(new Error('Unauthorized'))
+
+    await service.refresh()
+
+    expect(service.getIdentity()).toBeUndefined()
+  })
+
+  it('should keep an identity set while a refresh was pending', async () => {
+    let resolveFetch: (identity: KonnectIdentity) => void = () => {}
+    requestService.fetchIdentity.mockReturnValue(new Promise((resolve) => {
+      resolveFetch = resolve
+    }))
+    const refresh = service.refresh()
+    const newIdentity = { ...identity, organization: { id: 'org-2', name: 'Other' } }
+
+    service.setIdentity(newIdentity)
+    resolveFetch(identity)
+    await refresh
+
+    expect(service.getIdentity()).toEqual(newIdentity)
+  })
+})
@@ -0,0 +1,78 @@
+import { EventEmitter } from 'vscode'
+import type { Disposable, Event } from 'vscode'
+import type { KonnectRequestService } from './request-service'
+import type { PortalStorageService } from '../storage'
+import type { KonnectIdentity, KonnectUser } from '../types/konnect'
+import { debug } from '../utils/debug'
+
+/**
+ * Returns the name a Konnect user is shown with
+ * @param user The user
+ * @returns The preferred name, full name or email of the user
+ */
+export function getUserDisplayName(user: KonnectUser): string {
+  return user.preferred_name || user.full_name || user.email
+}
+
+/**
+ * Keeps the identity of the token of the active profile. Konnect does not expose the expiry of the
+ * token in use, so tokens are only verified, expiring tokens show up as rejected requests.
+ */
+export class KonnectIdentityService implements Disposable {
+  private readonly changeEmitter = new EventEmitter<void>()
+
+  /** Fires when the identity changed */
+  public readonly onDidChange: Event<void> = this.changeEmitter.event
+
+  private identity: KonnectIdentity | undefined
+
+  /** Incremented by every refresh, so only the latest refresh sets the identity */
+  private refreshCount = 0
+
+  constructor(
+    private readonly requestService: KonnectRequestService,
+    private readonly storageService: PortalStorageService,
+  ) {}
+
+  /**
+   * Returns the identity of the token of the active profile
+   * @returns The identity, undefined if there is no token or it could not be verified
+   */
+  public getIdentity(): KonnectIdentity | undefined {
+    return this.identity
+  }
+
+  /**
+   * Sets the identity of a token that was just verified
+   * @param identity The identity, or undefined if the token is not verified
+   */
+  public setIdentity(identity: KonnectIdentity | undefined): void {
+    this.refreshCount++
+    this.identity = identity
+    this.changeEmitter.fire()
+  }
+
+  /** Verifies the token of the active profile, e.g. after switching profiles */
+  public async refresh(): Promise<void> {
+    const refresh = ++this.refreshCount
+    let identity: KonnectIdentity | undefined
+    try {
+      if (await this.storageService.hasValidToken()) {
+        identity = await this.requestService.fetchIdentity()
+        debug.log('Verified Konnect token:', { user: identity.user.email, organization: identity.organization.name })
+      }
+    } catch (error) {
+      debug.warn('Failed to verify the Konnect token:', error)
+    }
+
+    // A newer refresh or a verified token replaced this refresh
+    if (refresh === this.refreshCount) {
+      this.identity = identity
+      this.changeEmitter.fire()
+    }
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose()
+  }
+}
@@ -0,0 +1,11 @@
+/** Matches the UUID of a Konnect entity */
+const KONNECT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Checks the format of a Konnect entity ID taken from outside the API, e.g. from a workspace config file
+ * @param id The ID
+ * @returns Whether the ID is a UUID
+ */
+export function isKonnectId(id: string): boolean {
+  return KONNECT_ID_PATTERN.test(id)
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest'
+import { flattenPortalPages, getPageFilePath, getRemotePageEntries, toLocalDocument } from './pages'
+import { calculatePagePath } from '../utils/page-path'
+import {
+  mockGuidesPage,
+  mockHomePage,
+  mockIntroPage,
+  mockIntroPageWithContent,
+  mockPortalPagesResponse,
+} from '../test/fixtures/konnect-api'
+
+vi.mock('vscode', () => ({
+  window: { showWarningMessage: vi.fn() },
+  workspace: {
+    getConfiguration: vi.fn(() => ({ get: vi.fn(() => false) })),
+  },
+}))
+
+describe('konnect/pages', () => {
+  describe('flattenPortalPages', () => {
+    it('should list nested children after their parent', () => {
+      const pages = flattenPortalPages(mockPortalPagesResponse.data)
+
+      expect(pages.map(page => page.id)).toEqual(['page-home', 'page-guides', 'page-intro'])
+    })
+
+    it('should set the parent of children without one', () => {
+      const pages = flattenPortalPages([{ ...mockGuidesPage, children: [{ ...mockIntroPage, parent_page_id: null }] }])
+
+      expect(pages[1].parent_page_id).toBe('page-guides')
+    })
+  })
+
+  describe('getPageFilePath', () => {
+    it('should map the home page to home.md', () => {
+      expect(getPageFilePath('/')).toBe('home.md')
+    })
+
+    it('should map nested paths to nested files', () => {
+      expect(getPageFilePath('/guides/intro')).toBe('guides/intro.md')
+    })
+
+    it('should round-trip through calculatePagePath', () => {
+      for (const pagePath of ['/', '/guides', '/guides/intro']) {
+        expect(calculatePagePath(getPageFilePath(pagePath)).path).toBe(pagePath)
+      }
+    })
+  })
+
+  describe('getRemotePageEntries', () => {
+    it('should build page paths from parent slugs', () => {
+      const entries = getRemotePageEntries(mockPortalPagesResponse.data)
+
+      expect(entries.map(entry => [entry.pagePath, entry.filePath])).toEqual([
+        ['/', 'home.md'],
+        ['/guides', 'guides.md'],
+        ['/guides/intro', 'guides/intro.md'],
+      ])
+    })
+
+    it('should resolve parents from flat lists', () => {
+      const entries = getRemotePageEntries([mockIntroPage, mockGuidesPage])
+
+      expect(entries.find(entry => entry.page.id === 'page-intro')?.pagePath).toBe('/guides/intro')
+    })
+
+    it('should place children of the home page at the root', () => {
+      const entries = getRemotePageEntries([mockHomePage, { ...mockGuidesPage, parent_page_id: 'page-home' }])
+
+      expect(entries.find(entry => entry.page.id === 'page-guides')?.pagePath).toBe('/guides')
+    })
+
+    it('should not loop on cyclic parent references', () => {
+      const entries = getRemotePageEntries([
+        { ...mockGuidesPage, parent_page_id: 'page-intro' },
+        mockIntroPage,
+      ])
+
+      expect(entries).toHaveLength(2)
+    })
+  })
+
+  describe('toLocalDocument', () => {
+    it('should prepend page attributes as front matter', () => {
+      expect(toLocalDocument(mockIntroPageWithContent)).toBe([
+        '---',
+        'title: "Getting started: intro"',
+        'description: First steps',
+        'visibility: private',
+        'status: unpublished',
+        '---',
+        '# Intro',
+        '',
+        'Welcome to the guides.',
+        '',
+      ].join('\n'))
+    })
+
+    it('should add missing attributes to existing front matter', () => {
+      const content = '---\ntitle: Custom\nslug: intro\n---\n# Intro'
+
+      expect(toLocalDocument({ ...mockIntroPageWithContent, content })).toBe(
+        '---\ndescription: First steps\nvisibility: private\nstatus: unpublished\ntitle: Custom\nslug: intro\n---\n# Intro',
+      )
+    })
+  })
+})
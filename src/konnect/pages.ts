@@ -0,0 +1,84 @@
+import type { KonnectPortalPage, KonnectPortalPageInfo, KonnectPortalSnippet } from '../types/konnect'
+import { mergeFrontMatterFields } from '../front-matter/serialize'
+
+/** Portal page with the full path it is served at */
+export interface RemotePageEntry {
+  page: KonnectPortalPageInfo
+  /** Portal path of the page, built from the slugs of the page and its parents */
+  pagePath: string
+  /** File path relative to the pages directory that maps to the same portal path */
+  filePath: string
+}
+
+/**
+ * Flattens a page tree returned by the Konnect API into a list of pages
+ * @param pages Pages as returned by the API, optionally nested via `children`
+ * @returns All pages, parents before their children
+ */
+export function flattenPortalPages(pages: KonnectPortalPageInfo[]): KonnectPortalPageInfo[] {
+  return pages.flatMap((page) => {
+    const children = (page.children ?? []).map(child => ({ ...child, parent_page_id: child.parent_page_id ?? page.id }))
+    return [page, ...flattenPortalPages(children)]
+  })
+}
+
+/**
+ * Maps a portal path to the file path that `calculatePagePath` maps back to the same portal path
+ * @param pagePath The portal path of the page
+ * @returns The file path relative to the pages directory, using forward slashes
+ */
+export function getPageFilePath(pagePath: string): string {
+  const trimmed = pagePath.replace(/^\/+|\/+$/g, '')
+  return trimmed ? `${trimmed}.md` : 'home.md'
+}
+
+/**
+ * Resolves the portal path and local file path of every page of a portal
+ * @param pages Pages as returned by the API
+ * @returns The pages with their paths, sorted by portal path
+ */
+export function getRemotePageEntries(pages: KonnectPortalPageInfo[]): RemotePageEntry[] {
+  const allPages = flattenPortalPages(pages)
+  const pagesById = new Map(allPages.map(page => [page.id, page]))
+  const pathsById = new Map<string, string>()
+
+  const resolvePath = (page: KonnectPortalPageInfo, visited: Set<string>): string => {
+    const cached = pathsById.get(page.id)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    const segment = page.slug.replace(/^\/+|\/+$/g, '')
+    const parent = page.parent_page_id ? pagesById.get(page.parent_page_id) : undefined
+    // Guard against cycles in malformed parent references
+    const parentPath = parent && !visited.has(parent.id) ? resolvePath(parent, new Set(visited).add(page.id)) : ''
+    const path = parentPath === '/' || !parentPath
+      ? `/${segment}`
+      : segment ? `${parentPath}/${segment}` : parentPath
+
+    pathsById.set(page.id, path)
+    return path
+  }
+
+  return allPages
+    .map((page) => {
+      const pagePath = resolvePath(page, new Set())
+      return { page, pagePath, filePath: getPageFilePath(pagePath) }
+    })
+    .sort((a, b) => a.pagePath.localeCompare(b.pagePath))
+}
+
+/**
+ * Builds the local document for a remote page or snippet, adding its attributes to the front matter.
+ * Keys the content already sets in its own front matter are left untouched.
+ * @param item The page or snippet including its content
+ * @returns The document text
+ */
+export function toLocalDocument(item: KonnectPortalPage | KonnectPortalSnippet): string {
+  return mergeFrontMatterFields(item.content ?? '', {
+    title: item.title,
+    description: item.description,
+    visibility: item.visibility,
+    status: item.status,
+  })
+}
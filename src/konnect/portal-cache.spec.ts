@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { ExtensionContext } from 'vscode'
+import { PortalListCache, hasPortalListChanged } from './portal-cache'
+import type { KonnectRequestService } from './request-service'
+import type { PortalStorageService } from '../storage'
+import { mockPortals } from '../test/fixtures/konnect-api'
+import { createMockContext } from '../test/fixtures/konnect-storage'
+
+vi.mock('vscode', () => ({
+  workspace: {
+    getConfiguration: vi.fn(() => ({ get: vi.fn((_key: string, defaultValue: unknown) => defaultValue) })),
+  },
+}))
+
+describe('hasPortalListChanged', () => {
+  it('should compare the portals by ID and update time', () => {
+    expect(hasPortalListChanged(mockPortals, [...mockPortals].reverse())).toBe(false)
+    expect(hasPortalListChanged(mockPortals, mockPortals.slice(1))).toBe(true)
+    expect(hasPortalListChanged(mockPortals, [{ ...mockPortals[0], updated_at: '2030-01-01T00:00:00Z' }, mockPortals[1]])).toBe(true)
+  })
+})
+
+describe('PortalListCache', () => {
+  let state: Map<string, unknown>
+  let storageService: { getToken: ReturnType<typeof vi.fn> }
+  let requestService: { fetchPortalList: ReturnType<typeof vi.fn>, getRegion: ReturnType<typeof vi.fn> }
+  let cache: PortalListCache
+
+  beforeEach(() => {
+    state = new Map()
+    const context = createMockContext()
+    context.globalState.get.mockImplementation((key: string) => state.get(key))
+    context.globalState.update.mockImplementation(async (key: string, value: unknown) => {
+      state.set(key, value)
+    })
+    context.globalState.keys.mockImplementation(() => [...state.keys()])
+    storageService = { getToken: vi.fn().mockResolvedValue('kpat_token_one_abcdefghijklmnop') }
+    requestService = { fetchPortalList: vi.fn().mockResolvedValue({ portals: mockPortals }), getRegion: vi.fn(() => 'us') }
+    cache = new PortalListCache(
+      context as unknown as ExtensionContext,
+      storageService as unknown as PortalStorageService,
+      requestService as unknown as KonnectRequestService,
+    )
+  })
+
+  it('should persist the refreshed list without the token', async () => {
+    expect(await cache.get()).toBeUndefined()
+
+    expect(await cache.refresh()).toEqual({ portals: mockPortals, changed: true })
+    expect((await cache.get())?.portals).toEqual(mockPortals)
+    expect([...state.keys()].join()).not.toContain('kpat_')
+  })
+
+  it('should report unchanged lists', async () => {
+    await cache.refresh()
+
+    expect(await cache.refresh()).toEqual({ portals: mockPortals, changed: false })
+  })
+
+  it('should keep the lists of other tokens and regions apart', async () => {
+    await cache.refresh()
+
+    storageService.getToken.mockResolvedValue('kpat_token_two_abcdefghijklmnop')
+    expect(await cache.get()).toBeUndefined()
+
+    storageService.getToken.mockResolvedValue('kpat_token_one_abcdefghijklmnop')
+    requestService.getRegion.mockReturnValue('eu')
+    expect(await cache.get()).toBeUndefined()
+  })
+
+  it('should share a pending refresh', async () => {
+    await Promise.all([cache.refresh(), cache.refresh()])
+
+    expect(requestService.fetchPortalList).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep the cached list when it was not modified', async () => {
+    requestService.fetchPortalList.mockResolvedValueOnce({ portals: mockPortals, etag: 'W/"1"' })
+    await cache.refresh()
+    requestService.fetchPortalList.mockImplementationOnce(async cached => cached)
+
+    expect(await cache.refresh()).toEqual({ portals: mockPortals, changed: false })
+    expect(requestService.fetchPortalList).toHaveBeenLastCalledWith(expect.objectContaining({ etag: 'W/"1"' }), undefined)
+    expect((await cache.get())?.etag).toBe('W/"1"')
+  })
+
+  it('should clear the lists of a token in every region', async () => {
+    await cache.refresh()
+    requestService.getRegion.mockReturnValue('eu')
+    await cache.refresh()
+    storageService.getToken.mockResolvedValue('kpat_token_two_abcdefghijklmnop')
+    await cache.refresh()
+
+    storageService.getToken.mockImplementation(async (profileName?: string) =>
+      profileName === 'acme' ? 'kpat_token_one_abcdefghijklmnop' : 'kpat_token_two_abcdefghijklmnop')
+    await cache.clear('acme')
+
+    expect(storageService.getToken).toHaveBeenLastCalledWith('acme')
+    expect([...state.values()].filter(Boolean)).toHaveLength(1)
+    expect(await cache.get()).toBeDefined()
+  })
+})
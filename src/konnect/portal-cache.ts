@@ -0,0 +1,133 @@
+import { createHash } from 'crypto'
+import type { CancellationToken, ExtensionContext } from 'vscode'
+import { getKonnectApiUrl } from './endpoints'
+import type { KonnectRequestService } from './request-service'
+import type { PortalStorageService } from '../storage'
+import type { KonnectPortal, KonnectPortalList } from '../types/konnect'
+import { debug } from '../utils/debug'
+
+/** globalState key prefix of the portal list of each API URL and token */
+const PORTAL_LIST_STATE_KEY = 'kong.konnect.devPortal.portalList'
+
+/** Age in milliseconds up to which a cached portal list is used without refreshing it first */
+export const PORTAL_LIST_MAX_AGE = 5 * 60 * 1000
+
+/** A persisted portal list */
+export interface CachedPortalList extends KonnectPortalList {
+  /** Time the list was fetched or confirmed unchanged, in milliseconds since the epoch */
+  fetchedAt: number
+}
+
+/** Result of refreshing the portal list */
+export interface PortalListRefresh {
+  portals: KonnectPortal[]
+  /** Whether portals were added, removed or updated since the cached list */
+  changed: boolean
+}
+
+/**
+ * Checks whether two portal lists differ, comparing the `updated_at` of each portal
+ * @param cached The cached portals
+ * @param fresh The portals just fetched
+ * @returns Whether a portal was added, removed or updated
+ */
+export function hasPortalListChanged(cached: KonnectPortal[], fresh: KonnectPortal[]): boolean {
+  if (cached.length !== fresh.length) {
+    return true
+  }
+  const updatedAt = new Map(cached.map(portal => [portal.id, portal.updated_at]))
+  return fresh.some(portal => updatedAt.get(portal.id) !== portal.updated_at)
+}
+
+/**
+ * Returns the digest of a token that identifies its portal lists, so the token itself is never persisted
+ * @param token The token
+ * @returns The first 16 hex digits of its SHA-256 digest
+ */
+function getTokenDigest(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 16)
+}
+
+/**
+ * Persists the portal list of the active profile, so the portal quick pick opens with the cached
+ * portals while the list is refreshed in the background. Lists are kept per API URL and token, so
+ * switching regions, profiles or tokens never shows the portals of another organization.
+ * Refreshes send the entity tag of the cached list, so an unchanged list is not downloaded again
+ * when it fits on a single page and the API returned an entity tag for it.
+ */
+export class PortalListCache {
+  /** Pending refreshes by state key, so concurrent callers share a single fetch */
+  private readonly pendingRefreshes = new Map<string, Promise<PortalListRefresh>>()
+
+  constructor(
+    private readonly context: ExtensionContext,
+    private readonly storageService: PortalStorageService,
+    private readonly requestService: KonnectRequestService,
+  ) {}
+
+  /**
+   * Returns the cached portal list of the active profile
+   * @returns The list, undefined if there is no token or the list was never fetched
+   */
+  public async get(): Promise<CachedPortalList | undefined> {
+    const key = await this.getStateKey()
+    return key ? this.context.globalState.get<CachedPortalList>(key) : undefined
+  }
+
+  /**
+   * Fetches the portal list of the active profile and persists it
+   * @param cancellationToken Token cancelling the requests, ignored when joining a pending refresh
+   * @returns The fetched portals and whether they changed since the cached list
+   */
+  public async refresh(cancellationToken?: CancellationToken): Promise<PortalListRefresh> {
+    const key = await this.getStateKey()
+    if (!key) {
+      return { portals: await this.requestService.fetchAllPortals(cancellationToken), changed: true }
+    }
+
+    let pending = this.pendingRefreshes.get(key)
+    if (!pending) {
+      pending = this.fetch(key, cancellationToken).finally(() => this.pendingRefreshes.delete(key))
+      this.pendingRefreshes.set(key, pending)
+    }
+    return pending
+  }
+
+  /**
+   * Removes the cached portal lists of a profile in every region, e.g. before its token or the profile is deleted
+   * @param profileName Name of the profile, the active profile if undefined
+   */
+  public async clear(profileName?: string): Promise<void> {
+    const token = await this.storageService.getToken(profileName)
+    if (!token) {
+      return
+    }
+    const prefix = `${PORTAL_LIST_STATE_KEY}:`
+    const suffix = `:${getTokenDigest(token)}`
+    const keys = this.context.globalState.keys().filter(key => key.startsWith(prefix) && key.endsWith(suffix))
+    await Promise.all(keys.map(key => this.context.globalState.update(key, undefined)))
+  }
+
+  private async fetch(key: string, cancellationToken?: CancellationToken): Promise<PortalListRefresh> {
+    const cached = this.context.globalState.get<CachedPortalList>(key)
+    const list = await this.requestService.fetchPortalList(cached, cancellationToken)
+    const notModified = list === cached
+    const changed = !cached || (!notModified && hasPortalListChanged(cached.portals, list.portals))
+    debug.log('Refreshed the portal list:', { count: list.portals.length, changed, notModified })
+
+    await this.context.globalState.update(key, { portals: list.portals, etag: list.etag, fetchedAt: Date.now() } satisfies CachedPortalList)
+    return { portals: list.portals, changed }
+  }
+
+  /**
+   * Returns the state key of the portal list of the active profile
+   * @returns The key, undefined without a token
+   */
+  private async getStateKey(): Promise<string | undefined> {
+    const token = await this.storageService.getToken()
+    if (!token) {
+      return undefined
+    }
+    return `${PORTAL_LIST_STATE_KEY}:${getKonnectApiUrl(this.requestService.getRegion())}:${getTokenDigest(token)}`
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PortalFileSystemProvider } from './portal-file-system'
+import type { KonnectRequestService } from './request-service'
+import { mockIntroPageWithContent, mockPortalPagesResponse } from '../test/fixtures/konnect-api'
+
+vi.mock('vscode', () => ({
+  EventEmitter: class {
+    event = vi.fn()
+    fire = vi.fn()
+    dispose = vi.fn()
+  },
+  FileChangeType: { Changed: 1, Created: 2, Deleted: 3 },
+  FileSystemError: {
+    FileNotFound: (uri: unknown) => Object.assign(new Error('FileNotFound'), { uri }),
+    NoPermissions: (uri: unknown) => Object.assign(new Error('NoPermissions'), { uri }),
+  },
+  FileType: { File: 1, Directory: 2 },
+  Uri: {
+    from: (components: { scheme: string, authority: string, path: string }) => components,
+  },
+  workspace: {
+    getConfiguration: vi.fn(() => ({ get: vi.fn(() => false) })),
+  },
+}))
+
+const mockSnippet = {
+  id: 'snippet-banner',
+  name: 'banner',
+  visibility: 'public',
+  status: 'published',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z',
+} as const
+
+/** ID of the portal of the URIs */
+const PORTAL_ID = 'f32d905a-ed33-46a3-a093-d8f536af9a8a'
+
+/** Builds a minimal URI for the provider */
+const uri = (path: string, authority = PORTAL_ID) => ({ scheme: 'konnect-portal', authority, path }) as any
+
+describe('PortalFileSystemProvider', () => {
+  let requestService: KonnectRequestService
+  let provider: PortalFileSystemProvider
+
+  beforeEach(() => {
+    requestService = {
+      fetchPortalPages: vi.fn().mockResolvedValue(mockPortalPagesResponse.data),
+      fetchPortalPage: vi.fn().mockResolvedValue(mockIntroPageWithContent),
+      fetchPortalSnippets: vi.fn().mockResolvedValue([mockSnippet]),
+      fetchPortalSnippet: vi.fn().mockResolvedValue({ ...mockSnippet, content: 'Scheduled maintenance\n' }),
+    } as unknown as KonnectRequestService
+    provider = new PortalFileSystemProvider(requestService)
+  })
+
+  it('should list the pages root and nested directories', async () => {
+    expect(await provider.readDirectory(uri('/'))).toEqual([['pages', 2], ['snippets', 2]])
+    expect(await provider.readDirectory(uri('/pages'))).toEqual([['home.md', 1], ['guides.md', 1], ['guides', 2]])
+    expect(await provider.readDirectory(uri('/pages/guides'))).toEqual([['intro.md', 1]])
+  })
+
+  it('should stat files and directories', async () => {
+    expect((await provider.stat(uri('/pages/guides'))).type).toBe(2)
+    expect(await provider.stat(uri('/pages/guides/intro.md'))).toMatchObject({
+      type: 1,
+      mtime: Date.parse(mockIntroPageWithContent.updated_at),
+    })
+    await expect(provider.stat(uri('/pages/missing.md'))).rejects.toThrow('FileNotFound')
+  })
+
+  it('should read page content with front matter', async () => {
+    const content = new TextDecoder().decode(await provider.readFile(uri('/pages/guides/intro.md')))
+
+    expect(requestService.fetchPortalPage).toHaveBeenCalledWith(PORTAL_ID, 'page-intro')
+    expect(content).toContain('visibility: private')
+    expect(content).toContain('# Intro')
+  })
+
+  it('should list, stat and read snippets', async () => {
+    expect(await provider.readDirectory(uri('/snippets'))).toEqual([['banner.md', 1]])
+    expect(await provider.stat(uri('/snippets/banner.md'))).toMatchObject({ type: 1, mtime: Date.parse(mockSnippet.updated_at) })
+    await expect(provider.stat(uri('/snippets/missing.md'))).rejects.toThrow('FileNotFound')
+
+    const content = new TextDecoder().decode(await provider.readFile(uri('/snippets/banner.md')))
+    expect(requestService.fetchPortalSnippet).toHaveBeenCalledWith(PORTAL_ID, 'snippet-banner')
+    expect(content).toBe('---\nvisibility: public\nstatus: published\n---\nScheduled maintenance\n')
+  })
+
+  it('should cache the page listing until refreshed', async () => {
+    await provider.stat(uri('/pages/home.md'))
+    await provider.stat(uri('/pages/guides.md'))
+    expect(requestService.fetchPortalPages).toHaveBeenCalledTimes(1)
+
+    await provider.stat(uri('/snippets/banner.md'))
+    provider.refresh(PORTAL_ID)
+    await provider.stat(uri('/pages/home.md'))
+    await provider.stat(uri('/snippets/banner.md'))
+    expect(requestService.fetchPortalPages).toHaveBeenCalledTimes(2)
+    expect(requestService.fetchPortalSnippets).toHaveBeenCalledTimes(2)
+  })
+
+  it('should retry after a failed listing', async () => {
+    vi.mocked(requestService.fetchPortalPages).mockRejectedValueOnce(new Error('Network error'))
+
+    await expect(provider.stat(uri('/pages/home.md'))).rejects.toThrow('Network error')
+    await expect(provider.stat(uri('/pages/home.md'))).resolves.toMatchObject({ type: 1 })
+  })
+
+  it('should not request anything for authorities that are not portal IDs', async () => {
+    for (const authority of ['portal-1', '$(touch pwned)', '..']) {
+      await expect(provider.stat(uri('/', authority))).rejects.toThrow('FileNotFound')
+      await expect(provider.readDirectory(uri('/pages', authority))).rejects.toThrow('FileNotFound')
+      await expect(provider.readFile(uri('/pages/home.md', authority))).rejects.toThrow('FileNotFound')
+    }
+    expect(requestService.fetchPortalPages).not.toHaveBeenCalled()
+  })
+
+  it('should reject writes', () => {
+    expect(() => provider.writeFile(uri('/pages/home.md'))).toThrow('NoPermissions')
+    expect(() => provider.delete(uri('/pages/home.md'))).toThrow('NoPermissions')
+  })
+})
@@ -0,0 +1,274 @@
+import { EventEmitter, FileChangeType, FileSystemError, FileType, Uri } from 'vscode'
+import type { Disposable, Event, FileChangeEvent, FileStat, FileSystemProvider } from 'vscode'
+import { isKonnectId } from './ids'
+import type { KonnectRequestService } from './request-service'
+import { getRemotePageEntries, toLocalDocument } from './pages'
+import type { RemotePageEntry } from './pages'
+import type { KonnectPortalSnippetInfo } from '../types/konnect'
+import { debug } from '../utils/debug'
+
+/** URI scheme of the remote portal file system */
+export const PORTAL_FILE_SYSTEM_SCHEME = 'konnect-portal'
+
+/** Directory of the remote file system that contains the portal pages */
+const PAGES_ROOT = 'pages'
+
+/** Directory of the remote file system that contains the portal snippets */
+const SNIPPETS_ROOT = 'snippets'
+
+/**
+ * Builds the URI of a remote page file
+ * @param portalId ID of the portal
+ * @param filePath Page file path relative to the pages root
+ * @returns URI in the `konnect-portal:` scheme, e.g. `konnect-portal://<portalId>/pages/guides/intro.md`
+ */
+export function getRemotePageUri(portalId: string, filePath: string): Uri {
+  return Uri.from({ scheme: PORTAL_FILE_SYSTEM_SCHEME, authority: portalId, path: `/${PAGES_ROOT}/${filePath}` })
+}
+
+/**
+ * Builds the URI of a remote snippet file
+ * @param portalId ID of the portal
+ * @param name Name of the snippet
+ * @returns URI in the `konnect-portal:` scheme, e.g. `konnect-portal://<portalId>/snippets/banner.md`
+ */
+export function getRemoteSnippetUri(portalId: string, name: string): Uri {
+  return Uri.from({ scheme: PORTAL_FILE_SYSTEM_SCHEME, authority: portalId, path: `/${SNIPPETS_ROOT}/${name}.md` })
+}
+
+/**
+ * Read-only file system exposing the pages and snippets of Konnect portals, so published content can be
+ * opened and diffed against local files. URIs have the form `konnect-portal://<portalId>/pages/<file>.md`
+ * and `konnect-portal://<portalId>/snippets/<name>.md`.
+ */
+export class PortalFileSystemProvider implements FileSystemProvider, Disposable {
+  private readonly changeEmitter = new EventEmitter<FileChangeEvent[]>()
+
+  /** Fires when cached pages or snippets of a portal are refreshed */
+  public readonly onDidChangeFile: Event<FileChangeEvent[]> = this.changeEmitter.event
+
+  /** Page listings per portal, keyed by file path relative to the pages root */
+  private readonly pageIndexes = new Map<string, Promise<Map<string, RemotePageEntry>>>()
+
+  /** Snippet listings per portal, keyed by file name within the snippets root */
+  private readonly snippetIndexes = new Map<string, Promise<Map<string, KonnectPortalSnippetInfo>>>()
+
+  constructor(private readonly requestService: KonnectRequestService) {}
+
+  /**
+   * Returns the pages of a portal, loading them on first use
+   * @param portalId ID of the portal
+   * @returns The pages keyed by file path
+   */
+  public async getPages(portalId: string): Promise<Map<string, RemotePageEntry>> {
+    return this.getIndex(this.pageIndexes, portalId, async () => {
+      const entries = getRemotePageEntries(await this.requestService.fetchPortalPages(portalId))
+      debug.log('Loaded remote portal pages:', { portalId, count: entries.length })
+      return new Map(entries.map(entry => [entry.filePath, entry]))
+    })
+  }
+
+  /**
+   * Returns the snippets of a portal, loading them on first use
+   * @param portalId ID of the portal
+   * @returns The snippets keyed by file name
+   */
+  public async getSnippets(portalId: string): Promise<Map<string, KonnectPortalSnippetInfo>> {
+    return this.getIndex(this.snippetIndexes, portalId, async () => {
+      const snippets = await this.requestService.fetchPortalSnippets(portalId)
+      debug.log('Loaded remote portal snippets:', { portalId, count: snippets.length })
+      return new Map(snippets.map(snippet => [`${snippet.name}.md`, snippet]))
+    })
+  }
+
+  /**
+   * Discards cached page and snippet listings so they are fetched again on next access
+   * @param portalId ID of the portal to refresh, or undefined to refresh all portals
+   */
+  public refresh(portalId?: string): void {
+    const portalIds = portalId ? [portalId] : [...new Set([...this.pageIndexes.keys(), ...this.snippetIndexes.keys()])]
+    portalIds.forEach((id) => {
+      this.pageIndexes.delete(id)
+      this.snippetIndexes.delete(id)
+    })
+    this.changeEmitter.fire(portalIds.flatMap(id => [PAGES_ROOT, SNIPPETS_ROOT].map(root => ({
+      type: FileChangeType.Changed,
+      uri: Uri.from({ scheme: PORTAL_FILE_SYSTEM_SCHEME, authority: id, path: `/${root}` }),
+    }))))
+  }
+
+  public watch(): Disposable {
+    // Remote content is only reloaded on refresh
+    return { dispose: () => {} }
+  }
+
+  public async stat(uri: Uri): Promise<FileStat> {
+    if (this.isRoot(uri)) {
+      return { type: FileType.Directory, ctime: 0, mtime: 0, size: 0 }
+    }
+
+    const location = this.getLocation(uri)
+    if (!location) {
+      throw FileSystemError.FileNotFound(uri)
+    }
+    if (location.path === '') {
+      return { type: FileType.Directory, ctime: 0, mtime: 0, size: 0 }
+    }
+
+    if (location.root === SNIPPETS_ROOT) {
+      const snippet = (await this.getSnippets(uri.authority)).get(location.path)
+      if (!snippet) {
+        throw FileSystemError.FileNotFound(uri)
+      }
+      return {
+        type: FileType.File,
+        ctime: Date.parse(snippet.created_at) || 0,
+        mtime: Date.parse(snippet.updated_at) || 0,
+        size: 0,
+      }
+    }
+
+    const pages = await this.getPages(uri.authority)
+    const entry = pages.get(location.path)
+    if (entry) {
+      return {
+        type: FileType.File,
+        ctime: Date.parse(entry.page.created_at) || 0,
+        mtime: Date.parse(entry.page.updated_at) || 0,
+        size: 0,
+      }
+    }
+
+    if ([...pages.keys()].some(filePath => filePath.startsWith(`${location.path}/`))) {
+      return { type: FileType.Directory, ctime: 0, mtime: 0, size: 0 }
+    }
+
+    throw FileSystemError.FileNotFound(uri)
+  }
+
+  public async readDirectory(uri: Uri): Promise<Array<[string, FileType]>> {
+    if (this.isRoot(uri)) {
+      return [[PAGES_ROOT, FileType.Directory], [SNIPPETS_ROOT, FileType.Directory]]
+    }
+
+    const location = this.getLocation(uri)
+    if (!location) {
+      throw FileSystemError.FileNotFound(uri)
+    }
+
+    if (location.root === SNIPPETS_ROOT) {
+      if (location.path) {
+        throw FileSystemError.FileNotFound(uri)
+      }
+      return [...(await this.getSnippets(uri.authority)).keys()].map(name => [name, FileType.File])
+    }
+
+    const prefix = location.path ? `${location.path}/` : ''
+    const children = new Map<string, FileType>()
+    for (const filePath of (await this.getPages(uri.authority)).keys()) {
+      if (!filePath.startsWith(prefix)) {
+        continue
+      }
+      const [name, ...rest] = filePath.substring(prefix.length).split('/')
+      children.set(name, rest.length > 0 ? FileType.Directory : children.get(name) ?? FileType.File)
+    }
+
+    if (location.path && children.size === 0) {
+      throw FileSystemError.FileNotFound(uri)
+    }
+    return [...children.entries()]
+  }
+
+  public async readFile(uri: Uri): Promise<Uint8Array> {
+    const location = this.getLocation(uri)
+    if (!location?.path) {
+      throw FileSystemError.FileNotFound(uri)
+    }
+
+    if (location.root === SNIPPETS_ROOT) {
+      const snippet = (await this.getSnippets(uri.authority)).get(location.path)
+      if (!snippet) {
+        throw FileSystemError.FileNotFound(uri)
+      }
+      const content = await this.requestService.fetchPortalSnippet(uri.authority, snippet.id)
+      return new TextEncoder().encode(toLocalDocument(content))
+    }
+
+    const entry = (await this.getPages(uri.authority)).get(location.path)
+    if (!entry) {
+      throw FileSystemError.FileNotFound(uri)
+    }
+
+    const page = await this.requestService.fetchPortalPage(uri.authority, entry.page.id)
+    return new TextEncoder().encode(toLocalDocument(page))
+  }
+
+  public writeFile(uri: Uri): void {
+    throw FileSystemError.NoPermissions(uri)
+  }
+
+  public createDirectory(uri: Uri): void {
+    throw FileSystemError.NoPermissions(uri)
+  }
+
+  public delete(uri: Uri): void {
+    throw FileSystemError.NoPermissions(uri)
+  }
+
+  public rename(oldUri: Uri): void {
+    throw FileSystemError.NoPermissions(oldUri)
+  }
+
+  /**
+   * Returns the cached listing of a portal, loading it on first use
+   * @param indexes Cached listings per portal
+   * @param portalId ID of the portal
+   * @param load Loads the listing
+   * @returns The listing
+   */
+  private getIndex<T>(
+    indexes: Map<string, Promise<Map<string, T>>>,
+    portalId: string,
+    load: () => Promise<Map<string, T>>,
+  ): Promise<Map<string, T>> {
+    let index = indexes.get(portalId)
+    if (!index) {
+      index = load()
+      // Do not cache failed requests so the next access retries
+      index.catch(() => indexes.delete(portalId))
+      indexes.set(portalId, index)
+    }
+    return index
+  }
+
+  /**
+   * Checks whether a URI points to the root directory of a portal
+   * @param uri URI in the `konnect-portal:` scheme
+   * @returns true for the root of a valid portal ID
+   */
+  private isRoot(uri: Uri): boolean {
+    return isKonnectId(uri.authority) && uri.path.split('/').filter(Boolean).length === 0
+  }
+
+  /**
+   * Splits a URI into its top-level directory and the path below it
+   * @param uri URI in the `konnect-portal:` scheme
+   * @returns The top-level directory and the relative path (empty for the directory itself),
+   * or undefined outside of the pages and snippets directories
+   */
+  private getLocation(uri: Uri): { root: typeof PAGES_ROOT | typeof SNIPPETS_ROOT, path: string } | undefined {
+    // Links to the file system may come from anywhere, the authority becomes part of request URLs
+    if (!isKonnectId(uri.authority)) {
+      return undefined
+    }
+    const [root, ...segments] = uri.path.split('/').filter(Boolean)
+    if (root !== PAGES_ROOT && root !== SNIPPETS_ROOT) {
+      return undefined
+    }
+    return { root, path: segments.join('/') }
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose()
+  }
+}
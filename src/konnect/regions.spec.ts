@@ -4,11 +4,12 @@ import { executeKongctl } from '../kongctl'
 import { checkKongctlAvailable } from '../kongctl/status'
 import { parseKongctlJsonOutput } from '../kongctl/parse'
 
-// Mock VS Code workspace.getConfiguration for debug logging
+// Mock VS Code workspace.getConfiguration for debug logging and the API base URL
+const settings: Record<string, unknown> = {}
 vi.mock('vscode', () => ({
   workspace: {
     getConfiguration: vi.fn().mockReturnValue({
-      get: vi.fn().mockReturnValue(false),
+      get: vi.fn((key: string, defaultValue?: unknown) => settings[key] ?? defaultValue ?? false),
     }),
   },
 }))
@@ -29,6 +30,7 @@ vi.mock('../kongctl/parse', async () => {
 describe('fetchAvailableRegions', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    delete settings['kong.konnect.apiBaseUrl']
   })
 
   it('returns regions from kongctl when available and successful', async () => {
@@ -82,6 +84,16 @@ describe('fetchAvailableRegions', () => {
     global.fetch = vi.fn().mockResolvedValue({ ok: false, statusText: 'fail' })
     await expect(fetchAvailableRegions()).rejects.toThrow('Failed to fetch regions: fail')
   })
-})
-
 
+  it('uses the API of a base URL override instead of kongctl', async () => {
+    settings['kong.konnect.apiBaseUrl'] = 'http://localhost:8080'
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: vi.fn().mockResolvedValue({ regions: { stable: ['us'] } }),
+    })
+    const regions = await fetchAvailableRegions()
+    expect(regions).toEqual(['us'])
+    expect(checkKongctlAvailable).not.toHaveBeenCalled()
+    expect(global.fetch).toHaveBeenCalledWith('http://localhost:8080/v3/available-regions', expect.anything())
+  })
+})
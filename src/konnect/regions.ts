@@ -2,6 +2,7 @@ import { executeKongctl } from '../kongctl'
 import { checkKongctlAvailable } from '../kongctl/status'
 import { parseKongctlJsonOutput } from '../kongctl/parse'
 import type { PortalStorageService } from '../storage'
+import { getBaseUrlOverride, getGlobalApiUrl } from './endpoints'
 import { debug } from '../utils/debug'
 
 /**
@@ -10,8 +11,8 @@ import { debug } from '../utils/debug'
  * @returns Promise resolving to array of region codes (e.g., ['us', 'eu'])
  */
 export async function fetchAvailableRegions(storageService?: PortalStorageService): Promise<string[]> {
-  // Try kongctl first if available
-  if (await checkKongctlAvailable()) {
+  // Try kongctl first if available, kongctl does not know about a base URL override
+  if (!getBaseUrlOverride() && await checkKongctlAvailable()) {
     try {
       return await fetchRegionsWithKongctl(storageService)
     } catch {
@@ -53,7 +54,7 @@ async function fetchRegionsWithKongctl(storageService?: PortalStorageService): P
  * @returns Promise resolving to array of region codes
  */
 async function fetchRegionsWithApi(): Promise<string[]> {
-  const url = 'https://global.api.konghq.com/v3/available-regions'
+  const url = getGlobalApiUrl('available-regions')
   const response = await fetch(url, { headers: { 'Accept': 'application/json' } })
   if (!response.ok) {
     throw new Error(`Failed to fetch regions: ${response.statusText}`)
@@ -3,6 +3,7 @@ import type * as vscode from 'vscode'
 import { KonnectRequestService } from './request-service'
 import { KonnectApiService } from './api'
 import { executeKongctl } from '../kongctl'
+import type * as kongctl from '../kongctl'
 import { checkKongctlAvailable } from '../kongctl/status'
 import { showApiError } from '../utils/error-handling'
 import type { PortalStorageService } from '../storage'
@@ -27,7 +28,10 @@ vi.mock('vscode', () => ({
 
 // Mock dependencies
 vi.mock('./api')
-vi.mock('../kongctl')
+vi.mock('../kongctl', async importOriginal => ({
+  ...await importOriginal<typeof kongctl>(),
+  executeKongctl: vi.fn(),
+}))
 vi.mock('../kongctl/status')
 vi.mock('../utils/error-handling')
 
@@ -88,6 +92,7 @@ describe('KonnectRequestService', () => {
       storeSelectedPortal: vi.fn(),
       getSelectedPortal: vi.fn(),
       clearSelectedPortal: vi.fn(),
+      getActiveProfile: vi.fn().mockReturnValue({ name: 'default' }),
     } as any
 
     // Setup mock context
@@ -118,6 +123,7 @@ describe('KonnectRequestService', () => {
     // Setup API service mock
     const mockApiService = vi.mocked(KonnectApiService)
     mockApiService.prototype.fetchAllPortals = vi.fn().mockResolvedValue(mockPortals)
+    mockApiService.prototype.fetchPortalList = vi.fn().mockResolvedValue({ portals: mockPortals })
 
     service = new KonnectRequestService(mockStorageService, mockContext)
   })
@@ -157,7 +163,7 @@ describe('KonnectRequestService', () => {
       expect(result).toEqual(mockPortals)
       expect(checkKongctlAvailable).toHaveBeenCalled()
       expect(executeKongctl).not.toHaveBeenCalled()
-      expect(KonnectApiService.prototype.fetchAllPortals).toHaveBeenCalledWith('mock-token')
+      expect(KonnectApiService.prototype.fetchAllPortals).toHaveBeenCalledWith('mock-token', undefined)
     })
 
     it('should fall back to API when kongctl command fails', async () => {
@@ -172,7 +178,7 @@ describe('KonnectRequestService', () => {
 
       expect(result).toEqual(mockPortals)
       expect(showApiError).toHaveBeenCalled()
-      expect(KonnectApiService.prototype.fetchAllPortals).toHaveBeenCalledWith('mock-token')
+      expect(KonnectApiService.prototype.fetchAllPortals).toHaveBeenCalledWith('mock-token', undefined)
     })
 
     it('should handle pagination with multiple pages', async () => {
@@ -252,7 +258,7 @@ describe('KonnectRequestService', () => {
 
       expect(result).toEqual(mockPortals)
       expect(showApiError).toHaveBeenCalled()
-      expect(KonnectApiService.prototype.fetchAllPortals).toHaveBeenCalledWith('mock-token')
+      expect(KonnectApiService.prototype.fetchAllPortals).toHaveBeenCalledWith('mock-token', undefined)
     })
 
     it('should use cached kongctl availability on subsequent calls', async () => {
@@ -264,6 +270,182 @@ describe('KonnectRequestService', () => {
     })
   })
 
+  describe('fetchPortalList', () => {
+    it('should fetch the list without entity tag with kongctl', async () => {
+      expect(await service.fetchPortalList({ portals: [], etag: 'W/"1"' })).toEqual({ portals: mockPortals })
+    })
+
+    it('should send the cached list with the API request', async () => {
+      vi.mocked(checkKongctlAvailable).mockResolvedValue(false)
+      const cached = { portals: mockPortals, etag: 'W/"1"' }
+      vi.mocked(KonnectApiService.prototype.fetchPortalList).mockResolvedValueOnce(cached)
+
+      expect(await service.fetchPortalList(cached)).toBe(cached)
+      expect(KonnectApiService.prototype.fetchPortalList).toHaveBeenCalledWith('mock-token', cached, undefined)
+    })
+  })
+
+  describe('fetchPortal', () => {
+    it('should fetch a single portal with kongctl', async () => {
+      vi.mocked(executeKongctl).mockResolvedValue({ success: true, exitCode: 0, stdout: JSON.stringify(mockPortals[0]), stderr: '' })
+
+      expect(await service.fetchPortal('portal1')).toEqual(mockPortals[0])
+      expect(executeKongctl).toHaveBeenCalledWith(
+        ['api', 'get', '"https://us.api.konghq.com/v3/portals/portal1"', '--output', 'json'],
+        {},
+        mockStorageService,
+      )
+    })
+
+    it('should fall back to API when kongctl command fails', async () => {
+      vi.mocked(executeKongctl).mockResolvedValue({ success: false, exitCode: 1, stdout: '', stderr: 'Command failed' })
+      KonnectApiService.prototype.fetchPortal = vi.fn().mockResolvedValue(mockPortals[1])
+      service = new KonnectRequestService(mockStorageService, mockContext)
+
+      expect(await service.fetchPortal('portal2')).toEqual(mockPortals[1])
+      expect(KonnectApiService.prototype.fetchPortal).toHaveBeenCalledWith('mock-token', 'portal2')
+    })
+
+    it('should encode the portal ID in the kongctl URL', async () => {
+      vi.mocked(executeKongctl).mockResolvedValue({ success: true, exitCode: 0, stdout: JSON.stringify(mockPortals[0]), stderr: '' })
+
+      await service.fetchPortal('../portal1')
+
+      expect(vi.mocked(executeKongctl).mock.calls[0][0][2]).toBe('"https://us.api.konghq.com/v3/portals/..%2Fportal1"')
+    })
+
+    it('should not pass IDs a shell would interpret to kongctl', async () => {
+      KonnectApiService.prototype.fetchPortal = vi.fn().mockResolvedValue(mockPortals[1])
+      service = new KonnectRequestService(mockStorageService, mockContext)
+
+      await service.fetchPortal('$(touch pwned)')
+
+      expect(executeKongctl).not.toHaveBeenCalled()
+      expect(KonnectApiService.prototype.fetchPortal).toHaveBeenCalledWith('mock-token', '$(touch pwned)')
+    })
+  })
+
+  describe('fetchPortalPages', () => {
+    const mockPages = [{
+      id: 'page1',
+      slug: 'guides',
+      title: 'Guides',
+      visibility: 'public' as const,
+      status: 'published' as const,
+      parent_page_id: null,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+    }]
+
+    beforeEach(() => {
+      vi.mocked(executeKongctl).mockResolvedValue({
+        success: true,
+        exitCode: 0,
+        stdout: JSON.stringify({ data: mockPages, meta: { page: { number: 1, size: 100, total: 1 } } }),
+        stderr: '',
+      })
+      KonnectApiService.prototype.fetchPortalPages = vi.fn().mockResolvedValue(mockPages)
+      service = new KonnectRequestService(mockStorageService, mockContext)
+    })
+
+    it('should use kongctl when available', async () => {
+      const result = await service.fetchPortalPages('portal1')
+
+      expect(result).toEqual(mockPages)
+      expect(executeKongctl).toHaveBeenCalledWith(
+        [
+          'api',
+          'get',
+          '"https://us.api.konghq.com/v3/portals/portal1/pages?page%5Bsize%5D=100&page%5Bnumber%5D=1"',
+          '--output',
+          'json',
+        ],
+        {},
+        mockStorageService,
+      )
+      expect(KonnectApiService.prototype.fetchPortalPages).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to API when kongctl is not available', async () => {
+      vi.mocked(checkKongctlAvailable).mockResolvedValue(false)
+
+      const result = await service.fetchPortalPages('portal1')
+
+      expect(result).toEqual(mockPages)
+      expect(KonnectApiService.prototype.fetchPortalPages).toHaveBeenCalledWith('mock-token', 'portal1')
+    })
+
+    it('should throw error when no token is available', async () => {
+      vi.mocked(mockStorageService.getToken).mockResolvedValue(undefined)
+
+      await expect(service.fetchPortalPages('portal1')).rejects.toThrow('No authentication token available')
+    })
+  })
+
+  describe('fetchPortalPage', () => {
+    it('should fetch the page with kongctl', async () => {
+      vi.mocked(executeKongctl).mockResolvedValue({
+        success: true,
+        exitCode: 0,
+        stdout: JSON.stringify({ id: 'page1', content: '# Guides' }),
+        stderr: '',
+      })
+
+      const page = await service.fetchPortalPage('portal1', 'page1')
+
+      expect(page.content).toBe('# Guides')
+      expect(executeKongctl).toHaveBeenCalledWith(
+        ['api', 'get', '"https://us.api.konghq.com/v3/portals/portal1/pages/page1"', '--output', 'json'],
+        {},
+        mockStorageService,
+      )
+    })
+
+    it('should encode the page ID in the kongctl URL', async () => {
+      vi.mocked(executeKongctl).mockResolvedValue({ success: true, exitCode: 0, stdout: '{}', stderr: '' })
+
+      await service.fetchPortalPage('portal1', 'a/b?c')
+
+      expect(vi.mocked(executeKongctl).mock.calls[0][0][2]).toBe('"https://us.api.konghq.com/v3/portals/portal1/pages/a%2Fb%3Fc"')
+    })
+
+    it('should fall back to API when kongctl command fails', async () => {
+      vi.mocked(executeKongctl).mockResolvedValue({ success: false, exitCode: 1, stdout: '', stderr: 'Command failed' })
+      KonnectApiService.prototype.fetchPortalPage = vi.fn().mockResolvedValue({ id: 'page1', content: '# From API' })
+      service = new KonnectRequestService(mockStorageService, mockContext)
+
+      const page = await service.fetchPortalPage('portal1', 'page1')
+
+      expect(page.content).toBe('# From API')
+      expect(showApiError).toHaveBeenCalled()
+      expect(KonnectApiService.prototype.fetchPortalPage).toHaveBeenCalledWith('mock-token', 'portal1', 'page1')
+    })
+  })
+
+  describe('createPortalPage', () => {
+    const payload = { slug: 'guides', title: 'Guides', content: '# Guides' }
+
+    it('should create the page with the API only', async () => {
+      KonnectApiService.prototype.createPortalPage = vi.fn().mockResolvedValue({ id: 'page1' })
+      service = new KonnectRequestService(mockStorageService, mockContext)
+
+      const result = await service.createPortalPage('portal1', payload)
+
+      expect(result).toEqual({ id: 'page1' })
+      expect(KonnectApiService.prototype.createPortalPage).toHaveBeenCalledWith('mock-token', 'portal1', payload)
+      expect(executeKongctl).not.toHaveBeenCalled()
+    })
+
+    it('should not retry a failed write', async () => {
+      KonnectApiService.prototype.createPortalPage = vi.fn().mockRejectedValue(new Error('Conflict'))
+      service = new KonnectRequestService(mockStorageService, mockContext)
+
+      await expect(service.createPortalPage('portal1', payload)).rejects.toThrow('Conflict')
+      expect(KonnectApiService.prototype.createPortalPage).toHaveBeenCalledTimes(1)
+      expect(executeKongctl).not.toHaveBeenCalled()
+    })
+  })
+
   describe('resetKongctlAvailability', () => {
     it('should reset the kongctl availability cache', async () => {
       await service.fetchAllPortals()
@@ -274,4 +456,30 @@ describe('KonnectRequestService', () => {
       expect(checkKongctlAvailable).toHaveBeenCalledTimes(2)
     })
   })
+
+  describe('profiles', () => {
+    it('should send requests to the region of the active profile', async () => {
+      vi.mocked(mockStorageService.getActiveProfile).mockReturnValue({ name: 'acme', region: 'eu' })
+
+      await service.fetchPortalPage('portal1', 'page1')
+
+      expect(service.getRegion()).toBe('eu')
+      expect(executeKongctl).toHaveBeenCalledWith(
+        ['api', 'get', '"https://eu.api.konghq.com/v3/portals/portal1/pages/page1"', '--output', 'json'],
+        {},
+        mockStorageService,
+      )
+    })
+
+    it('should reset the caches and the API region', async () => {
+      await service.fetchAllPortals()
+      vi.mocked(mockStorageService.getActiveProfile).mockReturnValue({ name: 'acme', region: 'au' })
+
+      service.resetCaches()
+      await service.fetchAllPortals()
+
+      expect(checkKongctlAvailable).toHaveBeenCalledTimes(2)
+      expect(KonnectApiService.prototype.updateBaseUrl).toHaveBeenLastCalledWith('au')
+    })
+  })
 })
@@ -1,23 +1,27 @@
-import { workspace } from 'vscode'
-/**
- * Gets the current Konnect region from settings (default 'us')
- */
-function getKonnectRegion(): string {
-  const config = workspace.getConfiguration()
-  return config.get<string>('kong.konnect.region', 'us')
-}
 import type * as vscode from 'vscode'
-import { executeKongctl } from '../kongctl'
+import { executeKongctl, toKongctlUrlArgument } from '../kongctl'
 import { parseKongctlJsonOutput } from '../kongctl/parse'
 import { checkKongctlAvailable } from '../kongctl/status'
 import { KonnectApiService, ApiError } from './api'
+import { getKonnectApiUrl, getRegionSetting } from './endpoints'
 import type { PortalStorageService } from '../storage'
-import type { KonnectPortal } from '../types/konnect'
+import type {
+  KonnectIdentity,
+  KonnectPortal,
+  KonnectPortalList,
+  KonnectPortalPage,
+  KonnectPortalPageInfo,
+  KonnectPortalPagePayload,
+  KonnectPortalSnippet,
+  KonnectPortalSnippetInfo,
+  KonnectPortalSnippetPayload,
+} from '../types/konnect'
 import { showApiError } from '../utils/error-handling'
 
 /**
  * Service that provides a unified interface for Konnect requests
- * Attempts to use kongctl CLI first, then falls back to API requests
+ * Reads attempt to use kongctl CLI first, then fall back to API requests. Writes always use the API:
+ * a failed kongctl command does not tell whether Konnect applied the write, so falling back could apply it twice.
  */
 export class KonnectRequestService {
   /** Service for making direct Konnect API requests */
@@ -41,6 +45,15 @@ export class KonnectRequestService {
     this.apiService = new KonnectApiService()
     this.storageService = storageService
     this.context = context
+    this.apiService.updateBaseUrl(this.getRegion())
+  }
+
+  /**
+   * Returns the Konnect region requests are sent to
+   * @returns The region of the active profile, or the `kong.konnect.region` setting
+   */
+  getRegion(): string {
+    return this.storageService.getActiveProfile().region ?? getRegionSetting()
   }
 
   /**
@@ -56,13 +69,11 @@ export class KonnectRequestService {
 
   /**
    * Fetches all portals using kongctl CLI or API fallback
+   * @param cancellationToken Token cancelling the API requests and their retries
    * @returns Promise resolving to array of portals
    */
-  async fetchAllPortals(): Promise<KonnectPortal[]> {
-    const token = await this.storageService.getToken()
-    if (!token) {
-      throw new Error('No authentication token available')
-    }
+  async fetchAllPortals(cancellationToken?: vscode.CancellationToken): Promise<KonnectPortal[]> {
+    const token = await this.getRequiredToken()
 
     // Try kongctl first if available
     if (await this.isKongctlAvailable()) {
@@ -75,7 +86,184 @@ export class KonnectRequestService {
     }
 
     // Use API as fallback or primary method
-    return await this.apiService.fetchAllPortals(token)
+    return await this.apiService.fetchAllPortals(token, cancellationToken)
+  }
+
+  /**
+   * Fetches all portals using kongctl CLI or a conditional API request
+   * @param cached The cached list, whose entity tag is sent with the API request
+   * @param cancellationToken Token cancelling the API requests and their retries
+   * @returns Promise resolving to the fetched list, or the cached list if the API reports it as not modified
+   */
+  async fetchPortalList(cached?: KonnectPortalList, cancellationToken?: vscode.CancellationToken): Promise<KonnectPortalList> {
+    const token = await this.getRequiredToken()
+
+    // kongctl cannot send conditional requests, the lists it fetches have no entity tag
+    if (await this.isKongctlAvailable()) {
+      try {
+        return { portals: await this.fetchPortalsWithKongctl() }
+      } catch (error) {
+        await this.handleKongctlError('Failed to fetch portals with kongctl', error)
+      }
+    }
+
+    return await this.apiService.fetchPortalList(token, cached, cancellationToken)
+  }
+
+  /**
+   * Fetches a single portal using kongctl CLI or API fallback
+   * @param portalId ID of the portal
+   * @returns Promise resolving to the portal
+   */
+  async fetchPortal(portalId: string): Promise<KonnectPortal> {
+    return this.requestWithFallback(
+      'Failed to fetch portal with kongctl',
+      () => this.getWithKongctl<KonnectPortal>(`portals/${encodeURIComponent(portalId)}`),
+      token => this.apiService.fetchPortal(token, portalId),
+    )
+  }
+
+  /**
+   * Fetches the user and organization a token authenticates as, using the API
+   * @param token Token to verify, the token of the active profile if undefined
+   * @param cancellationToken Token cancelling the requests and their retries
+   * @returns Promise resolving to the identity of the token
+   */
+  async fetchIdentity(token?: string, cancellationToken?: vscode.CancellationToken): Promise<KonnectIdentity> {
+    return this.apiService.fetchIdentity(token ?? await this.getRequiredToken(), cancellationToken)
+  }
+
+  /**
+   * Fetches the pages of a portal using kongctl CLI or API fallback
+   * @param portalId ID of the portal
+   * @returns Promise resolving to the pages of the portal, without content
+   */
+  async fetchPortalPages(portalId: string): Promise<KonnectPortalPageInfo[]> {
+    return this.requestWithFallback(
+      'Failed to fetch portal pages with kongctl',
+      () => this.fetchAllWithKongctl<KonnectPortalPageInfo>(`portals/${encodeURIComponent(portalId)}/pages`),
+      token => this.apiService.fetchPortalPages(token, portalId),
+    )
+  }
+
+  /**
+   * Fetches a single portal page including its content using kongctl CLI or API fallback
+   * @param portalId ID of the portal
+   * @param pageId ID of the page
+   * @returns Promise resolving to the page
+   */
+  async fetchPortalPage(portalId: string, pageId: string): Promise<KonnectPortalPage> {
+    return this.requestWithFallback(
+      'Failed to fetch portal page with kongctl',
+      () => this.getWithKongctl<KonnectPortalPage>(`portals/${encodeURIComponent(portalId)}/pages/${encodeURIComponent(pageId)}`),
+      token => this.apiService.fetchPortalPage(token, portalId, pageId),
+    )
+  }
+
+  /**
+   * Creates a page in a portal using the API
+   * @param portalId ID of the portal
+   * @param payload Attributes of the page
+   * @returns Promise resolving to the created page
+   */
+  async createPortalPage(portalId: string, payload: KonnectPortalPagePayload): Promise<KonnectPortalPage> {
+    return this.apiService.createPortalPage(await this.getRequiredToken(), portalId, payload)
+  }
+
+  /**
+   * Updates a page in a portal using the API
+   * @param portalId ID of the portal
+   * @param pageId ID of the page
+   * @param payload Attributes to update
+   * @returns Promise resolving to the updated page
+   */
+  async updatePortalPage(portalId: string, pageId: string, payload: Partial<KonnectPortalPagePayload>): Promise<KonnectPortalPage> {
+    return this.apiService.updatePortalPage(await this.getRequiredToken(), portalId, pageId, payload)
+  }
+
+  /**
+   * Fetches the snippets of a portal using kongctl CLI or API fallback
+   * @param portalId ID of the portal
+   * @returns Promise resolving to the snippets of the portal, without content
+   */
+  async fetchPortalSnippets(portalId: string): Promise<KonnectPortalSnippetInfo[]> {
+    return this.requestWithFallback(
+      'Failed to fetch portal snippets with kongctl',
+      () => this.fetchAllWithKongctl<KonnectPortalSnippetInfo>(`portals/${encodeURIComponent(portalId)}/snippets`),
+      token => this.apiService.fetchPortalSnippets(token, portalId),
+    )
+  }
+
+  /**
+   * Fetches a single portal snippet including its content using kongctl CLI or API fallback
+   * @param portalId ID of the portal
+   * @param snippetId ID of the snippet
+   * @returns Promise resolving to the snippet
+   */
+  async fetchPortalSnippet(portalId: string, snippetId: string): Promise<KonnectPortalSnippet> {
+    return this.requestWithFallback(
+      'Failed to fetch portal snippet with kongctl',
+      () => this.getWithKongctl<KonnectPortalSnippet>(`portals/${encodeURIComponent(portalId)}/snippets/${encodeURIComponent(snippetId)}`),
+      token => this.apiService.fetchPortalSnippet(token, portalId, snippetId),
+    )
+  }
+
+  /**
+   * Creates a snippet in a portal using the API
+   * @param portalId ID of the portal
+   * @param payload Attributes of the snippet
+   * @returns Promise resolving to the created snippet
+   */
+  async createPortalSnippet(portalId: string, payload: KonnectPortalSnippetPayload): Promise<KonnectPortalSnippet> {
+    return this.apiService.createPortalSnippet(await this.getRequiredToken(), portalId, payload)
+  }
+
+  /**
+   * Updates a snippet in a portal using the API
+   * @param portalId ID of the portal
+   * @param snippetId ID of the snippet
+   * @param payload Attributes to update
+   * @returns Promise resolving to the updated snippet
+   */
+  async updatePortalSnippet(portalId: string, snippetId: string, payload: Partial<KonnectPortalSnippetPayload>): Promise<KonnectPortalSnippet> {
+    return this.apiService.updatePortalSnippet(await this.getRequiredToken(), portalId, snippetId, payload)
+  }
+
+  /**
+   * Runs a request with kongctl when available, falling back to the API
+   * @param kongctlErrorPrefix Error message prefix shown when kongctl fails
+   * @param withKongctl Performs the request with kongctl
+   * @param withApi Performs the request with the API
+   * @returns Promise resolving to the response
+   */
+  private async requestWithFallback<T>(
+    kongctlErrorPrefix: string,
+    withKongctl: () => Promise<T>,
+    withApi: (token: string) => Promise<T>,
+  ): Promise<T> {
+    const token = await this.getRequiredToken()
+
+    if (await this.isKongctlAvailable()) {
+      try {
+        return await withKongctl()
+      } catch (error) {
+        await this.handleKongctlError(kongctlErrorPrefix, error)
+      }
+    }
+
+    return await withApi(token)
+  }
+
+  /**
+   * Returns the stored token or throws if none is configured
+   * @returns Promise resolving to the token
+   */
+  private async getRequiredToken(): Promise<string> {
+    const token = await this.storageService.getToken()
+    if (!token) {
+      throw new Error('No authentication token available')
+    }
+    return token
   }
 
   /**
@@ -83,42 +271,29 @@ export class KonnectRequestService {
    * @returns Promise resolving to array of portals
    */
   private async fetchPortalsWithKongctl(): Promise<KonnectPortal[]> {
-    const allPortals: KonnectPortal[] = []
+    return this.fetchAllWithKongctl<KonnectPortal>('portals')
+  }
+
+  /**
+   * Fetches every item of a paginated collection using kongctl CLI
+   * @param path Collection path relative to the v3 API
+   * @returns Promise resolving to the items of all pages
+   */
+  private async fetchAllWithKongctl<T>(path: string): Promise<T[]> {
+    const allItems: T[] = []
     let currentPage = 1
     const pageSize = 100
 
-    // Continue fetching pages until we have all portals
+    // Continue fetching pages until we have all items
 
     while (true) {
-      const region = getKonnectRegion()
-      const baseUrl = `https://${region}.api.konghq.com/v3/portals?page%5Bsize%5D=${pageSize}&page%5Bnumber%5D=${currentPage}`
-
-      const args = [
-        'api',
-        'get',
-        `"${baseUrl}"`,
-        '--output',
-        'json',
-      ]
-
-      // Execute command with terminal visibility and output capture
-      const result = await executeKongctl(args, {}, this.storageService)
-
-      if (!result.success) {
-        throw new Error(result.stderr || result.stdout)
-      }
-
-      // Use shared kongctl output parser for robust JSON extraction
-      let response
-      try {
-        response = parseKongctlJsonOutput(result.stdout)
-      } catch (parseError) {
-        throw new Error(`Failed to parse kongctl response: ${parseError}`)
-      }
+      const response = await this.getWithKongctl<{ data?: T[], meta?: { page?: { number: number, size: number, total: number } } }>(
+        `${path}?page%5Bsize%5D=${pageSize}&page%5Bnumber%5D=${currentPage}`,
+      )
 
-      // Add portals from this page to the collection
+      // Add items from this page to the collection
       if (response.data && Array.isArray(response.data)) {
-        allPortals.push(...response.data)
+        allItems.push(...response.data)
       }
 
       // Check if there are more pages to fetch
@@ -146,7 +321,38 @@ export class KonnectRequestService {
       currentPage = number + 1
     }
 
-    return allPortals
+    return allItems
+  }
+
+  /**
+   * Runs `kongctl api get` for a v3 API path and parses the JSON response
+   * @param path Request path relative to the v3 API, including any query string
+   * @returns Promise resolving to the parsed response
+   */
+  private async getWithKongctl<T>(path: string): Promise<T> {
+    const url = getKonnectApiUrl(this.getRegion(), path)
+
+    const args = [
+      'api',
+      'get',
+      toKongctlUrlArgument(url),
+      '--output',
+      'json',
+    ]
+
+    // Execute command with terminal visibility and output capture
+    const result = await executeKongctl(args, {}, this.storageService)
+
+    if (!result.success) {
+      throw new Error(result.stderr || result.stdout)
+    }
+
+    // Use shared kongctl output parser for robust JSON extraction
+    try {
+      return parseKongctlJsonOutput(result.stdout) as T
+    } catch (parseError) {
+      throw new Error(`Failed to parse kongctl response: ${parseError}`)
+    }
   }
 
   /**
@@ -176,4 +382,13 @@ export class KonnectRequestService {
   resetKongctlAvailability(): void {
     this.kongctlAvailable = undefined
   }
+
+  /**
+   * Resets all cached state, including the API base URL
+   * Call this when the active profile or the region changed
+   */
+  resetCaches(): void {
+    this.resetKongctlAvailability()
+    this.apiService.updateBaseUrl(this.getRegion())
+  }
 }
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryable, parseRetryAfter, waitForRetry } from './retry'
+
+vi.mock('vscode', () => ({
+  CancellationError: class extends Error {
+    constructor() {
+      super('Canceled')
+    }
+  },
+}))
+
+/** Creates response headers for the retry delay */
+function createHeaders(headers: Record<string, string>): Headers {
+  return { get: (key: string) => headers[key] ?? null } as Headers
+}
+
+describe('konnect/retry', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('isRetryable', () => {
+    it('should retry rate limits of every request', () => {
+      expect(isRetryable('POST', 429)).toBe(true)
+      expect(isRetryable('PATCH', 429)).toBe(true)
+    })
+
+    it('should only retry server and network errors of idempotent requests', () => {
+      expect(isRetryable('GET', 503)).toBe(true)
+      expect(isRetryable('get')).toBe(true)
+      expect(isRetryable('POST', 503)).toBe(false)
+      expect(isRetryable('POST')).toBe(false)
+      expect(isRetryable('GET', 404)).toBe(false)
+    })
+  })
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('Mon, 19 Oct 2026 12:00:00 GMT')
+      expect(parseRetryAfter('3', now)).toBe(3000)
+      expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:05 GMT', now)).toBe(5000)
+      expect(parseRetryAfter('Mon, 19 Oct 2026 11:00:00 GMT', now)).toBe(0)
+    })
+
+    it('should ignore missing and invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined()
+      expect(parseRetryAfter(' ')).toBeUndefined()
+      expect(parseRetryAfter('soon')).toBeUndefined()
+    })
+  })
+
+  describe('getRetryDelay', () => {
+    it('should prefer Retry-After over RateLimit-Reset', () => {
+      expect(getRetryDelay(1, createHeaders({ 'retry-after': '2', 'ratelimit-reset': '5' }), DEFAULT_RETRY_POLICY)).toBe(2000)
+      expect(getRetryDelay(1, createHeaders({ 'ratelimit-reset': '5' }), DEFAULT_RETRY_POLICY)).toBe(5000)
+    })
+
+    it('should not wait longer than the maximum delay', () => {
+      expect(getRetryDelay(1, createHeaders({ 'retry-after': '60' }), DEFAULT_RETRY_POLICY)).toBeUndefined()
+    })
+
+    it('should back off exponentially with jitter', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1)
+      expect(getRetryDelay(1, undefined, DEFAULT_RETRY_POLICY)).toBe(500)
+      expect(getRetryDelay(3, createHeaders({}), DEFAULT_RETRY_POLICY)).toBe(2000)
+
+      vi.spyOn(Math, 'random').mockReturnValue(0)
+      expect(getRetryDelay(3, undefined, DEFAULT_RETRY_POLICY)).toBe(1000)
+      expect(getRetryDelay(10, undefined, DEFAULT_RETRY_POLICY)).toBe(15000)
+    })
+  })
+
+  describe('waitForRetry', () => {
+    it('should resolve after the delay', async () => {
+      vi.useFakeTimers()
+      const wait = waitForRetry(1000)
+      await vi.advanceTimersByTimeAsync(1000)
+      await expect(wait).resolves.toBeUndefined()
+    })
+
+    it('should reject when cancelled', async () => {
+      vi.useFakeTimers()
+      let cancel: (event: unknown) => void = () => {}
+      const cancellationToken = {
+        isCancellationRequested: false,
+        onCancellationRequested: vi.fn((listener: (event: unknown) => void) => {
+          cancel = listener
+          return { dispose: vi.fn() }
+        }),
+      }
+
+      const wait = waitForRetry(1000, cancellationToken)
+      cancel(undefined)
+
+      await expect(wait).rejects.toThrow('Canceled')
+    })
+  })
+})
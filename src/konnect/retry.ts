@@ -0,0 +1,101 @@
+import { CancellationError } from 'vscode'
+import type { CancellationToken } from 'vscode'
+
+/** When and how often failed Konnect API requests are retried */
+export interface RetryPolicy {
+  /** Retries after the first attempt, 0 disables retries */
+  maxRetries: number
+  /** Delay before the first retry in milliseconds, doubled for every further retry */
+  baseDelay: number
+  /** Longest delay between attempts in milliseconds, longer `Retry-After` delays are not waited for */
+  maxDelay: number
+}
+
+/** Retry policy of the Konnect API requests */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelay: 500,
+  maxDelay: 30000,
+}
+
+/** Methods that can be repeated without side effects */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+
+/** Status codes of errors that may go away when the request is repeated */
+const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504]
+
+/**
+ * Checks whether a failed request may be repeated
+ * @param method HTTP method of the request
+ * @param statusCode Status code of the response, undefined for network errors and timeouts
+ * @returns Whether to retry the request
+ */
+export function isRetryable(method: string, statusCode?: number): boolean {
+  // Rate limited requests were rejected before being processed, so even writes can be repeated
+  if (statusCode === 429) {
+    return true
+  }
+  if (!IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+    return false
+  }
+  return statusCode === undefined || RETRYABLE_STATUS_CODES.includes(statusCode)
+}
+
+/**
+ * Parses the delay requested by a `Retry-After` or `RateLimit-Reset` header
+ * @param value Header value in seconds or, for `Retry-After`, an HTTP date
+ * @param now Current time in milliseconds
+ * @returns The delay in milliseconds, undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value?.trim()) {
+    return undefined
+  }
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return Math.round(Number(value) * 1000)
+  }
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Returns how long to wait before retrying a request
+ * @param retry Number of the retry, starting at 1
+ * @param headers Headers of the failed response, undefined for network errors and timeouts
+ * @param policy The retry policy
+ * @returns The delay in milliseconds, undefined if the server asks to wait longer than the policy allows
+ */
+export function getRetryDelay(retry: number, headers: Headers | undefined, policy: RetryPolicy): number | undefined {
+  // Konnect sends RateLimit-Reset with rate limited responses, Retry-After takes precedence
+  const requested = parseRetryAfter(headers?.get('retry-after')) ?? parseRetryAfter(headers?.get('ratelimit-reset'))
+  if (requested !== undefined) {
+    return requested <= policy.maxDelay ? requested : undefined
+  }
+
+  // Exponential backoff with jitter, so clients rate limited together do not retry together
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (retry - 1))
+  return Math.round(backoff / 2 + Math.random() * backoff / 2)
+}
+
+/**
+ * Waits before the next attempt of a request
+ * @param delay Delay in milliseconds
+ * @param cancellationToken Token cancelling the wait
+ * @throws CancellationError if the token is cancelled
+ */
+export async function waitForRetry(delay: number, cancellationToken?: CancellationToken): Promise<void> {
+  if (cancellationToken?.isCancellationRequested) {
+    throw new CancellationError()
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const cancellation = cancellationToken?.onCancellationRequested(() => {
+      clearTimeout(timeoutId)
+      reject(new CancellationError())
+    })
+    const timeoutId = setTimeout(() => {
+      cancellation?.dispose()
+      resolve()
+    }, delay)
+  })
+}
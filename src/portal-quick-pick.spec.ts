@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createPortalQuickPickItems, describePortal, getPortalLabel } from './portal-quick-pick'
+import type { KonnectPortal } from './types/konnect'
+import { mockPortals } from './test/fixtures/konnect-api'
+
+vi.mock('vscode', () => ({
+  QuickPickItemKind: { Separator: -1 },
+  ThemeIcon: class {
+    constructor(public id: string) {}
+  },
+}))
+
+/** Creates a portal with the given ID and labels */
+function createPortal(id: string, labels: Record<string, unknown> = {}): KonnectPortal {
+  return { ...mockPortals[0], id, name: id, display_name: id, labels }
+}
+
+describe('portal-quick-pick', () => {
+  describe('getPortalLabel', () => {
+    it('should prefer the display name unless it is the default one', () => {
+      expect(getPortalLabel({ ...mockPortals[0], name: 'docs', display_name: 'Docs' })).toBe('Docs')
+      expect(getPortalLabel({ ...mockPortals[0], name: 'docs', display_name: 'Developer Portal' })).toBe('docs')
+    })
+  })
+
+  describe('describePortal', () => {
+    it('should describe the domain, access control, visibilities and labels', () => {
+      const portal: KonnectPortal = {
+        ...mockPortals[0],
+        canonical_domain: 'docs.example.com',
+        authentication_enabled: true,
+        rbac_enabled: true,
+        default_api_visibility: 'private',
+        default_page_visibility: 'public',
+        labels: { env: 'prod' },
+      }
+
+      expect(describePortal(portal)).toBe('docs.example.com  $(lock) Authentication  $(shield) RBAC  APIs: private  Pages: public  $(tag) env: prod')
+    })
+  })
+
+  describe('createPortalQuickPickItems', () => {
+    const portals = [createPortal('a', { team: 'payments' }), createPortal('b'), createPortal('c', { team: 'identity' }), createPortal('d', { team: 'payments' })]
+
+    it('should list the portals with buttons', () => {
+      const items = createPortalQuickPickItems(portals)
+
+      expect(items.map(item => item.label)).toEqual(['a', 'b', 'c', 'd'])
+      expect(items[0].buttons?.map(button => button.tooltip)).toEqual(['Open in Browser', 'Copy Portal ID'])
+    })
+
+    it('should pin the recent portals at the top', () => {
+      const items = createPortalQuickPickItems(portals, { recentPortalIds: ['c', 'missing', 'a'] })
+
+      expect(items.map(item => item.label)).toEqual(['Recently used', 'c', 'a', 'All portals', 'b', 'd'])
+      expect(items[0].kind).toBe(-1)
+    })
+
+    it('should group the portals by the values of a label', () => {
+      const items = createPortalQuickPickItems(portals, { recentPortalIds: ['d'], groupLabel: 'team' })
+
+      expect(items.map(item => item.label)).toEqual([
+        'Recently used', 'd',
+        'team: identity', 'c',
+        'team: payments', 'a',
+        'No team label', 'b',
+      ])
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import { QuickPickItemKind, ThemeIcon } from 'vscode'
+import type { QuickInputButton, QuickPickItem } from 'vscode'
+import type { KonnectPortal } from './types/konnect'
+import { PortalQuickPickActions } from './types/ui-actions'
+
+/** Quick pick item of a portal, or a separator between groups of portals */
+export interface PortalQuickPickItem extends QuickPickItem {
+  portal?: KonnectPortal
+}
+
+/** Options of the portal quick pick items */
+export interface PortalQuickPickOptions {
+  /** IDs of the recently selected portals, most recent first, pinned at the top */
+  recentPortalIds?: string[]
+  /** Label key whose values group the portals, e.g. `team` */
+  groupLabel?: string
+}
+
+/**
+ * Creates the buttons of a portal item
+ * @returns Buttons opening the portal in a browser and copying its ID
+ */
+export function createPortalItemButtons(): QuickInputButton[] {
+  return [
+    { iconPath: new ThemeIcon('link-external'), tooltip: PortalQuickPickActions.OPEN_IN_BROWSER },
+    { iconPath: new ThemeIcon('copy'), tooltip: PortalQuickPickActions.COPY_PORTAL_ID },
+  ]
+}
+
+/**
+ * Returns the name a portal is listed with
+ * @param portal The portal
+ * @returns The display name, or the name if the display name is the default one
+ */
+export function getPortalLabel(portal: KonnectPortal): string {
+  return portal.display_name && portal.display_name !== 'Developer Portal' ? portal.display_name : portal.name
+}
+
+/**
+ * Describes the domain, access control, default visibilities and labels of a portal
+ * @param portal The portal
+ * @returns The detail line of the portal item
+ */
+export function describePortal(portal: KonnectPortal): string {
+  const labels = Object.entries(portal.labels ?? {}).map(([key, value]) => `$(tag) ${key}: ${String(value)}`)
+  return [
+    portal.canonical_domain,
+    portal.authentication_enabled ? '$(lock) Authentication' : '$(unlock) No authentication',
+    ...portal.rbac_enabled ? ['$(shield) RBAC'] : [],
+    `APIs: ${portal.default_api_visibility}`,
+    `Pages: ${portal.default_page_visibility}`,
+    ...labels,
+  ].filter(Boolean).join('  ')
+}
+
+/**
+ * Creates the quick pick item of a portal
+ * @param portal The portal
+ * @returns The item, with buttons to open the portal and copy its ID
+ */
+function toPortalQuickPickItem(portal: KonnectPortal): PortalQuickPickItem {
+  return {
+    label: getPortalLabel(portal),
+    description: portal.description || undefined,
+    detail: describePortal(portal),
+    buttons: createPortalItemButtons(),
+    portal,
+  }
+}
+
+/**
+ * Creates a separator item
+ * @param label Label of the group following the separator
+ * @returns The separator
+ */
+function separator(label: string): PortalQuickPickItem {
+  return { label, kind: QuickPickItemKind.Separator }
+}
+
+/**
+ * Creates the items of the portal quick pick: the recent portals first, then the other portals,
+ * grouped by the values of a label if configured
+ * @param portals The portals
+ * @param options Recent portals and grouping
+ * @returns The portal items and separators
+ */
+export function createPortalQuickPickItems(portals: KonnectPortal[], options: PortalQuickPickOptions = {}): PortalQuickPickItem[] {
+  const recentPortalIds = options.recentPortalIds ?? []
+  const recentPortals = recentPortalIds
+    .map(id => portals.find(portal => portal.id === id))
+    .filter((portal): portal is KonnectPortal => portal !== undefined)
+  const otherPortals = portals.filter(portal => !recentPortals.includes(portal))
+
+  const items: PortalQuickPickItem[] = []
+  if (recentPortals.length > 0) {
+    items.push(separator('Recently used'), ...recentPortals.map(toPortalQuickPickItem))
+  }
+
+  const groupLabel = options.groupLabel?.trim()
+  if (!groupLabel) {
+    if (recentPortals.length > 0 && otherPortals.length > 0) {
+      items.push(separator('All portals'))
+    }
+    items.push(...otherPortals.map(toPortalQuickPickItem))
+    return items
+  }
+
+  // Portals without the label are listed last
+  const groups = new Map<string, KonnectPortal[]>()
+  const ungrouped: KonnectPortal[] = []
+  for (const portal of otherPortals) {
+    const value = portal.labels?.[groupLabel]
+    if (value === undefined || value === null || value === '') {
+      ungrouped.push(portal)
+      continue
+    }
+    const group = `${groupLabel}: ${String(value)}`
+    groups.set(group, [...groups.get(group) ?? [], portal])
+  }
+
+  for (const group of [...groups.keys()].sort((a, b) => a.localeCompare(b))) {
+    items.push(separator(group), ...groups.get(group)!.map(toPortalQuickPickItem))
+  }
+  if (ungrouped.length > 0) {
+    items.push(separator(`No ${groupLabel} label`), ...ungrouped.map(toPortalQuickPickItem))
+  }
+  return items
+}
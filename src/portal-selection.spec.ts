@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import type { ExtensionContext } from 'vscode'
+import { env, window } from 'vscode'
 import { PortalSelectionService } from './portal-selection'
+import { KonnectRequestService } from './konnect/request-service'
 import type { PortalStorageService } from './storage'
 import { ApiError } from './konnect/api'
 import { PORTAL_SELECTION_MESSAGES } from './constants/messages'
@@ -21,11 +23,27 @@ vi.mock('vscode', () => ({
     showWarningMessage: vi.fn(),
     showInformationMessage: vi.fn(),
     showQuickPick: vi.fn(),
+    createQuickPick: vi.fn(),
     withProgress: vi.fn(),
+    setStatusBarMessage: vi.fn(),
   },
+  env: {
+    openExternal: vi.fn(),
+    clipboard: { writeText: vi.fn() },
+  },
+  Uri: {
+    parse: vi.fn((value: string) => ({ toString: () => value })),
+  },
+  ThemeIcon: class {
+    constructor(public id: string) {}
+  },
+  QuickPickItemKind: { Separator: -1 },
   ProgressLocation: {
     Notification: 15,
   },
+  workspace: {
+    getConfiguration: vi.fn(() => ({ get: vi.fn((_key: string, defaultValue: unknown) => defaultValue) })),
+  },
 }))
 
 // Mock ufo module
@@ -40,6 +58,9 @@ const mockFetchAllPortals = vi.fn()
 vi.mock('./konnect/request-service', () => ({
   KonnectRequestService: class MockKonnectRequestService {
     fetchAllPortals = mockFetchAllPortals
+    // The portal list cache refreshes with conditional requests, answered here like unconditional ones
+    fetchPortalList = async () => ({ portals: await mockFetchAllPortals() })
+    getRegion = () => 'us'
   },
 }))
 
@@ -63,6 +84,42 @@ vi.mock('./utils/error-handling', () => ({
   showApiError: vi.fn(),
 }))
 
+/** Creates a quick pick that is answered with the item the showQuickPick mock resolves to */
+const createMockQuickPick = () => {
+  const listeners: { accept?: () => void, hide?: () => void, button?: (event: any) => void } = {}
+  const quickPick = {
+    items: [] as any[],
+    activeItems: [] as any[],
+    selectedItems: [] as any[],
+    busy: false,
+    onDidAccept: vi.fn((listener: () => void) => {
+      listeners.accept = listener
+    }),
+    onDidHide: vi.fn((listener: () => void) => {
+      listeners.hide = listener
+    }),
+    onDidTriggerItemButton: vi.fn((listener: (event: any) => void) => {
+      listeners.button = listener
+    }),
+    show: vi.fn(async () => {
+      const item = await window.showQuickPick(quickPick.items)
+      if (item) {
+        quickPick.accept(item)
+      } else {
+        quickPick.hide()
+      }
+    }),
+    hide: vi.fn(() => listeners.hide?.()),
+    dispose: vi.fn(),
+    accept: (item: any) => {
+      quickPick.selectedItems = [item]
+      listeners.accept?.()
+    },
+    triggerButton: (item: any, tooltip: string) => listeners.button?.({ item, button: { tooltip } }),
+  }
+  return quickPick
+}
+
 describe('konnect/portal-selection', () => {
   let portalSelectionService: PortalSelectionService
   let mockStorageService: PortalStorageService
@@ -77,6 +134,7 @@ describe('konnect/portal-selection', () => {
 
     // Setup mock context
     mockContext = createMockContext()
+    vi.mocked(window.createQuickPick).mockImplementation(() => createMockQuickPick() as any)
 
     // Setup mock storage service
     mockStorageService = {
@@ -89,6 +147,7 @@ describe('konnect/portal-selection', () => {
     portalSelectionService = new PortalSelectionService(
       mockStorageService,
       mockContext as unknown as ExtensionContext,
+      new KonnectRequestService(mockStorageService, mockContext as unknown as ExtensionContext),
     )
 
     // mockFetchAllPortals is available globally
@@ -340,6 +399,25 @@ describe('konnect/portal-selection', () => {
         expect(mockFetchAllPortals).toHaveBeenCalled()
       })
 
+      it('should pass the progress cancellation to the requests and stay silent when cancelled', async () => {
+        mockStorageService.getToken = vi.fn().mockResolvedValueOnce(testTokens.valid)
+        const cancellationToken = createMockCancellationToken()
+        mockWithProgress.mockImplementationOnce(async (options: any, callback: any) => {
+          return await callback(createMockProgress(), cancellationToken)
+        })
+        mockFetchAllPortals.mockImplementationOnce(async () => {
+          cancellationToken.isCancellationRequested = true
+          throw new Error('Canceled')
+        })
+
+        const { showApiError } = await import('./utils/error-handling')
+        const result = await portalSelectionService.selectPortal()
+
+        expect(result).toBeUndefined()
+        expect(mockFetchAllPortals).toHaveBeenCalledWith(cancellationToken)
+        expect(showApiError).not.toHaveBeenCalled()
+      })
+
       it('should handle empty portal list with appropriate user feedback', async () => {
         // Setup valid token but no portals
         mockStorageService.getToken = vi.fn().mockResolvedValueOnce(testTokens.valid)
@@ -385,5 +463,97 @@ describe('konnect/portal-selection', () => {
         expect(progressCallback).toBeDefined()
       })
     })
+
+    describe('cached portal list', () => {
+      let quickPick: ReturnType<typeof createMockQuickPick>
+
+      beforeEach(async () => {
+        const vscode = await import('vscode')
+        quickPick = createMockQuickPick()
+        // Answered by the tests once the refresh completed
+        quickPick.show = vi.fn()
+        vi.mocked(vscode.window.createQuickPick).mockReturnValue(quickPick as any)
+        mockStorageService.getToken = vi.fn().mockResolvedValue(testTokens.valid)
+        mockContext.globalState.get.mockImplementation((key: string) => key.startsWith('kong.konnect.devPortal.portalList')
+          ? { portals: [mockPortals[0]], fetchedAt: Date.now() }
+          : undefined)
+      })
+
+      it('should show the cached portals and update them when the refreshed list differs', async () => {
+        let resolveFetch: (portals: typeof mockPortals) => void = () => {}
+        mockFetchAllPortals.mockReturnValueOnce(new Promise((resolve) => {
+          resolveFetch = resolve
+        }))
+
+        const selection = portalSelectionService.selectPortal()
+        await vi.waitFor(() => expect(quickPick.show).toHaveBeenCalled())
+        expect(quickPick.items.map(item => item.portal.id)).toEqual([mockPortals[0].id])
+        expect(quickPick.busy).toBe(true)
+
+        resolveFetch(mockPortals)
+        await vi.waitFor(() => expect(quickPick.busy).toBe(false))
+        expect(quickPick.items.map(item => item.portal.id)).toEqual(mockPortals.map(portal => portal.id))
+        expect(mockContext.globalState.update).toHaveBeenCalledWith(
+          expect.stringContaining('kong.konnect.devPortal.portalList:https://us.api.konghq.com/v3:'),
+          expect.objectContaining({ portals: mockPortals }),
+        )
+
+        quickPick.accept(quickPick.items[1])
+        const result = await selection
+
+        expect(result?.id).toBe(mockPortals[1].id)
+        expect(mockStorageService.storeSelectedPortal).toHaveBeenCalledWith(result)
+        expect(quickPick.dispose).toHaveBeenCalled()
+      })
+
+      it('should keep the cached portals selectable when the refresh fails', async () => {
+        mockFetchAllPortals.mockRejectedValueOnce(new Error('Network error'))
+
+        const selection = portalSelectionService.selectPortal()
+        await vi.waitFor(() => expect(quickPick.show).toHaveBeenCalled())
+        await vi.waitFor(() => expect(quickPick.busy).toBe(false))
+        quickPick.accept(quickPick.items[0])
+
+        expect((await selection)?.id).toBe(mockPortals[0].id)
+      })
+
+      it('should pin the selected portal at the top of the next quick pick', async () => {
+        mockFetchAllPortals.mockResolvedValueOnce([mockPortals[0]])
+
+        const selection = portalSelectionService.selectPortal()
+        await vi.waitFor(() => expect(quickPick.show).toHaveBeenCalled())
+        quickPick.accept(quickPick.items[0])
+        await selection
+
+        expect(mockContext.globalState.update).toHaveBeenCalledWith('kong.konnect.devPortal.recentPortals', [mockPortals[0].id])
+      })
+
+      it('should open portals and copy their IDs from the item buttons', async () => {
+        mockFetchAllPortals.mockResolvedValueOnce([mockPortals[0]])
+
+        const selection = portalSelectionService.selectPortal()
+        await vi.waitFor(() => expect(quickPick.show).toHaveBeenCalled())
+        const [item] = quickPick.items
+        expect(item.buttons.map((button: any) => button.tooltip)).toEqual(['Open in Browser', 'Copy Portal ID'])
+
+        quickPick.triggerButton(item, 'Open in Browser')
+        quickPick.triggerButton(item, 'Copy Portal ID')
+        await vi.waitFor(() => expect(env.clipboard.writeText).toHaveBeenCalledWith(mockPortals[0].id))
+        expect(String(vi.mocked(env.openExternal).mock.calls[0][0])).toBe(`https://${mockPortals[0].canonical_domain}`)
+
+        quickPick.hide()
+        expect(await selection).toBeUndefined()
+      })
+
+      it('should validate the stored portal against a recently fetched list', async () => {
+        mockStorageService.getStoredPortal = vi.fn().mockResolvedValue({ id: mockPortals[0].id, displayName: 'Portal' })
+        mockStorageService.hasValidToken = vi.fn().mockResolvedValue(true)
+
+        const result = await portalSelectionService.validateStoredPortal()
+
+        expect(result?.id).toBe(mockPortals[0].id)
+        expect(mockFetchAllPortals).not.toHaveBeenCalled()
+      })
+    })
   })
 })
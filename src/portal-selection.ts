@@ -1,13 +1,42 @@
 import * as vscode from 'vscode'
 import { withHttps } from 'ufo'
-import type { StoredPortalConfig } from './types/konnect'
-import { KonnectRequestService } from './konnect/request-service'
+import type { KonnectPortal, StoredPortalConfig } from './types/konnect'
+import type { KonnectRequestService } from './konnect/request-service'
 import { ApiError } from './konnect/api'
+import { PORTAL_LIST_MAX_AGE, PortalListCache } from './konnect/portal-cache'
+import type { PortalListRefresh } from './konnect/portal-cache'
 import type { PortalStorageService } from './storage'
 import { showApiError } from './utils/error-handling'
 import { debug } from './utils/debug'
 import { PORTAL_SELECTION_MESSAGES } from './constants/messages'
 import { checkAndPromptMDCExtensionForPortal } from './utils/mdc-extension'
+import { createPortalQuickPickItems } from './portal-quick-pick'
+import type { PortalQuickPickItem } from './portal-quick-pick'
+import { CONFIG_SECTION } from './constants/config'
+import { PortalQuickPickActions } from './types/ui-actions'
+
+/** globalState key of the IDs of the recently selected portals, most recent first */
+const RECENT_PORTALS_STATE_KEY = 'kong.konnect.devPortal.recentPortals'
+
+/** Number of recently selected portals pinned at the top of the portal quick pick */
+const MAX_RECENT_PORTALS = 5
+
+/**
+ * Converts a portal from the Konnect API to the configuration stored for the selected portal
+ * @param portal The portal
+ * @returns The portal configuration, previewed at its canonical domain
+ */
+export function toStoredPortalConfig(portal: KonnectPortal): StoredPortalConfig {
+  return {
+    id: portal.id,
+    name: portal.name,
+    displayName: portal.display_name,
+    description: portal.description,
+    origin: withHttps(portal.canonical_domain),
+    canonicalDomain: portal.canonical_domain,
+    defaultDomain: portal.default_domain,
+  }
+}
 
 /**
  * Service for managing portal selection workflow
@@ -22,15 +51,20 @@ export class PortalSelectionService {
   /** VS Code extension context for accessing extension resources */
   private readonly context: vscode.ExtensionContext
 
+  /** Persisted portal list, shown while the list is refreshed */
+  private readonly portalCache: PortalListCache
+
   /**
    * Creates a new PortalSelectionService instance
    * @param storageService Service for managing portal configuration storage
    * @param context VS Code extension context
+   * @param requestService Service for making Konnect requests, shared with the rest of the extension
    */
-  constructor(storageService: PortalStorageService, context: vscode.ExtensionContext) {
-    this.requestService = new KonnectRequestService(storageService, context)
+  constructor(storageService: PortalStorageService, context: vscode.ExtensionContext, requestService: KonnectRequestService) {
+    this.requestService = requestService
     this.storageService = storageService
     this.context = context
+    this.portalCache = new PortalListCache(context, storageService, this.requestService)
   }
 
   /**
@@ -43,7 +77,8 @@ export class PortalSelectionService {
   async validateStoredPortal(): Promise<StoredPortalConfig | undefined> {
     debug.log('Validating stored portal selection on session start')
 
-    const storedPortal = await this.storageService.getSelectedPortal()
+    // Portals bound by workspace config files are resolved when used
+    const storedPortal = await this.storageService.getStoredPortal()
 
     // No portal stored - nothing to validate
     if (!storedPortal) {
@@ -63,10 +98,17 @@ export class PortalSelectionService {
       return storedPortal // Can't validate without token, let normal flow handle it
     }
 
+    // A recently fetched list is trusted, the next portal selection refreshes it
+    const cached = await this.portalCache.get()
+    if (cached && Date.now() - cached.fetchedAt < PORTAL_LIST_MAX_AGE && cached.portals.some(p => p.id === storedPortal.id)) {
+      debug.log('Stored portal validated against the cached portal list')
+      return storedPortal
+    }
+
     try {
       // Fetch current list of portals (silently, no progress indicator)
       debug.log('Fetching portal list to validate stored selection')
-      const portals = await this.requestService.fetchAllPortals()
+      const { portals } = await this.portalCache.refresh()
 
       // Check if stored portal exists in the list
       const portalExists = portals.some(p => p.id === storedPortal.id)
@@ -103,6 +145,15 @@ export class PortalSelectionService {
     }
   }
 
+  /**
+   * Removes the cached portal lists of a profile
+   * Call this before the token of the profile or the profile itself is deleted
+   * @param profileName Name of the profile, the active profile if undefined
+   */
+  async clearPortalCache(profileName?: string): Promise<void> {
+    await this.portalCache.clear(profileName)
+  }
+
   /**
    * Shows portal selection UI and handles user selection
    * @returns Promise resolving to selected portal config or undefined if cancelled
@@ -113,8 +164,14 @@ export class PortalSelectionService {
       throw new Error(PORTAL_SELECTION_MESSAGES.NO_TOKEN)
     }
 
+    // Portals fetched before are shown right away
+    const cached = await this.portalCache.get()
+    if (cached?.portals.length) {
+      return this.pickPortal(cached.portals, this.portalCache.refresh())
+    }
+
     // Show loading indicator
-    return vscode.window.withProgress(
+    const portals = await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
         title: PORTAL_SELECTION_MESSAGES.LOADING_PORTALS,
@@ -124,7 +181,7 @@ export class PortalSelectionService {
         try {
           progress.report({ increment: 20, message: PORTAL_SELECTION_MESSAGES.FETCHING_PORTAL_LIST })
 
-          const portals = await this.requestService.fetchAllPortals()
+          const { portals } = await this.portalCache.refresh(cancellationToken)
 
           if (cancellationToken.isCancellationRequested) {
             return undefined
@@ -140,60 +197,12 @@ export class PortalSelectionService {
           }
 
           progress.report({ increment: 20, message: PORTAL_SELECTION_MESSAGES.READY_FOR_SELECTION })
-
-          // Create quick pick items
-          const portalItems = portals.map(portal => {
-            const label = portal.display_name && portal.display_name !== 'Developer Portal' ? portal.display_name : portal.name
-            const description = portal.description || undefined
-            const detail = portal.canonical_domain
-
-            return {
-              label,
-              description,
-              detail,
-              portal,
-            }
-          })
-
-          // Show portal selection
-          const selectedItem = await vscode.window.showQuickPick(portalItems, {
-            placeHolder: PORTAL_SELECTION_MESSAGES.PORTAL_SELECTION_PLACEHOLDER,
-            matchOnDescription: true,
-            matchOnDetail: true,
-            title: PORTAL_SELECTION_MESSAGES.PORTAL_SELECTION_TITLE,
-          })
-
-          if (!selectedItem) {
+          return portals
+        } catch (error) {
+          if (cancellationToken.isCancellationRequested) {
             return undefined
           }
 
-          // Create stored config
-          const config: StoredPortalConfig = {
-            id: selectedItem.portal.id,
-            name: selectedItem.portal.name,
-            displayName: selectedItem.portal.display_name,
-            description: selectedItem.portal.description,
-            origin: withHttps(selectedItem.portal.canonical_domain),
-            canonicalDomain: selectedItem.portal.canonical_domain,
-          }
-
-          // Store the selection
-          await this.storageService.storeSelectedPortal(config)
-
-          // Sync MDC extension settings with the portal origin
-          try {
-            await checkAndPromptMDCExtensionForPortal(config.origin)
-          } catch (error) {
-            // Silent failure - don't block portal selection if MDC sync fails
-            debug.error('Failed to sync MDC extension settings:', error)
-          }
-
-          vscode.window.showInformationMessage(
-            PORTAL_SELECTION_MESSAGES.PORTAL_SELECTED(config.displayName!, config.origin),
-          )
-
-          return config
-        } catch (error) {
           // If we get a 401 error, automatically clear the invalid token
           if (error instanceof ApiError && error.statusCode === 401) {
             await this.storageService.clearToken()
@@ -204,5 +213,135 @@ export class PortalSelectionService {
         }
       },
     )
+
+    return portals ? this.pickPortal(portals) : undefined
+  }
+
+  /**
+   * Shows the portal quick pick, with the recent portals first and buttons to open a portal in
+   * the browser or copy its ID
+   * @param portals The portals to show, e.g. the cached portals
+   * @param refresh Pending refresh of the portal list, replacing the portals when the list changed
+   * @returns Promise resolving to selected portal config or undefined if cancelled
+   */
+  private async pickPortal(portals: KonnectPortal[], refresh?: Promise<PortalListRefresh>): Promise<StoredPortalConfig | undefined> {
+    const quickPick = vscode.window.createQuickPick<PortalQuickPickItem>()
+    quickPick.title = PORTAL_SELECTION_MESSAGES.PORTAL_SELECTION_TITLE
+    quickPick.placeholder = PORTAL_SELECTION_MESSAGES.PORTAL_SELECTION_PLACEHOLDER
+    quickPick.matchOnDescription = true
+    quickPick.matchOnDetail = true
+    quickPick.items = this.createQuickPickItems(portals)
+    quickPick.busy = refresh !== undefined
+
+    let closed = false
+    const selection = new Promise<PortalQuickPickItem | undefined>((resolve) => {
+      quickPick.onDidAccept(() => {
+        // Nothing is highlighted when no portal matches the filter
+        if (quickPick.selectedItems[0]?.portal) {
+          resolve(quickPick.selectedItems[0])
+          quickPick.hide()
+        }
+      })
+      quickPick.onDidHide(() => {
+        closed = true
+        resolve(undefined)
+      })
+    })
+    quickPick.onDidTriggerItemButton(({ button, item }) => {
+      if (item.portal) {
+        this.handleItemButton(button.tooltip, item.portal).catch((error) => {
+          debug.error('Failed to handle the portal quick pick button:', error)
+        })
+      }
+    })
+    quickPick.show()
+
+    // The refresh completes after the quick pick closed, so the cache is up to date next time
+    refresh?.then(({ portals, changed }) => {
+      if (closed || !changed) {
+        return
+      }
+      // Keep the highlighted portal when the items are replaced
+      const activePortalId = quickPick.activeItems[0]?.portal?.id
+      quickPick.items = this.createQuickPickItems(portals)
+      quickPick.activeItems = quickPick.items.filter(item => item.portal && item.portal.id === activePortalId)
+    }).finally(() => {
+      if (!closed) {
+        quickPick.busy = false
+      }
+    }).catch(async (error) => {
+      if (error instanceof ApiError && error.statusCode === 401) {
+        quickPick.hide()
+        await this.storageService.clearToken()
+        await showApiError(PORTAL_SELECTION_MESSAGES.LOAD_PORTALS_FAILED, error, this.context)
+        return
+      }
+      // The cached portals stay selectable
+      debug.warn('Failed to refresh the portal list:', error)
+    })
+
+    const selectedItem = await selection
+    quickPick.dispose()
+    return selectedItem?.portal ? this.applySelection(selectedItem.portal) : undefined
+  }
+
+  /**
+   * Creates the portal quick pick items, grouped by the label of the `portalGroupLabel` setting
+   * @param portals The portals
+   * @returns The items
+   */
+  private createQuickPickItems(portals: KonnectPortal[]): PortalQuickPickItem[] {
+    return createPortalQuickPickItems(portals, {
+      recentPortalIds: this.context.globalState.get<string[]>(RECENT_PORTALS_STATE_KEY) ?? [],
+      groupLabel: vscode.workspace.getConfiguration(CONFIG_SECTION).get<string>('portalGroupLabel', ''),
+    })
+  }
+
+  /**
+   * Runs the action of a button of a portal item
+   * @param action Tooltip of the button
+   * @param portal The portal of the item
+   */
+  private async handleItemButton(action: string | undefined, portal: KonnectPortal): Promise<void> {
+    if (action === PortalQuickPickActions.OPEN_IN_BROWSER) {
+      await vscode.env.openExternal(vscode.Uri.parse(toStoredPortalConfig(portal).origin))
+    } else if (action === PortalQuickPickActions.COPY_PORTAL_ID) {
+      await vscode.env.clipboard.writeText(portal.id)
+      vscode.window.setStatusBarMessage(`Copied the ID of portal "${portal.name}" to the clipboard.`, 3000)
+    }
+  }
+
+  /**
+   * Stores a selected portal
+   * @param portal The selected portal
+   * @returns Promise resolving to the stored portal config
+   */
+  private async applySelection(portal: KonnectPortal): Promise<StoredPortalConfig> {
+    // Create stored config
+    const config = toStoredPortalConfig(portal)
+
+    // Store the selection
+    await this.storageService.storeSelectedPortal(config)
+
+    // Pin the portal at the top of the next portal quick pick
+    const recentPortalIds = this.context.globalState.get<string[]>(RECENT_PORTALS_STATE_KEY) ?? []
+    await this.context.globalState.update(
+      RECENT_PORTALS_STATE_KEY,
+      [portal.id, ...recentPortalIds.filter(id => id !== portal.id)].slice(0, MAX_RECENT_PORTALS),
+    )
+
+    // Sync MDC extension settings with the portal origin
+    try {
+      await checkAndPromptMDCExtensionForPortal(config.origin)
+    } catch (error) {
+      // Silent failure - don't block portal selection if MDC sync fails
+      debug.error('Failed to sync MDC extension settings:', error)
+    }
+
+    vscode.window.showInformationMessage(
+      PORTAL_SELECTION_MESSAGES.PORTAL_SELECTED(config.displayName!, config.origin),
+    )
+
+    return config
   }
 }
@@ -0,0 +1,171 @@
+import { EventEmitter, window } from 'vscode'
+import type { Disposable, Event, ExtensionContext, QuickPickItem } from 'vscode'
+import { withHttps } from 'ufo'
+import type { PreviewOriginSource } from './storage'
+import type { StoredPortalConfig } from './types/konnect'
+import { debug } from './utils/debug'
+
+/** workspaceState key of the preview domain of each portal, keyed by portal ID */
+const PREVIEW_DOMAINS_STATE_KEY = 'kong.konnect.devPortal.previewDomains'
+
+/** Origin suggested for a local portal dev server */
+const LOCAL_DEV_SERVER_ORIGIN = 'http://localhost:3000'
+
+/**
+ * Domain a portal is previewed on: its canonical domain, the Konnect-provided default domain, or a
+ * custom origin such as a staging domain or a local portal dev server
+ */
+export type PreviewDomain =
+  | { kind: 'canonical' }
+  | { kind: 'default' }
+  | { kind: 'custom', origin: string }
+
+/** Quick pick item of a preview domain */
+interface PreviewDomainQuickPickItem extends QuickPickItem {
+  domain: PreviewDomain
+}
+
+/**
+ * Validates a custom preview origin
+ * @param value The origin entered by the user, e.g. `http://localhost:3000`
+ * @returns The error message, or undefined if the origin is valid
+ */
+export function validatePreviewOrigin(value: string): string | undefined {
+  let url: URL
+  try {
+    url = new URL(value.trim())
+  } catch {
+    return `Enter an origin such as "${LOCAL_DEV_SERVER_ORIGIN}"`
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'Only http and https origins are supported'
+  }
+  if (url.username || url.password) {
+    return 'The origin must not contain credentials'
+  }
+  if (url.pathname !== '/' || url.search || url.hash) {
+    return 'Enter the origin only, without a path, query or fragment'
+  }
+  return undefined
+}
+
+/**
+ * Normalizes a custom preview origin
+ * @param value The origin, e.g. `http://localhost:3000/`
+ * @returns The origin without trailing slash, undefined if it is invalid
+ */
+export function normalizePreviewOrigin(value: string): string | undefined {
+  return validatePreviewOrigin(value) ? undefined : new URL(value.trim()).origin
+}
+
+/**
+ * Stores the domain each portal is previewed on in this workspace. The selected portal keeps its
+ * identity and canonical origin, only the preview, the component gallery and the component metadata
+ * use the preview origin.
+ */
+export class PreviewOriginService implements PreviewOriginSource, Disposable {
+  private readonly changeEmitter = new EventEmitter<void>()
+
+  /** Fires when the preview domain of a portal changes */
+  public readonly onDidChange: Event<void> = this.changeEmitter.event
+
+  constructor(private readonly context: ExtensionContext) {}
+
+  /**
+   * Returns the domain a portal is previewed on
+   * @param portalId The portal ID
+   * @returns The domain, the canonical domain if none was chosen
+   */
+  public getPreviewDomain(portalId: string): PreviewDomain {
+    return this.getPreviewDomains()[portalId] ?? { kind: 'canonical' }
+  }
+
+  /**
+   * Returns the origin a portal is previewed on
+   * @param portal The portal
+   * @returns The origin, or undefined to preview the canonical domain
+   */
+  public getPreviewOrigin(portal: StoredPortalConfig): string | undefined {
+    const domain = this.getPreviewDomain(portal.id)
+    if (domain.kind === 'default') {
+      return portal.defaultDomain ? withHttps(portal.defaultDomain) : undefined
+    }
+    // Stored origins were validated when entered, invalid ones are from edited workspace state
+    return domain.kind === 'custom' ? normalizePreviewOrigin(domain.origin) : undefined
+  }
+
+  /**
+   * Sets the domain a portal is previewed on
+   * @param portalId The portal ID
+   * @param domain The domain
+   */
+  public async setPreviewDomain(portalId: string, domain: PreviewDomain): Promise<void> {
+    const domains = { ...this.getPreviewDomains() }
+    if (domain.kind === 'canonical') {
+      delete domains[portalId]
+    } else {
+      domains[portalId] = domain
+    }
+    await this.context.workspaceState.update(PREVIEW_DOMAINS_STATE_KEY, domains)
+    debug.log('Changed the preview domain:', { portalId, domain })
+    this.changeEmitter.fire()
+  }
+
+  /**
+   * Lets the user pick the domain a portal is previewed on, asking for the origin of a custom domain
+   * @param portal The portal, as stored without the preview origin
+   * @returns The new domain, or undefined if the user cancelled
+   */
+  public async pickPreviewDomain(portal: StoredPortalConfig): Promise<PreviewDomain | undefined> {
+    const current = this.getPreviewDomain(portal.id)
+    const customOrigin = current.kind === 'custom' ? current.origin : undefined
+    const describe = (origin: string, kind: PreviewDomain['kind']): string =>
+      current.kind === kind ? `${origin} - active` : origin
+
+    const items: PreviewDomainQuickPickItem[] = [
+      { label: 'Canonical Domain', description: describe(withHttps(portal.canonicalDomain), 'canonical'), domain: { kind: 'canonical' } },
+    ]
+    // Portals selected before the default domain was stored have to be selected again to offer it
+    if (portal.defaultDomain && portal.defaultDomain !== portal.canonicalDomain) {
+      items.push({ label: 'Default Domain', description: describe(withHttps(portal.defaultDomain), 'default'), domain: { kind: 'default' } })
+    }
+    items.push({
+      label: 'Custom Origin...',
+      description: customOrigin ? describe(customOrigin, 'custom') : 'e.g. a staging domain or a local portal dev server',
+      domain: { kind: 'custom', origin: customOrigin ?? '' },
+    })
+
+    const selected = await window.showQuickPick(items, {
+      title: 'Switch Preview Domain',
+      placeHolder: `Domain to preview ${portal.displayName} on in this workspace`,
+    })
+    if (!selected) {
+      return undefined
+    }
+
+    let domain = selected.domain
+    if (domain.kind === 'custom') {
+      const origin = await window.showInputBox({
+        title: 'Switch Preview Domain',
+        prompt: `Enter the origin to preview ${portal.displayName} on`,
+        value: customOrigin ?? LOCAL_DEV_SERVER_ORIGIN,
+        validateInput: validatePreviewOrigin,
+      })
+      if (!origin) {
+        return undefined
+      }
+      domain = { kind: 'custom', origin: normalizePreviewOrigin(origin)! }
+    }
+
+    await this.setPreviewDomain(portal.id, domain)
+    return domain
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose()
+  }
+
+  private getPreviewDomains(): Record<string, PreviewDomain> {
+    return this.context.workspaceState.get<Record<string, PreviewDomain>>(PREVIEW_DOMAINS_STATE_KEY, {})
+  }
+}
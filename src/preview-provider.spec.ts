@@ -6,10 +6,23 @@ vi.mock('vscode', () => ({
   ViewColumn: {
     Beside: 2,
   },
+  Range: class {
+    start: { line: number, character: number }
+    end: { line: number, character: number }
+    constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+      this.start = { line: startLine, character: startCharacter }
+      this.end = { line: endLine, character: endCharacter }
+    }
+  },
+  TextEditorRevealType: {
+    AtTop: 3,
+  },
   window: {
     createWebviewPanel: vi.fn(),
     showWarningMessage: vi.fn(),
+    showInformationMessage: vi.fn(),
     activeTextEditor: null,
+    visibleTextEditors: [],
   },
   commands: {
     executeCommand: vi.fn(),
@@ -19,6 +32,15 @@ vi.mock('vscode', () => ({
   },
   Uri: {
     parse: vi.fn().mockImplementation((url: string) => ({ toString: () => url })),
+    file: vi.fn().mockImplementation((fsPath: string) => ({ fsPath })),
+  },
+  workspace: {
+    workspaceFolders: undefined,
+    getWorkspaceFolder: vi.fn(),
+    fs: {
+      readDirectory: vi.fn(),
+      readFile: vi.fn(),
+    },
   },
 }))
 
@@ -54,11 +76,12 @@ vi.mock('uncrypto', () => ({
 }))
 
 // Import after mocks
-import { window, commands, ViewColumn, env, Uri } from 'vscode'
+import { window, commands, ViewColumn, env, Uri, workspace } from 'vscode'
 import { PreviewProvider } from './preview-provider'
 import { debug } from './utils/debug'
 import { updatePreviewContext } from './utils/vscode-context'
 import { getDocumentPathInfo } from './utils/page-path'
+import { generateWebviewHTML } from './utils/webview'
 import { getConfiguration } from './extension'
 import { randomUUID } from 'uncrypto'
 import type { PortalStorageService } from './storage'
@@ -82,7 +105,14 @@ describe('PreviewProvider', () => {
     showMDCRecommendation: true,
     pagesDirectory: 'pages',
     snippetsDirectory: 'snippets',
+    snippetNaming: 'fileName',
     injectSnippets: true,
+    suggestPortalSnippets: true,
+    previewPerDocument: false,
+    scrollSync: true,
+    offlineFallback: true,
+    validateFrontMatter: true,
+    validateComponents: true,
   }
 
   const mockPortalConfig: StoredPortalConfig = {
@@ -135,6 +165,10 @@ describe('PreviewProvider', () => {
     mockContext = {
       extensionPath: '/test/extension/path',
       subscriptions: [],
+      workspaceState: {
+        get: vi.fn(),
+        update: vi.fn(),
+      },
     } as unknown as ExtensionContext
 
     // Create mock storage service
@@ -293,6 +327,25 @@ describe('PreviewProvider', () => {
       // Should call updatePreviewContext with false
       expect(updatePreviewContext).toHaveBeenCalledWith(false)
     })
+
+    it('should dispose the panel subscriptions when the panel is closed', async () => {
+      const subscriptions: Array<{ dispose: ReturnType<typeof vi.fn> }> = []
+      const subscribe = (_listener: unknown, _thisArgs: unknown, disposables?: Array<{ dispose: () => void }>) => {
+        const subscription = { dispose: vi.fn() }
+        subscriptions.push(subscription)
+        disposables?.push(subscription)
+        return subscription
+      }
+      vi.mocked(mockWebviewPanel.onDidDispose).mockImplementation(subscribe as any)
+      vi.mocked(mockWebviewPanel.onDidChangeViewState).mockImplementation(subscribe as any)
+      vi.mocked(mockWebview.onDidReceiveMessage).mockImplementation(subscribe as any)
+      await previewProvider.openPreview(mockDocument)
+
+      vi.mocked(mockWebviewPanel.onDidDispose).mock.calls[0][0]()
+
+      expect(subscriptions).toHaveLength(3)
+      subscriptions.forEach(subscription => expect(subscription.dispose).toHaveBeenCalledTimes(1))
+    })
   })
 
   describe('hasActivePreview', () => {
@@ -307,6 +360,311 @@ describe('PreviewProvider', () => {
     })
   })
 
+  describe('pinPreview', () => {
+    it('should show warning when no preview is open', () => {
+      previewProvider.pinPreview()
+
+      expect(window.showWarningMessage).toHaveBeenCalledWith(
+        'No active preview to pin. Open a portal preview first.',
+      )
+    })
+
+    it('should mark the panel as pinned and keep it open', async () => {
+      await previewProvider.openPreview(mockDocument)
+
+      previewProvider.pinPreview()
+
+      expect(mockWebviewPanel.title).toBe('Portal Preview - test.md (Pinned)')
+      expect(previewProvider.hasActivePreview()).toBe(true)
+    })
+
+    it('should open a new panel for another document after pinning', async () => {
+      await previewProvider.openPreview(mockDocument)
+      previewProvider.pinPreview()
+
+      const otherDocument = {
+        ...mockDocument,
+        fileName: 'other.md',
+        uri: { fsPath: '/test/path/other.md', toString: () => 'file:///test/path/other.md' },
+      } as unknown as TextDocument
+
+      await previewProvider.openPreview(otherDocument)
+
+      expect(window.createWebviewPanel).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not switch the pinned panel when the active editor changes', async () => {
+      await previewProvider.openPreview(mockDocument)
+      previewProvider.pinPreview()
+      vi.clearAllMocks()
+
+      const otherDocument = { ...mockDocument, fileName: 'other.md' } as TextDocument
+      await previewProvider.switchDocument(otherDocument)
+
+      expect(mockWebview.postMessage).not.toHaveBeenCalled()
+      expect(mockWebviewPanel.title).toBe('Portal Preview - test.md (Pinned)')
+    })
+  })
+
+  describe('previewPerDocument', () => {
+    it('should create a dedicated pinned panel for each document', async () => {
+      vi.mocked(getConfiguration).mockReturnValue({ ...mockConfig, previewPerDocument: true })
+
+      await previewProvider.openPreview(mockDocument)
+
+      expect(window.createWebviewPanel).toHaveBeenCalledWith(
+        'portalPreview',
+        'Portal Preview - test.md (Pinned)',
+        expect.anything(),
+        expect.anything(),
+      )
+
+      // Opening the same document again reveals its panel instead of creating another
+      await previewProvider.openPreview(mockDocument)
+
+      expect(window.createWebviewPanel).toHaveBeenCalledTimes(1)
+      expect(mockWebviewPanel.reveal).toHaveBeenCalledWith(ViewColumn.Beside)
+    })
+  })
+
+  describe('scroll synchronization', () => {
+    it('should send the heading and portal line for the editor position after a debounce', async () => {
+      vi.useFakeTimers()
+      vi.mocked(mockDocument.getText).mockReturnValue('# Intro\n\ntext\n\n## Install Steps\n\nmore')
+      await previewProvider.openPreview(mockDocument)
+      vi.clearAllMocks()
+
+      previewProvider.scrollPreview(mockDocument, 6)
+      expect(mockWebview.postMessage).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(mockWebview.postMessage).toHaveBeenCalledWith({
+        type: 'webview:scroll',
+        previewId: 'test-uuid-123',
+        line: 7,
+        heading: 'install-steps',
+      })
+      vi.useRealTimers()
+    })
+
+    it('should not send scroll messages when scroll sync is disabled', async () => {
+      vi.useFakeTimers()
+      await previewProvider.openPreview(mockDocument)
+      vi.mocked(getConfiguration).mockReturnValue({ ...mockConfig, scrollSync: false })
+      vi.clearAllMocks()
+
+      previewProvider.scrollPreview(mockDocument, 0)
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(mockWebview.postMessage).not.toHaveBeenCalled()
+      vi.useRealTimers()
+    })
+
+    it('should reveal the source line reported by the portal', async () => {
+      vi.mocked(mockDocument.getText).mockReturnValue('# Intro\n\n## Install Steps\n\nmore')
+      ;(mockDocument as any).lineCount = 5
+      const mockEditor = { document: mockDocument, revealRange: vi.fn() }
+      vi.mocked(window).visibleTextEditors = [mockEditor] as any
+      await previewProvider.openPreview(mockDocument)
+
+      const onDidReceiveMessage = vi.mocked(mockWebview.onDidReceiveMessage).mock.calls[0][0]
+      onDidReceiveMessage({ type: 'webview:reveal:line', heading: 'install-steps' })
+
+      expect(mockEditor.revealRange).toHaveBeenCalledWith(
+        expect.objectContaining({ start: { line: 2, character: 0 } }),
+        3,
+      )
+    })
+
+    it('should clamp portal lines to the document and ignore lines that are not whole numbers', async () => {
+      vi.mocked(mockDocument.getText).mockReturnValue('# Intro\n\n## Install Steps\n\nmore')
+      ;(mockDocument as any).lineCount = 5
+      const mockEditor = { document: mockDocument, revealRange: vi.fn() }
+      vi.mocked(window).visibleTextEditors = [mockEditor] as any
+      await previewProvider.openPreview(mockDocument)
+
+      const onDidReceiveMessage = vi.mocked(mockWebview.onDidReceiveMessage).mock.calls[0][0]
+      onDidReceiveMessage({ type: 'webview:reveal:line', line: 1000 })
+      onDidReceiveMessage({ type: 'webview:reveal:line', line: -5 })
+      onDidReceiveMessage({ type: 'webview:reveal:line', line: NaN })
+      onDidReceiveMessage({ type: 'webview:reveal:line', line: Infinity })
+      onDidReceiveMessage({ type: 'webview:reveal:line', line: 1.5 })
+
+      expect(mockEditor.revealRange).toHaveBeenCalledTimes(2)
+      expect(mockEditor.revealRange).toHaveBeenNthCalledWith(1, expect.objectContaining({ start: { line: 4, character: 0 } }), 3)
+      expect(mockEditor.revealRange).toHaveBeenNthCalledWith(2, expect.objectContaining({ start: { line: 0, character: 0 } }), 3)
+    })
+
+    it('should read the scroll sync setting for the document', async () => {
+      vi.useFakeTimers()
+      await previewProvider.openPreview(mockDocument)
+      vi.clearAllMocks()
+
+      previewProvider.scrollPreview(mockDocument, 0)
+
+      expect(getConfiguration).toHaveBeenCalledWith(mockDocument.uri)
+      vi.useRealTimers()
+    })
+  })
+
+  describe('viewport', () => {
+    it('should send the persisted viewport to a new panel', async () => {
+      const viewport = { device: 'mobile', customWidth: 500, zoomToFit: false, colorScheme: 'dark' }
+      vi.mocked(mockContext.workspaceState.get).mockReturnValue(viewport)
+
+      await previewProvider.openPreview(mockDocument)
+
+      expect(mockWebview.postMessage).toHaveBeenCalledWith({
+        type: 'webview:update:viewport',
+        viewport,
+      })
+    })
+
+    it('should fall back to the default viewport when nothing is persisted', async () => {
+      await previewProvider.openPreview(mockDocument)
+
+      expect(mockWebview.postMessage).toHaveBeenCalledWith({
+        type: 'webview:update:viewport',
+        viewport: { device: 'desktop', customWidth: 1024, zoomToFit: true, colorScheme: 'auto' },
+      })
+    })
+
+    it('should persist viewport changes reported by the webview', async () => {
+      await previewProvider.openPreview(mockDocument)
+      const viewport = { device: 'tablet', customWidth: 1024, zoomToFit: true, colorScheme: 'light' }
+
+      const onDidReceiveMessage = vi.mocked(mockWebview.onDidReceiveMessage).mock.calls[0][0]
+      onDidReceiveMessage({ type: 'webview:viewport:changed', viewport })
+
+      expect(mockContext.workspaceState.update).toHaveBeenCalledWith(
+        'kong.konnect.devPortal.previewViewport',
+        viewport,
+      )
+    })
+  })
+
+  describe('offline fallback', () => {
+    it('should send a local rendering when the webview reports the portal as unreachable', async () => {
+      vi.mocked(mockDocument.getText).mockReturnValue('# Getting Started')
+      await previewProvider.openPreview(mockDocument)
+
+      const onDidReceiveMessage = vi.mocked(mockWebview.onDidReceiveMessage).mock.calls[0][0]
+      onDidReceiveMessage({ type: 'webview:offline', offline: true })
+
+      expect(mockWebview.postMessage).toHaveBeenCalledWith({
+        type: 'webview:render:offline',
+        html: '<h1 id="getting-started">Getting Started</h1>',
+        fileName: 'test.md',
+      })
+    })
+
+    it('should not render locally when the offline fallback is disabled', async () => {
+      await previewProvider.openPreview(mockDocument)
+      vi.mocked(getConfiguration).mockReturnValue({ ...mockConfig, offlineFallback: false })
+
+      const onDidReceiveMessage = vi.mocked(mockWebview.onDidReceiveMessage).mock.calls[0][0]
+      onDidReceiveMessage({ type: 'webview:offline', offline: true })
+
+      expect(mockWebview.postMessage).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'webview:render:offline' }))
+    })
+  })
+
+  describe('snippet injection', () => {
+    const snippetFiles: Record<string, string> = {}
+
+    /** Opens a preview whose iframe reported ready and received all snippets */
+    const openPreviewWithSnippets = async () => {
+      await previewProvider.openPreview(mockDocument)
+      const onDidReceiveMessage = vi.mocked(mockWebview.onDidReceiveMessage).mock.calls[0][0]
+      await onDidReceiveMessage({ type: 'webview:request:content' })
+      await vi.waitFor(() => expect(mockWebview.postMessage).toHaveBeenCalledWith(expect.objectContaining({ snippetName: 'footer' })))
+      vi.mocked(mockWebview.postMessage).mockClear()
+    }
+
+    /** Workspace folders of a multi-root workspace, each with its own snippets directory */
+    const workspaceFolders = [
+      { name: 'docs', uri: { fsPath: '/workspace', toString: () => 'file:///workspace' } },
+      { name: 'other', uri: { fsPath: '/other', toString: () => 'file:///other' } },
+    ]
+    const snippetDirectories: Record<string, Array<[string, number]>> = {
+      '/workspace/snippets': [['banner.md', 1], ['footer.md', 1]],
+      '/other/snippets': [['header.md', 1]],
+    }
+
+    beforeEach(() => {
+      snippetFiles['/workspace/snippets/banner.md'] = 'Banner'
+      snippetFiles['/workspace/snippets/footer.md'] = 'Footer'
+      snippetFiles['/other/snippets/header.md'] = 'Header'
+      ;(mockDocument as any).uri = { fsPath: '/workspace/pages/home.md' }
+      ;(workspace as any).workspaceFolders = workspaceFolders
+      vi.mocked(workspace.getWorkspaceFolder).mockImplementation((uri: any) => workspaceFolders
+        .find(folder => uri.fsPath.startsWith(`${folder.uri.fsPath}/`)) as any)
+      vi.mocked(workspace.fs.readDirectory).mockImplementation(async (uri: any) => snippetDirectories[uri.fsPath] as any)
+      vi.mocked(workspace.fs.readFile).mockImplementation(async (uri: any) => new TextEncoder().encode(snippetFiles[uri.fsPath]))
+    })
+
+    afterEach(() => {
+      ;(workspace as any).workspaceFolders = undefined
+    })
+
+    it('should send only the changed snippet and the current document', async () => {
+      await openPreviewWithSnippets()
+      snippetFiles['/workspace/snippets/banner.md'] = 'New banner'
+
+      await previewProvider.updateSnippetFile({ fsPath: '/workspace/snippets/banner.md' } as any)
+
+      const messages = vi.mocked(mockWebview.postMessage).mock.calls.map(call => call[0])
+      expect(messages).toEqual([
+        expect.objectContaining({ type: 'webview:update:content', snippetName: 'banner', content: 'New banner' }),
+        expect.objectContaining({ type: 'webview:update:content', content: '# Test Content', snippetName: undefined }),
+      ])
+      expect(mockWebview.postMessage).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'webview:refresh' }))
+    })
+
+    it('should not resend snippets whose content did not change', async () => {
+      await openPreviewWithSnippets()
+
+      await previewProvider.updateSnippetFile({ fsPath: '/workspace/snippets/footer.md' } as any)
+
+      expect(mockWebview.postMessage).not.toHaveBeenCalled()
+    })
+
+    it('should ignore snippet files of other workspace folders', async () => {
+      await openPreviewWithSnippets()
+      snippetFiles['/other/snippets/header.md'] = 'New header'
+
+      await previewProvider.updateSnippetFile({ fsPath: '/other/snippets/header.md' } as any)
+
+      expect(mockWebview.postMessage).not.toHaveBeenCalled()
+    })
+
+    it('should replace the snippets when switching to a document of another workspace folder', async () => {
+      await openPreviewWithSnippets()
+
+      await previewProvider.switchDocument({ ...mockDocument, uri: { fsPath: '/other/pages/home.md' } } as TextDocument)
+
+      const messages = vi.mocked(mockWebview.postMessage).mock.calls.map(call => call[0])
+      expect(messages).toEqual(expect.arrayContaining([
+        expect.objectContaining({ type: 'webview:remove:snippet', snippetName: 'banner' }),
+        expect.objectContaining({ type: 'webview:remove:snippet', snippetName: 'footer' }),
+        expect.objectContaining({ type: 'webview:update:content', snippetName: 'header', content: 'Header' }),
+      ]))
+    })
+
+    it('should send a removal message for deleted snippets', async () => {
+      await openPreviewWithSnippets()
+
+      await previewProvider.removeSnippetFile({ fsPath: '/workspace/snippets/footer.md' } as any)
+
+      expect(mockWebview.postMessage).toHaveBeenCalledWith({
+        type: 'webview:remove:snippet',
+        previewId: 'test-uuid-123',
+        snippetName: 'footer',
+      })
+    })
+  })
+
   describe('switchDocument', () => {
     beforeEach(async () => {
       // Setup an active preview
@@ -338,6 +696,19 @@ describe('PreviewProvider', () => {
       )
     })
 
+    it('should reload the webview when the document is bound to another portal', async () => {
+      const boundPortal = { ...mockPortalConfig, id: 'portal-2', origin: 'https://other.example.com' }
+      vi.mocked(mockStorageService.getSelectedPortal).mockResolvedValue(boundPortal)
+      vi.mocked(generateWebviewHTML).mockClear()
+      const newDocument = { ...mockDocument, fileName: 'other.md' } as TextDocument
+
+      await previewProvider.switchDocument(newDocument)
+
+      expect(mockStorageService.getSelectedPortal).toHaveBeenCalledWith(newDocument.uri)
+      expect(generateWebviewHTML).toHaveBeenCalledWith(expect.anything(), boundPortal, 'test-uuid-123', expect.anything(), expect.anything(), expect.anything())
+      expect(mockWebview.postMessage).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'webview:navigate' }))
+    })
+
     it('should send navigate message when pages directory is configured', async () => {
       const newDocument = { ...mockDocument, fileName: 'new.md' } as TextDocument
 
@@ -370,6 +741,28 @@ describe('PreviewProvider', () => {
     })
   })
 
+  describe('reloadPortalOrigins', () => {
+    it('should reload the webview when the portal is previewed on another origin', async () => {
+      await previewProvider.openPreview(mockDocument)
+      const localPortal = { ...mockPortalConfig, previewOrigin: 'http://localhost:3000' }
+      vi.mocked(mockStorageService.getSelectedPortal).mockResolvedValue(localPortal)
+      vi.mocked(generateWebviewHTML).mockClear()
+
+      await previewProvider.reloadPortalOrigins()
+
+      expect(generateWebviewHTML).toHaveBeenCalledWith(expect.anything(), localPortal, 'test-uuid-123', expect.anything(), expect.anything(), expect.anything())
+    })
+
+    it('should keep the webview when the origin is unchanged', async () => {
+      await previewProvider.openPreview(mockDocument)
+      vi.mocked(generateWebviewHTML).mockClear()
+
+      await previewProvider.reloadPortalOrigins()
+
+      expect(generateWebviewHTML).not.toHaveBeenCalled()
+    })
+  })
+
   describe('refreshPreview', () => {
     it('should show warning when no active document and no active preview', () => {
       previewProvider.refreshPreview()
@@ -5,10 +5,13 @@ import {
   env,
   Uri,
   workspace,
+  Range,
+  TextEditorRevealType,
 } from 'vscode'
-import type { ExtensionContext, TextDocument, Disposable } from 'vscode'
-import { basename, join } from 'path'
+import type { ExtensionContext, TextDocument, Disposable, WorkspaceFolder } from 'vscode'
+import { basename, join, relative, sep } from 'path'
 import { randomUUID } from 'uncrypto'
+import { createHash } from 'crypto'
 import type {
   PortalPreviewConfig,
   WebviewMessage,
@@ -16,8 +19,15 @@ import type {
   WebviewRefreshMessage,
   WebviewLoadingMessage,
   WebviewUpdateContentMessage,
+  WebviewRemoveSnippetMessage,
   WebviewNavigateMessage,
+  WebviewScrollMessage,
+  WebviewRevealLineMessage,
+  WebviewUpdateViewportMessage,
+  WebviewRenderOfflineMessage,
+  PreviewViewportState,
 } from './types'
+import { getPreviewOrigin } from './storage'
 import type { PortalStorageService } from './storage'
 import type { StoredPortalConfig } from './types/konnect'
 import { getConfiguration } from './extension'
@@ -30,27 +40,54 @@ import {
   loadWebviewJS,
 } from './utils/webview'
 import { getDocumentPathInfo } from './utils/page-path'
+import { getHeadingAtLine, findHeadingLine, toPortalLine, toEditorLine } from './utils/scroll-sync'
+import { VIEWPORT_STATE_KEY, DEFAULT_VIEWPORT_STATE } from './constants/viewport'
+import { renderLocalPreview } from './utils/local-renderer'
+import { getSnippetFileName } from './snippets/naming'
+import type { SnippetNamingStrategy } from './snippets/naming'
+
+/** Delay in milliseconds before sending the latest editor position to the portal */
+const SCROLL_SYNC_DELAY = 100
+
+/** Time in milliseconds during which editor scroll events are ignored after revealing a portal position */
+const SCROLL_ECHO_SUPPRESSION = 500
+
+/**
+ * Hashes snippet content to detect unchanged snippets
+ * @param content The snippet content
+ * @returns Hex digest of the content
+ */
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/** Creates a fresh, closed panel state with its own preview identifier */
+function createPanelState(pinned = false): PreviewPanelState {
+  return {
+    isVisible: false,
+    previewId: randomUUID(),
+    snippetsInjected: false,
+    injectedSnippets: new Map(),
+    pinned,
+    offline: false,
+    disposables: [],
+  }
+}
 
-/** Manages the preview webview panel and handles content updates */
+/** Manages the preview webview panels and handles content updates */
 export class PreviewProvider implements Disposable {
   /** The webview panel type identifier */
   private static readonly viewType = 'portalPreview'
 
-  /** Current state of the preview panel including visibility and active document */
-  private panelState: PreviewPanelState = { isVisible: false }
+  /** State of the preview panel that follows the active editor */
+  private panelState: PreviewPanelState
 
-  /** Timeout handle for debounced content updates */
-  private updateTimeout: NodeJS.Timeout | undefined
+  /** Panels pinned to a single document, keyed by document URI */
+  private pinnedPanels = new Map<string, PreviewPanelState>()
 
   /** Collection of disposable resources to clean up */
   private disposables: Disposable[] = []
 
-  /** Unique identifier for this preview instance */
-  private previewId: string
-
-  /** Tracks whether snippets have been injected for the current iframe instance */
-  private snippetsInjected: boolean = false
-
   /**
    * Creates a new PreviewProvider instance
    * @param context VS Code extension context for accessing resources
@@ -60,7 +97,7 @@ export class PreviewProvider implements Disposable {
     private readonly context: ExtensionContext,
     private readonly storageService: PortalStorageService,
   ) {
-    this.previewId = randomUUID()
+    this.panelState = createPanelState()
   }
 
   /**
@@ -68,7 +105,7 @@ export class PreviewProvider implements Disposable {
    * Handles portal configuration check and auto-setup workflow
    */
   public async openPreview(document: TextDocument): Promise<void> {
-    const config = getConfiguration()
+    const config = getConfiguration(document.uri)
 
     // First check if token is configured
     const hasToken = await this.storageService.hasValidToken()
@@ -89,34 +126,88 @@ export class PreviewProvider implements Disposable {
     }
 
     // Token is configured, now check if we have a valid portal selected
-    const portalConfig = await this.storageService.getSelectedPortal()
+    const portalConfig = await this.storageService.getSelectedPortal(document.uri)
     if (!portalConfig) {
       // Token is configured but no portal selected, auto-trigger portal selection
       await commands.executeCommand('kong.konnect.devPortal.selectPortal')
       return
     }
 
+    // A document with its own pinned panel always previews there
+    const pinnedState = this.getPinnedState(document)
+    if (pinnedState?.panel) {
+      pinnedState.panel.reveal(ViewColumn.Beside)
+      await this.updateContent(document)
+      return
+    }
+
+    if (config.previewPerDocument) {
+      // Every document gets a dedicated panel that never follows the active editor
+      const state = createPanelState(true)
+      this.pinnedPanels.set(document.uri.toString(), state)
+      await this.createWebviewPanel(state, document, config, portalConfig)
+      state.currentDocument = document
+      state.isVisible = true
+      return
+    }
+
     if (this.panelState.panel) {
       // Panel exists, just reveal it
       this.panelState.panel.reveal(ViewColumn.Beside)
       await this.updateContent(document)
     } else {
       // Create new panel
-      await this.createWebviewPanel(document, config, portalConfig)
+      await this.createWebviewPanel(this.panelState, document, config, portalConfig)
     }
 
     this.panelState.currentDocument = document
     this.panelState.isVisible = true
   }
 
-  /** Checks if there is an active preview panel */
+  /** Checks if there is an active preview panel, either following the editor or pinned */
   public hasActivePreview(): boolean {
-    return !!(this.panelState.panel && this.panelState.isVisible)
+    if (this.panelState.panel && this.panelState.isVisible) {
+      return true
+    }
+    return Array.from(this.pinnedPanels.values()).some(state => !!(state.panel && state.isVisible))
   }
 
-  /** Switches the preview to show a different document */
+  /**
+   * Pins the preview that follows the active editor to its current document
+   * The pinned panel keeps previewing that document while a new panel is used for editor changes
+   */
+  public pinPreview(): void {
+    const state = this.panelState
+    if (!state.panel || !state.currentDocument) {
+      window.showWarningMessage('No active preview to pin. Open a portal preview first.')
+      return
+    }
+
+    const key = state.currentDocument.uri.toString()
+    if (this.pinnedPanels.has(key)) {
+      window.showInformationMessage(`A pinned preview for ${basename(state.currentDocument.fileName)} is already open.`)
+      return
+    }
+
+    debug.log('Pinning preview to document:', state.currentDocument.fileName)
+
+    state.pinned = true
+    state.panel.title = this.getPanelTitle(state, state.currentDocument)
+    this.pinnedPanels.set(key, state)
+
+    // The next preview opened for the active editor gets a fresh panel and preview id
+    this.panelState = createPanelState()
+  }
+
+  /** Switches the preview that follows the active editor to show a different document */
   public async switchDocument(document: TextDocument): Promise<void> {
-    if (!this.hasActivePreview()) {
+    if (!this.panelState.panel || !this.panelState.isVisible) {
+      return
+    }
+
+    // Documents with a pinned panel are already shown there, keep the following preview as is
+    if (this.getPinnedState(document)) {
+      debug.log('Document has a pinned preview, not switching:', document.fileName)
       return
     }
 
@@ -126,16 +217,22 @@ export class PreviewProvider implements Disposable {
     this.panelState.currentDocument = document
 
     // Update the panel title to reflect the new document
-    if (this.panelState.panel) {
-      this.panelState.panel.title = `Portal Preview - ${basename(document.fileName)}`
+    this.panelState.panel.title = this.getPanelTitle(this.panelState, document)
+
+    // Pages of a workspace folder bound to another portal are rendered by that portal
+    if (await this.syncPortal(this.panelState)) {
+      return
     }
 
+    // Pages of another workspace folder are rendered with the snippets of that folder
+    await this.syncSnippetsFolder(this.panelState)
+
     // Get current configuration
-    const config = getConfiguration()
+    const config = getConfiguration(document.uri)
 
     // Check if pages directory is configured and send navigation message if needed
     if (config.pagesDirectory && config.pagesDirectory.trim() !== '') {
-      await this.sendNavigateMessage(document, config)
+      await this.sendNavigateMessage(this.panelState, document, config)
 
       // Send content update after 500ms delay
       setTimeout(async () => {
@@ -147,8 +244,23 @@ export class PreviewProvider implements Disposable {
     }
   }
 
+  /** Reloads the open previews whose portal is now previewed on another origin, e.g. a local dev server */
+  public async reloadPortalOrigins(): Promise<void> {
+    for (const state of this.getOpenPanelStates()) {
+      await this.syncPortal(state)
+    }
+  }
+
   /** Refreshes the preview by reloading the iframe, or opens preview if not already open */
   public refreshPreview(): void {
+    // A pinned preview for the active document takes precedence over the following preview
+    const activeDocument = window.activeTextEditor?.document
+    const pinnedState = activeDocument ? this.getPinnedState(activeDocument) : undefined
+    if (pinnedState?.panel && pinnedState.currentDocument) {
+      this.postRefreshMessage(pinnedState, pinnedState.currentDocument)
+      return
+    }
+
     // If no active preview panel, try to open one with the current active document
     if (!this.panelState.panel || !this.panelState.isVisible) {
       const activeEditor = window.activeTextEditor
@@ -176,9 +288,18 @@ export class PreviewProvider implements Disposable {
     // Update the panel state to track the document we're refreshing
     this.panelState.currentDocument = documentToRefresh
 
-    const content = documentToRefresh.getText().trim()
-    const config = getConfiguration()
-    const pathInfo = getDocumentPathInfo(documentToRefresh, config.pagesDirectory, config.snippetsDirectory)
+    this.postRefreshMessage(this.panelState, documentToRefresh)
+  }
+
+  /** Sends a refresh message that reloads the iframe of a panel with the given document */
+  private postRefreshMessage(state: PreviewPanelState, document: TextDocument): void {
+    if (!state.panel) {
+      return
+    }
+
+    const content = document.getText().trim()
+    const config = getConfiguration(document.uri)
+    const pathInfo = getDocumentPathInfo(document, config.pagesDirectory, config.snippetsDirectory, config.snippetNaming)
 
     // Check for error condition and abort if present
     if (pathInfo.type === 'error') {
@@ -187,25 +308,144 @@ export class PreviewProvider implements Disposable {
     }
 
     // Reset snippets flag since refresh will reload the iframe
-    this.snippetsInjected = false
+    state.snippetsInjected = false
+    state.injectedSnippets.clear()
 
     const message: WebviewRefreshMessage = {
       type: 'webview:refresh',
       content,
       config,
-      previewId: this.previewId,
+      previewId: state.previewId,
       path: pathInfo.path,
       snippetName: pathInfo.snippetName,
     }
 
-    this.panelState.panel.webview.postMessage(message)
+    state.panel.webview.postMessage(message)
+  }
+
+  /**
+   * Scrolls the preview showing the document to the block at the given editor line
+   * Debounced so rapid cursor movement and scrolling only sends the final position
+   * @param document The document whose editor scrolled or moved its cursor
+   * @param line Zero-based editor line at the top of the visible range or at the cursor
+   */
+  public scrollPreview(document: TextDocument, line: number): void {
+    const config = getConfiguration(document.uri)
+    if (!config.scrollSync) {
+      return
+    }
+
+    const state = this.getStateForDocument(document)
+    if (!state?.panel) {
+      return
+    }
+
+    // The editor is still moving because of a position reported by the portal
+    if (state.ignoreEditorScrollUntil && Date.now() < state.ignoreEditorScrollUntil) {
+      return
+    }
+
+    if (state.scrollTimeout) {
+      clearTimeout(state.scrollTimeout)
+    }
+
+    state.scrollTimeout = setTimeout(() => {
+      state.scrollTimeout = undefined
+      if (!state.panel) {
+        return
+      }
+
+      const text = document.getText()
+      const message: WebviewScrollMessage = {
+        type: 'webview:scroll',
+        previewId: state.previewId,
+        line: toPortalLine(text, line),
+        heading: getHeadingAtLine(text, line)?.id,
+      }
+
+      state.panel.webview.postMessage(message)
+    }, SCROLL_SYNC_DELAY)
+  }
+
+  /**
+   * Reveals the source line of a position reported by the portal in the editor showing the panel's document
+   * @param state The panel state of the webview that reported the position
+   * @param message The reveal message with a portal line and/or heading anchor
+   */
+  private revealSourceLine(state: PreviewPanelState, message: WebviewRevealLineMessage): void {
+    const document = state.currentDocument
+    if (!document || !getConfiguration(document.uri).scrollSync) {
+      return
+    }
+
+    const editor = window.visibleTextEditors.find(
+      visibleEditor => visibleEditor.document.uri.toString() === document.uri.toString(),
+    )
+    if (!editor) {
+      debug.log('No visible editor for preview document, cannot reveal line:', document.fileName)
+      return
+    }
+
+    const text = document.getText()
+    let line: number | undefined
+    // The webview may post any value, only whole line numbers can become a range
+    if (typeof message.line === 'number' && Number.isInteger(message.line)) {
+      line = toEditorLine(text, message.line)
+    } else if (message.heading) {
+      line = findHeadingLine(text, message.heading)
+    }
+
+    if (line === undefined) {
+      debug.log('Could not resolve portal position to a source line:', message)
+      return
+    }
+
+    line = Math.max(0, Math.min(line, document.lineCount - 1))
+    debug.log('Revealing source line from portal position:', { line, heading: message.heading })
+
+    state.ignoreEditorScrollUntil = Date.now() + SCROLL_ECHO_SUPPRESSION
+    editor.revealRange(new Range(line, 0, line, 0), TextEditorRevealType.AtTop)
+  }
+
+  /** Returns the state of the panel currently showing the document, pinned panels first */
+  private getStateForDocument(document: TextDocument): PreviewPanelState | undefined {
+    const pinnedState = this.getPinnedState(document)
+    if (pinnedState) {
+      return pinnedState
+    }
+
+    const current = this.panelState.currentDocument
+    if (current && current.uri.toString() === document.uri.toString()) {
+      return this.panelState
+    }
+
+    return undefined
+  }
+
+  /** Returns the pinned panel state for a document, if one exists */
+  private getPinnedState(document: TextDocument): PreviewPanelState | undefined {
+    return this.pinnedPanels.get(document.uri.toString())
+  }
+
+  /** Returns every panel state that currently has an open webview panel */
+  private getOpenPanelStates(): PreviewPanelState[] {
+    return [this.panelState, ...this.pinnedPanels.values()].filter(state => !!state.panel)
+  }
+
+  /** Builds the panel title for a document, marking pinned previews */
+  private getPanelTitle(state: PreviewPanelState, document: TextDocument): string {
+    const title = `Portal Preview - ${basename(document.fileName)}`
+    return state.pinned ? `${title} (Pinned)` : title
   }
 
   /**
    * Recursively reads all .md and .mdc files from a directory
+   * @param dirPath The snippets directory
+   * @param snippetNaming How snippet names are derived from files
+   * @returns The snippets, only the first file of names used by several files
    */
-  private async readAllSnippets(dirPath: string): Promise<Array<{ name: string, content: string }>> {
-    const snippets: Array<{ name: string, content: string }> = []
+  private async readAllSnippets(dirPath: string, snippetNaming: SnippetNamingStrategy): Promise<Array<{ name: string, content: string, fsPath: string }>> {
+    const snippets: Array<{ name: string, content: string, fsPath: string }> = []
 
     const readDir = async (path: string) => {
       try {
@@ -221,10 +461,15 @@ export class PreviewProvider implements Disposable {
             // File - read it
             const content = await workspace.fs.readFile(Uri.file(fullPath))
             const text = Buffer.from(content).toString('utf8').trim()
-            const snippetName = name.replace(/\.(md|mdc)$/i, '').replace(/[^\w-]/g, '')
+            const snippetName = getSnippetFileName(relative(dirPath, fullPath), snippetNaming, text)?.name
 
             if (snippetName && text) {
-              snippets.push({ name: snippetName, content: text })
+              // Collisions are reported as diagnostics, the first file wins
+              if (snippets.some(snippet => snippet.name === snippetName)) {
+                debug.warn('Skipping snippet with duplicate name:', { snippetName, fullPath })
+                continue
+              }
+              snippets.push({ name: snippetName, content: text, fsPath: fullPath })
             }
           }
         }
@@ -240,11 +485,19 @@ export class PreviewProvider implements Disposable {
   /**
    * Injects all snippets from snippets directory into the iframe with delays between each
    * Called once when iframe becomes ready
+   * @param state The panel state whose iframe should receive the snippets
    */
-  private async injectAllSnippets(): Promise<void> {
+  private async injectAllSnippets(state: PreviewPanelState): Promise<void> {
     debug.log('injectAllSnippets called')
 
-    const config = getConfiguration()
+    // Snippets are read from the workspace folder that owns the previewed document
+    const workspaceFolder = this.getSnippetsFolder(state.currentDocument)
+    if (!workspaceFolder) {
+      debug.log('No workspace folders')
+      return
+    }
+
+    const config = getConfiguration(workspaceFolder.uri)
 
     // Check if feature is enabled
     if (!config.injectSnippets) {
@@ -253,133 +506,303 @@ export class PreviewProvider implements Disposable {
     }
 
     // Only inject once per iframe instance
-    if (this.snippetsInjected) {
+    if (state.snippetsInjected) {
       debug.log('Snippets already injected for this iframe instance, skipping')
       return
     }
 
-    if (!config.snippetsDirectory || !this.panelState.panel) {
+    if (!config.snippetsDirectory || !state.panel) {
       debug.log('No snippets directory or panel available')
       return
     }
 
-    const portalConfig = await this.storageService.getSelectedPortal()
+    const portalConfig = await this.storageService.getSelectedPortal(workspaceFolder.uri)
     if (!portalConfig) {
       debug.log('No portal config available')
       return
     }
 
-    const workspaceFolders = workspace.workspaceFolders
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      debug.log('No workspace folders')
-      return
-    }
-
-    const snippetsPath = join(workspaceFolders[0].uri.fsPath, config.snippetsDirectory.trim())
+    const snippetsPath = join(workspaceFolder.uri.fsPath, config.snippetsDirectory.trim())
 
     try {
-      const snippets = await this.readAllSnippets(snippetsPath)
-      debug.log(`Found ${snippets.length} snippets to inject`)
+      const snippets = await this.readAllSnippets(snippetsPath, config.snippetNaming)
+      debug.log(`Found ${snippets.length} snippets to inject from ${workspaceFolder.name}`)
 
       for (const snippet of snippets) {
-        const message: WebviewUpdateContentMessage = {
-          type: 'webview:update:content',
-          content: snippet.content,
-          config,
-          portalConfig: { origin: portalConfig.origin },
-          previewId: this.previewId,
-          snippetName: snippet.name,
-        }
-
-        this.panelState.panel.webview.postMessage(message)
+        this.postSnippet(state, snippet, config, portalConfig)
       }
 
       debug.log('All snippets injected successfully')
-      this.snippetsInjected = true
+      state.snippetsInjected = true
+      state.snippetsFolder = workspaceFolder.uri.toString()
     } catch (error) {
       debug.log('Error injecting snippets:', error)
     }
   }
 
-  /** Sends the current document content to the webview */
-  private async sendCurrentContent(): Promise<void> {
-    if (!this.panelState.panel || !this.panelState.currentDocument) {
+  /**
+   * Returns the workspace folder whose snippets are injected into the preview of a document
+   * @param document The previewed document
+   * @returns The folder containing the document, or the first folder for documents outside the workspace
+   */
+  private getSnippetsFolder(document?: TextDocument): WorkspaceFolder | undefined {
+    return (document && workspace.getWorkspaceFolder(document.uri)) || workspace.workspaceFolders?.[0]
+  }
+
+  /**
+   * Replaces the injected snippets of a panel when its document moved to another workspace folder,
+   * so pages are rendered with the snippets of their own folder
+   * @param state The panel state
+   */
+  private async syncSnippetsFolder(state: PreviewPanelState): Promise<void> {
+    const workspaceFolder = this.getSnippetsFolder(state.currentDocument)
+    if (!state.snippetsInjected || !workspaceFolder || workspaceFolder.uri.toString() === state.snippetsFolder) {
+      return
+    }
+
+    debug.log('Previewed document is in another workspace folder, replacing snippets:', workspaceFolder.name)
+    for (const name of [...state.injectedSnippets.keys()]) {
+      this.postSnippetRemoval(state, name)
+    }
+    state.snippetsInjected = false
+    await this.injectAllSnippets(state)
+  }
+
+  /**
+   * Reloads the webview of a panel when its document belongs to a workspace folder bound to another portal,
+   * or its portal is previewed on another origin
+   * @param state The panel state
+   * @returns true if the webview was reloaded, the initial content is then sent once the portal is ready
+   */
+  private async syncPortal(state: PreviewPanelState): Promise<boolean> {
+    const document = state.currentDocument
+    const portalConfig = document ? await this.storageService.getSelectedPortal(document.uri) : undefined
+    if (!state.panel || !document || !portalConfig || getPreviewOrigin(portalConfig) === state.portalOrigin) {
+      return false
+    }
+
+    debug.log('Portal origin of the previewed document changed, reloading webview:', {
+      portal: portalConfig.displayName,
+      origin: getPreviewOrigin(portalConfig),
+    })
+    const config = getConfiguration(document.uri)
+    state.snippetsInjected = false
+    state.injectedSnippets.clear()
+    state.lastContent = undefined
+    state.offline = false
+    state.portalOrigin = getPreviewOrigin(portalConfig)
+    state.panel.webview.html = this.getWebviewContent(state, config, portalConfig, document)
+    this.postViewportMessage(state, this.getViewportState())
+    this.sendInitialContent(state, document, config)
+    return true
+  }
+
+  /**
+   * Sends a snippet to the iframe of a panel unless the iframe already has the same content
+   * @param state The panel state
+   * @param snippet The snippet name, content and file
+   * @param config The extension configuration
+   * @param portalConfig The selected portal
+   * @returns true if the snippet was sent
+   */
+  private postSnippet(
+    state: PreviewPanelState,
+    snippet: { name: string, content: string, fsPath: string },
+    config: PortalPreviewConfig,
+    portalConfig: StoredPortalConfig,
+  ): boolean {
+    const hash = hashContent(snippet.content)
+    if (!state.panel || state.injectedSnippets.get(snippet.name)?.hash === hash) {
+      return false
+    }
+
+    const message: WebviewUpdateContentMessage = {
+      type: 'webview:update:content',
+      content: snippet.content,
+      config,
+      portalConfig: { origin: getPreviewOrigin(portalConfig) },
+      previewId: state.previewId,
+      snippetName: snippet.name,
+    }
+    state.panel.webview.postMessage(message)
+    state.injectedSnippets.set(snippet.name, { fsPath: snippet.fsPath, hash })
+    return true
+  }
+
+  /**
+   * Removes a snippet from the iframe of a panel
+   * @param state The panel state
+   * @param snippetName The snippet name
+   */
+  private postSnippetRemoval(state: PreviewPanelState, snippetName: string): void {
+    const message: WebviewRemoveSnippetMessage = {
+      type: 'webview:remove:snippet',
+      previewId: state.previewId,
+      snippetName,
+    }
+    state.panel?.webview.postMessage(message)
+    state.injectedSnippets.delete(snippetName)
+  }
+
+  /**
+   * Resends the document of a panel so the portal renders it with the updated snippets
+   * @param state The panel state
+   */
+  private async resendDocument(state: PreviewPanelState): Promise<void> {
+    if (state.currentDocument) {
+      state.lastContent = undefined
+      await this.sendContentUpdate(state, state.currentDocument, getConfiguration(state.currentDocument.uri))
+    }
+  }
+
+  /**
+   * Sends a created or changed snippet file to every open preview of the same workspace folder whose iframe
+   * does not have its content yet, without reloading the iframes
+   * @param uri The snippet file
+   */
+  public async updateSnippetFile(uri: Uri): Promise<void> {
+    const workspaceFolder = workspace.getWorkspaceFolder(uri)
+    if (!workspaceFolder) {
+      return
+    }
+    const config = getConfiguration(workspaceFolder.uri)
+    const portalConfig = await this.storageService.getSelectedPortal(workspaceFolder.uri)
+    if (!config.injectSnippets || !config.snippetsDirectory?.trim() || !portalConfig) {
+      return
+    }
+
+    const snippetsPath = join(workspaceFolder.uri.fsPath, config.snippetsDirectory.trim())
+    const content = Buffer.from(await workspace.fs.readFile(uri)).toString('utf8').trim()
+    const name = getSnippetFileName(relative(snippetsPath, uri.fsPath), config.snippetNaming, content)?.name
+
+    const folderStates = this.getOpenPanelStates()
+      .filter(panelState => panelState.snippetsInjected && panelState.snippetsFolder === workspaceFolder.uri.toString())
+    for (const state of folderStates) {
+      let changed = false
+
+      // The file may have been injected under a different name, e.g. after editing its front matter name
+      for (const [injectedName, injected] of state.injectedSnippets) {
+        if (injected.fsPath === uri.fsPath && (injectedName !== name || !content)) {
+          this.postSnippetRemoval(state, injectedName)
+          changed = true
+        }
+      }
+
+      const owner = name ? state.injectedSnippets.get(name)?.fsPath : undefined
+      if (name && content && (!owner || owner === uri.fsPath)) {
+        changed = this.postSnippet(state, { name, content, fsPath: uri.fsPath }, config, portalConfig) || changed
+      } else if (owner && owner !== uri.fsPath) {
+        debug.log('Snippet name is injected from another file, skipping:', { name, owner, fsPath: uri.fsPath })
+      }
+
+      if (changed) {
+        debug.log('Updated snippet in preview:', { name, previewId: state.previewId })
+        await this.resendDocument(state)
+      }
+    }
+  }
+
+  /**
+   * Removes the snippets of a deleted file or folder from every open preview without reloading the iframes
+   * @param uri The deleted snippet file or folder
+   */
+  public async removeSnippetFile(uri: Uri): Promise<void> {
+    for (const state of this.getOpenPanelStates().filter(panelState => panelState.snippetsInjected)) {
+      const removed = [...state.injectedSnippets]
+        .filter(([, injected]) => injected.fsPath === uri.fsPath || injected.fsPath.startsWith(`${uri.fsPath}${sep}`))
+        .map(([name]) => name)
+      removed.forEach(name => this.postSnippetRemoval(state, name))
+
+      if (removed.length > 0) {
+        debug.log('Removed snippets from preview:', { removed, previewId: state.previewId })
+        await this.resendDocument(state)
+      }
+    }
+  }
+
+  /** Sends the current document content to the webview of a panel */
+  private async sendCurrentContent(state: PreviewPanelState): Promise<void> {
+    if (!state.panel || !state.currentDocument) {
       debug.log('Cannot send current content - no panel or document available')
       return
     }
 
-    const config = getConfiguration()
+    const config = getConfiguration(state.currentDocument.uri)
 
     try {
       // Inject snippets first, then send current content
-      await this.injectAllSnippets()
+      await this.injectAllSnippets(state)
 
       // Force update by clearing lastContent so sendContentUpdate doesn't skip
-      this.panelState.lastContent = undefined
+      state.lastContent = undefined
 
-      await this.sendContentUpdate(this.panelState.currentDocument, config)
+      await this.sendContentUpdate(state, state.currentDocument, config)
     } catch (error) {
       debug.log('Error in sendCurrentContent:', error)
       // Still send current content even if snippets fail
-      this.panelState.lastContent = undefined
-      await this.sendContentUpdate(this.panelState.currentDocument, config)
+      state.lastContent = undefined
+      await this.sendContentUpdate(state, state.currentDocument, config)
     } finally {
       // Hide loading state
       const loadingMessage: WebviewLoadingMessage = {
         type: 'webview:loading',
         loading: false,
       }
-      this.panelState.panel.webview.postMessage(loadingMessage)
+      state.panel.webview.postMessage(loadingMessage)
     }
   }
 
-  /** Updates the content displayed in the webview */
+  /** Updates the content displayed in the webview showing the document */
   public async updateContent(document: TextDocument): Promise<void> {
-    if (!this.panelState.panel || !this.panelState.isVisible) {
+    // Pinned documents update their own panel, everything else goes to the following panel
+    const state = this.getPinnedState(document) ?? this.panelState
+    if (!state.panel || !state.isVisible) {
       return
     }
 
     // Check if we still have a valid portal configuration
-    const portalConfig = await this.storageService.getSelectedPortal()
+    const portalConfig = await this.storageService.getSelectedPortal(document.uri)
     if (!portalConfig) {
       debug.log('Cannot update content - no portal configuration available')
       return
     }
 
     // Clear existing timeout
-    if (this.updateTimeout) {
-      clearTimeout(this.updateTimeout)
+    if (state.updateTimeout) {
+      clearTimeout(state.updateTimeout)
     }
 
-    const config = getConfiguration()
+    const config = getConfiguration(document.uri)
 
     // Debounce content updates
-    this.updateTimeout = setTimeout(async () => {
-      await this.sendContentUpdate(document, config)
+    state.updateTimeout = setTimeout(async () => {
+      await this.sendContentUpdate(state, document, config)
     }, config.previewUpdateDelay)
   }
 
-  /** Updates the configuration by closing the preview panel (user can reopen to apply changes) */
+  /** Updates the configuration by closing the preview panels (user can reopen to apply changes) */
   public async updateConfiguration(): Promise<void> {
-    if (!this.panelState.panel) {
+    const openStates = this.getOpenPanelStates()
+    if (openStates.length === 0) {
       return
     }
 
     debug.log('Configuration changed, closing preview panel')
-    // Dispose the panel - user can reopen it to see changes take effect
-    // The onDidDispose handler will clean up all state properly
-    this.panelState.panel.dispose()
+    // Dispose the panels - user can reopen them to see changes take effect
+    // The onDidDispose handlers will clean up all state properly
+    openStates.forEach(state => state.panel?.dispose())
   }
 
-  /** Creates a new webview panel */
+  /** Creates a new webview panel for the given panel state */
   private async createWebviewPanel(
+    state: PreviewPanelState,
     document: TextDocument,
     config: PortalPreviewConfig,
     portalConfig: StoredPortalConfig,
   ): Promise<void> {
     const panel = window.createWebviewPanel(
       PreviewProvider.viewType,
-      `Portal Preview - ${basename(document.fileName)}`,
+      this.getPanelTitle(state, document),
       { viewColumn: ViewColumn.Beside, preserveFocus: true },
       {
         enableScripts: true,
@@ -390,19 +813,38 @@ export class PreviewProvider implements Disposable {
     )
 
     // Set webview HTML content
-    panel.webview.html = this.getWebviewContent(config, portalConfig, document)
+    panel.webview.html = this.getWebviewContent(state, config, portalConfig, document)
+    state.portalOrigin = getPreviewOrigin(portalConfig)
 
     // Handle panel disposal
     panel.onDidDispose(() => {
-      this.panelState.panel = undefined
-      this.panelState.isVisible = false
-      this.panelState.currentDocument = undefined
-      this.panelState.lastContent = undefined
+      if (state.updateTimeout) {
+        clearTimeout(state.updateTimeout)
+        state.updateTimeout = undefined
+      }
+      if (state.scrollTimeout) {
+        clearTimeout(state.scrollTimeout)
+        state.scrollTimeout = undefined
+      }
+      state.panel = undefined
+      state.isVisible = false
+      state.currentDocument = undefined
+      state.lastContent = undefined
       // Reset snippets flag so they'll be injected when panel is reopened
-      this.snippetsInjected = false
-      // Update VS Code context to reflect that preview is no longer active
-      updatePreviewContext(false)
-    }, null, this.disposables)
+      state.snippetsInjected = false
+      state.injectedSnippets.clear()
+      state.offline = false
+      // Pinned panels are gone for good once closed
+      for (const [key, pinnedState] of this.pinnedPanels) {
+        if (pinnedState === state) {
+          this.pinnedPanels.delete(key)
+        }
+      }
+      // Update VS Code context to reflect whether any preview is still active
+      updatePreviewContext(this.hasActivePreview())
+      state.disposables.forEach(disposable => disposable.dispose())
+      state.disposables = []
+    }, null, state.disposables)
 
     // Handle panel view state changes (detects when panel is moved between windows)
     panel.onDidChangeViewState((event) => {
@@ -411,32 +853,66 @@ export class PreviewProvider implements Disposable {
       // When panel becomes active/visible after a view state change, the iframe will reload
       // and the portal will send 'portal:preview:ready' again, triggering our existing content send logic
       // We just need to ensure we have the latest content ready
-      if (event.webviewPanel.active && event.webviewPanel.visible && this.panelState.currentDocument) {
+      if (event.webviewPanel.active && event.webviewPanel.visible && state.currentDocument) {
         debug.log('Panel is active and visible after view state change - ensuring current content is ready for portal ready signal')
         // The iframe is reloading, so we don't need to send content immediately
         // Just ensure our state is current - content will be sent when portal signals ready
-        this.panelState.lastContent = this.panelState.currentDocument.getText().trim()
+        state.lastContent = state.currentDocument.getText().trim()
       }
-    }, null, this.disposables)
+    }, null, state.disposables)
 
     // Handle webview messages
     panel.webview.onDidReceiveMessage(
       (message: WebviewMessage) => {
-        this.handleWebviewMessage(message)
+        this.handleWebviewMessage(state, message)
       },
       undefined,
-      this.disposables,
+      state.disposables,
     )
 
-    this.panelState.panel = panel
+    state.panel = panel
+
+    // Restore the viewport persisted for this workspace
+    this.postViewportMessage(state, this.getViewportState())
 
     // Send initial content
-    this.sendInitialContent(document, config)
+    this.sendInitialContent(state, document, config)
+  }
+
+  /** Returns the viewport settings persisted for the workspace, falling back to defaults */
+  private getViewportState(): PreviewViewportState {
+    const stored = this.context.workspaceState.get<Partial<PreviewViewportState>>(VIEWPORT_STATE_KEY)
+    return { ...DEFAULT_VIEWPORT_STATE, ...stored }
+  }
+
+  /**
+   * Persists viewport settings changed in one panel and applies them to all other open panels
+   * @param source The panel state of the webview where the viewport was changed
+   * @param viewport The new viewport settings
+   */
+  private async handleViewportChange(source: PreviewPanelState, viewport: PreviewViewportState): Promise<void> {
+    debug.log('Preview viewport changed:', viewport)
+    await this.context.workspaceState.update(VIEWPORT_STATE_KEY, viewport)
+
+    for (const state of this.getOpenPanelStates()) {
+      if (state !== source) {
+        this.postViewportMessage(state, viewport)
+      }
+    }
+  }
+
+  /** Sends viewport settings to the toolbar of a panel */
+  private postViewportMessage(state: PreviewPanelState, viewport: PreviewViewportState): void {
+    const message: WebviewUpdateViewportMessage = {
+      type: 'webview:update:viewport',
+      viewport,
+    }
+    state.panel?.webview.postMessage(message)
   }
 
   /** Send initial content with proper error handling */
-  private sendInitialContent(document: TextDocument, config: PortalPreviewConfig): void {
-    this.sendContentUpdate(document, config, true).catch((error) => {
+  private sendInitialContent(state: PreviewPanelState, document: TextDocument, config: PortalPreviewConfig): void {
+    this.sendContentUpdate(state, document, config, true).catch((error) => {
       console.error('Failed to send initial content:', error)
     })
   }
@@ -460,15 +936,15 @@ export class PreviewProvider implements Disposable {
     }
   }
 
-  /** Sends content update to the webview */
-  private async sendContentUpdate(document: TextDocument, config: PortalPreviewConfig, isInitialLoad = false): Promise<void> {
-    if (!this.panelState.panel) {
+  /** Sends content update to the webview of a panel */
+  private async sendContentUpdate(state: PreviewPanelState, document: TextDocument, config: PortalPreviewConfig, isInitialLoad = false): Promise<void> {
+    if (!state.panel) {
       debug.log('Cannot send content update - no panel available')
       return
     }
 
     // Get the current portal configuration
-    const portalConfig = await this.storageService.getSelectedPortal()
+    const portalConfig = await this.storageService.getSelectedPortal(document.uri)
     if (!portalConfig) {
       debug.log('Cannot send content update - no portal configuration available')
       return
@@ -480,19 +956,19 @@ export class PreviewProvider implements Disposable {
       fileName: document.fileName,
       contentLength: content.length,
       contentPreview: content.substring(0, 100) + (content.length > 100 ? '...' : ''),
-      previewId: this.previewId,
-      lastContentLength: this.panelState.lastContent?.length || 0,
+      previewId: state.previewId,
+      lastContentLength: state.lastContent?.length || 0,
     })
 
     // Only update if content has changed
-    if (content === this.panelState.lastContent) {
+    if (content === state.lastContent) {
       return
     }
 
-    this.panelState.lastContent = content
+    state.lastContent = content
 
     // Determine document type and calculate appropriate path/snippet info
-    const pathInfo = getDocumentPathInfo(document, config.pagesDirectory, config.snippetsDirectory)
+    const pathInfo = getDocumentPathInfo(document, config.pagesDirectory, config.snippetsDirectory, config.snippetNaming)
 
     // Check for error condition and abort if present
     if (pathInfo.type === 'error') {
@@ -506,7 +982,7 @@ export class PreviewProvider implements Disposable {
         type: 'webview:loading',
         loading: true,
       }
-      this.panelState.panel.webview.postMessage(loadingMessage)
+      state.panel.webview.postMessage(loadingMessage)
     }
 
     // Send content update with explicit content and previewId
@@ -515,9 +991,9 @@ export class PreviewProvider implements Disposable {
       content, // Ensure content is always included
       config,
       portalConfig: {
-        origin: portalConfig.origin,
+        origin: getPreviewOrigin(portalConfig),
       },
-      previewId: this.previewId, // Ensure previewId is always included
+      previewId: state.previewId, // Ensure previewId is always included
       path: pathInfo.path,
       snippetName: pathInfo.snippetName,
     }
@@ -532,25 +1008,59 @@ export class PreviewProvider implements Disposable {
       hasConfig: !!contentUpdateMessage.config,
     })
 
-    this.panelState.panel.webview.postMessage(contentUpdateMessage)
+    state.panel.webview.postMessage(contentUpdateMessage)
+
+    // Keep the local rendering in sync while the portal is unreachable
+    if (state.offline) {
+      this.postOfflineRender(state, document)
+    }
+  }
+
+  /**
+   * Switches a panel into or out of the offline fallback when the portal becomes unreachable or reachable again
+   * @param state The panel state of the webview that reported the change
+   * @param offline Whether the portal is unreachable
+   */
+  private handleOfflineChange(state: PreviewPanelState, offline: boolean): void {
+    if (offline && !getConfiguration().offlineFallback) {
+      debug.log('Portal unreachable, offline fallback is disabled')
+      return
+    }
+
+    debug.log(offline ? 'Portal unreachable, switching to offline rendering' : 'Portal reachable again, leaving offline rendering')
+    state.offline = offline
+
+    if (offline && state.currentDocument) {
+      this.postOfflineRender(state, state.currentDocument)
+    }
+  }
+
+  /** Renders the document locally and sends it to the webview of a panel */
+  private postOfflineRender(state: PreviewPanelState, document: TextDocument): void {
+    const message: WebviewRenderOfflineMessage = {
+      type: 'webview:render:offline',
+      html: renderLocalPreview(document.getText()),
+      fileName: basename(document.fileName),
+    }
+    state.panel?.webview.postMessage(message)
   }
 
-  /** Sends a navigation message to the webview without content */
-  private async sendNavigateMessage(document: TextDocument, config: PortalPreviewConfig): Promise<void> {
-    if (!this.panelState.panel) {
+  /** Sends a navigation message to the webview of a panel without content */
+  private async sendNavigateMessage(state: PreviewPanelState, document: TextDocument, config: PortalPreviewConfig): Promise<void> {
+    if (!state.panel) {
       debug.log('Cannot send navigate message - no panel available')
       return
     }
 
     // Get the current portal configuration
-    const portalConfig = await this.storageService.getSelectedPortal()
+    const portalConfig = await this.storageService.getSelectedPortal(document.uri)
     if (!portalConfig) {
       debug.log('Cannot send navigate message - no portal configuration available')
       return
     }
 
     // Get document path info (path calculation considers both pages and snippets)
-    const pathInfo = getDocumentPathInfo(document, config.pagesDirectory, config.snippetsDirectory)
+    const pathInfo = getDocumentPathInfo(document, config.pagesDirectory, config.snippetsDirectory, config.snippetNaming)
 
     // Check for error condition and abort if present
     if (pathInfo.type === 'error') {
@@ -562,7 +1072,7 @@ export class PreviewProvider implements Disposable {
       fileName: document.fileName,
       path: pathInfo.path,
       documentType: pathInfo.type,
-      previewId: this.previewId,
+      previewId: state.previewId,
     })
 
     // Send navigation message without content - always use path for navigation
@@ -570,20 +1080,22 @@ export class PreviewProvider implements Disposable {
       type: 'webview:navigate',
       config,
       portalConfig: {
-        origin: portalConfig.origin,
+        origin: getPreviewOrigin(portalConfig),
       },
-      previewId: this.previewId,
+      previewId: state.previewId,
       path: pathInfo.path || '/', // Use default path if none calculated
     }
 
-    this.panelState.panel.webview.postMessage(navigateMessage)
+    state.panel.webview.postMessage(navigateMessage)
   }
 
   /**
    * Handles messages received from the webview iframe
    * Processes error reports, warnings, and content requests from the portal
+   * @param state The panel state of the webview that sent the message
+   * @param message The received message
    */
-  private handleWebviewMessage(message: WebviewMessage): void {
+  private handleWebviewMessage(state: PreviewPanelState, message: WebviewMessage): void {
     switch (message.type) {
       case 'webview:error':
         if (message.error) {
@@ -603,14 +1115,29 @@ export class PreviewProvider implements Disposable {
       case 'webview:iframe:loaded':
         // Iframe has loaded/reloaded - reset snippets flag for re-injection
         debug.log('Iframe loaded, resetting snippets injection flag')
-        this.snippetsInjected = false
+        state.snippetsInjected = false
+        state.injectedSnippets.clear()
         break
       case 'webview:request:content':
         // Portal is ready and requesting the current content
-        this.sendCurrentContent().catch((error) => {
+        this.sendCurrentContent(state).catch((error) => {
           debug.log('Error sending current content:', error)
         })
         break
+      case 'webview:reveal:line':
+        // User scrolled to or clicked a block in the portal
+        this.revealSourceLine(state, message)
+        break
+      case 'webview:viewport:changed':
+        // User picked a different device, width, zoom or color scheme in the toolbar
+        this.handleViewportChange(state, message.viewport).catch((error) => {
+          debug.log('Error persisting viewport change:', error)
+        })
+        break
+      case 'webview:offline':
+        // Portal did not become ready in time, or became ready after all
+        this.handleOfflineChange(state, message.offline)
+        break
       default:
         debug.log('Received unknown message from webview:', message)
         break
@@ -619,37 +1146,43 @@ export class PreviewProvider implements Disposable {
 
   /**
    * Generates the HTML content for the webview
+   * @param state Panel state providing the preview identifier
    * @param config Portal preview configuration settings
    * @param portalConfig Portal-specific configuration
    * @param document Optional document to calculate page path for iframe URL
    * @returns Complete HTML content string for the webview
    */
-  private getWebviewContent(config: PortalPreviewConfig, portalConfig: StoredPortalConfig, document?: TextDocument): string {
+  private getWebviewContent(state: PreviewPanelState, config: PortalPreviewConfig, portalConfig: StoredPortalConfig, document?: TextDocument): string {
     const cssContent = loadWebviewCSS(this.context.extensionPath)
-    const jsContent = loadWebviewJS(this.context.extensionPath, config, this.previewId)
+    const jsContent = loadWebviewJS(this.context.extensionPath, config, state.previewId)
 
     // Calculate the page path if document is provided
     let path = ''
     if (document) {
-      const pathInfo = getDocumentPathInfo(document, config.pagesDirectory, config.snippetsDirectory)
+      const pathInfo = getDocumentPathInfo(document, config.pagesDirectory, config.snippetsDirectory, config.snippetNaming)
       // Use empty path if there's an error (will show default portal page)
       path = pathInfo.type === 'error' ? '' : (pathInfo.path || '')
     }
 
-    return generateWebviewHTML(this.context.extensionPath, portalConfig, this.previewId, cssContent, jsContent, path)
+    return generateWebviewHTML(this.context.extensionPath, portalConfig, state.previewId, cssContent, jsContent, path)
   }
 
-
-
   /** Disposes of the preview provider and cleans up resources */
   public dispose(): void {
-    if (this.updateTimeout) {
-      clearTimeout(this.updateTimeout)
-    }
+    for (const state of [this.panelState, ...this.pinnedPanels.values()]) {
+      if (state.updateTimeout) {
+        clearTimeout(state.updateTimeout)
+      }
 
-    if (this.panelState.panel) {
-      this.panelState.panel.dispose()
+      if (state.scrollTimeout) {
+        clearTimeout(state.scrollTimeout)
+      }
+
+      if (state.panel) {
+        state.panel.dispose()
+      }
     }
+    this.pinnedPanels.clear()
 
     // Dispose of all disposables
     this.disposables.forEach(disposable => disposable.dispose())
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { ExtensionContext } from 'vscode'
+import { window } from 'vscode'
+import { pickProfile } from './index'
+import { PortalStorageService } from '../storage'
+import type { PortalSelectionService } from '../portal-selection'
+import { fetchAvailableRegions } from '../konnect/regions'
+import { ProfileActions } from '../types/ui-actions'
+import { createMockContext } from '../test/fixtures/konnect-storage'
+
+vi.mock('vscode', () => ({
+  QuickPickItemKind: { Separator: -1 },
+  window: {
+    showQuickPick: vi.fn(),
+    showInputBox: vi.fn(),
+    showWarningMessage: vi.fn(),
+  },
+  workspace: {
+    getConfiguration: vi.fn(() => ({ get: vi.fn((_key: string, defaultValue: unknown) => defaultValue) })),
+  },
+}))
+
+vi.mock('../konnect/regions', () => ({
+  fetchAvailableRegions: vi.fn(),
+}))
+
+describe('pickProfile', () => {
+  let storageService: PortalStorageService
+  let portalSelectionService: { clearPortalCache: ReturnType<typeof vi.fn> }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    const state = new Map<string, unknown>()
+    const context = createMockContext()
+    context.globalState.get.mockImplementation((key: string) => state.get(key))
+    context.globalState.update.mockImplementation(async (key: string, value: unknown) => {
+      state.set(key, value)
+    })
+    storageService = new PortalStorageService(context as unknown as ExtensionContext)
+    portalSelectionService = { clearPortalCache: vi.fn() }
+    vi.mocked(fetchAvailableRegions).mockResolvedValue(['us', 'eu'])
+  })
+
+  const pick = () => pickProfile(storageService, portalSelectionService as unknown as PortalSelectionService)
+
+  it('should return the picked profile', async () => {
+    await storageService.saveProfile({ name: 'acme', region: 'eu' })
+    vi.mocked(window.showQuickPick).mockImplementationOnce(async items => (await items)[1])
+
+    expect(await pick()).toEqual({ name: 'acme', region: 'eu' })
+    const items = vi.mocked(window.showQuickPick).mock.calls[0][0] as Array<{ label: string, description?: string }>
+    expect(items.map(item => item.label)).toEqual(['default', 'acme', '', '$(add) Add Profile...', '$(trash) Remove Profile...'])
+    expect(items[0].description).toBe('Region from settings - active')
+  })
+
+  it('should add a profile with its name and region', async () => {
+    vi.mocked(window.showQuickPick)
+      .mockImplementationOnce(async items => (await items).find(item => item.label.includes('Add Profile')))
+      .mockResolvedValueOnce('eu' as any)
+    vi.mocked(window.showInputBox).mockResolvedValueOnce(' acme ')
+
+    expect(await pick()).toEqual({ name: 'acme', region: 'eu' })
+    expect(storageService.getProfiles()).toEqual([{ name: 'default' }, { name: 'acme', region: 'eu' }])
+
+    const { validateInput } = vi.mocked(window.showInputBox).mock.calls[0][0]!
+    expect(validateInput!('default')).toBe('Profile "default" already exists')
+    expect(validateInput!('my profile')).toBe('Use letters, digits, dots, dashes and underscores only')
+  })
+
+  it('should ask for the region when the region list is unavailable', async () => {
+    vi.mocked(fetchAvailableRegions).mockRejectedValue(new Error('Network error'))
+    vi.mocked(window.showQuickPick).mockImplementationOnce(async items => (await items).find(item => item.label.includes('Add Profile')))
+    vi.mocked(window.showInputBox).mockResolvedValueOnce('acme').mockResolvedValueOnce('au')
+
+    expect(await pick()).toEqual({ name: 'acme', region: 'au' })
+  })
+
+  it('should remove a confirmed profile and return the active profile', async () => {
+    await storageService.saveProfile({ name: 'acme', region: 'eu' })
+    await storageService.setActiveProfile('acme')
+    vi.mocked(window.showQuickPick)
+      .mockImplementationOnce(async items => (await items).find(item => item.label.includes('Remove Profile')))
+      .mockImplementationOnce(async items => (await items)[0])
+    vi.mocked(window.showWarningMessage).mockResolvedValueOnce(ProfileActions.REMOVE_PROFILE as any)
+
+    expect(await pick()).toEqual({ name: 'default' })
+    expect(storageService.getProfiles()).toEqual([{ name: 'default' }])
+    expect(portalSelectionService.clearPortalCache).toHaveBeenCalledWith('acme')
+  })
+})
@@ -0,0 +1,163 @@
+import { QuickPickItemKind, window } from 'vscode'
+import type { QuickPickItem } from 'vscode'
+import { isRegionCode } from '../konnect/endpoints'
+import { fetchAvailableRegions } from '../konnect/regions'
+import type { PortalSelectionService } from '../portal-selection'
+import { DEFAULT_PROFILE_NAME } from '../storage'
+import type { PortalStorageService } from '../storage'
+import type { KonnectProfile } from '../types/konnect'
+import { ProfileActions } from '../types/ui-actions'
+import { debug } from '../utils/debug'
+
+/** Matches a valid profile name */
+const PROFILE_NAME_PATTERN = /^[\w.-]+$/
+
+/** Quick pick item of a profile or of a profile management action */
+interface ProfileQuickPickItem extends QuickPickItem {
+  profile?: KonnectProfile
+  action?: 'add' | 'remove'
+}
+
+/**
+ * Describes the region of a profile
+ * @param profile The profile
+ * @returns The region, or a hint that the region setting is used
+ */
+function describeRegion(profile: KonnectProfile): string {
+  return profile.region ? `Region: ${profile.region}` : 'Region from settings'
+}
+
+/**
+ * Lets the user pick the profile to activate, add a profile or remove one
+ * @param storageService Storage of the profiles
+ * @param portalSelectionService Service whose cached portal lists of a removed profile are deleted
+ * @returns The profile to activate, or undefined if the user cancelled. After removing the active
+ * profile the default profile is returned.
+ */
+export async function pickProfile(
+  storageService: PortalStorageService,
+  portalSelectionService: PortalSelectionService,
+): Promise<KonnectProfile | undefined> {
+  const activeProfile = storageService.getActiveProfile()
+  const profiles = storageService.getProfiles()
+
+  const items: ProfileQuickPickItem[] = [
+    ...profiles.map(profile => ({
+      label: profile.name,
+      description: profile.name === activeProfile.name ? `${describeRegion(profile)} - active` : describeRegion(profile),
+      profile,
+    })),
+    { label: '', kind: QuickPickItemKind.Separator },
+    { label: '$(add) Add Profile...', action: 'add' },
+  ]
+  if (profiles.length > 1) {
+    items.push({ label: '$(trash) Remove Profile...', action: 'remove' })
+  }
+
+  const selected = await window.showQuickPick(items, {
+    title: 'Konnect Profiles',
+    placeHolder: `Active profile: ${activeProfile.name}`,
+  })
+
+  if (selected?.action === 'add') {
+    return createProfile(storageService)
+  }
+  if (selected?.action === 'remove') {
+    return removeProfile(storageService, portalSelectionService)
+  }
+  return selected?.profile
+}
+
+/**
+ * Asks for the name and region of a new profile and saves it
+ * @param storageService Storage of the profiles
+ * @returns The new profile, or undefined if the user cancelled
+ */
+async function createProfile(storageService: PortalStorageService): Promise<KonnectProfile | undefined> {
+  const existingNames = storageService.getProfiles().map(profile => profile.name)
+  const name = await window.showInputBox({
+    title: 'Add Konnect Profile',
+    prompt: 'Enter a name for the profile, e.g. the Konnect organization',
+    validateInput: (value) => {
+      if (!PROFILE_NAME_PATTERN.test(value.trim())) {
+        return 'Use letters, digits, dots, dashes and underscores only'
+      }
+      return existingNames.includes(value.trim()) ? `Profile "${value.trim()}" already exists` : undefined
+    },
+  })
+  if (!name) {
+    return undefined
+  }
+
+  const region = await pickRegion(storageService)
+  if (!region) {
+    return undefined
+  }
+
+  const profile: KonnectProfile = { name: name.trim(), region }
+  await storageService.saveProfile(profile)
+  debug.log('Added Konnect profile:', profile)
+  return profile
+}
+
+/**
+ * Asks for the Konnect region of a new profile
+ * @param storageService Storage of the profiles, used by kongctl to list the regions
+ * @returns The region, or undefined if the user cancelled
+ */
+async function pickRegion(storageService: PortalStorageService): Promise<string | undefined> {
+  let regions: string[] = []
+  try {
+    regions = await fetchAvailableRegions(storageService)
+  } catch (error) {
+    debug.warn('Failed to fetch Konnect regions for the new profile:', error)
+  }
+
+  if (regions.length > 0) {
+    return window.showQuickPick(regions, { title: 'Add Konnect Profile', placeHolder: 'Select the Konnect region of the profile' })
+  }
+
+  // The region list is unavailable offline
+  const region = await window.showInputBox({
+    title: 'Add Konnect Profile',
+    prompt: 'Enter the Konnect region of the profile',
+    value: 'us',
+    validateInput: value => isRegionCode(value.trim()) ? undefined : 'Enter a region code such as "us" or "eu"',
+  })
+  return region?.trim()
+}
+
+/**
+ * Lets the user pick a profile to remove, together with its token, portal selection and cached portal lists
+ * @param storageService Storage of the profiles
+ * @param portalSelectionService Service whose cached portal lists of the profile are deleted
+ * @returns The active profile after the removal, or undefined if nothing was removed
+ */
+async function removeProfile(
+  storageService: PortalStorageService,
+  portalSelectionService: PortalSelectionService,
+): Promise<KonnectProfile | undefined> {
+  const removable = storageService.getProfiles().filter(profile => profile.name !== DEFAULT_PROFILE_NAME)
+  const selected = await window.showQuickPick(
+    removable.map(profile => ({ label: profile.name, description: describeRegion(profile), profile })),
+    { title: 'Remove Konnect Profile', placeHolder: 'Select the profile to remove' },
+  )
+  if (!selected) {
+    return undefined
+  }
+
+  const confirm = await window.showWarningMessage(
+    `This will remove the profile "${selected.profile.name}" with its Konnect token and portal selection. Are you sure?`,
+    { modal: true },
+    ProfileActions.REMOVE_PROFILE,
+  )
+  if (confirm !== ProfileActions.REMOVE_PROFILE) {
+    return undefined
+  }
+
+  // The cached portal lists are keyed by the token, so clear them first
+  await portalSelectionService.clearPortalCache(selected.profile.name)
+  await storageService.removeProfile(selected.profile.name)
+  debug.log('Removed Konnect profile:', selected.profile.name)
+  return storageService.getActiveProfile()
+}
@@ -0,0 +1,88 @@
+import { StatusBarAlignment, window } from 'vscode'
+import type { Disposable, StatusBarItem } from 'vscode'
+import { getBaseUrlOverride } from '../konnect/endpoints'
+import { getUserDisplayName } from '../konnect/identity'
+import type { KonnectIdentityService } from '../konnect/identity'
+import type { KonnectRequestService } from '../konnect/request-service'
+import type { PortalStorageService } from '../storage'
+import { debug } from '../utils/debug'
+
+/**
+ * Status bar item showing who the active Konnect profile is signed in as, switches profiles when clicked.
+ * The tooltip lists the profile, user, organization, region and the portal of the active editor.
+ */
+export class ProfileStatusBarItem implements Disposable {
+  private readonly item: StatusBarItem
+  private readonly disposables: Disposable[] = []
+
+  /** Incremented by every update, so only the latest update is shown */
+  private updateCount = 0
+
+  constructor(
+    private readonly storageService: PortalStorageService,
+    private readonly identityService: KonnectIdentityService,
+    private readonly requestService: KonnectRequestService,
+  ) {
+    this.item = window.createStatusBarItem('kong.konnect.devPortal.profile', StatusBarAlignment.Left)
+    this.item.name = 'Konnect Profile'
+    this.item.command = 'kong.konnect.devPortal.switchProfile'
+    this.item.text = `$(account) ${storageService.getActiveProfile().name}`
+    this.item.show()
+
+    // Workspace folders may be bound to different portals
+    this.disposables.push(
+      identityService.onDidChange(() => this.update()),
+      window.onDidChangeActiveTextEditor(() => this.update()),
+    )
+    this.update()
+  }
+
+  /** Shows the identity and portal of the active profile */
+  public update(): void {
+    // Failures leave the previous state
+    this.render().catch((error) => {
+      debug.error('Failed to update the Konnect profile status bar:', error)
+    })
+  }
+
+  private async render(): Promise<void> {
+    const update = ++this.updateCount
+    const profile = this.storageService.getActiveProfile()
+    const identity = this.identityService.getIdentity()
+    const [hasToken, portal] = await Promise.all([
+      this.storageService.hasValidToken(),
+      this.storageService.getSelectedPortal(),
+    ])
+    if (update !== this.updateCount) {
+      return
+    }
+
+    const hasProfiles = this.storageService.getProfiles().length > 1
+    const baseUrlOverride = getBaseUrlOverride()
+    if (identity) {
+      const userName = getUserDisplayName(identity.user)
+      this.item.text = hasProfiles ? `$(account) ${userName} (${profile.name})` : `$(account) ${userName}`
+    } else {
+      this.item.text = hasToken ? `$(account) ${profile.name}` : `$(warning) ${profile.name}`
+    }
+
+    this.item.tooltip = [
+      `Konnect profile: ${profile.name}`,
+      ...identity
+        ? [`User: ${getUserDisplayName(identity.user)} <${identity.user.email}>`, `Organization: ${identity.organization.name}`]
+        : [hasToken ? 'Token not verified' : 'No token configured'],
+      `Region: ${this.requestService.getRegion()}`,
+      ...baseUrlOverride ? [`API: ${baseUrlOverride}`] : [],
+      `Portal: ${portal?.displayName ?? 'none selected'}`,
+      // The workspace previews the portal on another domain than its canonical one
+      ...portal?.previewOrigin ? [`Preview: ${portal.previewOrigin}`] : [],
+      '',
+      'Click to switch profiles',
+    ].join('\n')
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.item.dispose()
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createDriftReport } from './drift'
+import type { KonnectRequestService } from '../konnect/request-service'
+import type { LocalContentFile } from '../utils/local-content'
+import { mockIntroPageWithContent, mockPortalPagesResponse } from '../test/fixtures/konnect-api'
+
+vi.mock('vscode', () => ({
+  EventEmitter: class {},
+  Uri: {
+    from: (components: { scheme: string, authority: string, path: string }) => `${components.scheme}://${components.authority}${components.path}`,
+  },
+  workspace: {
+    getConfiguration: vi.fn(() => ({ get: vi.fn(() => false) })),
+  },
+}))
+
+/** Creates a local content file for tests */
+function localFile(kind: LocalContentFile['kind'], target: string, text: string, label = `${kind}s${target}.md`): LocalContentFile {
+  return { kind, target, text, label, uri: label as any }
+}
+
+const mockSnippet = {
+  id: 'snippet-banner',
+  name: 'banner',
+  visibility: 'public',
+  status: 'published',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+}
+
+describe('publish/drift', () => {
+  let requestService: KonnectRequestService
+
+  beforeEach(() => {
+    requestService = {
+      fetchPortalPages: vi.fn().mockResolvedValue(mockPortalPagesResponse.data),
+      fetchPortalPage: vi.fn().mockResolvedValue(mockIntroPageWithContent),
+      fetchPortalSnippets: vi.fn().mockResolvedValue([mockSnippet]),
+      fetchPortalSnippet: vi.fn(),
+    } as unknown as KonnectRequestService
+  })
+
+  it('should report modified, added and removed items', async () => {
+    const report = await createDriftReport(requestService, { id: 'portal-1', displayName: 'Developer Portal' }, [
+      localFile('page', '/guides/intro', '# Changed intro'),
+      localFile('page', '/reference', '# Reference'),
+    ])
+
+    expect(report.portalName).toBe('Developer Portal')
+    expect(report.items.map(item => [item.status, item.kind, item.target, item.label, item.remoteUri])).toEqual([
+      ['modified', 'page', '/guides/intro', 'pages/guides/intro.md', 'konnect-portal://portal-1/pages/guides/intro.md'],
+      ['added', 'page', '/reference', 'pages/reference.md', undefined],
+      ['removed', 'page', '/', 'pages/home.md', 'konnect-portal://portal-1/pages/home.md'],
+      ['removed', 'page', '/guides', 'pages/guides.md', 'konnect-portal://portal-1/pages/guides.md'],
+      ['removed', 'snippet', 'banner', 'snippets/banner.md', 'konnect-portal://portal-1/snippets/banner.md'],
+    ])
+    expect(report.items[0].localUri).toBe('pages/guides/intro.md')
+  })
+
+  it('should count files matching the portal as unchanged', async () => {
+    const report = await createDriftReport(requestService, { id: 'portal-1', displayName: 'Developer Portal' }, [
+      localFile('page', '/guides/intro', '---\ntitle: "Getting started: intro"\ndescription: First steps\nvisibility: private\nstatus: unpublished\n---\n# Intro\n\nWelcome to the guides.\n'),
+    ])
+
+    expect(report.unchanged).toBe(1)
+    expect(report.items.filter(item => item.target === '/guides/intro')).toEqual([])
+  })
+
+  it('should report pages whose parent is missing as only in the workspace', async () => {
+    const report = await createDriftReport(requestService, { id: 'portal-1', displayName: 'Developer Portal' }, [
+      localFile('page', '/reference/auth', '# Auth'),
+    ])
+
+    expect(report.items.find(item => item.target === '/reference/auth')?.status).toBe('added')
+  })
+})
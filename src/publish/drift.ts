@@ -0,0 +1,81 @@
+import type { Uri } from 'vscode'
+import type { KonnectRequestService } from '../konnect/request-service'
+import { getRemotePageUri, getRemoteSnippetUri } from '../konnect/portal-file-system'
+import type { LocalContentFile } from '../utils/local-content'
+import { createPublishPlan, fetchRemoteContent } from './plan'
+
+/** How a page or snippet differs between the workspace and the portal */
+export type DriftStatus = 'added' | 'removed' | 'modified'
+
+/** Page or snippet that differs between the workspace and the portal */
+export interface DriftItem {
+  kind: LocalContentFile['kind']
+  status: DriftStatus
+  /** Portal path of the page or name of the snippet */
+  target: string
+  /** Workspace-relative path of the local file, or the remote file path for items only in the portal */
+  label: string
+  /** Local file, missing for items only in the portal */
+  localUri?: Uri
+  /** Remote file in the `konnect-portal:` scheme, missing for items only in the workspace */
+  remoteUri?: Uri
+}
+
+/** Result of comparing the workspace with a portal */
+export interface DriftReport {
+  portalId: string
+  portalName: string
+  items: DriftItem[]
+  /** Number of files that match the portal */
+  unchanged: number
+}
+
+/**
+ * Compares local pages and snippets with the pages and snippets of a portal
+ * @param requestService Service for Konnect requests
+ * @param portal The portal to compare with
+ * @param files All local pages and snippets of the workspace
+ * @returns The report, listing modified items first, then items only in the workspace, then items only in the portal
+ */
+export async function createDriftReport(
+  requestService: KonnectRequestService,
+  portal: { id: string, displayName: string },
+  files: LocalContentFile[],
+): Promise<DriftReport> {
+  const remote = await fetchRemoteContent(requestService, portal.id, { pages: true, snippets: true })
+  const plan = await createPublishPlan(requestService, portal.id, files, remote)
+
+  const isRemote = (kind: DriftItem['kind'], target: string) => kind === 'page' ? remote.pages.has(target) : remote.snippets.has(target)
+  const remoteUriOf = (kind: DriftItem['kind'], target: string) => kind === 'page'
+    ? getRemotePageUri(portal.id, remote.pages.get(target)!.filePath)
+    : getRemoteSnippetUri(portal.id, target)
+
+  const modified: DriftItem[] = []
+  const added: DriftItem[] = []
+  for (const { file, action } of plan) {
+    const item = { kind: file.kind, target: file.target, label: file.label, localUri: file.uri }
+    if (action === 'update') {
+      modified.push({ ...item, status: 'modified', remoteUri: remoteUriOf(file.kind, file.target) })
+    } else if (action === 'create' || (action === 'skip' && !isRemote(file.kind, file.target))) {
+      // Skipped files the portal does not have yet, e.g. pages whose parent page is missing
+      added.push({ ...item, status: 'added' })
+    }
+  }
+
+  const localTargets = new Set(files.map(file => `${file.kind}:${file.target}`))
+  const removed: DriftItem[] = [
+    ...[...remote.pages.values()]
+      .filter(entry => !localTargets.has(`page:${entry.pagePath}`))
+      .map(entry => ({ kind: 'page' as const, target: entry.pagePath, label: `pages/${entry.filePath}` })),
+    ...[...remote.snippets.keys()]
+      .filter(name => !localTargets.has(`snippet:${name}`))
+      .map(name => ({ kind: 'snippet' as const, target: name, label: `snippets/${name}.md` })),
+  ].map(item => ({ ...item, status: 'removed' as const, remoteUri: remoteUriOf(item.kind, item.target) }))
+
+  return {
+    portalId: portal.id,
+    portalName: portal.displayName,
+    items: [...modified, ...added, ...removed],
+    unchanged: plan.filter(item => item.action === 'unchanged').length,
+  }
+}
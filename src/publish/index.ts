@@ -0,0 +1,144 @@
+import { ProgressLocation, window } from 'vscode'
+import type { OutputChannel, QuickPickItem } from 'vscode'
+import type { KonnectRequestService } from '../konnect/request-service'
+import type { StoredPortalConfig } from '../types/konnect'
+import type { LocalContentFile } from '../utils/local-content'
+import { ContentResultActions } from '../types/ui-actions'
+import { createPublishPlan, executePublishPlan } from './plan'
+import type { PublishItem, PublishResult } from './plan'
+
+/** Labels of plan actions shown in the dry-run plan and results */
+const ACTION_LABELS: Record<PublishItem['action'], string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  skip: 'Skip',
+}
+
+/**
+ * Describes the portal location of a plan item
+ * @param item The plan item
+ * @returns e.g. `page /guides/intro` or `snippet banner`
+ */
+function describeTarget(item: PublishItem): string {
+  return `${item.file.kind} ${item.file.target}`
+}
+
+/**
+ * Lets the user review the dry-run plan and choose the files to publish
+ * @param portalConfig The portal being published to
+ * @param plan The publish plan
+ * @returns The items to publish, or undefined if cancelled
+ */
+async function confirmPlan(portalConfig: StoredPortalConfig, plan: PublishItem[]): Promise<PublishItem[] | undefined> {
+  const count = (action: PublishItem['action']) => plan.filter(item => item.action === action).length
+  const items: Array<QuickPickItem & { item: PublishItem }> = plan
+    .filter(item => item.action === 'create' || item.action === 'update')
+    .map(item => ({
+      label: `${ACTION_LABELS[item.action]} ${describeTarget(item)}`,
+      description: item.file.label,
+      picked: true,
+      item,
+    }))
+
+  const selected = await window.showQuickPick(items, {
+    title: `Publish to ${portalConfig.displayName}: ${count('create')} to create, ${count('update')} to update, ${count('unchanged')} unchanged, ${count('skip')} skipped`,
+    placeHolder: 'Review the planned changes and press Enter to publish the selected files',
+    canPickMany: true,
+    ignoreFocusOut: true,
+  })
+  return selected?.map(selection => selection.item)
+}
+
+/**
+ * Writes the plan outcome of every file to the output channel
+ * @param output The output channel
+ * @param portalConfig The portal that was published to
+ * @param plan The full publish plan
+ * @param results Results of the published items
+ */
+function writeResults(output: OutputChannel, portalConfig: StoredPortalConfig, plan: PublishItem[], results: PublishResult[]): void {
+  output.appendLine(`Publish to ${portalConfig.displayName} (${new Date().toLocaleString()})`)
+
+  for (const result of results) {
+    const { item, error } = result
+    output.appendLine(error
+      ? `  ✗ ${ACTION_LABELS[item.action]} ${describeTarget(item)} (${item.file.label}): ${error}`
+      : `  ✓ ${ACTION_LABELS[item.action]} ${describeTarget(item)} (${item.file.label})`)
+  }
+
+  for (const item of plan.filter(planItem => planItem.action === 'skip')) {
+    output.appendLine(`  - Skipped ${item.file.label}: ${item.reason}`)
+  }
+
+  const published = new Set(results.map(result => result.item))
+  for (const item of plan.filter(planItem => (planItem.action === 'create' || planItem.action === 'update') && !published.has(planItem))) {
+    output.appendLine(`  - Not selected ${item.file.label}`)
+  }
+
+  output.appendLine('')
+}
+
+/**
+ * Publishes local pages and snippets to a portal after showing a dry-run plan, then reports per-file results
+ * @param requestService Service for Konnect requests
+ * @param portalConfig The portal to publish to
+ * @param files The local files to publish
+ * @param output Output channel receiving per-file results
+ * @returns The results of the published files, empty if nothing was published
+ */
+export async function publishFiles(
+  requestService: KonnectRequestService,
+  portalConfig: StoredPortalConfig,
+  files: LocalContentFile[],
+  output: OutputChannel,
+): Promise<PublishResult[]> {
+  const plan = await window.withProgress(
+    { location: ProgressLocation.Notification, title: `Comparing ${files.length} file(s) with ${portalConfig.displayName}...` },
+    () => createPublishPlan(requestService, portalConfig.id, files),
+  )
+
+  const skipped = plan.filter(item => item.action === 'skip')
+  if (!plan.some(item => item.action === 'create' || item.action === 'update')) {
+    if (skipped.length > 0) {
+      writeResults(output, portalConfig, plan, [])
+      const action = await window.showWarningMessage(
+        `Nothing to publish to ${portalConfig.displayName}. ${skipped.length} file(s) cannot be published.`,
+        ContentResultActions.SHOW_RESULTS,
+      )
+      if (action === ContentResultActions.SHOW_RESULTS) {
+        output.show(true)
+      }
+    } else {
+      window.showInformationMessage(`Nothing to publish, ${files.length === 1 ? files[0].label : 'all files'} already up to date in ${portalConfig.displayName}.`)
+    }
+    return []
+  }
+
+  const selected = await confirmPlan(portalConfig, plan)
+  if (!selected || selected.length === 0) {
+    return []
+  }
+
+  const results = await window.withProgress(
+    { location: ProgressLocation.Notification, title: `Publishing to ${portalConfig.displayName}` },
+    (progress) => executePublishPlan(requestService, portalConfig.id, selected, (item) => {
+      progress.report({ message: item.file.label, increment: 100 / selected.length })
+    }),
+  )
+
+  writeResults(output, portalConfig, plan, results)
+
+  const failed = results.filter(result => result.error).length
+  const message = failed > 0
+    ? `Published ${results.length - failed} of ${results.length} file(s) to ${portalConfig.displayName}, ${failed} failed.`
+    : `Published ${results.length} file(s) to ${portalConfig.displayName}.`
+  const action = failed > 0 || skipped.length > 0
+    ? await window.showWarningMessage(message, ContentResultActions.SHOW_RESULTS)
+    : await window.showInformationMessage(message, ContentResultActions.SHOW_RESULTS)
+  if (action === ContentResultActions.SHOW_RESULTS) {
+    output.show(true)
+  }
+
+  return results
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createPagePayload, createPublishPlan, executePublishPlan, getParentPagePath } from './plan'
+import type { PublishItem } from './plan'
+import type { KonnectRequestService } from '../konnect/request-service'
+import type { LocalContentFile } from '../utils/local-content'
+import { mockGuidesPage, mockHomePage } from '../test/fixtures/konnect-api'
+
+vi.mock('vscode', () => ({
+  workspace: {
+    getConfiguration: vi.fn(() => ({ get: vi.fn(() => false) })),
+  },
+}))
+
+/** Creates a local content file for tests */
+function localFile(kind: LocalContentFile['kind'], target: string, text: string, label = `${kind}s${target}.md`): LocalContentFile {
+  return { kind, target, text, label, uri: { toString: () => label } as any }
+}
+
+describe('publish/plan', () => {
+  let requestService: KonnectRequestService
+
+  beforeEach(() => {
+    requestService = {
+      fetchPortalPages: vi.fn().mockResolvedValue([mockHomePage, mockGuidesPage]),
+      fetchPortalPage: vi.fn().mockResolvedValue({ ...mockGuidesPage, content: '# Guides' }),
+      fetchPortalSnippets: vi.fn().mockResolvedValue([]),
+      fetchPortalSnippet: vi.fn(),
+      createPortalPage: vi.fn().mockImplementation((_portalId, payload) => Promise.resolve({ id: `new-${payload.slug}` })),
+      updatePortalPage: vi.fn().mockResolvedValue({ id: 'page-guides' }),
+      createPortalSnippet: vi.fn().mockResolvedValue({ id: 'snippet-1' }),
+      updatePortalSnippet: vi.fn(),
+    } as unknown as KonnectRequestService
+  })
+
+  describe('getParentPagePath', () => {
+    it('should return the parent path of nested pages only', () => {
+      expect(getParentPagePath('/guides/intro')).toBe('/guides')
+      expect(getParentPagePath('/guides')).toBeUndefined()
+      expect(getParentPagePath('/')).toBeUndefined()
+    })
+  })
+
+  describe('createPagePayload', () => {
+    it('should use front matter attributes', () => {
+      const payload = createPagePayload(localFile('page', '/guides/intro', '---\ntitle: Intro\nvisibility: private\n---\n# Intro'))
+
+      expect(payload).toEqual({
+        slug: 'intro',
+        title: 'Intro',
+        visibility: 'private',
+        content: '# Intro',
+      })
+    })
+
+    it('should derive the title from the file name and use "/" for the home page', () => {
+      expect(createPagePayload(localFile('page', '/getting-started', '# Hi')).title).toBe('Getting started')
+      expect(createPagePayload(localFile('page', '/', '# Hi')).slug).toBe('/')
+    })
+  })
+
+  describe('createPublishPlan', () => {
+    it('should plan creates, updates and unchanged files', async () => {
+      const plan = await createPublishPlan(requestService, 'portal-1', [
+        localFile('page', '/guides', '---\ntitle: Guides\n---\n# Guides and tutorials'),
+        localFile('page', '/guides/intro', '# Intro'),
+        localFile('snippet', 'banner', 'Banner'),
+      ])
+
+      expect(plan.map(item => [item.file.target, item.action, item.parentId])).toEqual([
+        ['/guides', 'update', undefined],
+        ['/guides/intro', 'create', 'page-guides'],
+        ['banner', 'create', undefined],
+      ])
+    })
+
+    it('should mark pages matching the portal as unchanged', async () => {
+      const plan = await createPublishPlan(requestService, 'portal-1', [
+        localFile('page', '/guides', '---\ntitle: Guides\nvisibility: public\n---\n# Guides'),
+      ])
+
+      expect(plan[0].action).toBe('unchanged')
+    })
+
+    it('should skip pages whose parent does not exist anywhere', async () => {
+      const plan = await createPublishPlan(requestService, 'portal-1', [localFile('page', '/reference/api', '# API')])
+
+      expect(plan[0]).toMatchObject({ action: 'skip', reason: expect.stringContaining('/reference') })
+    })
+
+    it('should skip files published at the same path as another file', async () => {
+      const plan = await createPublishPlan(requestService, 'portal-1', [
+        localFile('page', '/faq', '# FAQ', 'pages/faq.md'),
+        localFile('page', '/faq', '# FAQ', 'pages/faq.mdc'),
+      ])
+
+      expect(plan[1]).toMatchObject({ action: 'skip', reason: 'pages/faq.md is published at the same path' })
+    })
+  })
+
+  describe('executePublishPlan', () => {
+    it('should create parents before their children', async () => {
+      const plan: PublishItem[] = [
+        { file: localFile('page', '/reference/api', '# API'), action: 'create', parentPath: '/reference' },
+        { file: localFile('page', '/reference', '# Reference'), action: 'create' },
+        { file: localFile('page', '/guides', '# Guides'), action: 'unchanged', remoteId: 'page-guides' },
+      ]
+
+      const results = await executePublishPlan(requestService, 'portal-1', plan)
+
+      expect(results.map(result => [result.item.file.target, result.error])).toEqual([
+        ['/reference', undefined],
+        ['/reference/api', undefined],
+      ])
+      expect(requestService.createPortalPage).toHaveBeenLastCalledWith('portal-1', expect.objectContaining({
+        slug: 'api',
+        parent_page_id: 'new-reference',
+      }))
+    })
+
+    it('should report failures per file and continue', async () => {
+      vi.mocked(requestService.updatePortalPage).mockRejectedValueOnce(new Error('Conflict'))
+
+      const results = await executePublishPlan(requestService, 'portal-1', [
+        { file: localFile('page', '/guides', '# New'), action: 'update', remoteId: 'page-guides' },
+        { file: localFile('snippet', 'banner', 'Banner'), action: 'create' },
+      ])
+
+      expect(results.map(result => result.error)).toEqual(['Conflict', undefined])
+      expect(requestService.createPortalSnippet).toHaveBeenCalledWith('portal-1', { name: 'banner', content: 'Banner' })
+    })
+
+    it('should fail children whose parent was not published', async () => {
+      const results = await executePublishPlan(requestService, 'portal-1', [
+        { file: localFile('page', '/reference/api', '# API'), action: 'create', parentPath: '/reference' },
+      ])
+
+      expect(results[0].error).toBe('Parent page /reference was not published')
+      expect(requestService.createPortalPage).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,260 @@
+import type { KonnectRequestService } from '../konnect/request-service'
+import { getRemotePageEntries } from '../konnect/pages'
+import type { RemotePageEntry } from '../konnect/pages'
+import type {
+  KonnectPortalPage,
+  KonnectPortalPagePayload,
+  KonnectPortalSnippet,
+  KonnectPortalSnippetInfo,
+  KonnectPortalSnippetPayload,
+} from '../types/konnect'
+import type { LocalContentFile } from '../utils/local-content'
+import { parseFrontMatter } from '../front-matter/parse'
+import { FRONT_MATTER_ATTRIBUTE_KEYS, getFrontMatterAttributes } from '../front-matter/schema'
+import { removeFrontMatterFields } from '../front-matter/serialize'
+import { debug } from '../utils/debug'
+
+/** What publishing does with a local file */
+export type PublishAction = 'create' | 'update' | 'unchanged' | 'skip'
+
+/** Planned publish operation for a local page or snippet */
+export interface PublishItem {
+  file: LocalContentFile
+  action: PublishAction
+  /** ID of the page or snippet in the portal, for updates */
+  remoteId?: string
+  /** Portal path of the parent page, for pages below the portal root */
+  parentPath?: string
+  /** ID of the parent page if it already exists in the portal */
+  parentId?: string
+  /** Why the file cannot be published, for skipped files */
+  reason?: string
+}
+
+/** Pages and snippets of a portal */
+export interface RemoteContent {
+  /** Pages keyed by portal path */
+  pages: Map<string, RemotePageEntry>
+  /** Snippets keyed by name */
+  snippets: Map<string, KonnectPortalSnippetInfo>
+}
+
+/** Outcome of publishing a single file */
+export interface PublishResult {
+  item: PublishItem
+  /** Error message if publishing failed */
+  error?: string
+}
+
+/**
+ * Returns the portal path of the parent page of a page
+ * @param pagePath The portal path of the page
+ * @returns The parent path, or undefined for pages at the portal root
+ */
+export function getParentPagePath(pagePath: string): string | undefined {
+  const parentPath = pagePath.substring(0, pagePath.lastIndexOf('/'))
+  return parentPath || undefined
+}
+
+/**
+ * Turns a path segment into a readable title, e.g. `getting-started` into `Getting started`
+ * @param segment The path segment
+ * @returns The title
+ */
+function toTitle(segment: string): string {
+  const words = segment.replace(/[-_]+/g, ' ').trim()
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : 'Home'
+}
+
+/**
+ * Builds the API attributes of a local page
+ * @param file The local page
+ * @returns The page attributes, without the parent page
+ */
+export function createPagePayload(file: LocalContentFile): KonnectPortalPagePayload {
+  const attributes = getFrontMatterAttributes(parseFrontMatter(file.text))
+  const segment = file.target.substring(file.target.lastIndexOf('/') + 1)
+
+  return {
+    // The home page is the only page with the slug '/'
+    slug: file.target === '/' ? '/' : segment,
+    title: attributes.title ?? toTitle(segment),
+    // Attributes are sent as fields, so they are not repeated in the content
+    content: removeFrontMatterFields(file.text, FRONT_MATTER_ATTRIBUTE_KEYS),
+    ...(attributes.description !== undefined && { description: attributes.description }),
+    ...(attributes.visibility !== undefined && { visibility: attributes.visibility }),
+    ...(attributes.status !== undefined && { status: attributes.status }),
+  }
+}
+
+/**
+ * Builds the API attributes of a local snippet
+ * @param file The local snippet
+ * @returns The snippet attributes
+ */
+export function createSnippetPayload(file: LocalContentFile): KonnectPortalSnippetPayload {
+  const attributes = getFrontMatterAttributes(parseFrontMatter(file.text))
+  return {
+    name: file.target,
+    content: removeFrontMatterFields(file.text, FRONT_MATTER_ATTRIBUTE_KEYS),
+    ...attributes,
+  }
+}
+
+/**
+ * Checks whether a remote page or snippet already has the attributes of the local file
+ * @param remote The page or snippet in the portal
+ * @param payload The attributes of the local file
+ * @returns true if publishing would not change anything
+ */
+function isUpToDate(remote: KonnectPortalPage | KonnectPortalSnippet, payload: KonnectPortalPagePayload | KonnectPortalSnippetPayload): boolean {
+  const remoteAttributes: Record<string, unknown> = { ...remote }
+  return Object.entries(payload)
+    .filter(([key]) => key !== 'slug' && key !== 'name')
+    .every(([key, value]) => (remoteAttributes[key] ?? '') === (value ?? ''))
+}
+
+/**
+ * Lists the pages and snippets of a portal
+ * @param requestService Service for Konnect requests
+ * @param portalId ID of the portal
+ * @param include Which kinds of content to list
+ * @returns The pages and snippets, empty for kinds that are not included
+ */
+export async function fetchRemoteContent(
+  requestService: KonnectRequestService,
+  portalId: string,
+  include: { pages: boolean, snippets: boolean },
+): Promise<RemoteContent> {
+  return {
+    pages: include.pages
+      ? new Map(getRemotePageEntries(await requestService.fetchPortalPages(portalId)).map(entry => [entry.pagePath, entry]))
+      : new Map(),
+    snippets: include.snippets
+      ? new Map((await requestService.fetchPortalSnippets(portalId)).map(snippet => [snippet.name, snippet]))
+      : new Map(),
+  }
+}
+
+/**
+ * Compares local files with the selected portal to decide what publishing does with each file
+ * @param requestService Service for Konnect requests
+ * @param portalId ID of the portal to publish to
+ * @param files The local pages and snippets to publish
+ * @param remote Pages and snippets of the portal, listed from the portal if not given
+ * @returns The plan, with one item per file
+ */
+export async function createPublishPlan(
+  requestService: KonnectRequestService,
+  portalId: string,
+  files: LocalContentFile[],
+  remote?: RemoteContent,
+): Promise<PublishItem[]> {
+  const pageFiles = files.filter(file => file.kind === 'page')
+  const { pages: remotePages, snippets: remoteSnippets } = remote ?? await fetchRemoteContent(requestService, portalId, {
+    pages: pageFiles.length > 0,
+    snippets: files.some(file => file.kind === 'snippet'),
+  })
+
+  const localPagePaths = new Set(pageFiles.map(file => file.target))
+  const planned = new Map<string, LocalContentFile>()
+  const plan: PublishItem[] = []
+
+  for (const file of files) {
+    const key = `${file.kind}:${file.target}`
+    const duplicate = planned.get(key)
+    if (duplicate) {
+      plan.push({ file, action: 'skip', reason: `${duplicate.label} is published at the same ${file.kind === 'page' ? 'path' : 'name'}` })
+      continue
+    }
+    planned.set(key, file)
+
+    if (file.kind === 'page') {
+      const remotePage = remotePages.get(file.target)?.page
+      const parentPath = getParentPagePath(file.target)
+      const parentId = parentPath ? remotePages.get(parentPath)?.page.id : undefined
+
+      if (parentPath && !parentId && !localPagePaths.has(parentPath)) {
+        plan.push({ file, action: 'skip', parentPath, reason: `Parent page ${parentPath} does not exist in the portal or the workspace` })
+        continue
+      }
+
+      if (!remotePage) {
+        plan.push({ file, action: 'create', parentPath, parentId })
+        continue
+      }
+
+      const page = await requestService.fetchPortalPage(portalId, remotePage.id)
+      const action = isUpToDate(page, createPagePayload(file)) ? 'unchanged' : 'update'
+      plan.push({ file, action, remoteId: remotePage.id, parentPath, parentId })
+    } else {
+      const remoteSnippet = remoteSnippets.get(file.target)
+      if (!remoteSnippet) {
+        plan.push({ file, action: 'create' })
+        continue
+      }
+
+      const snippet = await requestService.fetchPortalSnippet(portalId, remoteSnippet.id)
+      const action = isUpToDate(snippet, createSnippetPayload(file)) ? 'unchanged' : 'update'
+      plan.push({ file, action, remoteId: remoteSnippet.id })
+    }
+  }
+
+  debug.log('Created publish plan:', plan.map(item => ({ file: item.file.label, action: item.action, reason: item.reason })))
+  return plan
+}
+
+/**
+ * Publishes the planned creates and updates, parents before their child pages
+ * @param requestService Service for Konnect requests
+ * @param portalId ID of the portal to publish to
+ * @param items The plan items to publish
+ * @param onProgress Called before each item is published
+ * @returns One result per published item
+ */
+export async function executePublishPlan(
+  requestService: KonnectRequestService,
+  portalId: string,
+  items: PublishItem[],
+  onProgress?: (item: PublishItem) => void,
+): Promise<PublishResult[]> {
+  const depth = (item: PublishItem) => item.file.kind === 'page' ? item.file.target.split('/').length : Number.MAX_SAFE_INTEGER
+  const ordered = items
+    .filter(item => item.action === 'create' || item.action === 'update')
+    .sort((a, b) => depth(a) - depth(b))
+
+  // IDs of pages published in this run, so their children can reference them
+  const publishedPageIds = new Map<string, string>()
+  const results: PublishResult[] = []
+
+  for (const item of ordered) {
+    onProgress?.(item)
+    try {
+      if (item.file.kind === 'page') {
+        const payload = createPagePayload(item.file)
+        const parentId = item.parentPath ? item.parentId ?? publishedPageIds.get(item.parentPath) : undefined
+        if (item.parentPath && !parentId) {
+          throw new Error(`Parent page ${item.parentPath} was not published`)
+        }
+
+        const page = item.action === 'create'
+          ? await requestService.createPortalPage(portalId, { ...payload, parent_page_id: parentId ?? null })
+          : await requestService.updatePortalPage(portalId, item.remoteId!, payload)
+        publishedPageIds.set(item.file.target, page.id)
+      } else {
+        const payload = createSnippetPayload(item.file)
+        if (item.action === 'create') {
+          await requestService.createPortalSnippet(portalId, payload)
+        } else {
+          await requestService.updatePortalSnippet(portalId, item.remoteId!, payload)
+        }
+      }
+      results.push({ item })
+    } catch (error) {
+      debug.error('Failed to publish file:', { file: item.file.label, error })
+      results.push({ item, error: error instanceof Error ? error.message : 'Unknown error occurred' })
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,359 @@
+import {
+  commands,
+  languages,
+  window,
+  workspace,
+  CodeLens,
+  CompletionItem,
+  CompletionItemKind,
+  Diagnostic,
+  DiagnosticSeverity,
+  Hover,
+  Location,
+  MarkdownString,
+  Position,
+  Range,
+} from 'vscode'
+import type { DiagnosticCollection, Disposable, DocumentSelector, TextDocument, Uri } from 'vscode'
+import { relative } from 'path'
+import { getConfiguration } from '../extension'
+import { CONFIG_SECTION } from '../constants/config'
+import { debug } from '../utils/debug'
+import { getFrontMatterEndLine } from '../front-matter/parse'
+import { SnippetUsageActions } from '../types/ui-actions'
+import { getSnippetFileName, getSnippetNamingProblems } from './naming'
+import type { SnippetNamingStrategy } from './naming'
+import { getSnippetNameCompletion, getSnippetUsageAt } from './usages'
+import type { IndexedContentFile, IndexedSnippetUsage, SnippetIndex } from './snippet-index'
+import type { RemoteSnippetNames, RemoteSnippetSource } from './remote-snippets'
+
+/** Source shown next to snippet diagnostics */
+const DIAGNOSTIC_SOURCE = 'Konnect Portal'
+
+/** Documents that can reference snippets */
+const SNIPPET_SELECTOR: DocumentSelector = [
+  { language: 'markdown' },
+  { language: 'mdc' },
+  { pattern: '**/*.mdc' },
+]
+
+/**
+ * Reports snippet name collisions, unsupported subfolders and references to unknown snippets as diagnostics
+ * @param index The snippet index
+ * @param collection The diagnostic collection to replace
+ * @param remoteSnippets Snippets of the selected portal, undefined if they could not be loaded
+ */
+export function updateSnippetDiagnostics(index: SnippetIndex, collection: DiagnosticCollection, remoteSnippets?: RemoteSnippetNames): void {
+  const files = index.getFiles()
+  // Names only collide within a workspace folder, which also has its own naming strategy
+  const folders = new Map(files.map(file => [file.folder.toString(), file.folder]))
+  const problems = [...folders.values()].flatMap(folder => getSnippetNamingProblems(
+    files.filter(file => file.kind === 'snippet' && index.isInFolder(file, folder)),
+    getConfiguration(folder).snippetNaming,
+  ))
+
+  collection.clear()
+  for (const file of files) {
+    const lines = file.text.split(/\r?\n/)
+    const diagnostics = problems.filter(problem => problem.file === file).map(problem => new Diagnostic(
+      new Range(problem.line, 0, problem.line, Math.max(lines[problem.line]?.length ?? 0, 1)),
+      problem.message,
+      problem.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+    ))
+
+    // Without the portal listing, snippets that are only published cannot be told apart from typos
+    if (remoteSnippets) {
+      const location = remoteSnippets.portalName ? `the snippets directory or the portal "${remoteSnippets.portalName}"` : 'the snippets directory'
+      for (const usage of file.usages) {
+        if (index.getDefinitions(usage.name, file.folder).length === 0 && !remoteSnippets.names.has(usage.name)) {
+          diagnostics.push(new Diagnostic(
+            new Range(usage.line, usage.start, usage.line, usage.end),
+            `Snippet "${usage.name}" does not exist in ${location}.`,
+            DiagnosticSeverity.Warning,
+          ))
+        }
+      }
+    }
+
+    diagnostics.forEach(diagnostic => diagnostic.source = DIAGNOSTIC_SOURCE)
+    collection.set(file.uri, diagnostics)
+  }
+}
+
+/**
+ * Removes the front matter of a snippet document
+ * @param text The snippet document
+ * @returns The Markdown content of the snippet
+ */
+function getSnippetBody(text: string): string {
+  const lines = text.split(/\r?\n/)
+  return lines.slice(getFrontMatterEndLine(lines) + 1).join('\n').trim()
+}
+
+/**
+ * Builds the hover of a snippet reference, preferring the local snippet file over the published snippet
+ * @param index The snippet index
+ * @param remoteSnippets The snippets of the selected portal
+ * @param name The snippet name
+ * @param folder The workspace folder of the hovered document
+ * @returns The hover content
+ */
+async function getSnippetHoverContent(index: SnippetIndex, remoteSnippets: RemoteSnippetSource, name: string, folder?: Uri): Promise<MarkdownString> {
+  const [definition] = index.getDefinitions(name, folder)
+  const content = new MarkdownString()
+
+  if (definition) {
+    content.appendMarkdown(`**Snippet** \`${name}\` · ${definition.relativePath}\n\n---\n\n`)
+    content.appendMarkdown(getSnippetBody(definition.text))
+    return content
+  }
+
+  const published = await remoteSnippets.getContent(name)
+  if (published !== undefined) {
+    content.appendMarkdown(`**Snippet** \`${name}\` · published in the selected portal\n\n---\n\n`)
+    content.appendMarkdown(getSnippetBody(published))
+    return content
+  }
+
+  return content.appendMarkdown(`**Snippet** \`${name}\` was not found`)
+}
+
+/**
+ * Creates completion items for the snippet name typed at a position
+ * @param index The snippet index
+ * @param remoteSnippets The snippets of the selected portal
+ * @param document The document being edited
+ * @param position The cursor position
+ * @returns Local snippets followed by snippets only published to the portal
+ */
+async function getSnippetCompletions(
+  index: SnippetIndex,
+  remoteSnippets: RemoteSnippetSource,
+  document: TextDocument,
+  position: Position,
+): Promise<CompletionItem[]> {
+  const completion = getSnippetNameCompletion(document.getText(), position.line, position.character)
+  if (!completion) {
+    return []
+  }
+
+  const range = new Range(position.line, completion.start, position.line, position.character)
+  const items = new Map<string, CompletionItem>()
+  const folder = index.getFolder(document.uri)
+  for (const file of index.getFiles()) {
+    if (file.snippetName && index.isInFolder(file, folder) && !items.has(file.snippetName)) {
+      const item = new CompletionItem(file.snippetName, CompletionItemKind.Reference)
+      item.detail = file.relativePath
+      item.documentation = new MarkdownString(getSnippetBody(file.text))
+      item.range = range
+      item.sortText = `0${file.snippetName}`
+      items.set(file.snippetName, item)
+    }
+  }
+
+  const remote = await remoteSnippets.getNames()
+  for (const name of remote?.names ?? []) {
+    if (remote && !items.has(name)) {
+      const item = new CompletionItem(name, CompletionItemKind.Reference)
+      item.detail = `Published in ${remote.portalName}`
+      item.range = range
+      item.sortText = `1${name}`
+      items.set(name, item)
+    }
+  }
+
+  return [...items.values()]
+}
+
+/**
+ * Converts a snippet reference to an editor location
+ * @param usage The reference
+ * @returns The location of the snippet name
+ */
+function toLocation(usage: IndexedSnippetUsage): Location {
+  return new Location(usage.file.uri, new Range(usage.line, usage.start, usage.line, usage.end))
+}
+
+/**
+ * Returns the snippet name referenced at a position, or defined by the document when it is a snippet file
+ * @param index The snippet index
+ * @param document The document
+ * @param position The position
+ * @returns The snippet name, if any
+ */
+function getSnippetNameAt(index: SnippetIndex, document: TextDocument, position: Position): string | undefined {
+  return getSnippetUsageAt(document.getText(), position.line, position.character)?.name ?? index.getFile(document.uri)?.snippetName
+}
+
+/**
+ * Describes how often a snippet is used, for the CodeLens of a snippet file
+ * @param file The snippet file
+ * @param usages References to the snippet
+ * @returns e.g. `Used by 3 pages and 1 snippet`
+ */
+export function describeSnippetUsages(file: IndexedContentFile, usages: IndexedSnippetUsage[]): string {
+  const count = (kind: IndexedContentFile['kind']) => new Set(usages
+    .filter(usage => usage.file.kind === kind && usage.file !== file)
+    .map(usage => usage.file.uri.toString())).size
+  const pages = count('page')
+  const snippets = count('snippet')
+
+  if (pages === 0 && snippets === 0) {
+    return 'Not used by any page'
+  }
+  const parts = [`${pages} ${pages === 1 ? 'page' : 'pages'}`]
+  if (snippets > 0) {
+    parts.push(`${snippets} ${snippets === 1 ? 'snippet' : 'snippets'}`)
+  }
+  return `Used by ${parts.join(' and ')}`
+}
+
+/**
+ * Derives the snippet name of a file after it or one of its folders was renamed
+ * @param file The snippet file before the change
+ * @param oldUri The renamed file or folder
+ * @param newUri The new URI of the renamed file or folder
+ * @param snippetNaming How snippet names are derived
+ * @returns The new snippet name, or undefined if the file was moved out of the snippets directory
+ */
+function getRenamedSnippetName(file: IndexedContentFile, oldUri: Uri, newUri: Uri, snippetNaming: SnippetNamingStrategy): string | undefined {
+  const snippetsPath = file.uri.fsPath.substring(0, file.uri.fsPath.length - file.relativePath.length)
+  const newRelativePath = relative(snippetsPath, newUri.fsPath + file.uri.fsPath.substring(oldUri.fsPath.length))
+  return newRelativePath.startsWith('..') ? undefined : getSnippetFileName(newRelativePath, snippetNaming, file.text)?.name
+}
+
+/**
+ * Warns when snippet files that are still referenced are renamed or deleted
+ * @param index The snippet index, still describing the files before the change
+ * @param changes The old URIs with their new URIs, undefined for deleted files
+ */
+async function warnAboutReferencedSnippets(index: SnippetIndex, changes: Array<{ oldUri: Uri, newUri?: Uri }>): Promise<void> {
+  for (const { oldUri, newUri } of changes) {
+    // Folders affect every snippet file below them
+    const affected = index.getFiles().filter(file => file.snippetName && (
+      file.uri.toString() === oldUri.toString() || file.uri.toString().startsWith(`${oldUri.toString()}/`)
+    ))
+
+    for (const file of affected) {
+      const name = file.snippetName
+      if (!name) {
+        continue
+      }
+      const newName = newUri ? getRenamedSnippetName(file, oldUri, newUri, getConfiguration(file.folder).snippetNaming) : undefined
+      if (newName === name || index.getDefinitions(name, file.folder).some(definition => !affected.includes(definition))) {
+        continue
+      }
+
+      const usages = index.getUsages(name, file.folder).filter(usage => !affected.includes(usage.file))
+      if (usages.length === 0) {
+        continue
+      }
+
+      const action = await window.showWarningMessage(
+        newUri
+          ? `Snippet "${name}" was renamed${newName ? ` to "${newName}"` : ''} but is still used by ${usages.length} reference(s).`
+          : `Snippet "${name}" was deleted but is still used by ${usages.length} reference(s).`,
+        SnippetUsageActions.SHOW_USAGES,
+      )
+      if (action === SnippetUsageActions.SHOW_USAGES) {
+        const first = toLocation(usages[0])
+        await commands.executeCommand('editor.action.showReferences', first.uri, first.range.start, usages.map(toLocation))
+      }
+    }
+  }
+}
+
+/**
+ * Registers snippet diagnostics, completions, hovers, references, definitions and usage CodeLenses
+ * @param index The snippet index shared with other features
+ * @param remoteSnippets The snippets published to the selected portal
+ * @returns Disposables for the diagnostic collection, listeners and providers
+ */
+export function registerSnippetSupport(index: SnippetIndex, remoteSnippets: RemoteSnippetSource): Disposable[] {
+  const collection = languages.createDiagnosticCollection('konnect-snippets')
+
+  // Only the latest update is applied when the portal listing resolves out of order
+  let diagnosticsVersion = 0
+  const updateDiagnostics = async () => {
+    const version = ++diagnosticsVersion
+    const remoteNames = await remoteSnippets.getNames()
+    if (version === diagnosticsVersion) {
+      updateSnippetDiagnostics(index, collection, remoteNames)
+    }
+  }
+
+  index.scheduleRescan()
+  debug.log('Snippet support registered')
+
+  return [
+    collection,
+    index.onDidChange(updateDiagnostics),
+    remoteSnippets.onDidChange(updateDiagnostics),
+    workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration(CONFIG_SECTION)) {
+        index.scheduleRescan()
+      }
+    }),
+    workspace.onDidRenameFiles(event => warnAboutReferencedSnippets(index, event.files.map(file => ({ oldUri: file.oldUri, newUri: file.newUri })))),
+    workspace.onDidDeleteFiles(event => warnAboutReferencedSnippets(index, event.files.map(uri => ({ oldUri: uri })))),
+    languages.registerCompletionItemProvider(
+      SNIPPET_SELECTOR,
+      {
+        provideCompletionItems: (document, position) => getSnippetCompletions(index, remoteSnippets, document, position),
+        resolveCompletionItem: async (item) => {
+          // Published snippets are loaded when the item is selected
+          if (!item.documentation) {
+            const content = await remoteSnippets.getContent(typeof item.label === 'string' ? item.label : item.label.label)
+            item.documentation = content !== undefined ? new MarkdownString(getSnippetBody(content)) : undefined
+          }
+          return item
+        },
+      },
+      '"',
+      '\'',
+      '=',
+    ),
+    languages.registerHoverProvider(SNIPPET_SELECTOR, {
+      provideHover: async (document, position) => {
+        const usage = getSnippetUsageAt(document.getText(), position.line, position.character)
+        return usage
+          ? new Hover(await getSnippetHoverContent(index, remoteSnippets, usage.name, index.getFolder(document.uri)), new Range(usage.line, usage.start, usage.line, usage.end))
+          : undefined
+      },
+    }),
+    languages.registerDefinitionProvider(SNIPPET_SELECTOR, {
+      provideDefinition: (document, position) => {
+        const usage = getSnippetUsageAt(document.getText(), position.line, position.character)
+        return usage ? index.getDefinitions(usage.name, index.getFolder(document.uri)).map(file => new Location(file.uri, new Position(0, 0))) : undefined
+      },
+    }),
+    languages.registerReferenceProvider(SNIPPET_SELECTOR, {
+      provideReferences: (document, position, context) => {
+        const name = getSnippetNameAt(index, document, position)
+        if (!name) {
+          return undefined
+        }
+        const folder = index.getFolder(document.uri)
+        const definitions = context.includeDeclaration
+          ? index.getDefinitions(name, folder).map(file => new Location(file.uri, new Position(0, 0)))
+          : []
+        return [...definitions, ...index.getUsages(name, folder).map(toLocation)]
+      },
+    }),
+    languages.registerCodeLensProvider(SNIPPET_SELECTOR, {
+      onDidChangeCodeLenses: index.onDidChange,
+      provideCodeLenses: (document) => {
+        const file = index.getFile(document.uri)
+        if (!file?.snippetName) {
+          return []
+        }
+        const usages = index.getUsages(file.snippetName, file.folder)
+        return [new CodeLens(new Range(0, 0, 0, 0), {
+          title: describeSnippetUsages(file, usages),
+          command: usages.length > 0 ? 'editor.action.showReferences' : '',
+          arguments: [document.uri, new Position(0, 0), usages.map(toLocation)],
+        })]
+      },
+    }),
+  ]
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { getSnippetFileName, getSnippetFilePath, getSnippetNamingProblems } from './naming'
+
+describe('snippets/naming', () => {
+  describe('getSnippetFileName', () => {
+    it('should use the file name with the fileName strategy', () => {
+      expect(getSnippetFileName('banner.md', 'fileName')).toEqual({ name: 'banner', nested: false, sanitized: false })
+      expect(getSnippetFileName('alerts/warning.mdc', 'fileName')).toEqual({ name: 'warning', nested: true, sanitized: false })
+    })
+
+    it('should join folders with -- with the folderPath strategy', () => {
+      expect(getSnippetFileName('alerts/info/note.md', 'folderPath')?.name).toBe('alerts--info--note')
+      expect(getSnippetFileName('alerts\\warning.md', 'folderPath')?.name).toBe('alerts--warning')
+    })
+
+    it('should prefer the front matter name with the frontMatter strategy', () => {
+      const text = '---\ntitle: Warning\nname: maintenance.warning\n---\nCareful'
+
+      expect(getSnippetFileName('alerts/warning.md', 'frontMatter', text)).toEqual({
+        name: 'maintenancewarning',
+        nested: true,
+        sanitized: true,
+        frontMatterLine: 2,
+      })
+      expect(getSnippetFileName('alerts/warning.md', 'frontMatter', 'Careful')?.name).toBe('alerts--warning')
+    })
+
+    it('should return undefined when no valid name remains', () => {
+      expect(getSnippetFileName('...md', 'fileName')).toBeUndefined()
+    })
+  })
+
+  describe('getSnippetFilePath', () => {
+    it('should map names back to files that resolve to the same name', () => {
+      expect(getSnippetFilePath('alerts--warning', 'fileName')).toBe('alerts--warning.md')
+      expect(getSnippetFilePath('alerts--warning', 'folderPath')).toBe('alerts/warning.md')
+      expect(getSnippetFileName(getSnippetFilePath('alerts--warning', 'frontMatter'), 'frontMatter', '')?.name).toBe('alerts--warning')
+    })
+  })
+
+  describe('getSnippetNamingProblems', () => {
+    it('should report collisions on every file using the name', () => {
+      const files = [
+        { relativePath: 'alerts/warning.md', text: 'A' },
+        { relativePath: 'warning.md', text: '---\nname: alerts--warning\n---\nB' },
+        { relativePath: 'banner.md', text: 'C' },
+      ]
+
+      const problems = getSnippetNamingProblems(files, 'frontMatter')
+
+      expect(problems.map(problem => [problem.file.relativePath, problem.line, problem.severity])).toEqual([
+        ['alerts/warning.md', 0, 'error'],
+        ['warning.md', 1, 'error'],
+      ])
+      expect(problems[0].message).toContain('also used by warning.md')
+    })
+
+    it('should report subfolders with the fileName strategy', () => {
+      const problems = getSnippetNamingProblems([{ relativePath: 'alerts/warning.md', text: '' }], 'fileName')
+
+      expect(problems).toEqual([expect.objectContaining({ severity: 'warning', line: 0 })])
+      expect(getSnippetNamingProblems([{ relativePath: 'alerts/warning.md', text: '' }], 'folderPath')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import { parseFrontMatter } from '../front-matter/parse'
+
+/**
+ * How snippet names are derived from files in the snippets directory:
+ * - `fileName`: the file name, snippets in subfolders are not supported
+ * - `folderPath`: folders and file name joined with `--`, e.g. `alerts/warning.md` is `alerts--warning`
+ * - `frontMatter`: the `name` front matter key, falling back to `folderPath`
+ */
+export type SnippetNamingStrategy = 'fileName' | 'folderPath' | 'frontMatter'
+
+/** Separator between folder and file names in namespaced snippet names */
+export const SNIPPET_NAMESPACE_SEPARATOR = '--'
+
+/** Snippet name derived from a file in the snippets directory */
+export interface SnippetFileName {
+  name: string
+  /** Whether the file is in a subfolder of the snippets directory */
+  nested: boolean
+  /** Whether characters not allowed in snippet names were removed */
+  sanitized: boolean
+  /** Zero-based line of the `name` front matter key the name was taken from */
+  frontMatterLine?: number
+}
+
+/**
+ * Removes characters that are not allowed in snippet names
+ * @param value The raw name
+ * @returns The name with only word characters and hyphens
+ */
+export function sanitizeSnippetName(value: string): string {
+  return value.replace(/[^\w-]/g, '')
+}
+
+/**
+ * Derives the snippet name of a file in the snippets directory
+ * @param relativePath File path relative to the snippets directory
+ * @param strategy How snippet names are derived
+ * @param text Document text, needed for the `frontMatter` strategy
+ * @returns The snippet name, or undefined if no valid name remains after sanitization
+ */
+export function getSnippetFileName(relativePath: string, strategy: SnippetNamingStrategy, text?: string): SnippetFileName | undefined {
+  const segments = relativePath.replace(/\.(md|mdc)$/i, '').split(/[\\/]/).filter(Boolean)
+  const nested = segments.length > 1
+
+  if (strategy === 'frontMatter' && text !== undefined) {
+    const entry = parseFrontMatter(text)?.entries.find(candidate => candidate.key === 'name' && candidate.indent === 0)
+    const value = entry?.value?.trim()
+    const name = value ? sanitizeSnippetName(value) : ''
+    if (entry && name) {
+      return { name, nested, sanitized: name !== value, frontMatterLine: entry.line }
+    }
+  }
+
+  const parts = strategy === 'fileName' ? segments.slice(-1) : segments
+  const name = parts.map(sanitizeSnippetName).filter(Boolean).join(SNIPPET_NAMESPACE_SEPARATOR)
+  if (!name) {
+    return undefined
+  }
+  return { name, nested, sanitized: name !== parts.join(SNIPPET_NAMESPACE_SEPARATOR) }
+}
+
+/**
+ * Maps a snippet name to the file path that resolves to the same name
+ * @param name The snippet name
+ * @param strategy How snippet names are derived
+ * @returns File path relative to the snippets directory, namespaced names are split into folders unless
+ * the strategy is `fileName`
+ */
+export function getSnippetFilePath(name: string, strategy: SnippetNamingStrategy): string {
+  const sanitized = sanitizeSnippetName(name)
+  if (strategy === 'fileName') {
+    return `${sanitized}.md`
+  }
+
+  const segments = sanitized.split(SNIPPET_NAMESPACE_SEPARATOR).filter(Boolean)
+  return `${segments.length > 0 ? segments.join('/') : sanitized}.md`
+}
+
+/**
+ * Groups snippet files that resolve to the same name
+ * @param files Snippet files with their names
+ * @returns The files of every name used by more than one file, keyed by name
+ */
+export function findSnippetNameCollisions<T extends { name: string }>(files: T[]): Map<string, T[]> {
+  const filesByName = new Map<string, T[]>()
+  for (const file of files) {
+    filesByName.set(file.name, [...filesByName.get(file.name) ?? [], file])
+  }
+  return new Map([...filesByName].filter(([, sameName]) => sameName.length > 1))
+}
+
+/** A snippet file to check for naming problems */
+export interface SnippetNamingFile {
+  /** File path relative to the snippets directory */
+  relativePath: string
+  text: string
+}
+
+/** Problem with the name of a snippet file */
+export interface SnippetNamingProblem<T extends SnippetNamingFile = SnippetNamingFile> {
+  file: T
+  /** Zero-based line the problem is reported at */
+  line: number
+  message: string
+  severity: 'error' | 'warning'
+}
+
+/**
+ * Finds snippet files that resolve to the same name, or that are in subfolders the strategy does not support
+ * @param files All files of the snippets directory
+ * @param strategy How snippet names are derived
+ * @returns The problems, in the order of the files
+ */
+export function getSnippetNamingProblems<T extends SnippetNamingFile>(files: T[], strategy: SnippetNamingStrategy): Array<SnippetNamingProblem<T>> {
+  const named = files.flatMap((file) => {
+    const snippetName = getSnippetFileName(file.relativePath, strategy, file.text)
+    return snippetName ? [{ ...snippetName, file }] : []
+  })
+  const collisions = findSnippetNameCollisions(named)
+
+  return named.flatMap(({ file, name, nested, frontMatterLine }) => {
+    const problems: Array<SnippetNamingProblem<T>> = []
+    if (nested && strategy === 'fileName') {
+      problems.push({
+        file,
+        line: 0,
+        message: `Snippets in subfolders are not supported by the "fileName" snippet naming, this file is named "${name}". Set kong.konnect.devPortal.snippetNaming to "folderPath" or "frontMatter" to organize snippets in folders.`,
+        severity: 'warning',
+      })
+    }
+
+    const others = collisions.get(name)?.filter(other => other.file !== file)
+    if (others?.length) {
+      problems.push({
+        file,
+        line: frontMatterLine ?? 0,
+        message: `Snippet name "${name}" is also used by ${others.map(other => other.file.relativePath).join(', ')}. Only one of these files is previewed and published.`,
+        severity: 'error',
+      })
+    }
+    return problems
+  })
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { workspace } from 'vscode'
+import { RemoteSnippetSource } from './remote-snippets'
+
+vi.mock('vscode', () => ({
+  Uri: {
+    from: vi.fn().mockImplementation((components: { path: string }) => components),
+  },
+  workspace: {
+    getConfiguration: vi.fn(),
+  },
+}))
+
+describe('RemoteSnippetSource', () => {
+  let suggestPortalSnippets: boolean
+  let storageService: any
+  let fileSystem: any
+  let source: RemoteSnippetSource
+
+  beforeEach(() => {
+    suggestPortalSnippets = true
+    vi.mocked(workspace.getConfiguration).mockReturnValue({
+      get: vi.fn((key: string, defaultValue: unknown) => key === 'suggestPortalSnippets' ? suggestPortalSnippets : defaultValue),
+    } as any)
+    storageService = {
+      hasValidToken: vi.fn().mockResolvedValue(true),
+      getSelectedPortal: vi.fn().mockResolvedValue({ id: 'portal-1', displayName: 'Docs' }),
+    }
+    fileSystem = {
+      onDidChangeFile: vi.fn(() => ({ dispose: vi.fn() })),
+      getSnippets: vi.fn().mockResolvedValue(new Map([['banner.md', { id: 'snippet-1', name: 'banner' }]])),
+      readFile: vi.fn().mockResolvedValue(new TextEncoder().encode('Banner')),
+    }
+    source = new RemoteSnippetSource(storageService, fileSystem)
+  })
+
+  it('should return the snippet names of the selected portal', async () => {
+    expect(await source.getNames()).toEqual({ portalName: 'Docs', names: new Set(['banner']) })
+  })
+
+  it('should return no names when no portal is selected', async () => {
+    storageService.getSelectedPortal.mockResolvedValue(undefined)
+
+    expect(await source.getNames()).toEqual({ names: new Set() })
+    expect(fileSystem.getSnippets).not.toHaveBeenCalled()
+  })
+
+  it('should not know the names when portal snippets are disabled or no token is configured', async () => {
+    suggestPortalSnippets = false
+    expect(await source.getNames()).toBeUndefined()
+
+    suggestPortalSnippets = true
+    storageService.hasValidToken.mockResolvedValue(false)
+    expect(await source.getNames()).toBeUndefined()
+    expect(fileSystem.getSnippets).not.toHaveBeenCalled()
+  })
+
+  it('should not request the listing again right after a failure', async () => {
+    fileSystem.getSnippets.mockRejectedValue(new Error('Network error'))
+
+    expect(await source.getNames()).toBeUndefined()
+    expect(await source.getNames()).toBeUndefined()
+    expect(fileSystem.getSnippets).toHaveBeenCalledTimes(1)
+  })
+
+  it('should cache the content of published snippets', async () => {
+    expect(await source.getContent('banner')).toBe('Banner')
+    expect(await source.getContent('banner')).toBe('Banner')
+    expect(fileSystem.readFile).toHaveBeenCalledTimes(1)
+    expect(fileSystem.readFile).toHaveBeenCalledWith(expect.objectContaining({ authority: 'portal-1', path: '/snippets/banner.md' }))
+  })
+})
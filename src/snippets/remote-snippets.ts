@@ -0,0 +1,111 @@
+import type { Disposable, Event, FileChangeEvent } from 'vscode'
+import { getConfiguration } from '../extension'
+import { getRemoteSnippetUri } from '../konnect/portal-file-system'
+import type { PortalFileSystemProvider } from '../konnect/portal-file-system'
+import type { PortalStorageService } from '../storage'
+import type { StoredPortalConfig } from '../types/konnect'
+import { debug } from '../utils/debug'
+
+/** Time to wait before loading the portal snippets again after a failed request, in milliseconds */
+const RETRY_DELAY = 60_000
+
+/** Names of the snippets published to the selected portal */
+export interface RemoteSnippetNames {
+  /** Display name of the portal, undefined when no portal is selected */
+  portalName?: string
+  names: Set<string>
+}
+
+/**
+ * Snippets published to the selected portal, read through the portal file system so listings
+ * are shared with the diff editors and reloaded whenever portal content is refreshed.
+ */
+export class RemoteSnippetSource implements Disposable {
+  /** Snippet contents keyed by portal ID and snippet name */
+  private readonly contents = new Map<string, Promise<string | undefined>>()
+
+  /** Time until which failed listings are not requested again */
+  private retryAfter = 0
+
+  private readonly changeListener: Disposable
+
+  constructor(
+    private readonly storageService: PortalStorageService,
+    private readonly fileSystem: PortalFileSystemProvider,
+  ) {
+    this.changeListener = this.fileSystem.onDidChangeFile(() => {
+      this.contents.clear()
+      this.retryAfter = 0
+    })
+  }
+
+  /** Fires when cached portal content is refreshed */
+  public get onDidChange(): Event<FileChangeEvent[]> {
+    return this.fileSystem.onDidChangeFile
+  }
+
+  /**
+   * Returns the names of the snippets published to the selected portal
+   * @returns The names, empty without a selected portal, or undefined if the selected portal cannot be
+   * listed: portal snippets are disabled, no token is configured or the request failed
+   */
+  public async getNames(): Promise<RemoteSnippetNames | undefined> {
+    if (!await this.storageService.getSelectedPortal()) {
+      return { names: new Set() }
+    }
+    const portal = await this.getPortal()
+    if (!portal || Date.now() < this.retryAfter) {
+      return undefined
+    }
+
+    try {
+      const snippets = await this.fileSystem.getSnippets(portal.id)
+      return { portalName: portal.displayName, names: new Set([...snippets.values()].map(snippet => snippet.name)) }
+    } catch (error) {
+      debug.warn('Failed to load portal snippets:', error)
+      this.retryAfter = Date.now() + RETRY_DELAY
+      return undefined
+    }
+  }
+
+  /**
+   * Returns the published content of a snippet
+   * @param name The snippet name
+   * @returns The snippet document with front matter, or undefined if the portal does not have it
+   */
+  public async getContent(name: string): Promise<string | undefined> {
+    const portal = await this.getPortal()
+    if (!portal) {
+      return undefined
+    }
+
+    const key = `${portal.id}/${name}`
+    let content = this.contents.get(key)
+    if (!content) {
+      content = this.fileSystem.readFile(getRemoteSnippetUri(portal.id, name))
+        .then(data => new TextDecoder().decode(data))
+        .catch((error) => {
+          debug.warn('Failed to load portal snippet:', { name, error })
+          this.contents.delete(key)
+          return undefined
+        })
+      this.contents.set(key, content)
+    }
+    return content
+  }
+
+  /**
+   * Returns the selected portal when portal snippets are enabled and a token is configured
+   * @returns The selected portal, if any
+   */
+  private async getPortal(): Promise<StoredPortalConfig | undefined> {
+    if (!getConfiguration().suggestPortalSnippets || !await this.storageService.hasValidToken()) {
+      return undefined
+    }
+    return this.storageService.getSelectedPortal()
+  }
+
+  public dispose(): void {
+    this.changeListener.dispose()
+  }
+}
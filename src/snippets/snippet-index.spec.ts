@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { workspace } from 'vscode'
+import { SnippetIndex } from './snippet-index'
+import { describeSnippetUsages, updateSnippetDiagnostics } from './index'
+
+vi.mock('vscode', () => ({
+  Diagnostic: class {
+    source?: string
+    constructor(public range: unknown, public message: string, public severity: number) {}
+  },
+  DiagnosticSeverity: { Error: 0, Warning: 1 },
+  Range: class {
+    constructor(public startLine: number, public startCharacter: number, public endLine: number, public endCharacter: number) {}
+  },
+  EventEmitter: class {
+    event = vi.fn()
+    fire = vi.fn()
+    dispose = vi.fn()
+  },
+  RelativePattern: class {
+    constructor(public base: unknown, public pattern: string) {}
+  },
+  workspace: {
+    getConfiguration: vi.fn(),
+    getWorkspaceFolder: vi.fn(),
+    workspaceFolders: [
+      { uri: { fsPath: '/workspace', toString: () => 'file:///workspace' } },
+      { uri: { fsPath: '/other', toString: () => 'file:///other' } },
+    ],
+    textDocuments: [],
+    findFiles: vi.fn(),
+    fs: { readFile: vi.fn() },
+    createFileSystemWatcher: vi.fn(() => ({
+      onDidCreate: vi.fn(),
+      onDidDelete: vi.fn(),
+      onDidChange: vi.fn(),
+      dispose: vi.fn(),
+    })),
+    onDidChangeTextDocument: vi.fn(),
+    onDidChangeWorkspaceFolders: vi.fn(),
+  },
+}))
+
+/** Builds a minimal file URI */
+const fileUri = (fsPath: string) => ({ fsPath, toString: () => `file://${fsPath}` })
+
+const FILES: Record<string, string> = {
+  '/workspace/pages/home.md': '# Home\n:snippet{name="alerts--warning"}\n:snippet{name="banner"}',
+  '/workspace/pages/guides.md': ':snippet{name="alerts--warning"}\n:snippet{name="published"} :snippet{name="typo"}',
+  '/workspace/snippets/alerts/warning.md': 'Careful :snippet{name="banner"}',
+  '/workspace/snippets/banner.md': 'Banner',
+  '/other/pages/home.md': ':snippet{name="banner"}',
+  '/other/snippets/banner.md': 'Other banner',
+}
+
+describe('SnippetIndex', () => {
+  let index: SnippetIndex
+
+  beforeEach(async () => {
+    vi.mocked(workspace.getConfiguration).mockReturnValue({
+      get: vi.fn((key: string, defaultValue: unknown) => key === 'snippetNaming' ? 'folderPath' : defaultValue),
+    } as any)
+    vi.mocked(workspace.findFiles).mockImplementation(async (pattern: any) => Object.keys(FILES)
+      .filter(path => path.startsWith(`${pattern.base.uri.fsPath}/${pattern.pattern.split('/')[0]}/`))
+      .map(fileUri) as any)
+    vi.mocked(workspace.fs.readFile).mockImplementation(async (uri: any) => new TextEncoder().encode(FILES[uri.fsPath]))
+
+    index = new SnippetIndex()
+    await index.rescan()
+  })
+
+  it('should index snippet definitions by name', () => {
+    expect(index.getDefinitions('alerts--warning').map(file => file.relativePath)).toEqual(['alerts/warning.md'])
+    expect(index.getDefinitions('missing')).toEqual([])
+  })
+
+  it('should resolve snippets within the workspace folder of each file', () => {
+    const [, other] = workspace.workspaceFolders!
+
+    expect(index.getDefinitions('banner', other.uri).map(file => file.uri.fsPath)).toEqual(['/other/snippets/banner.md'])
+    expect(index.getUsages('banner', other.uri).map(usage => usage.file.uri.fsPath)).toEqual(['/other/pages/home.md'])
+    expect(index.getDefinitions('banner')).toHaveLength(2)
+  })
+
+  it('should index references in pages and snippets', () => {
+    expect(index.getUsages('banner', workspace.workspaceFolders![0].uri).map(usage => [usage.file.relativePath, usage.line])).toEqual([
+      ['home.md', 2],
+      ['alerts/warning.md', 0],
+    ])
+  })
+
+  it('should describe how often a snippet is used', () => {
+    const [warning] = index.getDefinitions('alerts--warning')
+    const [banner] = index.getDefinitions('banner')
+
+    expect(describeSnippetUsages(warning, index.getUsages('alerts--warning'))).toBe('Used by 2 pages')
+    expect(describeSnippetUsages(banner, index.getUsages('banner', banner.folder))).toBe('Used by 1 page and 1 snippet')
+    expect(describeSnippetUsages(banner, [])).toBe('Not used by any page')
+  })
+
+  describe('updateSnippetDiagnostics', () => {
+    const collection = { clear: vi.fn(), set: vi.fn() }
+    const getMessages = (fsPath: string) => collection.set.mock.calls
+      .filter(([uri]) => uri.fsPath === fsPath)
+      .flatMap(([, diagnostics]) => diagnostics.map((diagnostic: any) => diagnostic.message))
+
+    beforeEach(() => {
+      collection.set.mockClear()
+    })
+
+    it('should report references to snippets that exist neither locally nor in the portal', () => {
+      updateSnippetDiagnostics(index, collection as any, { portalName: 'Docs', names: new Set(['published']) })
+
+      expect(getMessages('/workspace/pages/guides.md')).toEqual([
+        'Snippet "typo" does not exist in the snippets directory or the portal "Docs".',
+      ])
+      expect(getMessages('/workspace/pages/home.md')).toEqual([])
+      // Snippets of different workspace folders may share a name
+      expect(getMessages('/other/snippets/banner.md')).toEqual([])
+    })
+
+    it('should not report unknown references when the portal snippets could not be loaded', () => {
+      updateSnippetDiagnostics(index, collection as any, undefined)
+
+      expect(getMessages('/workspace/pages/guides.md')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,205 @@
+import { EventEmitter, RelativePattern, workspace } from 'vscode'
+import type { Disposable, Event, TextDocument, Uri } from 'vscode'
+import { join, relative } from 'path'
+import { getConfiguration } from '../extension'
+import { debug } from '../utils/debug'
+import { getSnippetFileName } from './naming'
+import { findSnippetUsages } from './usages'
+import type { SnippetUsage } from './usages'
+
+/** Delay before rescanning the workspace after file changes, in milliseconds */
+const RESCAN_DELAY = 500
+
+/** A page or snippet file of the workspace with the snippets it references */
+export interface IndexedContentFile {
+  kind: 'page' | 'snippet'
+  uri: Uri
+  /** The workspace folder containing the file, snippets only resolve within their folder */
+  folder: Uri
+  /** File path relative to the pages or snippets directory */
+  relativePath: string
+  text: string
+  /** Name of the snippet defined by the file, set for snippet files with a valid name */
+  snippetName?: string
+  usages: SnippetUsage[]
+}
+
+/** A reference to a snippet together with the file containing it */
+export interface IndexedSnippetUsage extends SnippetUsage {
+  file: IndexedContentFile
+}
+
+/**
+ * Index of the snippets defined in the snippets directory and the places pages and snippets reference them.
+ * Every workspace folder is indexed with its own directory settings. The workspace is rescanned when files
+ * change, open documents are reindexed as they are edited.
+ */
+export class SnippetIndex implements Disposable {
+  private readonly changeEmitter = new EventEmitter<void>()
+
+  /** Fires after the index was updated */
+  public readonly onDidChange: Event<void> = this.changeEmitter.event
+
+  /** Indexed files keyed by URI string */
+  private files = new Map<string, IndexedContentFile>()
+
+  private rescanTimeout: ReturnType<typeof setTimeout> | undefined
+  private readonly disposables: Disposable[] = []
+
+  constructor() {
+    const watcher = workspace.createFileSystemWatcher('**/*.{md,mdc}')
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(() => this.scheduleRescan()),
+      watcher.onDidDelete(() => this.scheduleRescan()),
+      watcher.onDidChange(() => this.scheduleRescan()),
+      workspace.onDidChangeTextDocument(event => this.updateDocument(event.document)),
+      workspace.onDidChangeWorkspaceFolders(() => this.scheduleRescan()),
+    )
+  }
+
+  /** All indexed pages and snippets */
+  public getFiles(): IndexedContentFile[] {
+    return [...this.files.values()]
+  }
+
+  /**
+   * Returns the indexed file of a URI
+   * @param uri The file URI
+   * @returns The indexed file, or undefined outside of the pages and snippets directories
+   */
+  public getFile(uri: Uri): IndexedContentFile | undefined {
+    return this.files.get(uri.toString())
+  }
+
+  /**
+   * Returns the workspace folder whose snippets a file can reference
+   * @param uri A file URI
+   * @returns The URI of the containing workspace folder, if any
+   */
+  public getFolder(uri: Uri): Uri | undefined {
+    return this.getFile(uri)?.folder ?? workspace.getWorkspaceFolder(uri)?.uri
+  }
+
+  /**
+   * Returns the snippet files defining a name
+   * @param name The snippet name
+   * @param folder The workspace folder to search, all folders if undefined
+   * @returns The files, more than one if several files resolve to the same name
+   */
+  public getDefinitions(name: string, folder?: Uri): IndexedContentFile[] {
+    return this.getFiles().filter(file => file.snippetName === name && this.isInFolder(file, folder))
+  }
+
+  /**
+   * Returns the references to a snippet
+   * @param name The snippet name
+   * @param folder The workspace folder to search, all folders if undefined
+   * @returns The references in the indexed files
+   */
+  public getUsages(name: string, folder?: Uri): IndexedSnippetUsage[] {
+    return this.getFiles()
+      .filter(file => this.isInFolder(file, folder))
+      .flatMap(file => file.usages.filter(usage => usage.name === name).map(usage => ({ ...usage, file })))
+  }
+
+  /**
+   * Checks whether a file belongs to a workspace folder
+   * @param file The indexed file
+   * @param folder The workspace folder, undefined matches every file
+   * @returns true if the file is in the folder
+   */
+  public isInFolder(file: IndexedContentFile, folder?: Uri): boolean {
+    return !folder || file.folder.toString() === folder.toString()
+  }
+
+  /** Rescans the workspace after a short delay, coalescing bursts of file changes */
+  public scheduleRescan(): void {
+    clearTimeout(this.rescanTimeout)
+    this.rescanTimeout = setTimeout(() => {
+      this.rescan().catch(error => debug.error('Failed to index snippets:', error))
+    }, RESCAN_DELAY)
+  }
+
+  /** Scans the pages and snippets directories of every workspace folder */
+  public async rescan(): Promise<void> {
+    const files = new Map<string, IndexedContentFile>()
+
+    for (const workspaceFolder of workspace.workspaceFolders ?? []) {
+      const { pagesDirectory, snippetsDirectory } = getConfiguration(workspaceFolder.uri)
+      const directories = [
+        { kind: 'page' as const, directory: pagesDirectory?.trim() },
+        { kind: 'snippet' as const, directory: snippetsDirectory?.trim() },
+      ]
+      for (const { kind, directory } of directories) {
+        if (!directory) {
+          continue
+        }
+
+        const directoryPath = join(workspaceFolder.uri.fsPath, directory)
+        for (const uri of await workspace.findFiles(new RelativePattern(workspaceFolder, `${directory}/**/*.{md,mdc}`))) {
+          const relativePath = relative(directoryPath, uri.fsPath)
+          files.set(uri.toString(), this.createFile(kind, uri, workspaceFolder.uri, relativePath, await this.readText(uri)))
+        }
+      }
+    }
+
+    this.files = files
+    debug.log('Indexed snippets:', {
+      files: files.size,
+      snippets: this.getFiles().filter(file => file.snippetName).length,
+    })
+    this.changeEmitter.fire()
+  }
+
+  /**
+   * Reindexes an edited document without rescanning the workspace
+   * @param document The edited document
+   */
+  private updateDocument(document: TextDocument): void {
+    const file = this.files.get(document.uri.toString())
+    if (!file) {
+      return
+    }
+    this.files.set(document.uri.toString(), this.createFile(file.kind, file.uri, file.folder, file.relativePath, document.getText()))
+    this.changeEmitter.fire()
+  }
+
+  /**
+   * Builds the index entry of a file
+   * @param kind Whether the file is a page or a snippet
+   * @param uri The file URI
+   * @param folder The workspace folder containing the file
+   * @param relativePath File path relative to the pages or snippets directory
+   * @param text The document text
+   * @returns The indexed file
+   */
+  private createFile(kind: IndexedContentFile['kind'], uri: Uri, folder: Uri, relativePath: string, text: string): IndexedContentFile {
+    const { snippetNaming } = getConfiguration(folder)
+    return {
+      kind,
+      uri,
+      folder,
+      relativePath,
+      text,
+      snippetName: kind === 'snippet' ? getSnippetFileName(relativePath, snippetNaming, text)?.name : undefined,
+      usages: findSnippetUsages(text),
+    }
+  }
+
+  /**
+   * Reads the text of a file, preferring unsaved editor content
+   * @param uri The file URI
+   * @returns The document text
+   */
+  private async readText(uri: Uri): Promise<string> {
+    const openDocument = workspace.textDocuments.find(document => document.uri.toString() === uri.toString())
+    return openDocument ? openDocument.getText() : new TextDecoder().decode(await workspace.fs.readFile(uri))
+  }
+
+  public dispose(): void {
+    clearTimeout(this.rescanTimeout)
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.changeEmitter.dispose()
+  }
+}
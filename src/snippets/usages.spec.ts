@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { findSnippetUsages, getSnippetNameCompletion, getSnippetUsageAt } from './usages'
+
+describe('snippets/usages', () => {
+  describe('findSnippetUsages', () => {
+    it('should find inline and block snippet references with the range of the name', () => {
+      const text = [
+        'Intro :snippet{name="banner"} text',
+        '::snippet{#intro name=\'alerts--warning\'}',
+        '::',
+        ':snippet{name=plain}',
+      ].join('\n')
+
+      expect(findSnippetUsages(text)).toEqual([
+        { name: 'banner', line: 0, start: 21, end: 27 },
+        { name: 'alerts--warning', line: 1, start: 23, end: 38 },
+        { name: 'plain', line: 3, start: 14, end: 19 },
+      ])
+    })
+
+    it('should ignore references in fenced code blocks and components without a name', () => {
+      const text = [
+        '```md',
+        ':snippet{name="example"}',
+        '```',
+        ':snippet{title="Missing"}',
+        ':snippetx{name="other"} word:snippet{name="inline"}',
+      ].join('\n')
+
+      expect(findSnippetUsages(text)).toEqual([])
+    })
+  })
+
+  describe('getSnippetUsageAt', () => {
+    it('should return the reference whose name contains the position', () => {
+      const text = 'See :snippet{name="banner"}'
+
+      expect(getSnippetUsageAt(text, 0, 22)?.name).toBe('banner')
+      expect(getSnippetUsageAt(text, 0, 5)).toBeUndefined()
+    })
+  })
+
+  describe('getSnippetNameCompletion', () => {
+    it('should return the partially typed name of a snippet component', () => {
+      expect(getSnippetNameCompletion(':snippet{name="ban', 0, 18)).toEqual({ prefix: 'ban', start: 15 })
+      expect(getSnippetNameCompletion('Text ::snippet{#intro name=\'', 0, 28)).toEqual({ prefix: '', start: 28 })
+      expect(getSnippetNameCompletion(':snippet{name=plain', 0, 19)).toEqual({ prefix: 'plain', start: 14 })
+    })
+
+    it('should ignore other props, other components and code blocks', () => {
+      expect(getSnippetNameCompletion(':snippet{title="ban', 0, 19)).toBeUndefined()
+      expect(getSnippetNameCompletion(':card{name="ban', 0, 15)).toBeUndefined()
+      expect(getSnippetNameCompletion(':snippet{name="banner"} and', 0, 27)).toBeUndefined()
+      expect(getSnippetNameCompletion('```\n:snippet{name="ban\n```', 1, 18)).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,106 @@
+/** Matches a snippet component with props, e.g. `:snippet{name="intro"}` or `::snippet{name="intro"}` */
+const SNIPPET_COMPONENT_PATTERN = /(?:^|[^\w:]):{1,}snippet\s*(\{[^}]*\})/g
+
+/** Matches the `name` prop of a snippet component, capturing the quoted or unquoted value */
+const NAME_PROP_PATTERN = /(?:^|[\s{])name=(?:"([^"]*)"|'([^']*)'|([^\s"'}]+))/
+
+/** Matches a snippet component whose `name` prop is being typed at the end of the text, capturing the partial name */
+const NAME_COMPLETION_PATTERN = /(?:^|[^\w:]):{1,}snippet\s*\{(?:[^}]*\s)?name=["']?([^\s"'}]*)$/
+
+/** Matches the opening or closing line of a fenced code block */
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/
+
+/** A reference to a snippet in a page or snippet */
+export interface SnippetUsage {
+  name: string
+  /** Zero-based line of the reference */
+  line: number
+  /** Column range of the snippet name within the line */
+  start: number
+  end: number
+}
+
+/** A partially typed snippet name at the cursor */
+export interface SnippetNameCompletion {
+  /** The name typed so far */
+  prefix: string
+  /** Column where the name starts */
+  start: number
+}
+
+/**
+ * Returns the lines of a document that are not part of a fenced code block
+ * @param text The document text
+ * @returns The lines with their zero-based line numbers
+ */
+function getContentLines(text: string): Array<{ line: string, lineIndex: number }> {
+  const lines: Array<{ line: string, lineIndex: number }> = []
+  let fence: string | undefined
+
+  text.split(/\r?\n/).forEach((line, lineIndex) => {
+    const fenceMatch = line.match(FENCE_PATTERN)
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1]
+      } else if (fenceMatch[1].startsWith(fence)) {
+        fence = undefined
+      }
+      return
+    }
+    if (!fence) {
+      lines.push({ line, lineIndex })
+    }
+  })
+
+  return lines
+}
+
+/**
+ * Finds the snippet references of a document, ignoring fenced code blocks
+ * @param text The document text
+ * @returns The references in document order
+ */
+export function findSnippetUsages(text: string): SnippetUsage[] {
+  const usages: SnippetUsage[] = []
+
+  getContentLines(text).forEach(({ line, lineIndex }) => {
+    for (const match of line.matchAll(SNIPPET_COMPONENT_PATTERN)) {
+      const props = match[1]
+      const nameMatch = props.match(NAME_PROP_PATTERN)
+      const name = nameMatch?.[1] ?? nameMatch?.[2] ?? nameMatch?.[3]
+      if (!nameMatch || !name) {
+        continue
+      }
+
+      const propsStart = match.index + match[0].length - props.length
+      const start = propsStart + nameMatch.index! + nameMatch[0].indexOf('=') + (nameMatch[3] ? 1 : 2)
+      usages.push({ name, line: lineIndex, start, end: start + name.length })
+    }
+  })
+
+  return usages
+}
+
+/**
+ * Finds the snippet reference at a position
+ * @param text The document text
+ * @param line Zero-based line of the position
+ * @param character Column of the position
+ * @returns The reference whose name contains the position, if any
+ */
+export function getSnippetUsageAt(text: string, line: number, character: number): SnippetUsage | undefined {
+  return findSnippetUsages(text).find(usage => usage.line === line && usage.start <= character && character <= usage.end)
+}
+
+/**
+ * Checks whether a snippet name is being typed at a position
+ * @param text The document text
+ * @param line Zero-based line of the position
+ * @param character Column of the position
+ * @returns The partial name, or undefined outside the `name` prop of a snippet component
+ */
+export function getSnippetNameCompletion(text: string, line: number, character: number): SnippetNameCompletion | undefined {
+  const content = getContentLines(text).find(contentLine => contentLine.lineIndex === line)
+  const match = content?.line.substring(0, character).match(NAME_COMPLETION_PATTERN)
+  return match ? { prefix: match[1], start: character - match[1].length } : undefined
+}
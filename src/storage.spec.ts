@@ -253,6 +253,37 @@ describe('konnect/storage', () => {
         // Note: Empty string is falsy, so it should return undefined without attempting JSON.parse
         // This verifies the early return logic works correctly
       })
+
+      it('should prefer the portal bound to the workspace folder', async () => {
+        const getBoundPortal = vi.fn().mockResolvedValue(mockStoredPortalConfig2)
+        storageService.setPortalBindings({ getBoundPortal })
+        mockSecretStorage.get.mockResolvedValue(mockSerializedPortalConfig)
+
+        const scope = { path: '/workspace/docs/pages/index.md' } as any
+        expect(await storageService.getSelectedPortal(scope)).toEqual(mockStoredPortalConfig2)
+        expect(getBoundPortal).toHaveBeenCalledWith(scope)
+        expect(await storageService.getStoredPortal()).toEqual(mockStoredPortalConfig)
+      })
+
+      it('should fall back to the stored portal when the folder is not bound', async () => {
+        storageService.setPortalBindings({ getBoundPortal: vi.fn().mockResolvedValue(undefined) })
+        mockSecretStorage.get.mockResolvedValueOnce(mockSerializedPortalConfig)
+
+        expect(await storageService.getSelectedPortal()).toEqual(mockStoredPortalConfig)
+      })
+
+      it('should apply the preview origin of the workspace', async () => {
+        const getPreviewOrigin = vi.fn().mockReturnValue('http://localhost:3000')
+        storageService.setPreviewOrigins({ getPreviewOrigin })
+        mockSecretStorage.get.mockResolvedValue(mockSerializedPortalConfig)
+
+        expect(await storageService.getSelectedPortal()).toEqual({ ...mockStoredPortalConfig, previewOrigin: 'http://localhost:3000' })
+        expect(getPreviewOrigin).toHaveBeenCalledWith(mockStoredPortalConfig)
+        expect(await storageService.getStoredPortal()).toEqual(mockStoredPortalConfig)
+
+        getPreviewOrigin.mockReturnValue(undefined)
+        expect(await storageService.getSelectedPortal()).toEqual(mockStoredPortalConfig)
+      })
     })
 
     describe('clearSelectedPortal', () => {
@@ -442,5 +473,56 @@ describe('konnect/storage', () => {
         expect(await storageService.getToken()).toBeUndefined()
       })
     })
+
+    describe('profiles', () => {
+      let state: Map<string, unknown>
+
+      beforeEach(() => {
+        state = new Map()
+        mockContext.globalState.get.mockImplementation((key: string) => state.get(key))
+        mockContext.globalState.update.mockImplementation(async (key: string, value: unknown) => {
+          state.set(key, value)
+        })
+      })
+
+      it('should start with the default profile using the original secret keys', async () => {
+        expect(storageService.getProfiles()).toEqual([{ name: 'default' }])
+        expect(storageService.getActiveProfile()).toEqual({ name: 'default' })
+
+        await storageService.storeToken(storageTestTokens.valid)
+        expect(mockSecretStorage.store).toHaveBeenCalledWith('konnectaccesstoken', storageTestTokens.valid)
+      })
+
+      it('should keep the token and portal of each profile separate', async () => {
+        await storageService.saveProfile({ name: 'acme', region: 'eu' })
+        await storageService.setActiveProfile('acme')
+
+        await storageService.storeToken(storageTestTokens.valid)
+        await storageService.storeSelectedPortal(mockStoredPortalConfig)
+        await storageService.getToken()
+
+        expect(storageService.getActiveProfile()).toEqual({ name: 'acme', region: 'eu' })
+        expect(mockSecretStorage.store).toHaveBeenCalledWith('konnectaccesstoken:acme', storageTestTokens.valid)
+        expect(mockSecretStorage.store).toHaveBeenCalledWith('selectedPortalConfig:acme', mockSerializedPortalConfig)
+        expect(mockSecretStorage.get).toHaveBeenCalledWith('konnectaccesstoken:acme')
+      })
+
+      it('should reject unknown profiles', async () => {
+        await expect(storageService.setActiveProfile('unknown')).rejects.toThrow('Profile "unknown" does not exist')
+      })
+
+      it('should remove a profile with its secrets and activate the default profile', async () => {
+        await storageService.saveProfile({ name: 'acme', region: 'eu' })
+        await storageService.setActiveProfile('acme')
+
+        await storageService.removeProfile('acme')
+
+        expect(mockSecretStorage.delete).toHaveBeenCalledWith('konnectaccesstoken:acme')
+        expect(mockSecretStorage.delete).toHaveBeenCalledWith('selectedPortalConfig:acme')
+        expect(storageService.getProfiles()).toEqual([{ name: 'default' }])
+        expect(storageService.getActiveProfile()).toEqual({ name: 'default' })
+        await expect(storageService.removeProfile('default')).rejects.toThrow('cannot be removed')
+      })
+    })
   })
 })
@@ -1,5 +1,5 @@
-import type { ExtensionContext, SecretStorage } from 'vscode'
-import type { StoredPortalConfig } from './types/konnect'
+import type { ExtensionContext, Memento, SecretStorage, Uri } from 'vscode'
+import type { KonnectProfile, StoredPortalConfig } from './types/konnect'
 
 /**
  * Keys for secret storage
@@ -9,6 +9,50 @@ const SECRET_KEYS = {
   SELECTED_PORTAL: 'selectedPortalConfig',
 }
 
+/**
+ * globalState keys of the profile list and the active profile
+ */
+const PROFILE_STATE_KEYS = {
+  PROFILES: 'kong.konnect.devPortal.profiles',
+  ACTIVE_PROFILE: 'kong.konnect.devPortal.activeProfile',
+}
+
+/** Name of the profile that always exists, its secrets use the keys of the single token before profiles existed */
+export const DEFAULT_PROFILE_NAME = 'default'
+
+/**
+ * Source of the portals workspace folders are bound to, preferred over the stored selection
+ */
+export interface PortalBindingSource {
+  /**
+   * Returns the portal bound to the workspace folder of a resource
+   * @param scope The resource, or undefined for the folder of the active editor
+   * @returns The bound portal, or undefined if the folder is not bound to a portal
+   */
+  getBoundPortal(scope?: Uri): Promise<StoredPortalConfig | undefined>
+}
+
+/**
+ * Source of the origins the workspace previews portals on instead of their canonical origin
+ */
+export interface PreviewOriginSource {
+  /**
+   * Returns the origin a portal is previewed on
+   * @param portal The portal
+   * @returns The origin, or undefined to preview the canonical domain
+   */
+  getPreviewOrigin(portal: StoredPortalConfig): string | undefined
+}
+
+/**
+ * Returns the origin a portal is previewed on
+ * @param portal The portal, as returned by {@link PortalStorageService.getSelectedPortal}
+ * @returns The preview origin of the workspace, or the canonical origin
+ */
+export function getPreviewOrigin(portal: StoredPortalConfig): string {
+  return portal.previewOrigin ?? portal.origin
+}
+
 /**
  * Service for managing secure storage of Konnect credentials and portal configuration
  */
@@ -16,51 +60,170 @@ export class PortalStorageService {
   /** VS Code's secret storage for secure credential management */
   private readonly secretStorage: SecretStorage
 
+  /** Global state holding the profiles, which contain no secrets */
+  private readonly globalState: Memento
+
+  /** Portals bound to workspace folders, see {@link setPortalBindings} */
+  private portalBindings?: PortalBindingSource
+
+  /** Preview origins of the workspace, see {@link setPreviewOrigins} */
+  private previewOrigins?: PreviewOriginSource
+
   /**
    * Creates a new PortalStorageService instance
    * @param context VS Code extension context for accessing secret storage
    */
   constructor(context: ExtensionContext) {
     this.secretStorage = context.secrets
+    this.globalState = context.globalState
   }
 
   /**
-   * Stores the Konnect Personal Access Token securely
+   * Returns all profiles, starting with the default profile
+   * @returns The profiles
+   */
+  getProfiles(): KonnectProfile[] {
+    const profiles = this.globalState.get<KonnectProfile[]>(PROFILE_STATE_KEYS.PROFILES) ?? []
+    return profiles.some(profile => profile.name === DEFAULT_PROFILE_NAME)
+      ? profiles
+      : [{ name: DEFAULT_PROFILE_NAME }, ...profiles]
+  }
+
+  /**
+   * Returns the profile whose token and portal selection are used
+   * @returns The active profile, the default profile if the active one was removed
+   */
+  getActiveProfile(): KonnectProfile {
+    const name = this.globalState.get<string>(PROFILE_STATE_KEYS.ACTIVE_PROFILE) ?? DEFAULT_PROFILE_NAME
+    const profiles = this.getProfiles()
+    return profiles.find(profile => profile.name === name) ?? profiles[0]
+  }
+
+  /**
+   * Activates a profile
+   * @param name Name of an existing profile
+   */
+  async setActiveProfile(name: string): Promise<void> {
+    if (!this.getProfiles().some(profile => profile.name === name)) {
+      throw new Error(`Profile "${name}" does not exist`)
+    }
+    await this.globalState.update(PROFILE_STATE_KEYS.ACTIVE_PROFILE, name)
+  }
+
+  /**
+   * Adds a profile, or replaces the profile with the same name
+   * @param profile The profile
+   */
+  async saveProfile(profile: KonnectProfile): Promise<void> {
+    const profiles = this.getProfiles()
+    const index = profiles.findIndex(existing => existing.name === profile.name)
+    if (index === -1) {
+      profiles.push(profile)
+    } else {
+      profiles[index] = profile
+    }
+    await this.globalState.update(PROFILE_STATE_KEYS.PROFILES, profiles)
+  }
+
+  /**
+   * Removes a profile together with its token and portal selection.
+   * The default profile cannot be removed, and removing the active profile activates the default profile.
+   * @param name Name of the profile
+   */
+  async removeProfile(name: string): Promise<void> {
+    if (name === DEFAULT_PROFILE_NAME) {
+      throw new Error('The default profile cannot be removed')
+    }
+
+    await Promise.all([
+      this.secretStorage.delete(this.getSecretKey(SECRET_KEYS.KONNECT_TOKEN, name)),
+      this.secretStorage.delete(this.getSecretKey(SECRET_KEYS.SELECTED_PORTAL, name)),
+    ])
+    await this.globalState.update(PROFILE_STATE_KEYS.PROFILES, this.getProfiles().filter(profile => profile.name !== name))
+    if (this.getActiveProfile().name === name) {
+      await this.globalState.update(PROFILE_STATE_KEYS.ACTIVE_PROFILE, DEFAULT_PROFILE_NAME)
+    }
+  }
+
+  /**
+   * Returns the secret storage key of a profile
+   * @param key The secret key
+   * @param profileName Name of the profile, the active profile if undefined
+   * @returns The key itself for the default profile, the key suffixed with the profile name otherwise
+   */
+  private getSecretKey(key: string, profileName = this.getActiveProfile().name): string {
+    return profileName === DEFAULT_PROFILE_NAME ? key : `${key}:${profileName}`
+  }
+
+  /**
+   * Stores the Konnect Personal Access Token of the active profile securely
    * @param token Personal Access Token to store
    */
   async storeToken(token: string): Promise<void> {
-    await this.secretStorage.store(SECRET_KEYS.KONNECT_TOKEN, token.trim())
+    await this.secretStorage.store(this.getSecretKey(SECRET_KEYS.KONNECT_TOKEN), token.trim())
   }
 
   /**
-   * Retrieves the stored Konnect Personal Access Token
+   * Retrieves the stored Konnect Personal Access Token of a profile
+   * @param profileName Name of the profile, the active profile if undefined
    * @returns Promise resolving to the token or undefined if not found
    */
-  async getToken(): Promise<string | undefined> {
-    return await this.secretStorage.get(SECRET_KEYS.KONNECT_TOKEN)
+  async getToken(profileName?: string): Promise<string | undefined> {
+    return await this.secretStorage.get(this.getSecretKey(SECRET_KEYS.KONNECT_TOKEN, profileName))
   }
 
   /**
-   * Removes the stored Konnect Personal Access Token
+   * Removes the stored Konnect Personal Access Token of the active profile
    */
   async clearToken(): Promise<void> {
-    await this.secretStorage.delete(SECRET_KEYS.KONNECT_TOKEN)
+    await this.secretStorage.delete(this.getSecretKey(SECRET_KEYS.KONNECT_TOKEN))
   }
 
   /**
-   * Stores the selected portal configuration
+   * Stores the selected portal configuration of the active profile
    * @param config Portal configuration to store
    */
   async storeSelectedPortal(config: StoredPortalConfig): Promise<void> {
-    await this.secretStorage.store(SECRET_KEYS.SELECTED_PORTAL, JSON.stringify(config))
+    await this.secretStorage.store(this.getSecretKey(SECRET_KEYS.SELECTED_PORTAL), JSON.stringify(config))
+  }
+
+  /**
+   * Sets the source of the portals bound to workspace folders
+   * @param portalBindings The portal bindings
+   */
+  setPortalBindings(portalBindings: PortalBindingSource): void {
+    this.portalBindings = portalBindings
+  }
+
+  /**
+   * Sets the source of the origins portals are previewed on
+   * @param previewOrigins The preview origins
+   */
+  setPreviewOrigins(previewOrigins: PreviewOriginSource): void {
+    this.previewOrigins = previewOrigins
+  }
+
+  /**
+   * Retrieves the portal of a workspace folder: the portal it is bound to, or the stored selection.
+   * Its `previewOrigin` is set when the workspace previews the portal on another domain.
+   * @param scope Resource whose workspace folder is used, the folder of the active editor if undefined
+   * @returns Promise resolving to the portal config or undefined if none is bound or selected
+   */
+  async getSelectedPortal(scope?: Uri): Promise<StoredPortalConfig | undefined> {
+    const portal = await this.portalBindings?.getBoundPortal(scope) ?? await this.getStoredPortal()
+    if (!portal) {
+      return undefined
+    }
+    const previewOrigin = this.previewOrigins?.getPreviewOrigin(portal)
+    return previewOrigin ? { ...portal, previewOrigin } : portal
   }
 
   /**
-   * Retrieves the stored portal configuration
+   * Retrieves the stored portal configuration of the active profile
    * @returns Promise resolving to the portal config or undefined if not found
    */
-  async getSelectedPortal(): Promise<StoredPortalConfig | undefined> {
-    const stored = await this.secretStorage.get(SECRET_KEYS.SELECTED_PORTAL)
+  async getStoredPortal(): Promise<StoredPortalConfig | undefined> {
+    const stored = await this.secretStorage.get(this.getSecretKey(SECRET_KEYS.SELECTED_PORTAL))
     if (!stored) {
       return undefined
     }
@@ -75,14 +238,14 @@ export class PortalStorageService {
   }
 
   /**
-   * Removes the stored portal configuration
+   * Removes the stored portal configuration of the active profile
    */
   async clearSelectedPortal(): Promise<void> {
-    await this.secretStorage.delete(SECRET_KEYS.SELECTED_PORTAL)
+    await this.secretStorage.delete(this.getSecretKey(SECRET_KEYS.SELECTED_PORTAL))
   }
 
   /**
-   * Clears all stored data including Konnect token and portal configuration
+   * Clears all stored data of the active profile including Konnect token and portal configuration
    * This is useful for complete reset, uninstall cleanup, or switching accounts
    * @returns Promise that resolves when all data is cleared
    */
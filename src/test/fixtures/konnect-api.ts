@@ -2,7 +2,13 @@
  * Test fixtures for Konnect API tests
  */
 
-import type { KonnectPortal, KonnectPortalsResponse } from '../../types/konnect'
+import type {
+  KonnectPortal,
+  KonnectPortalPage,
+  KonnectPortalPageInfo,
+  KonnectPortalPagesResponse,
+  KonnectPortalsResponse,
+} from '../../types/konnect'
 
 /**
  * Mock portal data for testing
@@ -106,6 +112,65 @@ export const mockEmptyResponse: KonnectPortalsResponse = {
   },
 }
 
+/**
+ * Mock portal pages: a home page and a guides page with a child page
+ */
+export const mockHomePage: KonnectPortalPageInfo = {
+  id: 'page-home',
+  slug: '/',
+  title: 'Home',
+  visibility: 'public',
+  status: 'published',
+  parent_page_id: null,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-02T00:00:00.000Z',
+}
+
+export const mockGuidesPage: KonnectPortalPageInfo = {
+  id: 'page-guides',
+  slug: 'guides',
+  title: 'Guides',
+  visibility: 'public',
+  status: 'published',
+  parent_page_id: null,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-02T00:00:00.000Z',
+}
+
+export const mockIntroPage: KonnectPortalPageInfo = {
+  id: 'page-intro',
+  slug: 'intro',
+  title: 'Getting started: intro',
+  description: 'First steps',
+  visibility: 'private',
+  status: 'unpublished',
+  parent_page_id: 'page-guides',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-03T00:00:00.000Z',
+}
+
+/**
+ * Pages response nesting the intro page under the guides page
+ */
+export const mockPortalPagesResponse: KonnectPortalPagesResponse = {
+  data: [mockHomePage, { ...mockGuidesPage, children: [mockIntroPage] }],
+  meta: {
+    page: {
+      total: 2,
+      size: 100,
+      number: 1,
+    },
+  },
+}
+
+/**
+ * Intro page including its content
+ */
+export const mockIntroPageWithContent: KonnectPortalPage = {
+  ...mockIntroPage,
+  content: '# Intro\n\nWelcome to the guides.\n',
+}
+
 /**
  * Test tokens for API testing
  */
@@ -60,6 +60,7 @@ export const createMockContext = () => ({
   globalState: {
     get: vi.fn(),
     update: vi.fn(),
+    keys: vi.fn(() => [] as string[]),
   },
 })
 
@@ -236,13 +236,13 @@ suite('Page Path Resolution Tests', () => {
       }
     })
 
-    test('should reject snippets in subdirectories', async () => {
-      const document = createMockDocument('/test/workspace/snippets/subdir/invalid.md')
+    test('should name snippets in subdirectories without showing a warning', async () => {
+      const document = createMockDocument('/test/workspace/snippets/subdir/nested.md')
 
       const originalGetWorkspaceFolder = vscode.workspace.getWorkspaceFolder
       vscode.workspace.getWorkspaceFolder = () => mockWorkspaceFolder
 
-      // Mock showWarningMessage to capture the warning
+      // Mock showWarningMessage to detect warnings, naming problems are reported as diagnostics
       let warningMessage = ''
       const originalShowWarningMessage = vscode.window.showWarningMessage
       vscode.window.showWarningMessage = (message: string) => {
@@ -252,10 +252,12 @@ suite('Page Path Resolution Tests', () => {
 
       try {
         const result = getDocumentPathInfo(document, pagesDirectory, snippetsDirectory)
+        const namespaced = getDocumentPathInfo(document, pagesDirectory, snippetsDirectory, 'folderPath')
 
         assert.strictEqual(result.type, 'snippet', 'Should return snippet type for subdirectory snippets')
-        assert.strictEqual(result.errorMessage, undefined, 'Should not have error message')
-        assert.ok(warningMessage.includes('subdirectories are not supported'), 'Should show warning to user')
+        assert.strictEqual(result.snippetName, 'nested', 'Should use the file name by default')
+        assert.strictEqual(namespaced.snippetName, 'subdir--nested', 'Should namespace the name with the folderPath strategy')
+        assert.strictEqual(warningMessage, '', 'Should not show a warning')
       } finally {
         vscode.workspace.getWorkspaceFolder = originalGetWorkspaceFolder
         vscode.window.showWarningMessage = originalShowWarningMessage
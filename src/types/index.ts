@@ -1,4 +1,5 @@
 import type * as vscode from 'vscode'
+import type { SnippetNamingStrategy } from '../snippets/naming'
 
 /** Log levels for the debug logging utility */
 export enum LogLevel {
@@ -40,7 +41,32 @@ export interface PortalPreviewConfig {
   showMDCRecommendation: boolean
   pagesDirectory: string
   snippetsDirectory: string
+  snippetNaming: SnippetNamingStrategy
   injectSnippets: boolean
+  suggestPortalSnippets: boolean
+  previewPerDocument: boolean
+  scrollSync: boolean
+  offlineFallback: boolean
+  validateFrontMatter: boolean
+  validateComponents: boolean
+}
+
+/** Device presets for the width of the preview viewport */
+export type ViewportDevice = 'mobile' | 'tablet' | 'desktop' | 'custom'
+
+/** Color scheme forwarded to the portal, 'auto' follows the VS Code theme */
+export type PreviewColorScheme = 'auto' | 'light' | 'dark'
+
+/**
+ * Viewport settings of the preview toolbar, persisted per workspace
+ */
+export interface PreviewViewportState {
+  device: ViewportDevice
+  /** Width in pixels used when the device is 'custom' */
+  customWidth: number
+  /** Scale viewports wider than the panel down so they fit */
+  zoomToFit: boolean
+  colorScheme: PreviewColorScheme
 }
 
 /**
@@ -65,6 +91,15 @@ export interface WebviewUpdateContentMessage extends BaseWebviewMessage {
   snippetName?: string
 }
 
+/**
+ * Message to remove a snippet injected into the portal iframe
+ */
+export interface WebviewRemoveSnippetMessage extends BaseWebviewMessage {
+  type: 'webview:remove:snippet'
+  previewId: string
+  snippetName: string
+}
+
 /**
  * Message to update configuration in the webview
  */
@@ -106,6 +141,36 @@ export interface WebviewNavigateMessage extends BaseWebviewMessage {
   path: string
 }
 
+/**
+ * Message to scroll the portal to the block matching an editor position
+ */
+export interface WebviewScrollMessage extends BaseWebviewMessage {
+  type: 'webview:scroll'
+  previewId: string
+  /** One-based line in the content sent to the portal */
+  line: number
+  /** Anchor id of the nearest heading at or above the line */
+  heading?: string
+}
+
+/**
+ * Message to apply viewport settings to the preview toolbar
+ */
+export interface WebviewUpdateViewportMessage extends BaseWebviewMessage {
+  type: 'webview:update:viewport'
+  viewport: PreviewViewportState
+}
+
+/**
+ * Message to show a local rendering of the document while the portal is unreachable
+ */
+export interface WebviewRenderOfflineMessage extends BaseWebviewMessage {
+  type: 'webview:render:offline'
+  /** HTML approximation of the document, with all document text escaped */
+  html: string
+  fileName: string
+}
+
 /**
  * Message to report an error from the webview
  */
@@ -138,19 +203,87 @@ export interface WebviewIframeLoadedMessage extends BaseWebviewMessage {
   type: 'webview:iframe:loaded'
 }
 
+/**
+ * Message to reveal the source line of a block the user scrolled to or clicked in the portal
+ */
+export interface WebviewRevealLineMessage extends BaseWebviewMessage {
+  type: 'webview:reveal:line'
+  /** One-based line in the content sent to the portal */
+  line?: number
+  /** Anchor id of the heading the portal scrolled to */
+  heading?: string
+}
+
+/**
+ * Message to notify extension that the portal became unreachable or reachable again
+ */
+export interface WebviewOfflineMessage extends BaseWebviewMessage {
+  type: 'webview:offline'
+  offline: boolean
+}
+
+/**
+ * Message to notify extension that the user changed the viewport settings in the toolbar
+ */
+export interface WebviewViewportChangedMessage extends BaseWebviewMessage {
+  type: 'webview:viewport:changed'
+  viewport: PreviewViewportState
+}
+
 /**
  * Discriminated union of all webview message types
  */
 export type WebviewMessage =
   | WebviewUpdateContentMessage
+  | WebviewRemoveSnippetMessage
   | WebviewUpdateConfigMessage
   | WebviewLoadingMessage
   | WebviewRefreshMessage
   | WebviewNavigateMessage
+  | WebviewScrollMessage
+  | WebviewUpdateViewportMessage
+  | WebviewRenderOfflineMessage
   | WebviewErrorMessage
   | WebviewWarningMessage
   | WebviewRequestContentMessage
   | WebviewIframeLoadedMessage
+  | WebviewRevealLineMessage
+  | WebviewViewportChangedMessage
+  | WebviewOfflineMessage
+
+/**
+ * Message from the component gallery to preview a component
+ */
+export interface WebviewGallerySelectMessage extends BaseWebviewMessage {
+  type: 'webview:gallery:select'
+  component: string
+}
+
+/**
+ * Message from the component gallery to insert a component at the cursor
+ */
+export interface WebviewGalleryInsertMessage extends BaseWebviewMessage {
+  type: 'webview:gallery:insert'
+  component: string
+}
+
+/**
+ * Union type for all messages received by the component gallery panel
+ */
+export type ComponentGalleryMessage =
+  | WebviewMessage
+  | WebviewGallerySelectMessage
+  | WebviewGalleryInsertMessage
+
+/**
+ * A snippet injected into the iframe of a preview panel
+ */
+export interface InjectedSnippet {
+  /** File the snippet was read from */
+  fsPath: string
+  /** Hash of the injected content, used to skip resending unchanged snippets */
+  hash: string
+}
 
 /**
  * Preview panel state
@@ -160,4 +293,26 @@ export interface PreviewPanelState {
   isVisible: boolean
   currentDocument?: vscode.TextDocument
   lastContent?: string
+  /** Unique identifier for this preview instance, sent to the portal as `preview_id` */
+  previewId: string
+  /** Timeout handle for debounced content updates */
+  updateTimeout?: NodeJS.Timeout
+  /** Tracks whether snippets have been injected for the current iframe instance */
+  snippetsInjected: boolean
+  /** Snippets injected into the current iframe instance, keyed by snippet name */
+  injectedSnippets: Map<string, InjectedSnippet>
+  /** URI of the workspace folder the injected snippets were read from */
+  snippetsFolder?: string
+  /** Origin of the portal loaded in the webview */
+  portalOrigin?: string
+  /** Whether the panel is pinned to its document instead of following the active editor */
+  pinned: boolean
+  /** Timeout handle for debounced scroll synchronization */
+  scrollTimeout?: NodeJS.Timeout
+  /** Editor scroll events before this timestamp are ignored to avoid echoing portal scrolls back */
+  ignoreEditorScrollUntil?: number
+  /** Whether the webview shows the local offline rendering because the portal is unreachable */
+  offline: boolean
+  /** Event subscriptions of the current panel, disposed together with the panel */
+  disposables: vscode.Disposable[]
 }
@@ -38,15 +38,141 @@ interface KonnectPaginationMeta {
 }
 
 /**
- * Response from Konnect portals API
+ * Generic paginated response from the Konnect API
  */
-export interface KonnectPortalsResponse {
-  data: KonnectPortal[]
+export interface KonnectPaginatedResponse<T> {
+  data: T[]
   meta: {
     page: KonnectPaginationMeta
   }
 }
 
+/**
+ * Response from Konnect portals API
+ */
+export type KonnectPortalsResponse = KonnectPaginatedResponse<KonnectPortal>
+
+/**
+ * All portals of the organization, with the entity tag the API returned for them
+ */
+export interface KonnectPortalList {
+  portals: KonnectPortal[]
+  /** `ETag` of the list, sent in `If-None-Match` when the list is fetched again */
+  etag?: string
+}
+
+/**
+ * Portal page summary from the Konnect list pages API
+ */
+export interface KonnectPortalPageInfo {
+  id: string
+  /** URL segment of the page, '/' for the home page */
+  slug: string
+  title: string
+  description?: string
+  visibility: 'public' | 'private'
+  status: 'published' | 'unpublished'
+  parent_page_id: string | null
+  /** Child pages, present when the API returns the page tree */
+  children?: KonnectPortalPageInfo[]
+  updated_at: string
+  created_at: string
+}
+
+/**
+ * Portal page with content from the Konnect get page API
+ */
+export interface KonnectPortalPage extends KonnectPortalPageInfo {
+  content: string
+}
+
+/**
+ * Response from Konnect portal pages API
+ */
+export type KonnectPortalPagesResponse = KonnectPaginatedResponse<KonnectPortalPageInfo>
+
+/**
+ * Attributes sent when creating or updating a portal page
+ */
+export interface KonnectPortalPagePayload {
+  slug: string
+  title: string
+  content: string
+  description?: string
+  visibility?: 'public' | 'private'
+  status?: 'published' | 'unpublished'
+  parent_page_id?: string | null
+}
+
+/**
+ * Portal snippet summary from the Konnect list snippets API
+ */
+export interface KonnectPortalSnippetInfo {
+  id: string
+  name: string
+  title?: string
+  description?: string
+  visibility: 'public' | 'private'
+  status: 'published' | 'unpublished'
+  updated_at: string
+  created_at: string
+}
+
+/**
+ * Portal snippet with content from the Konnect get snippet API
+ */
+export interface KonnectPortalSnippet extends KonnectPortalSnippetInfo {
+  content: string
+}
+
+/**
+ * Attributes sent when creating or updating a portal snippet
+ */
+export interface KonnectPortalSnippetPayload {
+  name: string
+  content: string
+  title?: string
+  description?: string
+  visibility?: 'public' | 'private'
+  status?: 'published' | 'unpublished'
+}
+
+/**
+ * Konnect user a token authenticates as, from `GET /v3/users/me`
+ */
+export interface KonnectUser {
+  id: string
+  email: string
+  full_name?: string
+  preferred_name?: string
+}
+
+/**
+ * Konnect organization a token belongs to, from `GET /v3/organizations/me`
+ */
+export interface KonnectOrganization {
+  id: string
+  name: string
+}
+
+/**
+ * User and organization a token authenticates as
+ */
+export interface KonnectIdentity {
+  user: KonnectUser
+  organization: KonnectOrganization
+}
+
+/**
+ * Named set of Konnect credentials, e.g. for one Konnect organization
+ */
+export interface KonnectProfile {
+  /** Unique name of the profile */
+  name: string
+  /** Konnect region of the profile, the `kong.konnect.region` setting if undefined */
+  region?: string
+}
+
 /**
  * Stored portal configuration
  */
@@ -55,6 +181,11 @@ export interface StoredPortalConfig {
   name: string
   displayName: string
   description: string
+  /** Canonical origin of the portal */
   origin: string
   canonicalDomain: string
+  /** Konnect-provided domain of the portal, missing for portals selected before it was stored */
+  defaultDomain?: string
+  /** Origin the workspace previews the portal on when it is not the canonical origin, never stored */
+  previewOrigin?: string
 }
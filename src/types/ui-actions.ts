@@ -61,3 +61,47 @@ export enum KongctlInstallActions {
   LEARN_MORE = 'Learn More',
   CONFIGURE_PATH = 'Configure Path',
 }
+
+/**
+ * Actions for publish and import result notifications
+ */
+export enum ContentResultActions {
+  SHOW_RESULTS = 'Show Results',
+}
+
+/**
+ * Actions for existing files when importing portal content
+ */
+export enum ImportActions {
+  OVERWRITE = 'Overwrite Existing Files',
+  SKIP_EXISTING = 'Keep Existing Files',
+}
+
+/**
+ * Actions for warnings about renamed or deleted snippets that are still referenced
+ */
+export enum SnippetUsageActions {
+  SHOW_USAGES = 'Show Usages',
+}
+
+/**
+ * Actions for workspace config files declaring another Konnect region
+ */
+export enum WorkspaceConfigActions {
+  USE_REGION = 'Use Region',
+}
+
+/**
+ * Actions for profile removal confirmation
+ */
+export enum ProfileActions {
+  REMOVE_PROFILE = 'Remove Profile',
+}
+
+/**
+ * Buttons of the portal items in the portal quick pick
+ */
+export enum PortalQuickPickActions {
+  OPEN_IN_BROWSER = 'Open in Browser',
+  COPY_PORTAL_ID = 'Copy Portal ID',
+}
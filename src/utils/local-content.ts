@@ -0,0 +1,71 @@
+import { RelativePattern, workspace } from 'vscode'
+import type { TextDocument, Uri, WorkspaceFolder } from 'vscode'
+import { getConfiguration } from '../extension'
+import { getDocumentPathInfo } from './page-path'
+
+/** A page or snippet file of the workspace with the portal location it maps to */
+export interface LocalContentFile {
+  kind: 'page' | 'snippet'
+  uri: Uri
+  /** File path relative to the workspace folder, prefixed with the folder name in multi-root workspaces */
+  label: string
+  /** Portal path of pages, or name of snippets */
+  target: string
+  /** Full document text, including front matter */
+  text: string
+}
+
+/**
+ * Maps a document to the portal page or snippet it is published as
+ * @param document The document to map
+ * @returns The local content file, or undefined if the document is neither a page nor a snippet
+ */
+export function getLocalContentFile(document: TextDocument): LocalContentFile | undefined {
+  const { pagesDirectory, snippetsDirectory, snippetNaming } = getConfiguration(document.uri)
+  const pathInfo = getDocumentPathInfo(document, pagesDirectory, snippetsDirectory, snippetNaming)
+  if (pathInfo.type !== 'page' && pathInfo.type !== 'snippet') {
+    return undefined
+  }
+
+  const target = pathInfo.type === 'snippet' ? pathInfo.snippetName : pathInfo.path
+  if (!target) {
+    return undefined
+  }
+
+  return {
+    kind: pathInfo.type,
+    uri: document.uri,
+    label: workspace.asRelativePath(document.uri),
+    target,
+    text: document.getText(),
+  }
+}
+
+/**
+ * Finds all pages and snippets in the configured directories of a workspace folder
+ * @param workspaceFolder The folder to search, using its folder-level directory settings
+ * @returns The local content files, pages first
+ */
+export async function findLocalContentFiles(workspaceFolder: WorkspaceFolder): Promise<LocalContentFile[]> {
+  const { pagesDirectory, snippetsDirectory, snippetNaming } = getConfiguration(workspaceFolder.uri)
+  const patterns = [
+    pagesDirectory?.trim() ? `${pagesDirectory.trim()}/**/*.{md,mdc}` : undefined,
+    // Snippets in subdirectories are only supported by the namespaced naming strategies
+    snippetsDirectory?.trim()
+      ? `${snippetsDirectory.trim()}/${snippetNaming === 'fileName' ? '' : '**/'}*.{md,mdc}`
+      : undefined,
+  ].filter((pattern): pattern is string => pattern !== undefined)
+
+  const files: LocalContentFile[] = []
+  for (const pattern of patterns) {
+    const uris = await workspace.findFiles(new RelativePattern(workspaceFolder, pattern))
+    for (const uri of uris) {
+      const file = getLocalContentFile(await workspace.openTextDocument(uri))
+      if (file && !files.some(existing => existing.uri.toString() === uri.toString())) {
+        files.push(file)
+      }
+    }
+  }
+
+  return files.sort((a, b) => a.kind === b.kind ? a.label.localeCompare(b.label) : a.kind === 'page' ? -1 : 1)
+}
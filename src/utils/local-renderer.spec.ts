@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { renderLocalPreview } from './local-renderer'
+
+describe('local-renderer', () => {
+  describe('renderLocalPreview', () => {
+    it('should render headings with portal anchor ids', () => {
+      const html = renderLocalPreview('# Getting Started\n\n## Install Steps')
+
+      expect(html).toContain('<h1 id="getting-started">Getting Started</h1>')
+      expect(html).toContain('<h2 id="install-steps">Install Steps</h2>')
+    })
+
+    it('should render paragraphs with inline formatting and links', () => {
+      const html = renderLocalPreview('Some **bold**, *italic* and `code` text.\nSee [the docs](https://example.com/a_b_c).')
+
+      expect(html).toBe('<p>Some <strong>bold</strong>, <em>italic</em> and <code>code</code> text. See <a href="https://example.com/a_b_c" title="https://example.com/a_b_c">the docs</a>.</p>')
+    })
+
+    it('should render front matter as a metadata table', () => {
+      const html = renderLocalPreview('---\ntitle: "Home"\nnavigation:\n  - guides\n---\n# Welcome')
+
+      expect(html).toContain('<table class="front-matter">')
+      expect(html).toContain('<tr><th>title</th><td>Home</td></tr>')
+      expect(html).toContain('<tr><th>navigation</th><td>- guides</td></tr>')
+      expect(html).toContain('<h1 id="welcome">Welcome</h1>')
+    })
+
+    it('should render MDC block components as labeled placeholders with their content', () => {
+      const html = renderLocalPreview('::alert{type="info"}\nRemember to **save**.\n::')
+
+      expect(html).toBe(
+        '<div class="mdc-block"><div class="mdc-block-label">alert <span class="mdc-block-props">{type=&quot;info&quot;}</span></div>' +
+        '<div class="mdc-block-body"><p>Remember to <strong>save</strong>.</p></div></div>',
+      )
+    })
+
+    it('should render nested MDC components and slots', () => {
+      const html = renderLocalPreview('::card\n#title\nCard title\n:::badge\nNew\n:::\n::')
+
+      expect(html).toContain('<div class="mdc-block-label">card</div>')
+      expect(html).toContain('<div class="mdc-slot-label">#title</div>')
+      expect(html).toContain('<div class="mdc-block-label">badge</div><div class="mdc-block-body"><p>New</p></div>')
+    })
+
+    it('should label inline snippet references with the snippet name', () => {
+      const html = renderLocalPreview('Intro :snippet{name="getting-started"} end')
+
+      expect(html).toContain('<span class="mdc-inline-label">snippet: getting-started</span>')
+    })
+
+    it('should render lists, tables and code blocks', () => {
+      const html = renderLocalPreview('- one\n- [x] two\n\n| A | B |\n| --- | --- |\n| 1 | 2 |\n\n```js\nconst a = "<b>"\n```')
+
+      expect(html).toContain('<ul><li>one</li><li><input type="checkbox" disabled checked> two</li></ul>')
+      expect(html).toContain('<table><thead><tr><th>A</th><th>B</th></tr></thead><tbody><tr><td>1</td><td>2</td></tr></tbody></table>')
+      expect(html).toContain('<pre><code class="language-js">const a = &quot;&lt;b&gt;&quot;</code></pre>')
+    })
+
+    it('should escape raw HTML and never render script links', () => {
+      const html = renderLocalPreview('<img src=x onerror="alert(1)"> [click](javascript:alert(1))')
+
+      expect(html).not.toContain('<img')
+      expect(html).not.toContain('href="javascript')
+      expect(html).toContain('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;')
+    })
+
+    it('should show images as their alt text', () => {
+      const html = renderLocalPreview('![Architecture diagram](/images/arch.png)')
+
+      expect(html).toBe('<p><span class="offline-image">[Image: Architecture diagram]</span></p>')
+    })
+
+    it('should render NUL characters of the source without treating them as tokens', () => {
+      const html = renderLocalPreview('Before\u00000\u0000 and `code` after')
+
+      expect(html).toBe('<p>Before\uFFFD0\uFFFD and <code>code</code> after</p>')
+    })
+
+    it('should keep balanced parentheses in link targets', () => {
+      const html = renderLocalPreview('See [Kong](https://en.wikipedia.org/wiki/Kong_(software)).')
+
+      expect(html).toBe('<p>See <a href="https://en.wikipedia.org/wiki/Kong_(software)" title="https://en.wikipedia.org/wiki/Kong_(software)">Kong</a>.</p>')
+    })
+
+    it('should render code spans inside inline component content', () => {
+      const html = renderLocalPreview('Use `npm` with :badge[`beta` flag]')
+
+      expect(html).toContain('<code>npm</code>')
+      expect(html).toContain('<code>beta</code> flag</span>')
+    })
+  })
+})
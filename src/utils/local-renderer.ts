@@ -0,0 +1,381 @@
+import { slugifyHeading } from './scroll-sync'
+import { parseFrontMatter } from '../front-matter/parse'
+import type { FrontMatterEntry } from '../front-matter/parse'
+
+/** Matches the opening line of an MDC block component, e.g. `::alert{type="info"}` */
+const MDC_BLOCK_OPEN_PATTERN = /^\s*(:{2,})([a-zA-Z][\w-]*)\s*(\{.*\})?\s*$/
+
+/** Matches the closing line of an MDC block component */
+const MDC_BLOCK_CLOSE_PATTERN = /^\s*(:{2,})\s*$/
+
+/** Matches a named slot inside an MDC block component, e.g. `#title` */
+const MDC_SLOT_PATTERN = /^\s*#([a-zA-Z][\w-]*)\s*$/
+
+/** Matches an inline MDC component with content or props, e.g. `:snippet{name="intro"}` or `:badge[New]` */
+const MDC_INLINE_PATTERN = /(^|[^\w:]):([a-zA-Z][\w-]*)(?:\[([^\]]*)\])?(\{[^}]*\})?/g
+
+/** Matches the opening or closing line of a fenced code block */
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*([\w-]*)/
+
+/** Matches an ATX heading */
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+
+/** Matches a thematic break */
+const HR_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/
+
+/** Matches a list item marker with its indentation */
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/
+
+/** Matches the delimiter row of a table */
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+
+/** Marks the position of an extracted inline token in partially rendered text */
+const TOKEN_MARKER = '\u0000'
+
+/** Matches a link target, which may contain balanced parentheses, e.g. `https://en.wikipedia.org/wiki/Kong_(software)` */
+const LINK_TARGET = String.raw`((?:[^()\s]|\([^()\s]*\))+)`
+
+/** Matches a Markdown image with an optional title, in HTML-escaped text */
+const IMAGE_PATTERN = new RegExp(String.raw`!\[([^\]]*)\]\(${LINK_TARGET}(?:\s+&quot;[^)]*&quot;)?\)`, 'g')
+
+/** Matches a Markdown link with an optional title, in HTML-escaped text */
+const LINK_PATTERN = new RegExp(String.raw`\[([^\]]+)\]\(${LINK_TARGET}(?:\s+&quot;[^)]*&quot;)?\)`, 'g')
+
+/** Matches the placeholder of an extracted inline token */
+const TOKEN_PATTERN = new RegExp(`${TOKEN_MARKER}(\\d+)${TOKEN_MARKER}`, 'g')
+
+/**
+ * Escapes text for safe inclusion in HTML content and attributes
+ * @param text The raw text
+ * @returns HTML-escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Returns the label shown for an MDC component, including the snippet name for `:snippet` references
+ * @param name The component name
+ * @param props The raw props block, e.g. `{name="intro"}`
+ * @returns Human readable label
+ */
+function getComponentLabel(name: string, props?: string): string {
+  const snippetName = name === 'snippet' ? props?.match(/name=["']([^"']+)["']/)?.[1] : undefined
+  return snippetName ? `snippet: ${snippetName}` : name
+}
+
+/**
+ * Renders inline Markdown and MDC syntax
+ * @param text The raw inline text
+ * @returns HTML string
+ */
+function renderInline(text: string): string {
+  const tokens: string[] = []
+  // Literal markers in the source would be mistaken for tokens, replace them like CommonMark replaces NUL
+  const html = renderInlineTokens(text.split(TOKEN_MARKER).join('\uFFFD'), tokens)
+
+  // Tokens only contain tokens extracted before them, so restoring them recursively ends
+  const restore = (value: string): string =>
+    value.replace(TOKEN_PATTERN, (_match, index: string) => restore(tokens[Number(index)] ?? ''))
+  return restore(html)
+}
+
+/**
+ * Renders inline Markdown and MDC syntax, leaving extracted code spans, components and links as tokens
+ * @param text The raw inline text, without token markers other than those of `tokens`
+ * @param tokens The extracted tokens, shared with the inline components of the text
+ * @returns HTML string with token placeholders
+ */
+function renderInlineTokens(text: string, tokens: string[]): string {
+  const addToken = (html: string) => `${TOKEN_MARKER}${tokens.push(html) - 1}${TOKEN_MARKER}`
+
+  // Extract code spans and inline components first so their content is not treated as Markdown
+  let result = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_match, _ticks, code: string) => addToken(`<code>${escapeHtml(code.trim())}</code>`))
+  result = result.replace(MDC_INLINE_PATTERN, (_match, prefix: string, name: string, content: string | undefined, props: string | undefined) => {
+    if (content === undefined && props === undefined) {
+      return _match
+    }
+    const label = escapeHtml(getComponentLabel(name, props))
+    const body = content ? ` ${renderInlineTokens(content, tokens)}` : ''
+    return `${prefix}${addToken(`<span class="mdc-inline" title="${escapeHtml(`:${name}${props ?? ''}`)}"><span class="mdc-inline-label">${label}</span>${body}</span>`)}`
+  })
+
+  result = escapeHtml(result)
+
+  // Images cannot be loaded under the webview content security policy, show their alt text instead
+  result = result.replace(IMAGE_PATTERN, (_match, alt: string) => addToken(`<span class="offline-image">[Image${alt ? `: ${alt}` : ''}]</span>`))
+  result = result.replace(LINK_PATTERN, (_match, label: string, href: string) => {
+    // Never render script URLs as links, keep link targets out of the emphasis handling below
+    return /^javascript:/i.test(href) ? label : addToken(`<a href="${href}" title="${href}">${label}</a>`)
+  })
+  result = result.replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+  result = result.replace(/(\*|_)(?=\S)([\s\S]*?\S)\1(?!\w)/g, '<em>$2</em>')
+  result = result.replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+
+  return result
+}
+
+/**
+ * Splits a table row into its cells
+ * @param line The table row
+ * @returns Trimmed cell texts
+ */
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim())
+}
+
+/**
+ * Checks whether a line starts a block other than a paragraph
+ * @param lines All lines of the current block
+ * @param index Index of the line to check
+ * @returns True if the line interrupts a paragraph
+ */
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index]
+  return FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    HR_PATTERN.test(line) ||
+    MDC_BLOCK_OPEN_PATTERN.test(line) ||
+    MDC_BLOCK_CLOSE_PATTERN.test(line) ||
+    MDC_SLOT_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    /^\s*>/.test(line) ||
+    (line.includes('|') && index + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[index + 1]))
+}
+
+/**
+ * Renders a list starting at the given line
+ * @param lines All lines of the current block
+ * @param start Index of the first list item
+ * @returns The rendered list and the index of the first line after it
+ */
+function renderList(lines: string[], start: number): { html: string, next: number } {
+  const first = lines[start].match(LIST_ITEM_PATTERN)!
+  const indent = first[1].length
+  const ordered = /\d/.test(first[2])
+  const items: string[][] = []
+  let index = start
+
+  while (index < lines.length) {
+    const line = lines[index]
+    const item = line.match(LIST_ITEM_PATTERN)
+
+    if (item && item[1].length === indent) {
+      items.push([item[3]])
+    } else if (line.trim() === '') {
+      // A blank line only continues the list if the next line is still part of it
+      const nextLine = lines[index + 1]
+      if (nextLine === undefined || (nextLine.match(/^\s*/)![0].length <= indent && !LIST_ITEM_PATTERN.test(nextLine))) {
+        break
+      }
+      items[items.length - 1].push('')
+    } else if (line.match(/^\s*/)![0].length > indent || !startsBlock(lines, index)) {
+      // Indented content (nested lists, continuation lines) belongs to the current item
+      items[items.length - 1].push(line.slice(Math.min(line.match(/^\s*/)![0].length, indent + 2)))
+    } else {
+      break
+    }
+    index++
+  }
+
+  const tag = ordered ? 'ol' : 'ul'
+  const html = items.map((itemLines) => {
+    const [firstLine, ...rest] = itemLines
+    const task = firstLine.match(/^\[([ xX])\]\s+(.*)$/)
+    const checkbox = task ? `<input type="checkbox" disabled${task[1] === ' ' ? '' : ' checked'}> ` : ''
+    const text = task ? task[2] : firstLine
+    if (rest.every((line, restIndex) => line.trim() === '' || !startsBlock(rest, restIndex))) {
+      return `<li>${checkbox}${renderInline([text, ...rest].join(' ').trim())}</li>`
+    }
+    return `<li>${checkbox}${renderBlocks([text, ...rest])}</li>`
+  }).join('')
+
+  return { html: `<${tag}>${html}</${tag}>`, next: index }
+}
+
+/**
+ * Renders a list of Markdown/MDC lines into HTML blocks
+ * @param lines The lines to render
+ * @returns HTML string
+ */
+function renderBlocks(lines: string[]): string {
+  const html: string[] = []
+  let index = 0
+
+  while (index < lines.length) {
+    const line = lines[index]
+
+    if (line.trim() === '') {
+      index++
+      continue
+    }
+
+    const fence = line.match(FENCE_PATTERN)
+    if (fence) {
+      const code: string[] = []
+      index++
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        code.push(lines[index])
+        index++
+      }
+      index++
+      const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : ''
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`)
+      continue
+    }
+
+    const component = line.match(MDC_BLOCK_OPEN_PATTERN)
+    if (component) {
+      const [, colons, name, props] = component
+      const body: string[] = []
+      let depth = 0
+      index++
+      // Find the closing line with the same number of colons, allowing nested components of the same depth
+      while (index < lines.length) {
+        const inner = lines[index]
+        const innerOpen = inner.match(MDC_BLOCK_OPEN_PATTERN)
+        const innerClose = inner.match(MDC_BLOCK_CLOSE_PATTERN)
+        if (innerOpen && innerOpen[1] === colons) {
+          depth++
+        } else if (innerClose && innerClose[1] === colons) {
+          if (depth === 0) {
+            break
+          }
+          depth--
+        }
+        body.push(inner)
+        index++
+      }
+      index++
+
+      // Components may declare their props in a YAML block instead of inline
+      let yamlProps = ''
+      if (body[0]?.trim() === '---') {
+        const end = body.indexOf('---', 1)
+        if (end > 0) {
+          yamlProps = body.slice(1, end).map(prop => prop.trim()).join(', ')
+          body.splice(0, end + 1)
+        }
+      }
+
+      const propsLabel = props || yamlProps
+      html.push(
+        '<div class="mdc-block">' +
+        `<div class="mdc-block-label">${escapeHtml(getComponentLabel(name, props))}` +
+        (propsLabel ? ` <span class="mdc-block-props">${escapeHtml(propsLabel)}</span>` : '') +
+        '</div>' +
+        `<div class="mdc-block-body">${renderBlocks(body)}</div>` +
+        '</div>',
+      )
+      continue
+    }
+
+    const slot = line.match(MDC_SLOT_PATTERN)
+    if (slot) {
+      html.push(`<div class="mdc-slot-label">#${escapeHtml(slot[1])}</div>`)
+      index++
+      continue
+    }
+
+    const heading = line.match(HEADING_PATTERN)
+    if (heading) {
+      const level = heading[1].length
+      html.push(`<h${level} id="${escapeHtml(slugifyHeading(heading[2]))}">${renderInline(heading[2])}</h${level}>`)
+      index++
+      continue
+    }
+
+    if (HR_PATTERN.test(line)) {
+      html.push('<hr>')
+      index++
+      continue
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quote: string[] = []
+      while (index < lines.length && /^\s*>/.test(lines[index])) {
+        quote.push(lines[index].replace(/^\s*>\s?/, ''))
+        index++
+      }
+      html.push(`<blockquote>${renderBlocks(quote)}</blockquote>`)
+      continue
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const list = renderList(lines, index)
+      html.push(list.html)
+      index = list.next
+      continue
+    }
+
+    if (line.includes('|') && index + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[index + 1])) {
+      const header = splitTableRow(line)
+      const rows: string[][] = []
+      index += 2
+      while (index < lines.length && lines[index].includes('|') && lines[index].trim() !== '') {
+        rows.push(splitTableRow(lines[index]))
+        index++
+      }
+      html.push(
+        '<table>' +
+        `<thead><tr>${header.map(cell => `<th>${renderInline(cell)}</th>`).join('')}</tr></thead>` +
+        `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${renderInline(cell)}</td>`).join('')}</tr>`).join('')}</tbody>` +
+        '</table>',
+      )
+      continue
+    }
+
+    // Anything else is a paragraph that runs until a blank line or the start of another block
+    const paragraph: string[] = [line.trim()]
+    index++
+    while (index < lines.length && lines[index].trim() !== '' && !startsBlock(lines, index)) {
+      paragraph.push(lines[index].trim())
+      index++
+    }
+    html.push(`<p>${renderInline(paragraph.join(' '))}</p>`)
+  }
+
+  return html.join('\n')
+}
+
+/**
+ * Formats the value of a front matter entry for the metadata table, nested values are shown as written
+ * @param entry The front matter entry
+ * @returns One line per scalar, nested entry or list item
+ */
+function formatFrontMatterValue(entry: FrontMatterEntry): string[] {
+  if (entry.value !== undefined) {
+    return [entry.value]
+  }
+  return [
+    ...entry.children.map(child => `${child.key}: ${formatFrontMatterValue(child).join(', ')}`),
+    ...entry.items.map(item => `- ${item}`),
+  ]
+}
+
+/**
+ * Renders Markdown/MDC content into an HTML approximation of the portal page,
+ * used when the portal cannot be reached. MDC components are rendered as labeled
+ * placeholders and front matter as a metadata table. All text is HTML-escaped.
+ * @param content The Markdown/MDC document content
+ * @returns HTML string for the offline preview
+ */
+export function renderLocalPreview(content: string): string {
+  const lines = content.split(/\r?\n/)
+  const frontMatter = parseFrontMatter(content)
+  const html: string[] = []
+
+  if (frontMatter && frontMatter.entries.length > 0) {
+    const rows = frontMatter.entries.map(entry => `<tr><th>${escapeHtml(entry.key)}</th><td>${formatFrontMatterValue(entry).map(escapeHtml).join('<br>')}</td></tr>`)
+    html.push(`<table class="front-matter"><caption>Front matter</caption><tbody>${rows.join('')}</tbody></table>`)
+  }
+
+  html.push(renderBlocks(frontMatter ? lines.slice(frontMatter.endLine + 1) : lines))
+
+  return html.join('\n')
+}
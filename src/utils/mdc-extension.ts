@@ -7,6 +7,7 @@ import {
 import { debug } from './debug'
 import { MDCExtensionActions } from '../types/ui-actions'
 import { CONFIG_SECTION } from '../constants/config'
+import { getComponentMetadataUrl } from '../components/metadata'
 
 /**
  * The ID of the MDC extension
@@ -21,7 +22,7 @@ const MDC_EXTENSION_ID = 'Nuxt.mdc'
 export async function syncMDCSettings(origin: string): Promise<void> {
   try {
     const config = workspace.getConfiguration()
-    const componentMetadataURL = `${origin}/api/components/mdc`
+    const componentMetadataURL = getComponentMetadataUrl(origin)
 
     debug.log('Syncing MDC extension settings:', {
       componentMetadataURL,
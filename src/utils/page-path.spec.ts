@@ -84,6 +84,42 @@ describe('page-path', () => {
         })
       })
 
+      it('should replace the last path segment with the front matter slug', () => {
+        const workspaceFolder = createMockWorkspaceFolder({ name: 'workspace', fsPath: '/workspace' })
+        const document = createMockTextDocument({
+          fileName: 'installation.md',
+          fsPath: '/workspace/pages/guides/installation.md',
+          content: '---\nslug: install\n---\n# Installation',
+        })
+
+        vi.mocked(workspace.getWorkspaceFolder).mockReturnValue(workspaceFolder)
+
+        const result = getDocumentPathInfo(document, 'pages', '')
+
+        expect(result).toEqual({
+          type: 'page',
+          path: '/guides/install',
+        })
+      })
+
+      it('should use a front matter slug starting with "/" as the full path', () => {
+        const workspaceFolder = createMockWorkspaceFolder({ name: 'workspace', fsPath: '/workspace' })
+        const document = createMockTextDocument({
+          fileName: 'installation.md',
+          fsPath: '/workspace/pages/guides/installation.md',
+          content: '---\nslug: /start\n---\n# Installation',
+        })
+
+        vi.mocked(workspace.getWorkspaceFolder).mockReturnValue(workspaceFolder)
+
+        const result = getDocumentPathInfo(document, 'pages', '')
+
+        expect(result).toEqual({
+          type: 'page',
+          path: '/start',
+        })
+      })
+
       it('should return default type for file outside pages directory', () => {
         const workspaceFolder = createMockWorkspaceFolder({ name: 'workspace', fsPath: '/workspace' })
         const document = createMockTextDocument({
@@ -123,7 +159,7 @@ describe('page-path', () => {
         })
       })
 
-      it('should show warning for snippet in subdirectory but still allow preview', () => {
+      it('should name snippets in subdirectories by file name without showing a warning', () => {
         const workspaceFolder = createMockWorkspaceFolder({ name: 'workspace', fsPath: '/workspace' })
         const document = createMockTextDocument({
           fileName: 'nested.md',
@@ -135,15 +171,27 @@ describe('page-path', () => {
 
         const result = getDocumentPathInfo(document, '', 'snippets')
 
-        expect(vi.mocked(window.showWarningMessage)).toHaveBeenCalledWith(
-          'Snippets in subdirectories are not supported. Please move "nested.md" to the root of your snippets directory.',
-        )
+        expect(vi.mocked(window.showWarningMessage)).not.toHaveBeenCalled()
         expect(result).toEqual({
           type: 'snippet',
-          path: '/_preview-mode/snippets/categorynested',
-          snippetName: 'categorynested',
+          path: '/_preview-mode/snippets/nested',
+          snippetName: 'nested',
         })
       })
+
+      it('should apply the snippet naming strategy', () => {
+        const workspaceFolder = createMockWorkspaceFolder({ name: 'workspace', fsPath: '/workspace' })
+        const document = createMockTextDocument({
+          fileName: 'warning.md',
+          fsPath: '/workspace/snippets/alerts/warning.md',
+          content: '---\nname: maintenance-warning\n---\nCareful',
+        })
+
+        vi.mocked(workspace.getWorkspaceFolder).mockReturnValue(workspaceFolder)
+
+        expect(getDocumentPathInfo(document, '', 'snippets', 'folderPath').snippetName).toBe('alerts--warning')
+        expect(getDocumentPathInfo(document, '', 'snippets', 'frontMatter').snippetName).toBe('maintenance-warning')
+      })
     })
 
     describe('edge cases', () => {
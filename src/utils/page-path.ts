@@ -1,16 +1,11 @@
 import { relative, join, sep } from 'path'
-import { workspace, window } from 'vscode'
+import { workspace } from 'vscode'
 import type { TextDocument } from 'vscode'
 import { debug } from './debug'
-
-/** Helper function to show warning message with proper async handling */
-async function showWarningMessage(message: string): Promise<void> {
-  try {
-    await window.showWarningMessage(message)
-  } catch (error) {
-    console.error('Failed to show warning message:', error)
-  }
-}
+import { parseFrontMatter } from '../front-matter/parse'
+import { getFrontMatterSlug } from '../front-matter/schema'
+import { getSnippetFileName } from '../snippets/naming'
+import type { SnippetNamingStrategy } from '../snippets/naming'
 
 /** Result of document type detection */
 export interface DocumentPathInfo {
@@ -70,6 +65,23 @@ function getPagePath(document: TextDocument, pagesDirectory: string): string | n
     return null
   }
 
+  return calculatePagePath(relativePath).path
+}
+
+/** Result of mapping a file in the pages directory to its portal path */
+export interface CalculatedPagePath {
+  /** The portal path of the page */
+  path: string
+  /** Whether characters not allowed in portal paths were removed from the file path */
+  sanitized: boolean
+}
+
+/**
+ * Maps a file path relative to the pages directory to its portal path
+ * @param relativePath The file path relative to the pages directory
+ * @returns The portal path and whether it had to be sanitized
+ */
+export function calculatePagePath(relativePath: string): CalculatedPagePath {
   // Remove the file extension and normalize the path
   const pathWithoutExtension = relativePath.replace(/\.(md|mdc)$/i, '')
 
@@ -79,15 +91,15 @@ function getPagePath(document: TextDocument, pagesDirectory: string): string | n
       relativePath,
       pathWithoutExtension,
     })
-    return '/'
+    return { path: '/', sanitized: false }
   }
 
   // Convert path separators to forward slashes and sanitize
-  let sanitizedPath = pathWithoutExtension.split(sep).join('/')
+  const normalizedPath = pathWithoutExtension.split(sep).join('/')
 
   // Apply the regex filter to remove invalid characters: /^[\w/-]+$/
   // This keeps only word characters (a-z, A-Z, 0-9, _), forward slashes, and hyphens
-  sanitizedPath = sanitizedPath.replace(/[^\w/-]/g, '')
+  const sanitizedPath = normalizedPath.replace(/[^\w/-]/g, '')
 
   // Ensure the path starts with '/'
   const finalPath = sanitizedPath ? `/${sanitizedPath}` : '/'
@@ -99,50 +111,42 @@ function getPagePath(document: TextDocument, pagesDirectory: string): string | n
     finalPath,
   })
 
-  return finalPath
+  return { path: finalPath, sanitized: sanitizedPath !== normalizedPath }
 }
 
 /**
- * Checks if a document is in a snippets subdirectory (which is not supported)
- * @param document The VS Code document being checked
- * @param snippetsDirectory The configured snippets directory relative to workspace root
- * @returns Error message if in subdirectory, null otherwise
+ * Applies a front matter slug to a page path calculated from the file location
+ * @param pagePath The page path calculated from the file location
+ * @param slug The slug from the page front matter
+ * @returns The full slug if it starts with '/', otherwise the page path with its last segment replaced
  */
-function checkSnippetSubdirectoryError(document: TextDocument, snippetsDirectory: string): string | null {
-  // If no snippets directory is configured, no error
-  if (!snippetsDirectory || snippetsDirectory.trim() === '') {
-    return null
+export function applySlug(pagePath: string, slug: string): string {
+  if (slug.startsWith('/')) {
+    return slug
   }
 
-  const workspaceFolder = workspace.getWorkspaceFolder(document.uri)
-  if (!workspaceFolder) {
-    return null
-  }
-
-  const snippetsDirectoryPath = join(workspaceFolder.uri.fsPath, snippetsDirectory.trim())
-  const documentPath = document.uri.fsPath
-  const relativePath = relative(snippetsDirectoryPath, documentPath)
-
-  // If document is outside snippets directory, no error
-  if (relativePath.startsWith('..')) {
-    return null
-  }
-
-  // Check if document is in a subdirectory (contains path separator)
-  if (relativePath.includes(sep)) {
-    return `Snippets in subdirectories are not supported. Please move "${document.fileName}" to the root of your snippets directory.`
-  }
+  const parentPath = pagePath.substring(0, pagePath.lastIndexOf('/'))
+  return `${parentPath}/${slug}`
+}
 
-  return null
+/**
+ * Checks whether a document is a page in the configured pages directory
+ * @param document The VS Code document to check
+ * @param pagesDirectory The configured pages directory relative to workspace root
+ * @returns true if the document is inside the pages directory
+ */
+export function isPageDocument(document: TextDocument, pagesDirectory: string): boolean {
+  return getPagePath(document, pagesDirectory) !== null
 }
 
 /**
  * Gets the snippet name for a document in the snippets directory
  * @param document The VS Code document being previewed
  * @param snippetsDirectory The configured snippets directory relative to workspace root
+ * @param snippetNaming How snippet names are derived from files
  * @returns The snippet name or null if document is not a valid snippet
  */
-function getSnippetName(document: TextDocument, snippetsDirectory: string): string | null {
+function getSnippetName(document: TextDocument, snippetsDirectory: string, snippetNaming: SnippetNamingStrategy): string | null {
   // If no snippets directory is configured or it's empty, not a snippet
   if (!snippetsDirectory || snippetsDirectory.trim() === '') {
     debug.log('No snippets directory configured')
@@ -183,28 +187,21 @@ function getSnippetName(document: TextDocument, snippetsDirectory: string): stri
     return null
   }
 
-  // Note: Subdirectory check is now handled in getDocumentPathInfo before calling this function
-
-  // Remove the file extension and sanitize
-  const filenameWithoutExtension = relativePath.replace(/\.(md|mdc)$/i, '')
-
-  // Apply the regex filter to remove invalid characters: /^[\w-]+$/
-  // This keeps only word characters (a-z, A-Z, 0-9, _) and hyphens
-  const sanitizedName = filenameWithoutExtension.replace(/[^\w-]/g, '')
+  const snippetName = getSnippetFileName(relativePath, snippetNaming, document.getText())
 
   // Validate that we have a valid snippet name
-  if (!sanitizedName) {
+  if (!snippetName) {
     debug.log('Invalid snippet name after sanitization')
     return null
   }
 
   debug.log('Calculated snippet name:', {
     originalPath: relativePath,
-    filenameWithoutExtension,
-    sanitizedName,
+    snippetNaming,
+    snippetName: snippetName.name,
   })
 
-  return sanitizedName
+  return snippetName.name
 }
 
 /**
@@ -212,22 +209,17 @@ function getSnippetName(document: TextDocument, snippetsDirectory: string): stri
  * @param document The VS Code document being previewed
  * @param pagesDirectory The configured pages directory
  * @param snippetsDirectory The configured snippets directory
+ * @param snippetNaming How snippet names are derived from files in the snippets directory
  * @returns Document path information with type and calculated values
  */
 export function getDocumentPathInfo(
   document: TextDocument,
   pagesDirectory: string,
   snippetsDirectory: string,
+  snippetNaming: SnippetNamingStrategy = 'fileName',
 ): DocumentPathInfo {
-  // Check if there's a snippets subdirectory warning
-  const snippetWarning = checkSnippetSubdirectoryError(document, snippetsDirectory)
-  if (snippetWarning) {
-    // Show warning message to user but continue to load the preview
-    showWarningMessage(snippetWarning)
-  }
-
-  // Then check if it's a snippet
-  const snippetName = getSnippetName(document, snippetsDirectory)
+  // Check if it's a snippet first
+  const snippetName = getSnippetName(document, snippetsDirectory, snippetNaming)
   if (snippetName) {
     // Generate snippet path for navigation: /_preview-mode/snippets/<name>
     const snippetPath = `/_preview-mode/snippets/${snippetName}`
@@ -242,9 +234,14 @@ export function getDocumentPathInfo(
   if (pagesDirectory && pagesDirectory.trim() !== '') {
     const pagePath = getPagePath(document, pagesDirectory)
     if (pagePath !== null) { // null means it wasn't in the pages directory
+      // A slug in the page front matter overrides the path derived from the file location
+      const slug = getFrontMatterSlug(parseFrontMatter(document.getText()))
+      if (slug) {
+        debug.log('Applying front matter slug to page path:', { pagePath, slug })
+      }
       return {
         type: 'page',
-        path: pagePath,
+        path: slug ? applySlug(pagePath, slug) : pagePath,
       }
     }
   }
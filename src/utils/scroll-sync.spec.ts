@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import {
+  slugifyHeading,
+  getHeadings,
+  getHeadingAtLine,
+  findHeadingLine,
+  toPortalLine,
+  toEditorLine,
+} from './scroll-sync'
+
+describe('scroll-sync', () => {
+  const document = [
+    '# Getting Started',
+    '',
+    'Intro text',
+    '',
+    '```bash',
+    '# not a heading',
+    '```',
+    '',
+    '## Install the CLI!',
+    '',
+    'Steps',
+  ].join('\n')
+
+  describe('slugifyHeading', () => {
+    it('should lowercase and hyphenate heading text', () => {
+      expect(slugifyHeading('Install the CLI!')).toBe('install-the-cli')
+      expect(slugifyHeading('  API  Reference_v3 ')).toBe('api-reference-v3')
+    })
+  })
+
+  describe('getHeadings', () => {
+    it('should collect headings and skip fenced code blocks', () => {
+      expect(getHeadings(document)).toEqual([
+        { text: 'Getting Started', id: 'getting-started', line: 0 },
+        { text: 'Install the CLI!', id: 'install-the-cli', line: 8 },
+      ])
+    })
+  })
+
+  describe('getHeadingAtLine', () => {
+    it('should return the nearest heading at or above the line', () => {
+      expect(getHeadingAtLine(document, 5)?.id).toBe('getting-started')
+      expect(getHeadingAtLine(document, 8)?.id).toBe('install-the-cli')
+      expect(getHeadingAtLine(document, 10)?.id).toBe('install-the-cli')
+    })
+
+    it('should return undefined above the first heading', () => {
+      expect(getHeadingAtLine('text\n# Heading', 0)).toBeUndefined()
+    })
+  })
+
+  describe('findHeadingLine', () => {
+    it('should find the line of a heading by anchor id', () => {
+      expect(findHeadingLine(document, 'install-the-cli')).toBe(8)
+      expect(findHeadingLine(document, 'missing')).toBeUndefined()
+    })
+  })
+
+  describe('line conversion', () => {
+    it('should account for leading lines trimmed from the portal content', () => {
+      const text = '\n\n# Title\nBody'
+
+      expect(toPortalLine(text, 2)).toBe(1)
+      expect(toPortalLine(text, 3)).toBe(2)
+      expect(toEditorLine(text, 1)).toBe(2)
+      expect(toEditorLine(text, 2)).toBe(3)
+    })
+
+    it('should clamp lines inside the trimmed whitespace', () => {
+      expect(toPortalLine('\n\n# Title', 0)).toBe(1)
+      expect(toEditorLine('# Title', 0)).toBe(0)
+    })
+  })
+})
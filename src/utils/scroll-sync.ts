@@ -0,0 +1,109 @@
+/** Heading found in a Markdown/MDC document */
+export interface SourceHeading {
+  /** Heading text without the leading hashes */
+  text: string
+  /** Anchor id of the heading as generated by the portal */
+  id: string
+  /** Zero-based line of the heading in the document */
+  line: number
+}
+
+/** Matches an ATX heading (`# Title` to `###### Title`) */
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/
+
+/** Matches the opening or closing line of a fenced code block */
+const FENCE_PATTERN = /^\s*(```|~~~)/
+
+/**
+ * Converts heading text into the anchor id used by the portal
+ * @param text The heading text
+ * @returns Lowercase, hyphen-separated anchor id
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+/**
+ * Collects all headings in the document text, ignoring lines inside fenced code blocks
+ * @param text Full document text
+ * @returns Headings in document order
+ */
+export function getHeadings(text: string): SourceHeading[] {
+  const headings: SourceHeading[] = []
+  let inFence = false
+
+  text.split(/\r?\n/).forEach((lineText, line) => {
+    if (FENCE_PATTERN.test(lineText)) {
+      inFence = !inFence
+      return
+    }
+
+    if (inFence) {
+      return
+    }
+
+    const match = lineText.match(HEADING_PATTERN)
+    if (match) {
+      headings.push({ text: match[1], id: slugifyHeading(match[1]), line })
+    }
+  })
+
+  return headings
+}
+
+/**
+ * Finds the nearest heading at or above the given line
+ * @param text Full document text
+ * @param line Zero-based editor line
+ * @returns The heading, or undefined if the line is above the first heading
+ */
+export function getHeadingAtLine(text: string, line: number): SourceHeading | undefined {
+  return getHeadings(text).filter(heading => heading.line <= line).pop()
+}
+
+/**
+ * Finds the line of the heading with the given anchor id
+ * @param text Full document text
+ * @param id Anchor id reported by the portal
+ * @returns Zero-based line of the heading, or undefined if not found
+ */
+export function findHeadingLine(text: string, id: string): number | undefined {
+  return getHeadings(text).find(heading => heading.id === id)?.line
+}
+
+/**
+ * Counts the lines removed from the start of the document when its content is trimmed
+ * before being sent to the portal
+ * @param text Full document text
+ * @returns Number of leading lines that the portal does not see
+ */
+function getLeadingLineOffset(text: string): number {
+  const leadingWhitespace = text.match(/^\s*/)?.[0] ?? ''
+  return leadingWhitespace.split('\n').length - 1
+}
+
+/**
+ * Converts a zero-based editor line into the one-based line of the content sent to the portal
+ * @param text Full document text
+ * @param line Zero-based editor line
+ * @returns One-based line in the trimmed portal content
+ */
+export function toPortalLine(text: string, line: number): number {
+  return Math.max(1, line - getLeadingLineOffset(text) + 1)
+}
+
+/**
+ * Converts a one-based line reported by the portal into a zero-based editor line
+ * @param text Full document text
+ * @param portalLine One-based line in the trimmed portal content
+ * @returns Zero-based editor line
+ */
+export function toEditorLine(text: string, portalLine: number): number {
+  return Math.max(0, portalLine - 1 + getLeadingLineOffset(text))
+}
@@ -1,4 +1,5 @@
 import type { PortalPreviewConfig } from '../types'
+import { getPreviewOrigin } from '../storage'
 import type { StoredPortalConfig } from '../types/konnect'
 import { debug } from './debug'
 
@@ -46,16 +47,31 @@ export function addPreviewParams(url: string, previewId: string, path = ''): str
   }
 }
 
+/**
+ * Returns the frame sources the CSP of the preview allows: the portal origin, which may be a local dev
+ * server on plain http, and any https origin the portal navigates to, e.g. its identity provider
+ * @param origin The portal origin
+ * @returns The `frame-src` source list
+ */
+export function getFrameSources(origin: string): string {
+  try {
+    return `${new URL(origin).origin} https:`
+  } catch {
+    return 'https:'
+  }
+}
+
 // ...existing code...
 /**
  * Generates the HTML content for the webview by loading and processing the HTML template file.
  * Falls back to a robust inline template if the file cannot be loaded.
  * @param extensionPath Path to the extension directory
- * @param portalConfig Portal configuration
+ * @param portalConfig Portal configuration, the iframe loads its preview origin
  * @param previewId Unique preview identifier
  * @param cssContent CSS content to include
  * @param jsContent JavaScript content to include
  * @param path Optional page path for the iframe URL (defaults to empty string)
+ * @param sidebarContent Optional HTML shown next to the preview, e.g. the component gallery
  * @returns Complete HTML string for webview
  */
 export function generateWebviewHTML(
@@ -65,16 +81,21 @@ export function generateWebviewHTML(
   cssContent: string,
   jsContent: string,
   path = '',
+  sidebarContent = '',
 ): string {
+  const previewOrigin = getPreviewOrigin(portalConfig)
   try {
     // Use bundled HTML template (no file I/O needed)
     let htmlContent = htmlTemplate
-    const iframeSrc = addPreviewParams(portalConfig.origin, previewId, path)
+    const iframeSrc = addPreviewParams(previewOrigin, previewId, path)
     // Replace template variables with actual values
     htmlContent = htmlContent.replace(/\{%%TEMPLATE_CSS_CONTENT%%\}/g, `<style>${cssContent}</style>`)
     htmlContent = htmlContent.replace(/\{%%TEMPLATE_JS_CONTENT%%\}/g, `<script>${jsContent}</script>`)
     htmlContent = htmlContent.replace(/\{%%TEMPLATE_IFRAME_SRC%%\}/g, iframeSrc)
-    htmlContent = htmlContent.replace(/\{%%TEMPLATE_PORTAL_ORIGIN%%\}/g, portalConfig.origin)
+    htmlContent = htmlContent.replace(/\{%%TEMPLATE_PORTAL_ORIGIN%%\}/g, previewOrigin)
+    htmlContent = htmlContent.replace(/\{%%TEMPLATE_FRAME_SOURCES%%\}/g, getFrameSources(previewOrigin))
+    // Replaced last so the sidebar content is never scanned for template variables
+    htmlContent = htmlContent.replace(/\{%%TEMPLATE_SIDEBAR_CONTENT%%\}/g, () => sidebarContent)
     return htmlContent
   } catch (error) {
     debug.error('Failed to process webview HTML template:', error)
@@ -83,29 +104,51 @@ export function generateWebviewHTML(
      * if the external template file is missing or cannot be loaded. This fallback includes
      * the full loading and error overlays for a consistent user experience.
      */
-    const iframeSrc = addPreviewParams(portalConfig.origin, previewId, path)
+    const iframeSrc = addPreviewParams(previewOrigin, previewId, path)
     return `
 <!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; frame-src *; style-src 'unsafe-inline'; script-src 'unsafe-inline';">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; frame-src ${getFrameSources(previewOrigin)}; style-src 'unsafe-inline'; script-src 'unsafe-inline';">
   <title>Portal Preview</title>
   <style>
     ${cssContent}
   </>
 </head>
 <body>
+  ${sidebarContent}
   <div class="container">
-    <div class="iframe-container">
+    <div class="preview-toolbar" id="preview-toolbar" role="toolbar" aria-label="Preview viewport">
+      <div class="toolbar-group">
+        <button type="button" class="toolbar-button" data-device="mobile" title="Mobile (375px)">Mobile</button>
+        <button type="button" class="toolbar-button" data-device="tablet" title="Tablet (768px)">Tablet</button>
+        <button type="button" class="toolbar-button" data-device="desktop" title="Desktop (full width)">Desktop</button>
+        <button type="button" class="toolbar-button" data-device="custom" title="Custom width">Custom</button>
+        <input type="number" class="toolbar-input" id="viewport-custom-width" min="240" max="3840" step="1" aria-label="Custom width in pixels">
+        <label class="toolbar-checkbox">
+          <input type="checkbox" id="viewport-zoom-to-fit">
+          Zoom to fit
+        </label>
+      </div>
+      <div class="toolbar-group">
+        <span class="toolbar-label" id="viewport-size"></span>
+        <select class="toolbar-select" id="viewport-color-scheme" aria-label="Color scheme">
+          <option value="auto">Match VS Code</option>
+          <option value="light">Light</option>
+          <option value="dark">Dark</option>
+        </select>
+      </div>
+    </div>
+    <div class="iframe-container" id="iframe-container">
        <div class="loading-overlay" id="loading-overlay">
          <div class="loading-content">
            <h3 class="loading-title">Loading Portal Preview</h3>
            <div class="loading-progress">
              <div class="loading-progress-bar"></div>
            </div>
-           <p class="loading-text">Connecting to ${portalConfig.origin}</p>
+           <p class="loading-text">Connecting to ${previewOrigin}</p>
          </div>
        </div>
        <div class="error-overlay hidden" id="error-overlay">
@@ -115,21 +158,30 @@ export function generateWebviewHTML(
            <div class="error-code" id="error-code" style="display: none;"></div>
          </div>
        </div>
-       <iframe
-         id="portal-preview"
-         src="${iframeSrc}"
-         title="Portal Preview"
-         width="100%"
-         height="100%"
-         allow="clipboard-read; clipboard-write; storage-access"
-         sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox allow-modals allow-downloads allow-storage-access-by-user-activation"
-         loading="eager"
-         style="border: none; display: block;"
-       ></iframe>
+       <div class="viewport-frame" id="viewport-frame">
+         <div class="offline-preview hidden" id="offline-preview">
+           <div class="offline-banner" role="status">
+             <span><strong>Offline preview</strong> &mdash; the portal could not be reached. This is a local approximation of <span id="offline-file-name">the document</span>, MDC components are shown as placeholders.</span>
+             <button type="button" class="toolbar-button" id="offline-retry">Retry portal</button>
+           </div>
+           <div class="offline-content" id="offline-content"></div>
+         </div>
+         <iframe
+           id="portal-preview"
+           src="${iframeSrc}"
+           title="Portal Preview"
+           width="100%"
+           height="100%"
+           allow="clipboard-read; clipboard-write; storage-access"
+           sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox allow-modals allow-downloads allow-storage-access-by-user-activation"
+           loading="eager"
+           style="border: none; display: block;"
+         ></iframe>
+       </div>
      </div>
   </div>
   <script>
-    ${jsContent}
+    ${jsContent.replace(/\{%%TEMPLATE_PORTAL_ORIGIN%%\}/g, previewOrigin)}
   </script>
 </body>
 </html>
@@ -0,0 +1,82 @@
+import { EventEmitter, ThemeColor, ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode'
+import type { Disposable, Event, TreeDataProvider } from 'vscode'
+import type { DriftItem, DriftReport, DriftStatus } from '../publish/drift'
+
+/** Node of the drift tree, either a status group or a differing page or snippet */
+export type DriftTreeNode =
+  | { type: 'group', status: DriftStatus, items: DriftItem[] }
+  | { type: 'item', item: DriftItem }
+
+/** Labels, icons and order of the status groups */
+const GROUPS: Array<{ status: DriftStatus, label: string, icon: string, color: string }> = [
+  { status: 'modified', label: 'Modified', icon: 'diff-modified', color: 'gitDecoration.modifiedResourceForeground' },
+  { status: 'added', label: 'Only in Workspace', icon: 'diff-added', color: 'gitDecoration.untrackedResourceForeground' },
+  { status: 'removed', label: 'Only in Portal', icon: 'diff-removed', color: 'gitDecoration.deletedResourceForeground' },
+]
+
+/** Provides the differences between the workspace and a portal from the last comparison */
+export class DriftTreeProvider implements TreeDataProvider<DriftTreeNode>, Disposable {
+  private readonly changeEmitter = new EventEmitter<DriftTreeNode | undefined>()
+
+  /** Fires when a new report is shown */
+  public readonly onDidChangeTreeData: Event<DriftTreeNode | undefined> = this.changeEmitter.event
+
+  private report: DriftReport | undefined
+
+  /**
+   * Shows a comparison report, replacing the previous one
+   * @param report The report, or undefined to clear the view
+   */
+  public setReport(report: DriftReport | undefined): void {
+    this.report = report
+    this.changeEmitter.fire(undefined)
+  }
+
+  public getTreeItem(node: DriftTreeNode): TreeItem {
+    if (node.type === 'group') {
+      const group = GROUPS.find(candidate => candidate.status === node.status)!
+      const item = new TreeItem(group.label, TreeItemCollapsibleState.Expanded)
+      item.description = `${node.items.length}`
+      item.iconPath = new ThemeIcon(group.icon, new ThemeColor(group.color))
+      return item
+    }
+
+    const { item: drift } = node
+    const item = new TreeItem(drift.label, TreeItemCollapsibleState.None)
+    item.description = `${drift.kind} ${drift.target}`
+    item.resourceUri = drift.localUri ?? drift.remoteUri
+    item.contextValue = `portalDrift.${drift.status}`
+
+    if (drift.status === 'modified') {
+      item.tooltip = `${drift.label} differs from ${drift.kind} ${drift.target} in ${this.report?.portalName}`
+      item.command = {
+        command: 'vscode.diff',
+        title: 'Compare With Portal',
+        arguments: [drift.remoteUri, drift.localUri, `${drift.label} (${this.report?.portalName} ↔ Workspace)`],
+      }
+    } else if (drift.status === 'added') {
+      item.tooltip = `${drift.label} is not published to ${this.report?.portalName}`
+      item.command = { command: 'vscode.open', title: 'Open File', arguments: [drift.localUri] }
+    } else {
+      item.tooltip = `${drift.kind} ${drift.target} of ${this.report?.portalName} has no local file`
+      item.command = { command: 'vscode.open', title: 'Open Published File', arguments: [drift.remoteUri] }
+    }
+
+    return item
+  }
+
+  public getChildren(node?: DriftTreeNode): DriftTreeNode[] {
+    if (node) {
+      return node.type === 'group' ? node.items.map(item => ({ type: 'item', item })) : []
+    }
+
+    const items = this.report?.items ?? []
+    return GROUPS
+      .map(group => ({ type: 'group' as const, status: group.status, items: items.filter(item => item.status === group.status) }))
+      .filter(group => group.items.length > 0)
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose()
+  }
+}
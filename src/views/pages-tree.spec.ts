@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { workspace } from 'vscode'
+import { PagesTreeProvider } from './pages-tree'
+import type { PageTreeNode } from './pages-tree'
+import type { PortalStorageService } from '../storage'
+import { getConfiguration } from '../extension'
+
+vi.mock('vscode', () => ({
+  EventEmitter: class {
+    event = vi.fn()
+    fire = vi.fn()
+    dispose = vi.fn()
+  },
+  FileType: { File: 1, Directory: 2 },
+  MarkdownString: class {
+    value: string
+    supportThemeIcons = false
+    constructor(value = '') {
+      this.value = value
+    }
+
+    appendMarkdown(value: string) {
+      this.value += value
+      return this
+    }
+  },
+  ThemeColor: class {
+    constructor(public id: string) {}
+  },
+  ThemeIcon: class {
+    constructor(public id: string, public color?: unknown) {}
+  },
+  TreeItem: class {
+    constructor(public label: string, public collapsibleState: number) {}
+  },
+  TreeItemCollapsibleState: { None: 0, Collapsed: 1, Expanded: 2 },
+  Uri: {
+    joinPath: (uri: { fsPath: string }, ...segments: string[]) => ({ fsPath: [uri.fsPath, ...segments].join('/') }),
+  },
+  workspace: {
+    workspaceFolders: [{ uri: { fsPath: '/workspace' } }],
+    fs: {
+      readDirectory: vi.fn(),
+      readFile: vi.fn(),
+    },
+    getConfiguration: vi.fn(() => ({ get: vi.fn(() => false) })),
+  },
+}))
+
+vi.mock('../extension', () => ({
+  getConfiguration: vi.fn(),
+}))
+
+/** Files in the mocked pages directory */
+const directories: Record<string, Array<[string, number]>> = {
+  '/workspace/pages': [['home.md', 1], ['guides', 2], ['Getting Started.md', 1], ['image.png', 1]],
+  '/workspace/pages/guides': [['install.md', 1], ['setup.mdc', 1]],
+}
+
+/** File contents in the mocked pages directory */
+const files: Record<string, string> = {
+  '/workspace/pages/guides/setup.mdc': '---\nslug: install\n---\n# Setup',
+}
+
+describe('PagesTreeProvider', () => {
+  let provider: PagesTreeProvider
+  let storageService: PortalStorageService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getConfiguration).mockReturnValue({ pagesDirectory: 'pages' } as any)
+    vi.mocked(workspace.fs.readDirectory).mockImplementation(async (uri: any) => directories[uri.fsPath])
+    vi.mocked(workspace.fs.readFile).mockImplementation(async (uri: any) => new TextEncoder().encode(files[uri.fsPath] ?? '# Page'))
+    storageService = {
+      getSelectedPortal: vi.fn().mockResolvedValue({ origin: 'https://portal.example.com' }),
+    } as unknown as PortalStorageService
+    provider = new PagesTreeProvider(storageService)
+  })
+
+  it('should map pages to their portal paths with directories first', async () => {
+    const [guides, gettingStarted, home] = await provider.getChildren()
+
+    expect(guides).toEqual(expect.objectContaining({ type: 'directory', name: 'guides' }))
+    expect(gettingStarted).toEqual(expect.objectContaining({ name: 'Getting Started.md', pagePath: '/GettingStarted', sanitized: true }))
+    expect(home).toEqual(expect.objectContaining({ name: 'home.md', pagePath: '/', sanitized: false }))
+  })
+
+  it('should flag pages served at the same path, including front matter slugs', async () => {
+    const [guides] = await provider.getChildren()
+    const [install, setup] = await provider.getChildren(guides)
+
+    expect(install.pagePath).toBe('/guides/install')
+    expect(setup.pagePath).toBe('/guides/install')
+    expect(install.collisions).toEqual(['guides/setup.mdc'])
+    expect(setup.collisions).toEqual(['guides/install.md'])
+  })
+
+  it('should group the pages of each workspace folder in multi-root workspaces', async () => {
+    const workspaceFolders = workspace.workspaceFolders
+    ;(workspace as any).workspaceFolders = [
+      { name: 'docs', uri: { fsPath: '/workspace' } },
+      { name: 'other', uri: { fsPath: '/other' } },
+    ]
+    directories['/other/pages'] = [['home.md', 1]]
+
+    try {
+      const [docs, other] = await provider.getChildren()
+
+      expect(docs).toEqual(expect.objectContaining({ type: 'directory', name: 'docs' }))
+      expect(other).toEqual(expect.objectContaining({ type: 'directory', name: 'other' }))
+      expect(await provider.getChildren(other)).toEqual([expect.objectContaining({ name: 'home.md', pagePath: '/', collisions: [] })])
+      expect(getConfiguration).toHaveBeenCalledWith({ fsPath: '/other' })
+    } finally {
+      ;(workspace as any).workspaceFolders = workspaceFolders
+      delete directories['/other/pages']
+    }
+  })
+
+  it('should return no pages when no pages directory is configured', async () => {
+    vi.mocked(getConfiguration).mockReturnValue({ pagesDirectory: '' } as any)
+
+    expect(await provider.getChildren()).toEqual([])
+  })
+
+  it('should show the portal path and warning icons in tree items', async () => {
+    const [guides, gettingStarted] = await provider.getChildren()
+    const [install] = await provider.getChildren(guides)
+
+    expect(provider.getTreeItem(gettingStarted)).toEqual(expect.objectContaining({
+      description: '/GettingStarted',
+      contextValue: 'portalPage',
+      iconPath: expect.objectContaining({ id: 'warning' }),
+    }))
+    expect(provider.getTreeItem(install).iconPath).toEqual(expect.objectContaining({ id: 'error' }))
+  })
+
+  it('should build page URLs from the selected portal origin', async () => {
+    const node = { pagePath: '/guides/install' } as PageTreeNode
+
+    expect(await provider.getPageUrl(node)).toBe('https://portal.example.com/guides/install')
+
+    // Links point to the published portal, not to the domain the workspace previews it on
+    vi.mocked(storageService.getSelectedPortal).mockResolvedValue({ origin: 'https://portal.example.com', previewOrigin: 'http://localhost:3000' } as any)
+    expect(await provider.getPageUrl(node)).toBe('https://portal.example.com/guides/install')
+
+    vi.mocked(storageService.getSelectedPortal).mockResolvedValue(undefined)
+    expect(await provider.getPageUrl(node)).toBeUndefined()
+  })
+})
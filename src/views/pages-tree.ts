@@ -0,0 +1,210 @@
+import {
+  EventEmitter,
+  FileType,
+  MarkdownString,
+  ThemeColor,
+  ThemeIcon,
+  TreeItem,
+  TreeItemCollapsibleState,
+  Uri,
+  workspace,
+} from 'vscode'
+import type { Disposable, Event, TreeDataProvider } from 'vscode'
+import { join } from 'path'
+import { joinURL } from 'ufo'
+import type { PortalStorageService } from '../storage'
+import { getConfiguration } from '../extension'
+import { debug } from '../utils/debug'
+import { applySlug, calculatePagePath } from '../utils/page-path'
+import { parseFrontMatter } from '../front-matter/parse'
+import { getFrontMatterSlug } from '../front-matter/schema'
+
+/** Node of the pages tree, either a directory or a page file */
+export interface PageTreeNode {
+  type: 'directory' | 'page'
+  name: string
+  uri: Uri
+  /** Path relative to the pages directory */
+  relativePath: string
+  children: PageTreeNode[]
+  /** Portal path the page is served at */
+  pagePath?: string
+  /** Whether characters not allowed in portal paths were removed from the file path */
+  sanitized?: boolean
+  /** Relative paths of other pages served at the same portal path */
+  collisions?: string[]
+}
+
+/** Matches page files */
+const PAGE_FILE_PATTERN = /\.(md|mdc)$/i
+
+/**
+ * Flags pages that are served at the same portal path
+ * @param pages All page nodes of the tree
+ */
+export function markPathCollisions(pages: PageTreeNode[]): void {
+  const pagesByPath = new Map<string, PageTreeNode[]>()
+  for (const page of pages) {
+    const samePath = pagesByPath.get(page.pagePath!) ?? []
+    samePath.push(page)
+    pagesByPath.set(page.pagePath!, samePath)
+  }
+
+  for (const page of pages) {
+    const others = pagesByPath.get(page.pagePath!)!.filter(other => other !== page)
+    page.collisions = others.map(other => other.relativePath)
+  }
+}
+
+/** Provides the tree of local pages mapped to their portal paths */
+export class PagesTreeProvider implements TreeDataProvider<PageTreeNode>, Disposable {
+  private readonly changeEmitter = new EventEmitter<PageTreeNode | undefined>()
+
+  /** Fires when the tree needs to be reloaded */
+  public readonly onDidChangeTreeData: Event<PageTreeNode | undefined> = this.changeEmitter.event
+
+  constructor(private readonly storageService: PortalStorageService) {}
+
+  /** Reloads the tree from disk */
+  public refresh(): void {
+    this.changeEmitter.fire(undefined)
+  }
+
+  public getTreeItem(node: PageTreeNode): TreeItem {
+    if (node.type === 'directory') {
+      const item = new TreeItem(node.name, TreeItemCollapsibleState.Expanded)
+      item.resourceUri = node.uri
+      item.contextValue = 'portalPagesDirectory'
+      return item
+    }
+
+    const item = new TreeItem(node.name, TreeItemCollapsibleState.None)
+    item.resourceUri = node.uri
+    item.description = node.pagePath
+    item.contextValue = 'portalPage'
+    item.command = { command: 'vscode.open', title: 'Open Page', arguments: [node.uri] }
+
+    const tooltip = new MarkdownString(`**${node.relativePath}**\n\nPortal path: \`${node.pagePath}\``)
+    if (node.collisions?.length) {
+      tooltip.appendMarkdown(`\n\n$(warning) Served at the same path as: ${node.collisions.map(path => `\`${path}\``).join(', ')}`)
+    }
+    if (node.sanitized) {
+      tooltip.appendMarkdown('\n\n$(warning) Characters other than letters, numbers, `_`, `-` and `/` were removed from the file path')
+    }
+    tooltip.supportThemeIcons = true
+    item.tooltip = tooltip
+
+    if (node.collisions?.length) {
+      item.iconPath = new ThemeIcon('error', new ThemeColor('list.errorForeground'))
+    } else if (node.sanitized) {
+      item.iconPath = new ThemeIcon('warning', new ThemeColor('list.warningForeground'))
+    }
+
+    return item
+  }
+
+  public async getChildren(node?: PageTreeNode): Promise<PageTreeNode[]> {
+    if (node) {
+      return node.children
+    }
+
+    try {
+      return await this.loadPages()
+    } catch (error) {
+      debug.error('Failed to load pages tree:', error)
+      return []
+    }
+  }
+
+  /**
+   * Returns the URL of a page in the selected portal
+   * @param node The page node
+   * @returns The page URL, or undefined if no portal is selected
+   */
+  public async getPageUrl(node: PageTreeNode): Promise<string | undefined> {
+    const portalConfig = await this.storageService.getSelectedPortal(node.uri)
+    if (!portalConfig || !node.pagePath) {
+      return undefined
+    }
+    return joinURL(portalConfig.origin, node.pagePath)
+  }
+
+  /**
+   * Scans the pages directory of every workspace folder and maps every page to its portal path.
+   * In multi-root workspaces the pages of each folder are grouped under a node named after the folder.
+   */
+  private async loadPages(): Promise<PageTreeNode[]> {
+    const roots: PageTreeNode[] = []
+    for (const workspaceFolder of workspace.workspaceFolders ?? []) {
+      const { pagesDirectory } = getConfiguration(workspaceFolder.uri)
+      if (!pagesDirectory || pagesDirectory.trim() === '') {
+        continue
+      }
+
+      const pagesUri = Uri.joinPath(workspaceFolder.uri, pagesDirectory.trim())
+      const children = await this.loadFolderPages(pagesUri)
+      if (children.length > 0) {
+        roots.push({ type: 'directory', name: workspaceFolder.name, uri: pagesUri, relativePath: '', children })
+      }
+    }
+
+    return workspace.workspaceFolders?.length === 1 ? roots[0]?.children ?? [] : roots
+  }
+
+  /**
+   * Scans the pages directory of a workspace folder
+   * @param pagesUri The pages directory
+   * @returns The tree of the directory, portal path collisions are flagged within the folder
+   */
+  private async loadFolderPages(pagesUri: Uri): Promise<PageTreeNode[]> {
+    const pages: PageTreeNode[] = []
+
+    const readDirectory = async (uri: Uri, relativeDirectory: string): Promise<PageTreeNode[]> => {
+      let entries: Array<[string, FileType]>
+      try {
+        entries = await workspace.fs.readDirectory(uri)
+      } catch {
+        debug.log('Pages directory not found:', uri.fsPath)
+        return []
+      }
+
+      const nodes: PageTreeNode[] = []
+      for (const [name, fileType] of entries) {
+        const childUri = Uri.joinPath(uri, name)
+        const relativePath = relativeDirectory ? join(relativeDirectory, name) : name
+
+        if (fileType === FileType.Directory) {
+          const children = await readDirectory(childUri, relativePath)
+          if (children.length > 0) {
+            nodes.push({ type: 'directory', name, uri: childUri, relativePath, children })
+          }
+        } else if (fileType === FileType.File && PAGE_FILE_PATTERN.test(name)) {
+          const { path, sanitized } = calculatePagePath(relativePath)
+          const slug = getFrontMatterSlug(parseFrontMatter(new TextDecoder().decode(await workspace.fs.readFile(childUri))))
+          const page: PageTreeNode = {
+            type: 'page',
+            name,
+            uri: childUri,
+            relativePath,
+            children: [],
+            pagePath: slug ? applySlug(path, slug) : path,
+            sanitized,
+          }
+          pages.push(page)
+          nodes.push(page)
+        }
+      }
+
+      // Directories first, then pages, each sorted by name
+      return nodes.sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1)
+    }
+
+    const tree = await readDirectory(pagesUri, '')
+    markPathCollisions(pages)
+    return tree
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose()
+  }
+}
@@ -10,18 +10,35 @@
  * - Message passing to/from the portal
  * - Loading states and error handling
  * - Configuration updates
+ * - Scroll synchronization between the editor and the portal
+ * - Device viewport emulation and color scheme toolbar
+ * - Offline rendering fallback when the portal is unreachable
  */
 
+/** Viewport settings of the preview toolbar, mirrors `PreviewViewportState` of the extension */
+interface ViewportState {
+  device: 'mobile' | 'tablet' | 'desktop' | 'custom'
+  /** Width in pixels used when the device is 'custom' */
+  customWidth: number
+  /** Scale viewports wider than the panel down so they fit */
+  zoomToFit: boolean
+  /** Color scheme forwarded to the portal, 'auto' follows the VS Code theme */
+  colorScheme: 'auto' | 'light' | 'dark'
+}
+
 /** Portal preview actions sent TO the portal */
 const PortalPreviewAction = {
   UPDATE: 'portal:preview:update',
   NAVIGATE: 'portal:preview:navigate',
+  SCROLL: 'portal:preview:scroll',
+  COLOR_SCHEME: 'portal:preview:color-scheme',
   EXIT: 'portal:preview:exit',
 }
 
 /** Portal preview actions received FROM the portal */
 const PortalPreviewIncomingAction = {
   READY: 'portal:preview:ready',
+  SCROLL: 'portal:preview:scroll',
 }
 
 
@@ -40,6 +57,28 @@ const errorMessage = document.getElementById('error-message') as HTMLElement | n
 const errorCode = document.getElementById('error-code') as HTMLElement | null
 /** DOM element for the portal preview iframe */
 const iframe = document.getElementById('portal-preview') as HTMLIFrameElement | null
+/** DOM element containing the viewport frame */
+const iframeContainer = document.getElementById('iframe-container') as HTMLElement | null
+/** DOM element wrapping the iframe, sized to the emulated device */
+const viewportFrame = document.getElementById('viewport-frame') as HTMLElement | null
+/** DOM element for the viewport toolbar */
+const viewportToolbar = document.getElementById('preview-toolbar') as HTMLElement | null
+/** DOM element for the custom viewport width input */
+const customWidthInput = document.getElementById('viewport-custom-width') as HTMLInputElement | null
+/** DOM element for the zoom-to-fit checkbox */
+const zoomToFitInput = document.getElementById('viewport-zoom-to-fit') as HTMLInputElement | null
+/** DOM element for the color scheme select */
+const colorSchemeSelect = document.getElementById('viewport-color-scheme') as HTMLSelectElement | null
+/** DOM element showing the current viewport width and zoom */
+const viewportSizeLabel = document.getElementById('viewport-size') as HTMLElement | null
+/** DOM element for the offline preview shown while the portal is unreachable */
+const offlinePreview = document.getElementById('offline-preview') as HTMLElement | null
+/** DOM element for the locally rendered document */
+const offlineContent = document.getElementById('offline-content') as HTMLElement | null
+/** DOM element for the file name in the offline banner */
+const offlineFileName = document.getElementById('offline-file-name') as HTMLElement | null
+/** DOM element for the retry button in the offline banner */
+const offlineRetryButton = document.getElementById('offline-retry') as HTMLButtonElement | null
 
 
 /** Tracks whether the portal iframe is ready to receive messages */
@@ -52,11 +91,37 @@ let readyTimeout: ReturnType<typeof setTimeout> | null = null
 let debugEnabled = false
 /** Tracks whether the timeout warning has been shown in this session */
 let timeoutWarningShown = false
+/** Current viewport settings (replaced by the persisted state sent from the extension) */
+let viewportState: ViewportState = {
+  device: 'desktop',
+  customWidth: 1024,
+  zoomToFit: true,
+  colorScheme: 'auto',
+}
+/** Whether the portal is considered unreachable and the offline rendering is requested */
+let offline = false
 
 
 /** Timeout in milliseconds to wait for portal ready signal (replaced at runtime via template variable) */
 const readyTimeoutMs: number = parseInt('{%%READY_TIMEOUT_MS%%}') || 5000
 
+/** Unique preview identifier of this panel (replaced at runtime via template variable) */
+const previewId: string = '{%%TEMPLATE_PREVIEW_ID%%}'
+
+/** Origin of the portal loaded in the iframe, the only target draft content is posted to (replaced at runtime via template variable) */
+const portalOrigin: string = '{%%TEMPLATE_PORTAL_ORIGIN%%}'
+
+/** Viewport widths in pixels for the device presets, desktop fills the panel */
+const VIEWPORT_WIDTHS: Record<string, number | null> = {
+  mobile: 375,
+  tablet: 768,
+  desktop: null,
+}
+
+/** Bounds for the custom viewport width in pixels */
+const MIN_VIEWPORT_WIDTH = 240
+const MAX_VIEWPORT_WIDTH = 3840
+
 
 /** Prefix for debug log messages */
 const DEBUG_LOG_PREFIX = '[Portal Preview Webview]'
@@ -130,6 +195,7 @@ function startReadyTimeout(): void {
       debug.log('Timeout reached - requesting current content from extension')
       vscode.postMessage({ type: 'webview:request:content' })
     }
+    enterOfflineMode()
   }, readyTimeoutMs)
 }
 
@@ -142,6 +208,45 @@ function clearReadyTimeout(): void {
   }
 }
 
+/** Asks the extension for a local rendering because the portal did not become ready */
+function enterOfflineMode(): void {
+  if (offline) {
+    return
+  }
+  debug.warn('Portal unreachable - requesting offline rendering')
+  offline = true
+  vscode.postMessage({ type: 'webview:offline', offline: true })
+}
+
+
+/** Hides the offline rendering once the portal is ready */
+function exitOfflineMode(): void {
+  if (!offline) {
+    return
+  }
+  debug.log('Portal reachable again - hiding offline rendering')
+  offline = false
+  if (offlinePreview) offlinePreview.classList.add('hidden')
+  if (offlineContent) offlineContent.innerHTML = ''
+  vscode.postMessage({ type: 'webview:offline', offline: false })
+}
+
+/**
+ * Handles offline rendering messages from the extension
+ * @param message - The offline rendering message with the escaped document HTML
+ */
+function handleOfflineRender(message: any): void {
+  // The portal may have become ready while the rendering was on its way
+  if (!offline) {
+    debug.log('Portal is ready, ignoring offline rendering')
+    return
+  }
+  if (offlineContent) offlineContent.innerHTML = message.html || ''
+  if (offlineFileName) offlineFileName.textContent = message.fileName || 'the document'
+  if (offlinePreview) offlinePreview.classList.remove('hidden')
+  hideLoading()
+}
+
 /**
  * Handles content update messages from the extension
  * @param message - The content update message
@@ -184,6 +289,29 @@ function handleContentUpdate(message: any): void {
   }
 }
 
+/**
+ * Handles snippet removal messages from the extension.
+ * The preview protocol has no removal action, so the snippet is updated with empty content.
+ * @param message - The snippet removal message
+ */
+function handleSnippetRemoval(message: any): void {
+  debug.log('handleSnippetRemoval called with:', {
+    previewId: message.previewId,
+    snippetName: message.snippetName,
+    iframeReady: iframeReady,
+  })
+  // The extension injects all snippets again once a reloading iframe is ready
+  if (!iframeReady || !message.snippetName) {
+    return
+  }
+  sendMessageToIframe({
+    preview_id: message.previewId || 'default-preview-id',
+    snippet_name: message.snippetName,
+    content: '',
+    action: PortalPreviewAction.UPDATE,
+  })
+}
+
 /**
  * Sends a message to the portal iframe
  * @param portalMessage - The message to send to the portal
@@ -200,7 +328,7 @@ function sendMessageToIframe(portalMessage: any): void {
   try {
     if (iframe && iframe.contentWindow) {
       debug.log('Sending postMessage to iframe with:', portalMessage)
-      iframe.contentWindow.postMessage(portalMessage, '*')
+      iframe.contentWindow.postMessage(portalMessage, portalOrigin)
     } else {
       console.error('Cannot send message - iframe or contentWindow not available')
     }
@@ -340,6 +468,7 @@ function handlePortalMessage(message: any): void {
     debug.log('Portal is ready!')
     clearReadyTimeout()
     iframeReady = true
+    exitOfflineMode()
     // Don't hide loading yet - wait for extension to finish snippet injection and content update
 
     if (pendingMessage) {
@@ -348,12 +477,42 @@ function handlePortalMessage(message: any): void {
       pendingMessage = null
     }
 
+    // The portal reloaded, re-apply the selected color scheme
+    sendColorScheme()
+
     // Always request content from extension to inject snippets and send latest page content
     debug.log('Requesting content from extension for snippet injection and page content')
     vscode.postMessage({ type: 'webview:request:content' })
+  } else if (message.action === PortalPreviewIncomingAction.SCROLL) {
+    // User scrolled to or clicked a block in the portal, reveal its source line in the editor
+    debug.log('Portal scrolled to source position:', { line: message.line, heading: message.heading })
+    vscode.postMessage({
+      type: 'webview:reveal:line',
+      line: typeof message.line === 'number' ? message.line : undefined,
+      heading: typeof message.heading === 'string' ? message.heading : undefined,
+    })
   }
 }
 
+/**
+ * Handles scroll messages from the extension
+ * @param message - The scroll message with the source line and heading
+ */
+function handleScroll(message: any): void {
+  // Scroll positions are only meaningful for the currently rendered content, never queue them
+  if (!iframeReady) {
+    debug.log('Iframe not ready, dropping scroll message')
+    return
+  }
+
+  sendMessageToIframe({
+    preview_id: message.previewId || 'default-preview-id',
+    line: message.line,
+    heading: message.heading || undefined,
+    action: PortalPreviewAction.SCROLL,
+  })
+}
+
 /**
  * Handles navigation messages from the extension
  * @param message - The navigation message
@@ -397,6 +556,108 @@ function handleNavigate(message: any): void {
 }
 
 
+/** Returns the width of the emulated viewport in pixels, or null to fill the panel */
+function getViewportWidth(): number | null {
+  if (viewportState.device === 'custom') {
+    return viewportState.customWidth
+  }
+  return VIEWPORT_WIDTHS[viewportState.device] ?? null
+}
+
+/** Resolves the color scheme to send to the portal, following the VS Code theme for 'auto' */
+function getColorScheme(): string {
+  if (viewportState.colorScheme === 'light' || viewportState.colorScheme === 'dark') {
+    return viewportState.colorScheme
+  }
+  return document.body.classList.contains('vscode-light') ? 'light' : 'dark'
+}
+
+/** Sizes and scales the viewport frame and syncs the toolbar controls with the viewport state */
+function applyViewport(): void {
+  viewportToolbar?.querySelectorAll('[data-device]').forEach((button) => {
+    button.classList.toggle('active', button.getAttribute('data-device') === viewportState.device)
+  })
+  if (customWidthInput) {
+    customWidthInput.value = String(viewportState.customWidth)
+    customWidthInput.disabled = viewportState.device !== 'custom'
+  }
+  if (zoomToFitInput) zoomToFitInput.checked = viewportState.zoomToFit
+  if (colorSchemeSelect) colorSchemeSelect.value = viewportState.colorScheme
+
+  if (!viewportFrame || !iframeContainer) {
+    return
+  }
+
+  const width = getViewportWidth()
+  if (width === null) {
+    viewportFrame.style.width = '100%'
+    viewportFrame.style.height = '100%'
+    viewportFrame.style.transform = 'translateX(-50%)'
+    viewportFrame.classList.remove('emulated')
+    if (viewportSizeLabel) viewportSizeLabel.textContent = 'Full width'
+    return
+  }
+
+  // Scale viewports wider than the panel down so the whole layout stays visible
+  const availableWidth = iframeContainer.clientWidth
+  const scale = viewportState.zoomToFit && availableWidth > 0 && width > availableWidth ? availableWidth / width : 1
+
+  viewportFrame.style.width = `${width}px`
+  // Grow the unscaled height so the scaled frame still fills the container
+  viewportFrame.style.height = `${100 / scale}%`
+  viewportFrame.style.transform = scale < 1 ? `translateX(-50%) scale(${scale})` : 'translateX(-50%)'
+  viewportFrame.classList.add('emulated')
+  if (viewportSizeLabel) {
+    viewportSizeLabel.textContent = scale < 1 ? `${width}px @ ${Math.round(scale * 100)}%` : `${width}px`
+  }
+}
+
+/** Sends the selected color scheme to the portal */
+function sendColorScheme(): void {
+  if (!iframeReady) {
+    return
+  }
+
+  sendMessageToIframe({
+    preview_id: previewId,
+    color_scheme: getColorScheme(),
+    action: PortalPreviewAction.COLOR_SCHEME,
+  })
+}
+
+/**
+ * Updates the viewport state from a toolbar interaction and reports it to the extension for persistence
+ * @param changes - The viewport settings that changed
+ */
+function updateViewport(changes: Partial<ViewportState>): void {
+  const previousColorScheme = viewportState.colorScheme
+  viewportState = { ...viewportState, ...changes }
+  debug.log('Viewport changed:', viewportState)
+  applyViewport()
+  if (viewportState.colorScheme !== previousColorScheme) {
+    sendColorScheme()
+  }
+  vscode.postMessage({ type: 'webview:viewport:changed', viewport: viewportState })
+}
+
+/**
+ * Handles viewport messages from the extension with the persisted viewport settings
+ * @param message - The viewport message
+ */
+function handleViewportUpdate(message: any): void {
+  if (!message.viewport) {
+    return
+  }
+
+  const previousColorScheme = viewportState.colorScheme
+  viewportState = { ...viewportState, ...message.viewport }
+  debug.log('Applying viewport from extension:', viewportState)
+  applyViewport()
+  if (viewportState.colorScheme !== previousColorScheme) {
+    sendColorScheme()
+  }
+}
+
 /**
  * Handles messages received from both extension and iframe
  * @param event - The message event
@@ -420,6 +681,9 @@ window.addEventListener('message', function(event: MessageEvent) {
     case 'webview:update:content':
       handleContentUpdate(message)
       break
+    case 'webview:remove:snippet':
+      handleSnippetRemoval(message)
+      break
     case 'webview:update:config':
       handleConfigUpdate(message)
       break
@@ -429,6 +693,15 @@ window.addEventListener('message', function(event: MessageEvent) {
     case 'webview:navigate':
       handleNavigate(message)
       break
+    case 'webview:scroll':
+      handleScroll(message)
+      break
+    case 'webview:update:viewport':
+      handleViewportUpdate(message)
+      break
+    case 'webview:render:offline':
+      handleOfflineRender(message)
+      break
     case 'webview:loading':
       handleLoadingState(message)
       break
@@ -467,6 +740,39 @@ if (iframe) {
 }
 
 
+/** Reloads the portal from the offline banner, the offline rendering stays visible until the portal is ready */
+offlineRetryButton?.addEventListener('click', function() {
+  handleRefreshPreview(null)
+})
+
+
+/** Sets up the viewport toolbar controls */
+if (viewportToolbar) {
+  viewportToolbar.querySelectorAll('[data-device]').forEach((button) => {
+    button.addEventListener('click', function() {
+      updateViewport({ device: button.getAttribute('data-device') as ViewportState['device'] })
+    })
+  })
+  customWidthInput?.addEventListener('change', function() {
+    const width = parseInt(customWidthInput.value)
+    if (isNaN(width)) {
+      applyViewport()
+      return
+    }
+    updateViewport({ customWidth: Math.min(MAX_VIEWPORT_WIDTH, Math.max(MIN_VIEWPORT_WIDTH, width)) })
+  })
+  zoomToFitInput?.addEventListener('change', function() {
+    updateViewport({ zoomToFit: zoomToFitInput.checked })
+  })
+  colorSchemeSelect?.addEventListener('change', function() {
+    updateViewport({ colorScheme: colorSchemeSelect.value as ViewportState['colorScheme'] })
+  })
+  // Re-fit emulated viewports when the panel is resized
+  window.addEventListener('resize', applyViewport)
+  applyViewport()
+}
+
+
 /** Initializes loading state and starts ready timeout if needed */
 if (iframe && loadingOverlay) {
   showLoading()
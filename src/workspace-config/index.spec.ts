@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Uri, window, workspace } from 'vscode'
+import { WorkspaceConfigService } from './index'
+import { ApiError } from '../konnect/api'
+
+vi.mock('vscode', () => {
+  class Uri {
+    constructor(public path: string) {}
+    static file = (path: string) => new Uri(path)
+    static joinPath = (base: Uri, ...segments: string[]) => new Uri([base.path, ...segments].join('/'))
+    toString() {
+      return `file://${this.path}`
+    }
+  }
+  return {
+    Uri,
+    commands: { executeCommand: vi.fn() },
+    EventEmitter: class {
+      event = vi.fn()
+      fire = vi.fn()
+      dispose = vi.fn()
+    },
+    RelativePattern: class {
+      constructor(public base: unknown, public pattern: string) {}
+    },
+    window: {
+      activeTextEditor: undefined,
+      showWarningMessage: vi.fn().mockResolvedValue(undefined),
+    },
+    workspace: {
+      workspaceFolders: [] as unknown[],
+      fs: { readFile: vi.fn() },
+      getWorkspaceFolder: vi.fn(),
+      getConfiguration: vi.fn(() => ({ get: vi.fn((_key: string, defaultValue: unknown) => defaultValue) })),
+      createFileSystemWatcher: vi.fn(() => ({ onDidCreate: vi.fn(), onDidChange: vi.fn(), onDidDelete: vi.fn(), dispose: vi.fn() })),
+      onDidChangeWorkspaceFolders: vi.fn(() => ({ dispose: vi.fn() })),
+    },
+  }
+})
+
+const DOCS = { uri: Uri.file('/workspace/docs'), name: 'docs', index: 0 }
+const OTHER = { uri: Uri.file('/workspace/other'), name: 'other', index: 1 }
+const PORTAL = { id: 'f32d905a-ed33-46a3-a093-d8f536af9a8a', name: 'docs', display_name: 'Docs', description: '', canonical_domain: 'docs.example.com' }
+
+describe('WorkspaceConfigService', () => {
+  let state: Map<string, unknown>
+  let files: Record<string, string>
+  let requestService: { fetchPortal: ReturnType<typeof vi.fn>, getRegion: ReturnType<typeof vi.fn> }
+  let service: WorkspaceConfigService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    state = new Map()
+    files = {
+      '/workspace/docs/.konnect/portal.json': JSON.stringify({ portalId: 'f32d905a-ed33-46a3-a093-d8f536af9a8a', pagesDirectory: 'content' }),
+    }
+    vi.mocked(workspace).workspaceFolders = [DOCS, OTHER] as any
+    vi.mocked(workspace.fs.readFile).mockImplementation(async (uri: any) => {
+      if (!(uri.path in files)) {
+        throw new Error('File not found')
+      }
+      return new TextEncoder().encode(files[uri.path])
+    })
+    vi.mocked(workspace.getWorkspaceFolder).mockImplementation((uri: any) =>
+      [DOCS, OTHER].find(folder => uri.path.startsWith(folder.uri.path)) as any)
+
+    const context = {
+      globalState: {
+        get: vi.fn((key: string) => state.get(key)),
+        update: vi.fn(async (key: string, value: unknown) => {
+          state.set(key, value)
+        }),
+      },
+    }
+    requestService = { fetchPortal: vi.fn().mockResolvedValue(PORTAL), getRegion: vi.fn().mockReturnValue('us') }
+    service = new WorkspaceConfigService(context as any, requestService as any)
+  })
+
+  it('should read the config file of each workspace folder', async () => {
+    await service.load()
+
+    expect(service.getFolderConfig(Uri.file('/workspace/docs/content/index.md'))).toEqual({ portalId: 'f32d905a-ed33-46a3-a093-d8f536af9a8a', pagesDirectory: 'content' })
+    expect(service.getFolderConfig(Uri.file('/workspace/other/pages/index.md'))).toBeUndefined()
+    // Multi-root workspaces need a resource to pick the folder
+    expect(service.getFolderConfig()).toBeUndefined()
+  })
+
+  it('should resolve the bound portal once and persist it', async () => {
+    await service.load()
+
+    const portal = await service.getBoundPortal(Uri.file('/workspace/docs/content/index.md'))
+    await service.getBoundPortal(Uri.file('/workspace/docs/content/guide.md'))
+
+    expect(portal).toEqual(expect.objectContaining({ id: 'f32d905a-ed33-46a3-a093-d8f536af9a8a', displayName: 'Docs', origin: 'https://docs.example.com' }))
+    expect(requestService.fetchPortal).toHaveBeenCalledTimes(1)
+    expect(requestService.fetchPortal).toHaveBeenCalledWith('f32d905a-ed33-46a3-a093-d8f536af9a8a')
+    expect(state.get('kong.konnect.devPortal.boundPortal:f32d905a-ed33-46a3-a093-d8f536af9a8a')).toEqual(portal)
+    expect(await service.getBoundPortal(Uri.file('/workspace/other/pages/index.md'))).toBeUndefined()
+  })
+
+  it('should fall back to the persisted portal when Konnect is unreachable', async () => {
+    await service.load()
+    const portal = await service.getBoundPortal(Uri.file('/workspace/docs/index.md'))
+
+    requestService.fetchPortal.mockRejectedValue(new Error('Network error'))
+    await service.load()
+
+    expect(await service.getBoundPortal(Uri.file('/workspace/docs/index.md'))).toEqual(portal)
+  })
+
+  it('should warn when the bound portal does not exist', async () => {
+    requestService.fetchPortal.mockRejectedValue(new ApiError('Not found', undefined, 404))
+    await service.load()
+
+    expect(await service.getBoundPortal(Uri.file('/workspace/docs/index.md'))).toBeUndefined()
+    expect(window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('Portal "f32d905a-ed33-46a3-a093-d8f536af9a8a"'))
+  })
+
+  it('should warn about invalid settings and a region that differs from the setting', async () => {
+    files['/workspace/other/.konnect/portal.json'] = JSON.stringify({ region: 'eu', pagesDirectory: '../pages' })
+
+    await service.load()
+
+    expect(service.getFolderConfig(Uri.file('/workspace/other/index.md'))).toEqual({ region: 'eu' })
+    expect(window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('"pagesDirectory" must be'))
+    expect(window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('declares the Konnect region "eu"'), 'Use Region')
+  })
+})
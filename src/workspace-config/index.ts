@@ -0,0 +1,198 @@
+import { commands, EventEmitter, RelativePattern, Uri, window, workspace } from 'vscode'
+import type { ConfigurationScope, Disposable, Event, ExtensionContext, WorkspaceFolder } from 'vscode'
+import { WORKSPACE_CONFIG_FILE } from '../constants/config'
+import { ApiError } from '../konnect/api'
+import type { KonnectRequestService } from '../konnect/request-service'
+import { toStoredPortalConfig } from '../portal-selection'
+import type { PortalBindingSource } from '../storage'
+import type { StoredPortalConfig } from '../types/konnect'
+import { WorkspaceConfigActions } from '../types/ui-actions'
+import { debug } from '../utils/debug'
+import { parseWorkspacePortalConfig } from './parse'
+import type { WorkspacePortalConfig } from './parse'
+
+/** globalState key prefix of the last resolved configuration of each bound portal */
+const BOUND_PORTAL_STATE_KEY = 'kong.konnect.devPortal.boundPortal'
+
+/**
+ * Reads the `.konnect/portal.json` files of the workspace folders, which bind a folder to a portal and set
+ * its pages and snippets directories. The files are watched and reloaded when they change.
+ */
+export class WorkspaceConfigService implements PortalBindingSource, Disposable {
+  private readonly changeEmitter = new EventEmitter<void>()
+
+  /** Fires after the config files were reloaded */
+  public readonly onDidChange: Event<void> = this.changeEmitter.event
+
+  /** Settings of the workspace folders with a config file, keyed by folder URI */
+  private configs = new Map<string, WorkspacePortalConfig>()
+
+  /** Bound portals resolved from the Konnect API, keyed by portal ID */
+  private readonly portals = new Map<string, Promise<StoredPortalConfig | undefined>>()
+
+  private watchers: Disposable[] = []
+  private readonly disposables: Disposable[] = []
+
+  constructor(
+    private readonly context: ExtensionContext,
+    private readonly requestService: KonnectRequestService,
+  ) {
+    this.disposables.push(workspace.onDidChangeWorkspaceFolders(() => {
+      this.watch()
+      this.reload()
+    }))
+    this.watch()
+  }
+
+  /**
+   * Returns the settings of the workspace folder of a resource
+   * @param scope The resource, or undefined for the only folder of single-folder workspaces
+   * @returns The settings of the folder config file, undefined if the folder has none
+   */
+  public getFolderConfig(scope?: ConfigurationScope): WorkspacePortalConfig | undefined {
+    const folder = this.getFolder(scope)
+    return folder ? this.configs.get(folder.uri.toString()) : undefined
+  }
+
+  /**
+   * Returns the portal bound to the workspace folder of a resource
+   * @param scope The resource, or undefined for the folder of the active editor
+   * @returns The bound portal, or undefined if the folder is not bound or the portal could not be found
+   */
+  public getBoundPortal(scope?: Uri): Promise<StoredPortalConfig | undefined> {
+    const portalId = this.getFolderConfig(scope ?? window.activeTextEditor?.document.uri)?.portalId
+    if (!portalId) {
+      return Promise.resolve(undefined)
+    }
+
+    let portal = this.portals.get(portalId)
+    if (!portal) {
+      portal = this.resolvePortal(portalId)
+      this.portals.set(portalId, portal)
+    }
+    return portal
+  }
+
+  /** Reads the config files of all workspace folders */
+  public async load(): Promise<void> {
+    const configs = new Map<string, WorkspacePortalConfig>()
+    for (const folder of workspace.workspaceFolders ?? []) {
+      const config = await this.readFolderConfig(folder)
+      if (config) {
+        configs.set(folder.uri.toString(), config)
+        // Not awaited, loading does not wait for the user to answer
+        this.checkRegion(folder, config).catch(error => debug.error('Failed to update the Konnect region:', error))
+      }
+    }
+
+    this.configs = configs
+    // Bound portals are resolved again in case a portal was created or renamed
+    this.portals.clear()
+    debug.log('Loaded workspace config files:', Object.fromEntries(configs))
+    this.changeEmitter.fire()
+  }
+
+  /** Reloads the config files, logging failures */
+  private reload(): void {
+    this.load().catch(error => debug.error('Failed to load workspace config files:', error))
+  }
+
+  /** Watches the config file of every workspace folder */
+  private watch(): void {
+    this.watchers.forEach(watcher => watcher.dispose())
+    this.watchers = (workspace.workspaceFolders ?? []).flatMap((folder) => {
+      const watcher = workspace.createFileSystemWatcher(new RelativePattern(folder, WORKSPACE_CONFIG_FILE))
+      return [
+        watcher,
+        watcher.onDidCreate(() => this.reload()),
+        watcher.onDidChange(() => this.reload()),
+        watcher.onDidDelete(() => this.reload()),
+      ]
+    })
+  }
+
+  /**
+   * Finds the workspace folder of a configuration scope
+   * @param scope The resource, document or folder
+   * @returns The workspace folder, the only folder of single-folder workspaces if there is no scope
+   */
+  private getFolder(scope?: ConfigurationScope): WorkspaceFolder | undefined {
+    if (!scope) {
+      return workspace.workspaceFolders?.length === 1 ? workspace.workspaceFolders[0] : undefined
+    }
+    const uri = scope instanceof Uri ? scope : scope.uri
+    return uri ? workspace.getWorkspaceFolder(uri) : undefined
+  }
+
+  /**
+   * Reads and parses the config file of a workspace folder, warning about invalid settings
+   * @param folder The workspace folder
+   * @returns The valid settings, undefined if the folder has no config file
+   */
+  private async readFolderConfig(folder: WorkspaceFolder): Promise<WorkspacePortalConfig | undefined> {
+    let text: string
+    try {
+      text = new TextDecoder().decode(await workspace.fs.readFile(Uri.joinPath(folder.uri, WORKSPACE_CONFIG_FILE)))
+    } catch {
+      return undefined
+    }
+
+    const { config, problems } = parseWorkspacePortalConfig(text)
+    if (problems.length > 0) {
+      debug.warn('Invalid workspace config file:', { folder: folder.name, problems })
+      window.showWarningMessage(`${WORKSPACE_CONFIG_FILE} of ${folder.name} has problems, the affected settings are ignored: ${problems.join(' ')}`)
+    }
+    return config
+  }
+
+  /**
+   * Offers to switch the Konnect region when a config file declares a different one, as requests
+   * are sent to the region of the active profile
+   * @param folder The workspace folder
+   * @param config The settings of its config file
+   */
+  private async checkRegion(folder: WorkspaceFolder, config: WorkspacePortalConfig): Promise<void> {
+    const region = this.requestService.getRegion()
+    if (!config.region || config.region === region) {
+      return
+    }
+
+    const action = await window.showWarningMessage(
+      `${WORKSPACE_CONFIG_FILE} of ${folder.name} declares the Konnect region "${config.region}", but requests are sent to "${region}".`,
+      WorkspaceConfigActions.USE_REGION,
+    )
+    if (action === WorkspaceConfigActions.USE_REGION) {
+      await commands.executeCommand('kong.konnect.selectRegion', config.region)
+      this.reload()
+    }
+  }
+
+  /**
+   * Looks up a bound portal in Konnect, falling back to the last resolved configuration
+   * @param portalId ID of the portal
+   * @returns The portal configuration, undefined if the portal does not exist or was never resolved
+   */
+  private async resolvePortal(portalId: string): Promise<StoredPortalConfig | undefined> {
+    const key = `${BOUND_PORTAL_STATE_KEY}:${portalId}`
+    try {
+      const config = toStoredPortalConfig(await this.requestService.fetchPortal(portalId))
+      debug.log('Resolved bound portal:', { id: config.id, displayName: config.displayName })
+      await this.context.globalState.update(key, config)
+      return config
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === 404) {
+        window.showWarningMessage(`Portal "${portalId}" from ${WORKSPACE_CONFIG_FILE} was not found, using the selected portal instead.`)
+        return undefined
+      }
+      // The persisted copy is used until the config files are reloaded
+      debug.warn('Failed to resolve bound portal, using the persisted copy:', error)
+      return this.context.globalState.get<StoredPortalConfig>(key)
+    }
+  }
+
+  public dispose(): void {
+    this.watchers.forEach(watcher => watcher.dispose())
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.changeEmitter.dispose()
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { parseWorkspacePortalConfig } from './parse'
+
+describe('parseWorkspacePortalConfig', () => {
+  it('should parse all supported keys', () => {
+    const text = JSON.stringify({ portalId: 'f32d905a-ed33-46a3-a093-d8f536af9a8a', region: 'eu', pagesDirectory: 'docs/pages', snippetsDirectory: ' docs/snippets ' })
+
+    expect(parseWorkspacePortalConfig(text)).toEqual({
+      config: { portalId: 'f32d905a-ed33-46a3-a093-d8f536af9a8a', region: 'eu', pagesDirectory: 'docs/pages', snippetsDirectory: 'docs/snippets' },
+      problems: [],
+    })
+  })
+
+  it('should report invalid JSON and non-object content', () => {
+    expect(parseWorkspacePortalConfig('{ portalId: ')).toEqual({ config: {}, problems: [expect.stringContaining('not valid JSON')] })
+    expect(parseWorkspacePortalConfig('["portal-1"]')).toEqual({ config: {}, problems: ['The file must contain a JSON object.'] })
+  })
+
+  it('should ignore invalid values and unknown keys while keeping the valid settings', () => {
+    const text = JSON.stringify({ portalId: 'f32d905a-ed33-46a3-a093-d8f536af9a8a', region: 'EU-1', pagesDirectory: '../pages', snippetsDirectory: 3, toString: 'x' })
+
+    const { config, problems } = parseWorkspacePortalConfig(text)
+
+    expect(config).toEqual({ portalId: 'f32d905a-ed33-46a3-a093-d8f536af9a8a' })
+    expect(problems).toEqual([
+      '"region" must be a region code such as "us" or "eu".',
+      '"pagesDirectory" must be a relative directory inside the workspace folder, separated by forward slashes.',
+      '"snippetsDirectory" must be a relative directory inside the workspace folder, separated by forward slashes.',
+      expect.stringContaining('Unknown key "toString"'),
+    ])
+  })
+
+  it('should only accept UUIDs as portal IDs', () => {
+    for (const portalId of ['portal-1', ' ', '$(touch pwned)', 'f32d905a-ed33-46a3-a093-d8f536af9a8a/../other']) {
+      expect(parseWorkspacePortalConfig(JSON.stringify({ portalId }))).toEqual({
+        config: {},
+        problems: ['"portalId" must be a portal ID such as "f32d905a-ed33-46a3-a093-d8f536af9a8a".'],
+      })
+    }
+  })
+
+  it('should reject directories outside the workspace folder', () => {
+    for (const pagesDirectory of ['/etc/pages', 'C:/pages', 'c:pages', 'docs\\pages', '..\\pages', 'docs/../../pages']) {
+      expect(parseWorkspacePortalConfig(JSON.stringify({ pagesDirectory })).config).toEqual({})
+    }
+    expect(parseWorkspacePortalConfig(JSON.stringify({ pagesDirectory: './docs/pages' })).config).toEqual({ pagesDirectory: './docs/pages' })
+  })
+})
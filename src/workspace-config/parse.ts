@@ -0,0 +1,79 @@
+import { isKonnectId } from '../konnect/ids'
+
+/** Workspace folder settings declared in `.konnect/portal.json` */
+export interface WorkspacePortalConfig {
+  /** ID of the portal the folder previews and publishes to */
+  portalId?: string
+  /** Konnect region of the portal, e.g. `eu` */
+  region?: string
+  /** Pages directory relative to the workspace folder, overriding the setting */
+  pagesDirectory?: string
+  /** Snippets directory relative to the workspace folder, overriding the setting */
+  snippetsDirectory?: string
+}
+
+/** Result of parsing a workspace config file */
+export interface ParsedWorkspacePortalConfig {
+  /** The valid settings of the file */
+  config: WorkspacePortalConfig
+  /** Invalid or unknown keys, described for the user */
+  problems: string[]
+}
+
+/** Matches a Konnect region code */
+const REGION_PATTERN = /^[a-z]{2,}$/
+
+/**
+ * Checks that a directory stays inside the workspace folder
+ * @param value The directory from the config file
+ * @returns Whether the directory is relative, uses forward slashes and has no `..` segments
+ */
+function isFolderDirectory(value: string): boolean {
+  const directory = value.trim()
+  return !directory.includes('\\') &&
+    !directory.startsWith('/') &&
+    !/^[a-zA-Z]:/.test(directory) &&
+    !directory.split('/').includes('..')
+}
+
+/** Keys of the workspace config file with the check of their values */
+const KEYS: Record<keyof WorkspacePortalConfig, { check: (value: string) => boolean, expected: string }> = {
+  portalId: { check: value => isKonnectId(value.trim()), expected: 'a portal ID such as "f32d905a-ed33-46a3-a093-d8f536af9a8a"' },
+  region: { check: value => REGION_PATTERN.test(value), expected: 'a region code such as "us" or "eu"' },
+  pagesDirectory: { check: isFolderDirectory, expected: 'a relative directory inside the workspace folder, separated by forward slashes' },
+  snippetsDirectory: { check: isFolderDirectory, expected: 'a relative directory inside the workspace folder, separated by forward slashes' },
+}
+
+/**
+ * Parses the content of a `.konnect/portal.json` file
+ * @param text The file content
+ * @returns The valid settings and the problems of the file. Invalid values are ignored so the
+ * remaining settings still apply.
+ */
+export function parseWorkspacePortalConfig(text: string): ParsedWorkspacePortalConfig {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return { config: {}, problems: [`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { config: {}, problems: ['The file must contain a JSON object.'] }
+  }
+
+  const config: WorkspacePortalConfig = {}
+  const problems: string[] = []
+  for (const [key, value] of Object.entries(data)) {
+    const definition = Object.keys(KEYS).includes(key) ? KEYS[key as keyof WorkspacePortalConfig] : undefined
+    if (!definition) {
+      problems.push(`Unknown key "${key}", expected one of ${Object.keys(KEYS).join(', ')}.`)
+    } else if (typeof value !== 'string' || !definition.check(value)) {
+      problems.push(`"${key}" must be ${definition.expected}.`)
+    } else {
+      config[key as keyof WorkspacePortalConfig] = value.trim()
+    }
+  }
+
+  return { config, problems }
+}